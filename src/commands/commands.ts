@@ -63,7 +63,7 @@ class CommandHandler {
     try {
       const item = Office.context.mailbox.item;
       if (item && item.itemId) {
-        this.emailAnalysisService.dismissEmail(item.itemId);
+        await this.emailAnalysisService.dismissEmail(item.itemId);
         this.showNotification("Email marked as followed up", "success");
       } else {
         this.showNotification("No email selected", "error");
@@ -84,7 +84,7 @@ class CommandHandler {
       const item = Office.context.mailbox.item;
       if (item && item.itemId) {
         // Snooze for 24 hours by default
-        this.emailAnalysisService.snoozeEmail(item.itemId, 24 * 60);
+        await this.emailAnalysisService.snoozeEmail(item.itemId, 24 * 60);
         this.showNotification("Email snoozed for 24 hours", "success");
       } else {
         this.showNotification("No email selected", "error");
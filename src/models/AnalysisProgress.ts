@@ -0,0 +1,12 @@
+// fetch: reading the folders, group: grouping emails by conversation,
+// analyze: reading and analyzing each conversation
+export type AnalysisPhase = "fetch" | "group" | "analyze";
+
+// Reported by EmailAnalysisService.analyzeEmails as it goes
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  emailCount: number; // Emails fetched, 0 while fetching
+  conversationCount: number; // Conversations to analyze, 0 until grouped
+  conversationsDone: number;
+  etaMs?: number; // Estimated time left, once a conversation is done
+}
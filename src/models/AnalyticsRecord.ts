@@ -0,0 +1,35 @@
+import { PriorityLevel } from "./PriorityScore";
+
+export type FollowupAction = "replied" | "snoozed" | "dismissed";
+
+export type AnalyticsRecordType =
+  | "analysis_run"
+  | "followup_found"
+  | "action"
+  | "resolved";
+
+// One persisted analytics event; fields beyond type and timestamp depend on the type
+export interface AnalyticsRecord {
+  id?: number; // Assigned by the store
+  type: AnalyticsRecordType;
+  timestamp: number; // Milliseconds since the epoch
+  emailId?: string; // followup_found, action, resolved
+  emailsAnalyzed?: number; // analysis_run
+  followupsFound?: number; // analysis_run
+  durationMs?: number; // analysis_run
+  priority?: PriorityLevel; // followup_found
+  action?: FollowupAction; // action
+  responseHours?: number; // resolved: time from the follow-up to the response
+}
+
+// Totals of one week, starting Monday
+export interface WeeklyAnalytics {
+  weekStart: string; // YYYY-MM-DD, local time
+  analysisRuns: number;
+  followupsFound: number;
+  replied: number;
+  snoozed: number;
+  dismissed: number;
+  resolved: number;
+  medianResolutionHours?: number; // Unset without resolved follow-ups
+}
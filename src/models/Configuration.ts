@@ -1,24 +1,47 @@
+import { NotificationSettings } from "./NotificationSettings";
+import { PriorityWeights } from "./PriorityScore";
+import { PromptTemplateId, PromptTemplateOverride } from "./PromptTemplate";
+
+// "ollama" and "openai-compatible" are self-hosted servers that don't need an API key
+export type LlmProvider =
+  | "azure"
+  | "dial"
+  | "openai"
+  | "anthropic"
+  | "ollama"
+  | "openai-compatible";
+
 export interface Configuration {
   emailCount: number;
   daysBack: number;
   lastAnalysisDate: Date;
-  autoRefreshInterval?: number; // minutes
+  autoRefreshInterval?: number; // minutes between background analyses while the task pane is open (0 = off)
+  notificationSettings?: NotificationSettings; // Newly overdue follow-ups found by background analysis
   priorityThresholds?: {
     high: number; // days without response
     medium: number;
     low: number;
   };
+  priorityWeights?: Partial<PriorityWeights>; // Points per scoring factor, defaults apply to missing ones
+  contactRules?: ContactRules; // VIP and never-track contacts, defaults apply when unset
+  adaptiveFollowupTiming?: boolean; // Flag a thread only once the recipients' usual response time has passed (default on)
+  workingCalendar?: WorkingCalendar; // Business days and hours that waiting time is counted in
   // Enhanced functionality
   snoozeOptions: SnoozeOption[];
+  emailTemplates: EmailTemplate[];
   // LLM Service Configuration
   enableLlmSummary: boolean;
   enableLlmSuggestions: boolean;
-  llmProvider?: "azure" | "dial" | "openai"; // API provider type (default: 'dial')
+  llmProvider?: LlmProvider; // API provider type (default: 'dial')
   llmApiEndpoint?: string; // Base URL for API calls (default: 'http://localhost:8080' for DIAL)
-  llmApiKey?: string; // API key for authentication
+  llmApiKey?: string; // API key for authentication (not needed for local providers)
   llmModel?: string; // Model name (default: 'gpt-4o-mini' for DIAL)
   llmApiVersion?: string; // For Azure OpenAI API version (default: '2024-02-01')
   llmDeploymentName?: string; // For Azure OpenAI deployment name
+  llmPricing?: LlmModelPrice[]; // Per-model prices for the usage ledger
+  llmDailyTokenBudget?: number; // AI features fall back to heuristics once today's tokens reach it (0 = no limit)
+  llmDailyCostBudget?: number; // Same for today's cost, in the currency of llmPricing (0 = no limit)
+  promptTemplates?: Partial<Record<PromptTemplateId, PromptTemplateOverride>>; // User-edited prompts, defaults apply otherwise
   selectedAccounts: string[]; // email addresses of accounts to analyze
   showSnoozedEmails: boolean;
   showDismissedEmails: boolean;
@@ -29,3 +52,30 @@ export interface SnoozeOption {
   value: number; // minutes
   isCustom?: boolean;
 }
+
+// Follow-up text with {firstName}, {subject}, {sentDate} and {daysWaiting} placeholders
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export interface ContactRules {
+  vipAddresses: string[]; // Follow-ups to these addresses get the VIP priority boost
+  vipDomains: string[]; // Same for every address at these domains and their subdomains
+  neverTrack: string[]; // Addresses, "@domain" or "*" patterns (e.g. "no-reply@*") that are never followed up
+}
+
+export interface WorkingCalendar {
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday
+  workStart: string; // "HH:MM"
+  workEnd: string; // "HH:MM", after workStart
+  timeZone?: string; // IANA name such as "Europe/Berlin", the system time zone when unset
+  holidays: string[]; // "YYYY-MM-DD" dates that are not worked
+}
+
+export interface LlmModelPrice {
+  model: string; // exact model name, or a prefix such as "gpt-4o-mini" to cover dated versions
+  promptPerMillion: number; // price per 1M prompt tokens
+  completionPerMillion: number; // price per 1M completion tokens
+}
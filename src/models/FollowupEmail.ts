@@ -1,3 +1,6 @@
+import { LlmUsage, Urgency } from "./LlmAnalysis";
+import { PriorityFactorScore } from "./PriorityScore";
+
 export interface FollowupEmail {
   id: string;
   subject: string;
@@ -6,7 +9,10 @@ export interface FollowupEmail {
   body: string;
   summary: string;
   priority: "high" | "medium" | "low";
-  daysWithoutResponse: number;
+  priorityScore?: number; // 0-100, see PriorityScoringService
+  priorityBreakdown?: PriorityFactorScore[]; // Why the email got its priority, largest factor first
+  daysWithoutResponse: number; // Business days, see WorkingCalendarService
+  businessHoursWithoutResponse?: number;
   conversationId?: string;
   hasAttachments: boolean;
   // New properties
@@ -14,8 +20,15 @@ export interface FollowupEmail {
   threadMessages: ThreadMessage[];
   isSnoozed: boolean;
   snoozeUntil?: Date;
+  returnedFromSnooze?: boolean; // Its snooze expired without a reply, see FollowupStateService
+  expectedResponseHours?: number; // Recipients' usual response time in working hours, when known
   isDismissed: boolean;
   llmSuggestion?: string;
+  // All drafts from the follow-up analysis; llmSuggestion is the first
+  llmSuggestions?: string[];
+  llmNextStep?: string;
+  llmUrgency?: Urgency;
+  llmUsage?: LlmUsage;
   llmSummary?: string;
   sentiment?: "positive" | "neutral" | "negative" | "urgent"; // Add sentiment field
 }
@@ -31,6 +44,7 @@ export interface ThreadMessage {
   receivedDate?: Date; // New: DateTimeReceived for accurate last-message determination
   body: string;
   isFromCurrentUser: boolean;
+  hasAttachments?: boolean;
 }
 
 export interface SnoozeOption {
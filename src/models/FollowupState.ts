@@ -0,0 +1,25 @@
+export interface SnoozeEntry {
+  until: string; // ISO date when the snooze expires
+  snoozedAt: string; // ISO date when the snooze was set
+}
+
+// A follow-up whose snooze expired, until the user acts on it again
+export interface ReturnedEntry {
+  returnedAt: string; // ISO date when the snooze expired
+  checked: boolean; // Whether the thread has been re-evaluated since
+}
+
+// Outcome of re-evaluating a thread after its snooze expired
+export interface SnoozeExpiry {
+  emailId: string;
+  subject: string;
+  status: "returned" | "replied"; // Still waiting for a reply, or answered while snoozed and closed
+}
+
+export interface FollowupState {
+  version: number;
+  snoozed: { [emailId: string]: SnoozeEntry };
+  dismissed: { [emailId: string]: string }; // emailId -> ISO date dismissed
+  returned: { [emailId: string]: ReturnedEntry };
+  updatedAt: string; // ISO date of the last write, used to pick the freshest copy
+}
@@ -0,0 +1,27 @@
+export type Sentiment = "positive" | "neutral" | "negative" | "urgent";
+
+export type Urgency = "high" | "medium" | "low";
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface FollowupNeed {
+  needsFollowup: boolean;
+  reason: string;
+}
+
+/** Everything the follow-up card needs about a thread, from one LLM call */
+export interface FollowupAnalysis {
+  summary: string;
+  sentiment: Sentiment;
+  urgency: Urgency;
+  needsFollowup: boolean;
+  followupReason: string;
+  nextStep: string;
+  drafts: string[];
+  // Tokens spent on the analysis, including a repair request if one was needed
+  usage?: LlmUsage;
+}
@@ -0,0 +1,43 @@
+import { LlmUsage } from "./LlmAnalysis";
+
+/** What an LLM call was made for, used to break down token usage */
+export type LlmOperation =
+  | "summary"
+  | "sentiment"
+  | "suggestion"
+  | "followup_analysis"
+  | "followup_need"
+  | "tone"
+  | "health_check"
+  | "completion";
+
+export interface LlmUsageTotals extends LlmUsage {
+  calls: number;
+  cost: number; // in the currency of the configured prices, 0 for unpriced models
+}
+
+export interface LlmUsageRecord extends LlmUsageTotals {
+  day: string; // local date, YYYY-MM-DD
+  operation: LlmOperation;
+  model: string;
+}
+
+export interface LlmUsageLedger {
+  version: number;
+  records: LlmUsageRecord[]; // one per day, operation and model
+  updatedAt: string;
+}
+
+export interface LlmDailyUsage extends LlmUsageTotals {
+  day: string;
+  byOperation: Partial<Record<LlmOperation, LlmUsageTotals>>;
+  byModel: { [model: string]: LlmUsageTotals };
+}
+
+export interface LlmBudgetStatus {
+  exceeded: boolean;
+  tokensUsed: number;
+  costUsed: number;
+  tokenBudget?: number;
+  costBudget?: number;
+}
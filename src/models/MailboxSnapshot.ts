@@ -0,0 +1,23 @@
+export interface SnapshotMessage {
+  id: string;
+  conversationId?: string; // defaults to the message id
+  folder?: string; // e.g. "sentitems" or "inbox"; inferred from the sender when missing
+  subject: string;
+  from: string;
+  to: string[];
+  cc?: string[];
+  sentDateTime: string; // ISO date
+  receivedDateTime?: string; // ISO date
+  body: string;
+}
+
+export interface MailboxSnapshot {
+  userEmail: string; // mailbox owner, used to tell sent from received mail
+  capturedAt?: string; // ISO date; when set, message dates are shifted so the snapshot looks captured "now"
+  messages: SnapshotMessage[];
+}
+
+export interface EmlFile {
+  name: string;
+  content: string;
+}
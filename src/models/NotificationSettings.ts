@@ -0,0 +1,24 @@
+import { PriorityLevel } from "./PriorityScore";
+
+export interface NotificationSettings {
+  enabled: boolean;
+  minPriority: PriorityLevel; // Only follow-ups at this priority or above are notified
+  quietHoursStart?: string; // "HH:MM", no notification messages from then...
+  quietHoursEnd?: string; // ...until this time, may be on the next day
+}
+
+// Newly overdue, back from an expired snooze, or answered while snoozed
+export type FollowupNotificationKind = "overdue" | "returned" | "replied";
+
+// An entry in the in-pane notification center
+export interface FollowupNotification {
+  id: string;
+  kind: FollowupNotificationKind;
+  emailId: string;
+  subject: string;
+  priority?: PriorityLevel; // Set for overdue follow-ups
+  daysWithoutResponse?: number; // Set for overdue follow-ups
+  createdAt: string; // ISO timestamp
+  read: boolean;
+  silent: boolean; // Arrived during quiet hours, so no Outlook message was shown
+}
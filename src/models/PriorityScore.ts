@@ -0,0 +1,35 @@
+export type PriorityLevel = "high" | "medium" | "low";
+
+export type PriorityFactor =
+  | "daysWaiting"
+  | "threadLength"
+  | "sentiment"
+  | "recipientImportance"
+  | "attachments"
+  | "externalDomain";
+
+// Points a factor adds at full strength; 50 points make an email high priority, 25 medium
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+export interface PriorityFactorScore {
+  factor: PriorityFactor;
+  points: number;
+  // Human-readable reason, e.g. "Waiting 8 days"
+  reason: string;
+}
+
+export interface PriorityScore {
+  score: number; // 0-100
+  level: PriorityLevel;
+  // Contributing factors, largest first; factors that added nothing are left out
+  breakdown: PriorityFactorScore[];
+}
+
+export interface PriorityInput {
+  daysWaiting: number;
+  threadLength: number;
+  sentiment?: "positive" | "neutral" | "negative" | "urgent";
+  recipients: string[];
+  hasAttachments: boolean;
+  userEmail?: string;
+}
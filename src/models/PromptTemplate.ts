@@ -0,0 +1,28 @@
+export type PromptTemplateId =
+  | "followup_suggestions"
+  | "summary"
+  | "tone"
+  | "thread_analysis"
+  | "followup_need"
+  | "followup_analysis";
+
+/** A prompt shipped in code; `{name}` placeholders are filled in when rendered */
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  version: number; // bumped whenever the default text changes
+  variables: string[];
+  template: string;
+}
+
+/** A user's replacement for a default template, stored in the configuration */
+export interface PromptTemplateOverride {
+  template: string;
+  baseVersion: number; // version of the default the override was written against
+  updatedAt: string;
+}
+
+export type PromptVariables = {
+  [name: string]: string | number | undefined;
+};
@@ -0,0 +1,20 @@
+import { FollowupEmail } from "./FollowupEmail";
+
+// A follow-up that got a response, found by the reply check
+export interface ResolvedFollowup {
+  emailId: string;
+  conversationId?: string;
+  subject: string;
+  recipients: string[];
+  sentDate: string; // ISO timestamp of the follow-up
+  responder: string; // Sender of the first response
+  respondedAt: string; // ISO timestamp of the first response
+  responseHours: number; // Elapsed hours from the follow-up to the response
+  businessHours: number; // The same in working hours of the configured calendar
+  resolvedAt: string; // ISO timestamp of the check that found the response
+}
+
+export interface ReplyCheckResult {
+  resolved: ResolvedFollowup[];
+  remaining: FollowupEmail[]; // Follow-ups still waiting, or whose thread could not be fetched
+}
@@ -0,0 +1,19 @@
+// One message of the user's to one recipient, and that recipient's first response to it
+export interface ResponseSample {
+  requestId: string; // Id of the user's message
+  contact: string; // Lower-case address of the recipient
+  sentAt: string; // ISO timestamp of the user's message
+  repliedAt?: string; // ISO timestamp of the response, unset while unanswered
+}
+
+export type ResponseTrend = "faster" | "slower" | "steady";
+
+// How a contact or a whole domain responds
+export interface ResponseTimeStats {
+  key: string; // Address or domain
+  requests: number; // Messages answered, or unanswered long enough to count as missed
+  replies: number;
+  replyRate: number; // 0 to 1
+  medianHours?: number; // Working hours to respond, unset without responses
+  trend?: ResponseTrend; // Last 30 days against the time before, when both have responses
+}
@@ -0,0 +1,302 @@
+import {
+  AnalyticsRecord,
+  FollowupAction,
+  WeeklyAnalytics,
+} from "../models/AnalyticsRecord";
+import { FollowupEmail } from "../models/FollowupEmail";
+import { ResolvedFollowup } from "../models/ResolvedFollowup";
+import { IndexedDbStore } from "./IndexedDbStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CSV_COLUMNS: (keyof AnalyticsRecord)[] = [
+  "type",
+  "timestamp",
+  "emailId",
+  "emailsAnalyzed",
+  "followupsFound",
+  "durationMs",
+  "priority",
+  "action",
+  "responseHours",
+];
+
+/**
+ * Persisted history of analysis runs, follow-ups found, actions taken on
+ * them and how long they took to get a response, for the weekly charts in
+ * the stats dashboard and the JSON/CSV export.
+ *
+ * Records live in IndexedDB for a year; without IndexedDB they are kept in
+ * memory for the session. Recording never throws: losing an event is better
+ * than failing the action it describes.
+ */
+export class AnalyticsService {
+  private readonly DB_NAME = "followup-suggester-analytics";
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = "records";
+  private readonly RETENTION_DAYS = 365;
+
+  private store?: IndexedDbStore;
+  private memory: AnalyticsRecord[] = [];
+  // Threads already recorded as found, so each is counted once
+  private knownFollowups: Promise<Set<string>> | null = null;
+  private pruned = false;
+
+  constructor(useIndexedDb: boolean = IndexedDbStore.isSupported()) {
+    if (useIndexedDb) {
+      this.store = new IndexedDbStore(
+        this.DB_NAME,
+        this.DB_VERSION,
+        (db, oldVersion) => {
+          if (oldVersion < 1) {
+            db.createObjectStore(this.STORE_NAME, {
+              keyPath: "id",
+              autoIncrement: true,
+            }).createIndex("timestamp", "timestamp");
+          }
+        },
+      );
+    }
+  }
+
+  public async recordAnalysisRun(
+    run: { emailsAnalyzed: number; followupsFound: number; durationMs: number },
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.add([
+      { type: "analysis_run", timestamp: now.getTime(), ...run },
+    ]);
+  }
+
+  /** Record the follow-ups not seen by an earlier analysis */
+  public async recordFollowupsFound(
+    emails: FollowupEmail[],
+    now: Date = new Date(),
+  ): Promise<void> {
+    const known = await this.getKnownFollowups();
+    const found = emails.filter((email) => !known.has(email.id));
+    found.forEach((email) => known.add(email.id));
+    await this.add(
+      found.map((email) => ({
+        type: "followup_found" as const,
+        timestamp: now.getTime(),
+        emailId: email.id,
+        priority: email.priority,
+      })),
+    );
+  }
+
+  public async recordAction(
+    emailIds: string[],
+    action: FollowupAction,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.add(
+      emailIds.map((emailId) => ({
+        type: "action" as const,
+        timestamp: now.getTime(),
+        emailId,
+        action,
+      })),
+    );
+  }
+
+  public async recordResolved(resolved: ResolvedFollowup[]): Promise<void> {
+    await this.add(
+      resolved.map((entry) => ({
+        type: "resolved" as const,
+        timestamp: new Date(entry.resolvedAt).getTime(),
+        emailId: entry.emailId,
+        responseHours: entry.responseHours,
+      })),
+    );
+  }
+
+  /** Records, oldest first */
+  public async getRecords(since?: Date): Promise<AnalyticsRecord[]> {
+    let records: AnalyticsRecord[];
+    if (this.store) {
+      try {
+        records = await this.store.getAll<AnalyticsRecord>(this.STORE_NAME);
+      } catch (error) {
+        console.warn("Error loading analytics:", error);
+        records = [];
+      }
+    } else {
+      records = [...this.memory];
+    }
+    return records
+      .filter((record) => !since || record.timestamp >= since.getTime())
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /** Totals of the last `weeks` weeks including the current one, oldest first */
+  public async getWeeklySummary(
+    weeks = 8,
+    now: Date = new Date(),
+  ): Promise<WeeklyAnalytics[]> {
+    const currentWeek = this.getWeekStart(now.getTime());
+    const starts: Date[] = [];
+    for (let i = weeks - 1; i >= 0; i--) {
+      const start = new Date(currentWeek);
+      start.setDate(start.getDate() - i * 7);
+      starts.push(start);
+    }
+
+    const summary = starts.map((start) => ({
+      weekStart: this.formatDate(start),
+      analysisRuns: 0,
+      followupsFound: 0,
+      replied: 0,
+      snoozed: 0,
+      dismissed: 0,
+      resolved: 0,
+      resolutionHours: [] as number[],
+    }));
+    const byWeek = new Map(summary.map((week) => [week.weekStart, week]));
+    (await this.getRecords(starts[0])).forEach((record) => {
+      const week = byWeek.get(
+        this.formatDate(this.getWeekStart(record.timestamp)),
+      );
+      if (!week) {
+        return;
+      }
+      switch (record.type) {
+        case "analysis_run":
+          week.analysisRuns++;
+          break;
+        case "followup_found":
+          week.followupsFound++;
+          break;
+        case "action":
+          if (record.action) {
+            week[record.action]++;
+          }
+          break;
+        case "resolved":
+          week.resolved++;
+          if (record.responseHours !== undefined) {
+            week.resolutionHours.push(record.responseHours);
+          }
+          break;
+      }
+    });
+
+    return summary.map(({ resolutionHours, ...week }) => ({
+      ...week,
+      medianResolutionHours: this.median(resolutionHours),
+    }));
+  }
+
+  public async exportJson(): Promise<string> {
+    return JSON.stringify(
+      (await this.getRecords()).map((record) => ({
+        ...record,
+        id: undefined,
+        timestamp: new Date(record.timestamp).toISOString(),
+      })),
+      null,
+      2,
+    );
+  }
+
+  public async exportCsv(): Promise<string> {
+    const rows = (await this.getRecords()).map((record) =>
+      CSV_COLUMNS.map((column) =>
+        column === "timestamp"
+          ? new Date(record.timestamp).toISOString()
+          : this.toCsvField(record[column]),
+      ).join(","),
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n");
+  }
+
+  public async clear(): Promise<void> {
+    this.memory = [];
+    this.knownFollowups = null;
+    if (this.store) {
+      try {
+        await this.store.clear(this.STORE_NAME);
+      } catch (error) {
+        console.warn("Error clearing analytics:", error);
+      }
+    }
+  }
+
+  private async add(records: AnalyticsRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    if (!this.store) {
+      this.memory.push(...records);
+      return;
+    }
+    try {
+      await this.store.putAll(this.STORE_NAME, records);
+      await this.prune();
+    } catch (error) {
+      console.warn("Error saving analytics, keeping them in memory:", error);
+      this.store = undefined;
+      this.memory.push(...records);
+    }
+  }
+
+  // Once per session, drop records past the retention period
+  private async prune(): Promise<void> {
+    if (this.pruned || !this.store) {
+      return;
+    }
+    this.pruned = true;
+    await this.store.delete(
+      this.STORE_NAME,
+      IDBKeyRange.upperBound(Date.now() - this.RETENTION_DAYS * DAY_MS),
+    );
+  }
+
+  private getKnownFollowups(): Promise<Set<string>> {
+    if (!this.knownFollowups) {
+      this.knownFollowups = this.getRecords().then(
+        (records) =>
+          new Set(
+            records
+              .filter((record) => record.type === "followup_found")
+              .map((record) => record.emailId!),
+          ),
+      );
+    }
+    return this.knownFollowups;
+  }
+
+  // Monday 00:00 local time of the week containing `timestamp`
+  private getWeekStart(timestamp: number): Date {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date;
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private median(values: number[]): number | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private toCsvField(value: unknown): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
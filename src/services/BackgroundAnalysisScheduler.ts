@@ -0,0 +1,118 @@
+import { FollowupEmail } from "../models/FollowupEmail";
+import { PriorityLevel } from "../models/PriorityScore";
+
+// Runs the analysis; null skips this round, e.g. while a manual analysis is running
+export type BackgroundAnalysis = () => Promise<FollowupEmail[] | null>;
+
+const PRIORITY_RANK: Record<PriorityLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * Reruns the analysis on an interval while the task pane is open and reports
+ * the follow-ups that are newly overdue: threads that were not in the
+ * previous result, or whose priority has gone up since.
+ *
+ * The first result only becomes the baseline, so opening the task pane does
+ * not report every follow-up at once.
+ */
+export class BackgroundAnalysisScheduler {
+  private analyze: BackgroundAnalysis;
+  private onNewlyOverdue: (emails: FollowupEmail[]) => Promise<void> | void;
+  private timer?: ReturnType<typeof setInterval>;
+  // Priority per thread in the previous result, null until there is one
+  private previous: Map<string, PriorityLevel> | null = null;
+  private running = false;
+
+  constructor(
+    analyze: BackgroundAnalysis,
+    onNewlyOverdue: (emails: FollowupEmail[]) => Promise<void> | void,
+  ) {
+    this.analyze = analyze;
+    this.onNewlyOverdue = onNewlyOverdue;
+  }
+
+  /** (Re)start with the given interval; 0 or less stops background analysis */
+  public start(intervalMinutes: number): void {
+    this.stop();
+    if (intervalMinutes > 0) {
+      this.timer = setInterval(
+        () => {
+          void this.runNow();
+        },
+        intervalMinutes * 60 * 1000,
+      );
+    }
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public isActive(): boolean {
+    return !!this.timer;
+  }
+
+  /** Compare the next run against `emails`, e.g. the result of a manual analysis */
+  public setBaseline(emails: FollowupEmail[]): void {
+    this.previous = this.toPriorityMap(emails);
+  }
+
+  /**
+   * Run one analysis now; overlapping runs are skipped.
+   * @returns the newly overdue follow-ups that were reported
+   */
+  public async runNow(): Promise<FollowupEmail[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+    try {
+      const emails = await this.analyze();
+      if (!emails) {
+        return [];
+      }
+      const newlyOverdue = this.previous
+        ? this.findNewlyOverdue(emails, this.previous)
+        : [];
+      this.previous = this.toPriorityMap(emails);
+      if (newlyOverdue.length > 0) {
+        await this.onNewlyOverdue(newlyOverdue);
+      }
+      return newlyOverdue;
+    } catch (error) {
+      console.warn("Background analysis failed:", error);
+      return [];
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private findNewlyOverdue(
+    emails: FollowupEmail[],
+    previous: Map<string, PriorityLevel>,
+  ): FollowupEmail[] {
+    return emails.filter((email) => {
+      const before = previous.get(this.getKey(email));
+      return (
+        before === undefined ||
+        PRIORITY_RANK[email.priority] > PRIORITY_RANK[before]
+      );
+    });
+  }
+
+  private toPriorityMap(emails: FollowupEmail[]): Map<string, PriorityLevel> {
+    return new Map(
+      emails.map((email) => [this.getKey(email), email.priority] as const),
+    );
+  }
+
+  private getKey(email: FollowupEmail): string {
+    return email.conversationId || email.id;
+  }
+}
@@ -124,6 +124,17 @@ export class CacheService implements ICacheService {
     return this.cache.delete(key);
   }
 
+  /** The entry stored for `key`, including its metadata */
+  public getEntry(key: string): CacheEntry<any> | undefined {
+    return this.cache.get(key);
+  }
+
+  /** When the entry for `key` expires, in milliseconds since the epoch */
+  public getExpiry(key: string): number | undefined {
+    const entry = this.cache.get(key);
+    return entry ? entry.timestamp + entry.ttl : undefined;
+  }
+
   public clear(): void {
     this.cache.clear();
     this.stats.totalEvictions += this.cache.size;
@@ -1,17 +1,37 @@
-import { Configuration } from "../models/Configuration";
+import {
+  Configuration,
+  ContactRules,
+  EmailTemplate,
+  LlmModelPrice,
+  WorkingCalendar,
+} from "../models/Configuration";
 import { FollowupEmail } from "../models/FollowupEmail";
-import { CacheService } from "./CacheService";
+import { NotificationSettings } from "../models/NotificationSettings";
+import { PriorityWeights } from "../models/PriorityScore";
+import {
+  PromptTemplateId,
+  PromptTemplateOverride,
+} from "../models/PromptTemplate";
+import { TieredCacheService } from "./TieredCacheService";
+import { DEFAULT_EMAIL_TEMPLATES } from "./EmailTemplates";
+import { LlmService } from "./LlmService";
 
 export class ConfigurationService {
   private readonly STORAGE_KEY = "followup-suggester-config";
-  private cacheService: CacheService;
+  // Analysis results are persisted so the task pane finds those of the ribbon command
+  private cacheService: TieredCacheService;
 
   constructor() {
-    this.cacheService = new CacheService({
-      defaultTtl: 30 * 60 * 1000, // 30 minutes
-      maxMemoryUsage: 10 * 1024 * 1024, // 10MB
-      maxEntries: 1000,
-    });
+    this.cacheService = new TieredCacheService(
+      "followup-suggester-results",
+      1,
+      (key) => key.startsWith("analysis_results_"),
+      {
+        defaultTtl: 30 * 60 * 1000, // 30 minutes
+        maxMemoryUsage: 10 * 1024 * 1024, // 10MB
+        maxEntries: 1000,
+      },
+    );
   }
 
   private readonly DEFAULT_CONFIG: Configuration = {
@@ -34,6 +54,7 @@ export class ConfigurationService {
       { label: "1 week", value: 10080 },
       { label: "Custom...", value: 0, isCustom: true },
     ],
+    emailTemplates: DEFAULT_EMAIL_TEMPLATES,
     enableLlmSummary: false,
     enableLlmSuggestions: false,
     // DIAL API default configuration
@@ -261,17 +282,133 @@ export class ConfigurationService {
     await this.saveConfiguration(config);
   }
 
+  /**
+   * Update the LLM connection from the settings modal
+   * @param connection - provider, model and Azure options; a provider of
+   * undefined means it is detected from the endpoint
+   */
   public async updateLlmSettings(
     endpoint: string,
     apiKey: string,
     enableSummary: boolean,
     enableSuggestions: boolean,
+    connection?: Pick<
+      Configuration,
+      "llmProvider" | "llmModel" | "llmDeploymentName" | "llmApiVersion"
+    >,
   ): Promise<void> {
     const config = await this.getConfiguration();
     config.llmApiEndpoint = endpoint;
     config.llmApiKey = apiKey;
     config.enableLlmSummary = enableSummary;
     config.enableLlmSuggestions = enableSuggestions;
+    if (connection) {
+      config.llmProvider = connection.llmProvider;
+      config.llmModel = connection.llmModel;
+      config.llmDeploymentName = connection.llmDeploymentName;
+      config.llmApiVersion = connection.llmApiVersion;
+    }
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Update the model prices and daily budget used by the LLM usage ledger
+   * @param dailyTokenBudget - tokens per day, 0 for no limit
+   * @param dailyCostBudget - cost per day in the currency of `pricing`, 0 for no limit
+   */
+  public async updateLlmBudget(
+    pricing: LlmModelPrice[],
+    dailyTokenBudget: number,
+    dailyCostBudget: number,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.llmPricing = pricing;
+    config.llmDailyTokenBudget = dailyTokenBudget;
+    config.llmDailyCostBudget = dailyCostBudget;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Store a user-edited prompt template
+   * @param id - template to replace
+   * @param override - the new template, or undefined to go back to the default
+   */
+  public async savePromptTemplate(
+    id: PromptTemplateId,
+    override: PromptTemplateOverride | undefined,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    const promptTemplates = { ...config.promptTemplates };
+    if (override) {
+      promptTemplates[id] = override;
+    } else {
+      delete promptTemplates[id];
+    }
+    config.promptTemplates = promptTemplates;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Update the priority scoring weights
+   * @param weights - points per factor, missing factors use the defaults
+   */
+  public async updatePriorityScoring(
+    weights: Partial<PriorityWeights>,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.priorityWeights = weights;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Update the VIP and never-track contact rules
+   * @param rules - entries are normalized by ContactRulesService when read
+   */
+  public async updateContactRules(rules: ContactRules): Promise<void> {
+    const config = await this.getConfiguration();
+    config.contactRules = rules;
+    await this.saveConfiguration(config);
+  }
+
+  /** Turn waiting for each contact's usual response time on or off */
+  public async updateAdaptiveFollowupTiming(enabled: boolean): Promise<void> {
+    const config = await this.getConfiguration();
+    config.adaptiveFollowupTiming = enabled;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Update the work week, working hours, time zone and holidays
+   * @param calendar - checked with WorkingCalendarService.validate by the caller
+   */
+  public async updateWorkingCalendar(calendar: WorkingCalendar): Promise<void> {
+    const config = await this.getConfiguration();
+    config.workingCalendar = calendar;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Update background analysis and the notifications it raises
+   * @param autoRefreshInterval - minutes between background analyses, 0 turns them off
+   * @param settings - priority rule and quiet hours
+   */
+  public async updateNotificationSettings(
+    autoRefreshInterval: number,
+    settings: NotificationSettings,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.autoRefreshInterval = autoRefreshInterval;
+    config.notificationSettings = settings;
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Replace the follow-up template library
+   * @param templates - the full library, including edited defaults
+   */
+  public async saveEmailTemplates(templates: EmailTemplate[]): Promise<void> {
+    const config = await this.getConfiguration();
+    config.emailTemplates = templates;
     await this.saveConfiguration(config);
   }
 
@@ -348,6 +485,67 @@ export class ConfigurationService {
     await this.saveConfiguration(config);
   }
 
+  /**
+   * Configure Anthropic API
+   * @param apiKey - Anthropic API key
+   * @param model - Model name (default: 'claude-haiku-4-5')
+   * @param apiEndpoint - API endpoint (default: 'https://api.anthropic.com')
+   */
+  public async setupAnthropic(
+    apiKey: string,
+    model?: string,
+    apiEndpoint?: string,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.llmProvider = "anthropic";
+    config.llmApiEndpoint = apiEndpoint || "https://api.anthropic.com";
+    config.llmApiKey = apiKey;
+    config.llmModel = model || "claude-haiku-4-5";
+    config.llmApiVersion = ""; // Not used for Anthropic
+    config.llmDeploymentName = ""; // Not used for Anthropic
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Configure a local Ollama server (no API key needed)
+   * @param apiEndpoint - Ollama server URL (default: 'http://localhost:11434')
+   * @param model - Model name as listed by `ollama list` (default: 'llama3.1')
+   */
+  public async setupOllama(
+    apiEndpoint?: string,
+    model?: string,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.llmProvider = "ollama";
+    config.llmApiEndpoint = apiEndpoint || "http://localhost:11434";
+    config.llmApiKey = "";
+    config.llmModel = model || "llama3.1";
+    config.llmApiVersion = ""; // Not used for Ollama
+    config.llmDeploymentName = ""; // Not used for Ollama
+    await this.saveConfiguration(config);
+  }
+
+  /**
+   * Configure a self-hosted OpenAI-compatible server (llama.cpp, vLLM, LM Studio)
+   * @param apiEndpoint - Server URL, e.g. 'http://localhost:8080'
+   * @param model - Model name; many single-model servers ignore it
+   * @param apiKey - Only needed when the server sits behind an authenticating proxy
+   */
+  public async setupOpenAiCompatible(
+    apiEndpoint: string,
+    model?: string,
+    apiKey?: string,
+  ): Promise<void> {
+    const config = await this.getConfiguration();
+    config.llmProvider = "openai-compatible";
+    config.llmApiEndpoint = apiEndpoint;
+    config.llmApiKey = apiKey || "";
+    config.llmModel = model || "";
+    config.llmApiVersion = ""; // Not used for OpenAI-compatible servers
+    config.llmDeploymentName = ""; // Not used for OpenAI-compatible servers
+    await this.saveConfiguration(config);
+  }
+
   /**
    * Get current LLM configuration
    */
@@ -368,7 +566,10 @@ export class ConfigurationService {
       model: config.llmModel || "gpt-4o-mini",
       apiVersion: config.llmApiVersion,
       deploymentName: config.llmDeploymentName,
-      isConfigured: !!(config.llmApiEndpoint && config.llmApiKey),
+      isConfigured: !!(
+        config.llmApiEndpoint &&
+        (config.llmApiKey || !LlmService.requiresApiKey(config))
+      ),
     };
   }
 
@@ -381,6 +582,8 @@ export class ConfigurationService {
     try {
       const cacheKey = `analysis_results_${Date.now()}`;
       this.cacheService.set(cacheKey, followupEmails, 30 * 60 * 1000); // 30 minutes TTL
+      // The ribbon command's runtime may end right after this
+      await this.cacheService.flush();
 
       // Check if Office.context is available before trying to use it
       if (
@@ -440,6 +643,7 @@ export class ConfigurationService {
    */
   public async getCachedAnalysisResults(): Promise<FollowupEmail[]> {
     try {
+      await this.cacheService.load();
       // Check if Office.context is available before trying to use it
       if (
         typeof Office !== "undefined" &&
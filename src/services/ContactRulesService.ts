@@ -0,0 +1,119 @@
+import { ContactRules } from "../models/Configuration";
+
+export const DEFAULT_CONTACT_RULES: ContactRules = {
+  vipAddresses: [],
+  vipDomains: [],
+  neverTrack: [
+    "noreply@*",
+    "no-reply@*",
+    "donotreply@*",
+    "do-not-reply@*",
+    "mailer-daemon@*",
+    "*@lists.*",
+  ],
+};
+
+/**
+ * Who the user is writing to: VIP contacts raise the priority of a
+ * follow-up, never-track contacts (no-reply senders, mailing lists) are not
+ * followed up at all.
+ *
+ * Never-track entries are a full address, an "@domain", a bare local part
+ * such as "noreply", or a pattern where "*" matches anything.
+ */
+export class ContactRulesService {
+  private rules: ContactRules;
+  private neverTrackPatterns: RegExp[];
+
+  constructor(rules?: Partial<ContactRules>) {
+    this.rules = {
+      vipAddresses: this.normalizeList(
+        rules?.vipAddresses ?? DEFAULT_CONTACT_RULES.vipAddresses,
+      ),
+      vipDomains: this.normalizeList(
+        rules?.vipDomains ?? DEFAULT_CONTACT_RULES.vipDomains,
+      ).map((domain) => domain.replace(/^@/, "")),
+      neverTrack: this.normalizeList(
+        rules?.neverTrack ?? DEFAULT_CONTACT_RULES.neverTrack,
+      ),
+    };
+    this.neverTrackPatterns = this.rules.neverTrack.map((entry) =>
+      this.toPattern(entry),
+    );
+  }
+
+  public getRules(): ContactRules {
+    return {
+      vipAddresses: [...this.rules.vipAddresses],
+      vipDomains: [...this.rules.vipDomains],
+      neverTrack: [...this.rules.neverTrack],
+    };
+  }
+
+  public isVip(recipient: string): boolean {
+    const address = this.extractAddress(recipient);
+    if (this.rules.vipAddresses.includes(address)) {
+      return true;
+    }
+    const domain = address.slice(address.lastIndexOf("@") + 1);
+    return (
+      address.includes("@") &&
+      this.rules.vipDomains.some(
+        (vip) => domain === vip || domain.endsWith(`.${vip}`),
+      )
+    );
+  }
+
+  /** The first VIP among `recipients` */
+  public findVip(recipients: string[]): string | undefined {
+    const vip = recipients.find((recipient) => this.isVip(recipient));
+    return vip ? this.extractAddress(vip) : undefined;
+  }
+
+  public isNeverTracked(recipient: string): boolean {
+    const address = this.extractAddress(recipient);
+    return this.neverTrackPatterns.some((pattern) => pattern.test(address));
+  }
+
+  /** False when every recipient is never-tracked; mail with no recipients is tracked */
+  public shouldTrack(recipients: string[]): boolean {
+    const addresses = recipients.filter((r) => !!r && !!r.trim());
+    return (
+      addresses.length === 0 ||
+      addresses.some((recipient) => !this.isNeverTracked(recipient))
+    );
+  }
+
+  /** Split a settings textarea into entries (one per line, or comma/semicolon separated) */
+  public static parseList(text: string): string[] {
+    return text
+      .split(/[\n,;]/)
+      .map((entry) => entry.trim())
+      .filter((entry) => !!entry);
+  }
+
+  private toPattern(entry: string): RegExp {
+    const escape = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    if (entry.includes("*")) {
+      return new RegExp(`^${entry.split("*").map(escape).join(".*")}$`);
+    }
+    if (entry.startsWith("@")) {
+      return new RegExp(`${escape(entry)}$`);
+    }
+    // A bare local part such as "noreply" matches it at any domain
+    return entry.includes("@")
+      ? new RegExp(`^${escape(entry)}$`)
+      : new RegExp(`^${escape(entry)}@`);
+  }
+
+  private normalizeList(entries: string[]): string[] {
+    return entries
+      .map((entry) => entry.trim().toLowerCase())
+      .filter((entry) => !!entry);
+  }
+
+  private extractAddress(recipient: string): string {
+    const angle = /<([^>]+)>/.exec(recipient || "");
+    return (angle ? angle[1] : recipient || "").trim().toLowerCase();
+  }
+}
@@ -1,13 +1,36 @@
 import { FollowupEmail, ThreadMessage } from "../models/FollowupEmail";
+import { AnalysisProgress } from "../models/AnalysisProgress";
+import { FollowupAnalysis, LlmUsage } from "../models/LlmAnalysis";
 import { LlmService } from "./LlmService";
+import { LlmUsageService } from "./LlmUsageService";
 import {
   BatchProcessor,
   BatchProcessingOptions,
   BatchResult,
 } from "./BatchProcessor";
 import { CacheService, ICacheService } from "./CacheService";
+import { TieredCacheService } from "./TieredCacheService";
 import { XmlParsingService, ParsedEmail } from "./XmlParsingService";
+import {
+  MailSource,
+  MailSourceStatus,
+  probeMailSources,
+  selectMailSource,
+} from "./MailSource";
+import { EwsMailSource } from "./EwsMailSource";
+import { GraphMailSource } from "./GraphMailSource";
 import { Configuration } from "../models/Configuration";
+import { PriorityInput, PriorityScore } from "../models/PriorityScore";
+import { PriorityScoringService } from "./PriorityScoringService";
+import { ContactRulesService } from "./ContactRulesService";
+import { WorkingCalendarService } from "./WorkingCalendarService";
+import { FollowupStateService } from "./FollowupStateService";
+import { SnoozeExpiry } from "../models/FollowupState";
+import { ReplyCheckResult, ResolvedFollowup } from "../models/ResolvedFollowup";
+import { ResponseTimeStats } from "../models/ResponseAnalytics";
+import { ResponseAnalyticsService } from "./ResponseAnalyticsService";
+import { AnalyticsService } from "./AnalyticsService";
+import { MailboxSyncResult, MailboxSyncService } from "./MailboxSyncService";
 
 interface RetryOptions {
   maxRetries: number;
@@ -23,6 +46,7 @@ interface AnalyticsEvent {
     | "cache_miss"
     | "error_occurred"
     | "retry_attempted"
+    | "llm_usage"
     // Telemetry for artificial thread building path
     | "artificial_chain_skipped"
     | "artificial_chain_built";
@@ -30,6 +54,21 @@ interface AnalyticsEvent {
   details: any;
 }
 
+export interface LlmInsightUpdate {
+  emailId: string;
+  field: "summary" | "suggestion";
+  text: string; // text received so far, or the final text when done
+  done: boolean;
+  usage?: LlmUsage; // tokens spent on the analysis, set once done
+}
+
+// A follow-up found during streamFollowups; removedIds are follow-ups
+// reported earlier that turned out to be duplicates of this one
+export interface FollowupStreamUpdate {
+  email: FollowupEmail;
+  removedIds: string[];
+}
+
 export class EmailAnalysisService {
   private readonly SUMMARY_MAX_LENGTH = 150;
   private readonly BATCH_SIZE = 10;
@@ -42,14 +81,43 @@ export class EmailAnalysisService {
   };
 
   private llmService?: LlmService;
-  private snoozedEmails: Map<string, Date> = new Map();
-  private dismissedEmails: Set<string> = new Set();
+  // When set, analysis makes no LLM calls: cards get heuristic sentiment and priority, and the
+  // summary, sentiment and suggestions are filled in afterwards by streamLlmInsights
+  private llmStreaming = false;
+  // Daily token/cost budget; once exceeded the analysis falls back to heuristics
+  private llmUsageLedger?: LlmUsageService;
+  // Snooze/dismiss state persisted across sessions and shared with the ribbon commands
+  private followupState: FollowupStateService;
   private configuration?: Configuration;
+  private priorityScoring = new PriorityScoringService();
+  private contactRules = new ContactRulesService();
+  private workingCalendar = new WorkingCalendarService();
+  // Learned from every thread read, decides how long to wait before flagging
+  private responseAnalytics = new ResponseAnalyticsService();
 
   // Enhanced caching with CacheService
   private cacheService: ICacheService;
-
-  // Analytics tracking
+  // Resolves once entries persisted by earlier sessions are available
+  private cacheLoaded: Promise<void>;
+  // Bump when the cached thread or FollowupEmail shape changes
+  private readonly CACHE_SCHEMA_VERSION = 1;
+  // Thread data and analysis results are worth keeping across reloads
+  private readonly PERSISTED_CACHE_KEYS =
+    /^email:(thread|threadConv|convItems|analysis):/;
+  private readonly THREAD_CACHE_TTL = 20 * 60 * 1000;
+  // With incremental sync, changed threads are invalidated as soon as the
+  // sync reports them; the TTL only bounds how long replies filed outside
+  // Inbox and Sent Items go unnoticed
+  private readonly SYNCED_THREAD_CACHE_TTL = 4 * 60 * 60 * 1000;
+  private threadCacheTtl = this.THREAD_CACHE_TTL;
+
+  // Local copy of the folder listings, refreshed with only what changed
+  private mailboxSync = new MailboxSyncService();
+
+  // Persisted history of runs and actions for the dashboard
+  private analytics?: AnalyticsService;
+
+  // In-session telemetry (cache hits, retries, batches), see getAnalytics
   private analyticsEvents: AnalyticsEvent[] = [];
   private performanceMetrics = {
     totalAnalyzed: 0,
@@ -58,30 +126,64 @@ export class EmailAnalysisService {
     errors: 0,
     averageProcessingTime: 0,
   };
+  // Tokens spent on follow-up analyses since the service was created
+  private llmUsage = {
+    analyses: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
 
   private readonly debugEnabled: boolean;
   private readonly cacheKeyIndex: Map<string, Set<string>> = new Map();
+  // Analysis cache entry of each follow-up, updated once AI results arrive
+  private readonly analysisCacheKeys: Map<string, string> = new Map();
 
   private batchProcessor: BatchProcessor;
-  private xmlParsingService: XmlParsingService;
+  // Set by cancelAnalysis, also before the conversations are being processed
+  private cancelRequested = false;
+  // Mailbox backends in order of preference; an explicitly set source bypasses auto-selection
+  private readonly mailSources: MailSource[];
+  private mailSource?: MailSource;
   // Cache of recent emails for artificial thread building in fallback mode
   private recentEmailsContext: ParsedEmail[] = [];
 
-  constructor(cacheService?: ICacheService) {
+  constructor(
+    cacheService?: ICacheService,
+    followupState?: FollowupStateService,
+    mailSource?: MailSource,
+  ) {
     this.batchProcessor = new BatchProcessor();
-    this.xmlParsingService = new XmlParsingService();
+    this.followupState = followupState || new FollowupStateService();
+    const logDebug = (message: string, ...optionalParams: unknown[]) =>
+      this.logDebug(message, ...optionalParams);
+    this.mailSources = [
+      new EwsMailSource(new XmlParsingService(), logDebug),
+      new GraphMailSource(undefined, logDebug),
+    ];
+    this.mailSource = mailSource;
 
     // Initialize enhanced caching system
-    this.cacheService =
-      cacheService ||
-      new CacheService({
-        defaultTtl: 30 * 60 * 1000, // 30 minutes for email analysis
-        maxMemoryUsage: 25 * 1024 * 1024, // 25MB for email cache
-        maxEntries: 5000,
-        evictionPolicy: "lru",
-        enableContentHashing: true,
-        enableStatistics: true,
-      });
+    if (cacheService) {
+      this.cacheService = cacheService;
+      this.cacheLoaded = Promise.resolve();
+    } else {
+      const tieredCache = new TieredCacheService(
+        "followup-suggester-cache",
+        this.CACHE_SCHEMA_VERSION,
+        (key) => this.PERSISTED_CACHE_KEYS.test(key),
+        {
+          defaultTtl: 30 * 60 * 1000, // 30 minutes for email analysis
+          maxMemoryUsage: 25 * 1024 * 1024, // 25MB for email cache
+          maxEntries: 5000,
+          evictionPolicy: "lru",
+          enableContentHashing: true,
+          enableStatistics: true,
+        },
+      );
+      this.cacheService = tieredCache;
+      this.cacheLoaded = tieredCache.load();
+    }
 
     this.debugEnabled = this.shouldEnableDebug();
 
@@ -98,20 +200,249 @@ export class EmailAnalysisService {
     this.llmService = llmService;
   }
 
+  public setLlmStreaming(enabled: boolean): void {
+    this.llmStreaming = enabled;
+  }
+
+  public setLlmUsageLedger(ledger: LlmUsageService): void {
+    this.llmUsageLedger = ledger;
+  }
+
+  public setAnalytics(analytics: AnalyticsService): void {
+    this.analytics = analytics;
+  }
+
+  /**
+   * Stream the follow-up analysis for an email, reporting the summary text
+   * accumulated so far after every delta. Summary, drafts and next step come
+   * from a single request; the email is updated in place.
+   */
+  public async streamLlmInsights(
+    email: FollowupEmail,
+    onUpdate: (update: LlmInsightUpdate) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (
+      !this.llmService ||
+      localStorage.getItem("aiDisabled") === "true" ||
+      this.isLlmBudgetExceeded()
+    ) {
+      return;
+    }
+
+    const includeSummary = this.configuration?.enableLlmSummary !== false;
+    const includeSuggestions =
+      this.configuration?.enableLlmSuggestions !== false;
+    if (!includeSummary && !includeSuggestions) {
+      return;
+    }
+
+    const currentUserEmail =
+      this.getMailSource().getCurrentUserEmail() || email.accountEmail;
+
+    let text = "";
+    const stream = this.llmService.streamFollowupAnalysis(
+      {
+        emails: email.threadMessages,
+        context: `User email: ${currentUserEmail}`,
+        recipient: email.recipients.join(", "),
+        daysWithoutResponse: email.daysWithoutResponse,
+      },
+      {},
+      signal,
+    );
+    let result = await stream.next();
+    while (!result.done) {
+      text += result.value;
+      if (includeSummary) {
+        onUpdate({ emailId: email.id, field: "summary", text, done: false });
+      }
+      result = await stream.next();
+    }
+
+    const analysis = result.value;
+    this.recordLlmUsage(email.id, analysis.usage);
+    // Priority keeps its heuristic score so the list does not reorder
+    email.sentiment = analysis.sentiment;
+    email.llmNextStep = analysis.nextStep;
+    email.llmUrgency = analysis.urgency;
+    email.llmUsage = analysis.usage;
+
+    if (includeSummary) {
+      email.llmSummary = analysis.summary;
+      email.summary = analysis.summary || email.summary;
+      onUpdate({
+        emailId: email.id,
+        field: "summary",
+        text: email.summary,
+        done: true,
+        usage: analysis.usage,
+      });
+    }
+
+    if (includeSuggestions) {
+      email.llmSuggestions = analysis.drafts;
+      email.llmSuggestion = analysis.drafts[0];
+      onUpdate({
+        emailId: email.id,
+        field: "suggestion",
+        text: email.llmSuggestion || "",
+        done: true,
+        usage: analysis.usage,
+      });
+    }
+    this.cacheEnrichedFollowup(email);
+  }
+
+  /**
+   * Replace the cached analysis of a follow-up with one that has its AI
+   * results, so later runs show them without asking the model again. Cached
+   * entries are never changed in place, that would break their content hash.
+   */
+  private cacheEnrichedFollowup(email: FollowupEmail): void {
+    const cacheKey = this.analysisCacheKeys.get(email.id);
+    const cached = cacheKey
+      ? this.cacheService.get<FollowupEmail | null>(cacheKey)
+      : null;
+    if (!cacheKey || !cached || cached.id !== email.id) {
+      return;
+    }
+    this.cacheService.set(cacheKey, {
+      ...cached,
+      summary: email.summary,
+      sentiment: email.sentiment,
+      llmSummary: email.llmSummary,
+      llmSuggestion: email.llmSuggestion,
+      llmSuggestions: email.llmSuggestions,
+      llmNextStep: email.llmNextStep,
+      llmUrgency: email.llmUrgency,
+      llmUsage: email.llmUsage,
+    });
+  }
+
   public setConfiguration(configuration: Configuration): void {
+    const previous = this.configuration;
     this.configuration = configuration;
+    this.priorityScoring.configure(configuration);
+    this.contactRules = new ContactRulesService(configuration.contactRules);
+    this.workingCalendar = new WorkingCalendarService(
+      configuration.workingCalendar,
+    );
+    this.responseAnalytics.setWorkingCalendar(this.workingCalendar);
+
+    // Cached analyses were filtered and scored with the old rules
+    if (
+      previous &&
+      JSON.stringify(this.getRuleSettings(previous)) !==
+        JSON.stringify(this.getRuleSettings(configuration))
+    ) {
+      this.clearCache("^email:analysis:");
+    }
+  }
+
+  private getRuleSettings(configuration: Configuration): unknown[] {
+    return [
+      configuration.contactRules,
+      configuration.priorityWeights,
+      configuration.priorityThresholds,
+      configuration.workingCalendar,
+      configuration.adaptiveFollowupTiming,
+    ];
+  }
+
+  public setMailSource(mailSource: MailSource | undefined): void {
+    this.mailSource = mailSource;
+  }
+
+  /** Probe the live mail sources so auto-selection skips the ones that fail */
+  public async detectMailSource(): Promise<void> {
+    if (!this.mailSource) {
+      await probeMailSources(this.mailSources);
+    }
+  }
+
+  public getMailSourceStatus(): MailSourceStatus[] {
+    const active = this.getMailSource();
+    // An injected source (e.g. offline replay) is reported alongside the live ones
+    const sources = this.mailSources.includes(active)
+      ? this.mailSources
+      : [...this.mailSources, active];
+    return sources.map((source) => ({
+      kind: source.kind,
+      available: source.isAvailable(),
+      active: source === active && source.isAvailable(),
+    }));
   }
 
+  /**
+   * Find the threads waiting for a response. After cancelAnalysis the
+   * follow-ups found so far are returned.
+   * @param onProgress - called as each phase starts and each conversation is done
+   */
   public async analyzeEmails(
     emailCount: number,
     daysBack: number,
     selectedAccounts: string[],
+    onProgress?: (progress: AnalysisProgress) => void,
+  ): Promise<FollowupEmail[]> {
+    return this.runAnalysis(emailCount, daysBack, selectedAccounts, onProgress);
+  }
+
+  /**
+   * Like analyzeEmails, but yields each follow-up as soon as its conversation
+   * is analyzed, deduped against those yielded before. Returns the final,
+   * sorted list, which is what analyzeEmails would have returned.
+   */
+  public async *streamFollowups(
+    emailCount: number,
+    daysBack: number,
+    selectedAccounts: string[],
+    onProgress?: (progress: AnalysisProgress) => void,
+  ): AsyncGenerator<FollowupStreamUpdate, FollowupEmail[]> {
+    const pending: FollowupStreamUpdate[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    const analysis = this.runAnalysis(
+      emailCount,
+      daysBack,
+      selectedAccounts,
+      onProgress,
+      (update) => {
+        pending.push(update);
+        wake?.();
+      },
+    );
+    // A failure is rethrown below, once the updates before it are yielded
+    const finish = () => {
+      finished = true;
+      wake?.();
+    };
+    analysis.then(finish, finish);
+
+    while (!finished || pending.length > 0) {
+      if (pending.length > 0) {
+        yield pending.shift()!;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+      }
+    }
+    return analysis;
+  }
+
+  private async runAnalysis(
+    emailCount: number,
+    daysBack: number,
+    selectedAccounts: string[],
+    onProgress?: (progress: AnalysisProgress) => void,
+    onFollowup?: (update: FollowupStreamUpdate) => void,
   ): Promise<FollowupEmail[]> {
     this.logDebug(
       `[DEBUG] Starting analyzeEmails - Count: ${emailCount}, Days: ${daysBack}, Accounts: ${JSON.stringify(selectedAccounts)}`,
     );
 
     const startTime = Date.now();
+    this.cancelRequested = false;
     this.trackAnalyticsEvent("batch_processed", {
       emailCount,
       daysBack,
@@ -119,30 +450,38 @@ export class EmailAnalysisService {
     });
 
     try {
-      // Check if Office.context is available before trying to use it
-      if (
-        typeof Office === "undefined" ||
-        !Office.context ||
-        !Office.context.mailbox ||
-        !Office.context.mailbox.userProfile
-      ) {
+      await this.detectMailSource();
+      // Live sources read the user from Office.context, replay sources from the snapshot
+      const currentUserEmail = this.getMailSource().getCurrentUserEmail();
+      if (!currentUserEmail) {
         throw new Error(
           "Office.context.mailbox is not available. This feature requires running in Outlook.",
         );
       }
 
-      const currentUserEmail = Office.context.mailbox.userProfile.emailAddress;
       this.logDebug(`[DEBUG] Current user email: ${currentUserEmail}`);
 
+      // Pick up snoozes/dismissals made from other surfaces (ribbon commands, other devices)
+      this.followupState.reload();
+      await this.cacheLoaded;
+
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysBack);
       this.logDebug(`[DEBUG] Cutoff date: ${cutoffDate.toISOString()}`);
 
+      onProgress?.({
+        phase: "fetch",
+        emailCount: 0,
+        conversationCount: 0,
+        conversationsDone: 0,
+      });
       // Get recent emails across multiple folders (not just Sent) with caching and retry
       // This implements requirement to analyze emails across all folders
-      const recentEmails = await this.getRecentEmailsWithCaching(
+      const recentEmails = await this.getRecentEmailsSynced(
         emailCount,
         cutoffDate,
+        currentUserEmail,
+        selectedAccounts,
       );
       this.logDebug(
         `[DEBUG] Retrieved ${recentEmails.length} recent emails across folders`,
@@ -173,7 +512,18 @@ export class EmailAnalysisService {
         });
       });
 
+      onProgress?.({
+        phase: "group",
+        emailCount: recentEmails.length,
+        conversationCount: conversationIds.length,
+        conversationsDone: 0,
+      });
+      if (this.cancelRequested) {
+        return [];
+      }
+
       // Use BatchProcessor for improved performance and error handling
+      const analyzeStart = Date.now();
       const batchOptions: Partial<BatchProcessingOptions> = {
         batchSize: this.BATCH_SIZE,
         maxConcurrentBatches: 3,
@@ -182,6 +532,16 @@ export class EmailAnalysisService {
           this.trackAnalyticsEvent("batch_processed", {
             progress: { current, total, currentBatch, totalBatches },
           });
+          onProgress?.({
+            phase: "analyze",
+            emailCount: recentEmails.length,
+            conversationCount: total,
+            conversationsDone: current,
+            etaMs:
+              current > 0
+                ? ((Date.now() - analyzeStart) / current) * (total - current)
+                : undefined,
+          });
         },
         onBatchComplete: (batchIndex, results, errors) => {
           this.trackAnalyticsEvent("batch_processed", {
@@ -200,17 +560,35 @@ export class EmailAnalysisService {
         },
       };
 
+      // Follow-ups reported to onFollowup so far, deduped
+      let reported: FollowupEmail[] = [];
+      const reportFollowup = (email: FollowupEmail) => {
+        email.returnedFromSnooze = this.followupState.isReturned(email.id);
+        const deduped = this.dedupeFollowupEmails([...reported, email]);
+        const removedIds = reported
+          .filter((earlier) => !deduped.includes(earlier))
+          .map((earlier) => earlier.id);
+        reported = deduped;
+        if (deduped.includes(email)) {
+          onFollowup!({ email, removedIds });
+        }
+      };
+
       // Process conversations using the BatchProcessor
       const batchResult: BatchResult<FollowupEmail | null> =
         await this.batchProcessor.processBatch(
           conversationIds,
           async (conversationId: string) => {
-            return await this.processConversationWithCaching(
+            const result = await this.processConversationWithCaching(
               conversationId,
               conversationGroups.get(conversationId)!,
               currentUserEmail,
               selectedAccounts,
             );
+            if (result && onFollowup) {
+              reportFollowup(result);
+            }
+            return result;
           },
           batchOptions,
         );
@@ -222,6 +600,10 @@ export class EmailAnalysisService {
 
       // Dedupe by conversation to avoid multiple entries from same thread
       followupEmails = this.dedupeFollowupEmails(followupEmails);
+      this.responseAnalytics.save();
+      followupEmails.forEach((email) => {
+        email.returnedFromSnooze = this.followupState.isReturned(email.id);
+      });
 
       this.logDebug(
         `[DEBUG] Final result: ${followupEmails.length} emails need followup out of ${recentEmails.length} retrieved emails`,
@@ -261,6 +643,12 @@ export class EmailAnalysisService {
       // Update performance metrics
       const processingTime = Date.now() - startTime;
       this.updatePerformanceMetrics(followupEmails.length, processingTime);
+      void this.analytics?.recordFollowupsFound(followupEmails);
+      void this.analytics?.recordAnalysisRun({
+        emailsAnalyzed: conversationIds.length,
+        followupsFound: followupEmails.length,
+        durationMs: processingTime,
+      });
 
       // Sort by priority and date with enhanced algorithm
       return this.sortFollowupEmails(followupEmails);
@@ -275,6 +663,7 @@ export class EmailAnalysisService {
 
   // New method to cancel email analysis if needed
   public cancelAnalysis(): void {
+    this.cancelRequested = true;
     this.batchProcessor.cancelProcessing();
     this.trackAnalyticsEvent("batch_processed", { action: "cancelled" });
   }
@@ -286,6 +675,12 @@ export class EmailAnalysisService {
 
     return {
       metrics: this.performanceMetrics,
+      llmUsage: {
+        ...this.llmUsage,
+        averageTokensPerAnalysis: this.llmUsage.analyses
+          ? Math.round(this.llmUsage.totalTokens / this.llmUsage.analyses)
+          : 0,
+      },
       recentEvents: this.analyticsEvents.slice(-100), // Last 100 events
       cacheStats: {
         hitRate: cacheStats.hitRate,
@@ -311,9 +706,8 @@ export class EmailAnalysisService {
     const snoozeUntil = new Date();
     snoozeUntil.setMinutes(snoozeUntil.getMinutes() + minutes);
 
-    emailIds.forEach((emailId) => {
-      this.snoozedEmails.set(emailId, snoozeUntil);
-    });
+    await this.followupState.snooze(emailIds, snoozeUntil);
+    void this.analytics?.recordAction(emailIds, "snoozed");
 
     // Invalidate cache for affected emails
     this.invalidateEmailCaches(emailIds);
@@ -326,9 +720,8 @@ export class EmailAnalysisService {
   }
 
   public async bulkDismissEmails(emailIds: string[]): Promise<void> {
-    emailIds.forEach((emailId) => {
-      this.dismissedEmails.add(emailId);
-    });
+    await this.followupState.dismiss(emailIds);
+    void this.analytics?.recordAction(emailIds, "dismissed");
 
     // Invalidate cache for affected emails
     this.invalidateEmailCaches(emailIds);
@@ -420,7 +813,7 @@ export class EmailAnalysisService {
     this.trackAnalyticsEvent("cache_miss", { type: "sent_emails" });
 
     const emails = await this.withRetry(
-      () => this.getSentEmailsRest(emailCount, cutoffDate),
+      () => this.getMailSource().listSentItems(emailCount, cutoffDate),
       this.DEFAULT_RETRY_OPTIONS,
     );
 
@@ -430,6 +823,75 @@ export class EmailAnalysisService {
   }
 
   // NEW: Retrieve recent emails from multiple folders (sent + inbox) to evaluate threads globally
+  /**
+   * Recent emails from the synced copy of Sent Items and Inbox, dropping the
+   * cached threads and analyses of conversations that changed since the last
+   * sync. Falls back to listing the folders when the mail source cannot sync.
+   */
+  private async getRecentEmailsSynced(
+    emailCount: number,
+    cutoffDate: Date,
+    currentUserEmail: string,
+    selectedAccounts: string[],
+  ): Promise<any[]> {
+    const synced = await this.mailboxSync.sync(
+      this.getMailSource(),
+      currentUserEmail,
+      cutoffDate,
+    );
+    if (!synced) {
+      this.threadCacheTtl = this.THREAD_CACHE_TTL;
+      return this.getRecentEmailsWithCaching(emailCount, cutoffDate);
+    }
+
+    this.logDebug(
+      `[DEBUG] Mailbox sync: ${synced.changedItemIds.length} changed items in ${synced.changedConversationIds.length} conversations${synced.initial ? " (initial sync)" : ""}`,
+    );
+    // An initial sync reports every item; what is cached predates the sync
+    // state and expires with its own, shorter TTL
+    if (!synced.initial) {
+      this.invalidateChangedConversations(synced, selectedAccounts);
+    }
+    this.threadCacheTtl = this.SYNCED_THREAD_CACHE_TTL;
+
+    return synced.emails
+      .slice()
+      .sort(
+        (a, b) =>
+          new Date(b.dateTimeSent).getTime() -
+          new Date(a.dateTimeSent).getTime(),
+      )
+      .slice(0, emailCount);
+  }
+
+  private invalidateChangedConversations(
+    synced: MailboxSyncResult,
+    selectedAccounts: string[],
+  ): void {
+    const changed = new Set(synced.changedConversationIds);
+    // Threads are cached under the id of any item of the conversation
+    const itemIds = synced.emails
+      .filter((email) => changed.has(email.conversationId))
+      .map((email) => email.id)
+      .concat(synced.changedItemIds);
+
+    changed.forEach((conversationId) => {
+      this.cacheService.invalidate(
+        this.generateCacheKey("convItems", conversationId),
+      );
+      this.cacheService.invalidate(
+        this.generateCacheKey("threadConv", conversationId),
+      );
+      this.cacheService.invalidate(
+        this.generateCacheKey("analysis", { conversationId, selectedAccounts }),
+      );
+    });
+    itemIds.forEach((itemId) =>
+      this.cacheService.invalidate(this.generateCacheKey("thread", itemId)),
+    );
+    this.invalidateEmailCaches(itemIds);
+  }
+
   private async getRecentEmailsWithCaching(
     emailCount: number,
     cutoffDate: Date,
@@ -446,13 +908,14 @@ export class EmailAnalysisService {
     this.trackAnalyticsEvent("cache_miss", { type: "recent_emails" });
 
     // Fetch from both Sent Items and Inbox (could be extended further later)
+    const mailSource = this.getMailSource();
     // Fetch full requested count from each folder, then merge & trim.
     // Rationale: splitting count 50/50 caused missed threads when items were moved between folders.
     const [sent, inbox] = await this.withRetry(
       async () =>
         Promise.all([
-          this.getSentEmailsRest(emailCount, cutoffDate),
-          this.getInboxEmailsRest(emailCount, cutoffDate),
+          mailSource.listSentItems(emailCount, cutoffDate),
+          mailSource.listInboxItems(emailCount, cutoffDate),
         ]),
       this.DEFAULT_RETRY_OPTIONS,
     );
@@ -487,84 +950,6 @@ export class EmailAnalysisService {
     return merged;
   }
 
-  private async getInboxEmailsRest(
-    emailCount: number,
-    cutoffDate: Date,
-  ): Promise<any[]> {
-    if (!this.isEwsAvailable()) {
-      throw new Error(
-        "Office.context.mailbox is not available. This feature requires running in Outlook.",
-      );
-    }
-
-    return new Promise((resolve, reject) => {
-      Office.context.mailbox.makeEwsRequestAsync(
-        this.buildGetInboxEmailsRequest(emailCount, cutoffDate),
-        (result) => {
-          if (result.status === Office.AsyncResultStatus.Succeeded) {
-            try {
-              const response = result.value;
-              const emails = this.parseSentEmailsResponse(response); // same parsing logic applies
-              resolve(emails);
-            } catch (error) {
-              reject(error);
-            }
-          } else {
-            reject(
-              new Error(result.error?.message || "Failed to get inbox emails"),
-            );
-          }
-        },
-      );
-    });
-  }
-
-  private buildGetInboxEmailsRequest(
-    emailCount: number,
-    cutoffDate: Date,
-  ): string {
-    const cutoffDateISO = cutoffDate.toISOString();
-    return `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
-                             xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
-                             xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
-                             xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-    <soap:Header>
-        <t:RequestServerVersion Version="Exchange2013" />
-    </soap:Header>
-    <soap:Body>
-        <m:FindItem Traversal="Shallow">
-            <m:ItemShape>
-                <t:BaseShape>IdOnly</t:BaseShape>
-                <t:AdditionalProperties>
-                    <t:FieldURI FieldURI="item:Subject" />
-                    <t:FieldURI FieldURI="item:DateTimeSent" />
-                    <t:FieldURI FieldURI="message:ToRecipients" />
-                    <t:FieldURI FieldURI="message:CcRecipients" />
-                    <t:FieldURI FieldURI="message:From" />
-                    <t:FieldURI FieldURI="item:Body" />
-                    <t:FieldURI FieldURI="conversation:ConversationId" />
-                </t:AdditionalProperties>
-            </m:ItemShape>
-            <m:IndexedPageItemView MaxEntriesReturned="${emailCount}" Offset="0" BasePoint="Beginning" />
-            <m:Restriction>
-                <t:And>
-                    <t:IsGreaterThan>
-                        <t:FieldURI FieldURI="item:DateTimeSent" />
-                        <t:FieldURIOrConstant>
-                            <t:Constant Value="${cutoffDateISO}" />
-                        </t:FieldURIOrConstant>
-                    </t:IsGreaterThan>
-                </t:And>
-            </m:Restriction>
-            <m:ParentFolderIds>
-                <t:DistinguishedFolderId Id="inbox" />
-            </m:ParentFolderIds>
-        </m:FindItem>
-    </soap:Body>
-</soap:Envelope>`;
-  }
-
   private async processConversationWithCaching(
     conversationId: string,
     conversationEmails: any[],
@@ -577,9 +962,10 @@ export class EmailAnalysisService {
       selectedAccounts,
     });
     const cached = this.cacheService.get<FollowupEmail | null>(cacheKey);
-    if (cached !== null) {
+    if (cached !== null && this.matchesFollowupState(cached)) {
       this.trackAnalyticsEvent("cache_hit", { type: "analysis" });
-      return cached;
+      // Callers change the follow-up, the cached entry must keep its content hash
+      return { ...cached };
     }
 
     this.trackAnalyticsEvent("cache_miss", { type: "analysis" });
@@ -595,7 +981,7 @@ export class EmailAnalysisService {
 
     // Prefer using conversation APIs (GetConversationItems), else fall back to item-based retrieval seeded by the email
     let threadMessages: ThreadMessage[] = [];
-    if (conversationId && this.isEwsAvailable()) {
+    if (conversationId && this.getMailSource().isAvailable()) {
       try {
         threadMessages =
           await this.getConversationItemsConversationCached(conversationId);
@@ -647,6 +1033,7 @@ export class EmailAnalysisService {
     this.logDebug(
       `[DEBUG] Retrieved ${threadMessages.length} thread messages for conversation ${conversationId}`,
     );
+    this.responseAnalytics.recordThread(threadMessages);
 
     // Log all messages in the thread for debugging
     threadMessages.forEach((msg, index) => {
@@ -723,6 +1110,35 @@ export class EmailAnalysisService {
 
     this.logDebug(`[DEBUG] ✅ PASSED: Account filter check`);
 
+    if (!this.contactRules.shouldTrack(lastMessage.to)) {
+      this.logDebug(
+        `[DEBUG] ❌ FILTERED: Conversation ${conversationId} - Only never-track recipients (${lastMessage.to.join(", ")})`,
+      );
+      this.cacheService.set(cacheKey, null, 5 * 60 * 1000);
+      this.registerCacheKey([conversationId, lastMessage.id], cacheKey);
+      return null;
+    }
+
+    this.logDebug(`[DEBUG] ✅ PASSED: Contact rules check`);
+
+    const expectedHours = this.getExpectedResponseHours(lastMessage);
+    if (
+      expectedHours !== undefined &&
+      this.workingCalendar.getBusinessHoursBetween(
+        lastMessage.sentDate,
+        new Date(),
+      ) < expectedHours
+    ) {
+      this.logDebug(
+        `[DEBUG] ❌ FILTERED: Conversation ${conversationId} - Within the recipients' usual response time (${expectedHours.toFixed(1)} working hours)`,
+      );
+      this.cacheService.set(cacheKey, null, 5 * 60 * 1000);
+      this.registerCacheKey([conversationId, lastMessage.id], cacheKey);
+      return null;
+    }
+
+    this.logDebug(`[DEBUG] ✅ PASSED: Usual response time check`);
+
     // Check if email is snoozed or dismissed (respect user preferences)
     const isSnoozed = this.isEmailSnoozed(lastMessage.id);
     const isDismissed = this.isEmailDismissed(lastMessage.id);
@@ -750,20 +1166,33 @@ export class EmailAnalysisService {
       threadMessages,
       currentUserEmail,
     );
+    if (isSnoozed) {
+      followupEmail.isSnoozed = true;
+      followupEmail.snoozeUntil = this.followupState.getSnoozeUntil(
+        lastMessage.id,
+      );
+    }
+    if (isDismissed) {
+      followupEmail.isDismissed = true;
+    }
 
-    // Cache the analysis result
+    // Cache the analysis result; callers get their own copy to change
     this.cacheService.set(cacheKey, followupEmail);
     this.registerCacheKey([conversationId, followupEmail.id], cacheKey);
+    this.analysisCacheKeys.set(followupEmail.id, cacheKey);
 
-    return followupEmail;
+    return { ...followupEmail };
   }
 
   private async getConversationThreadCached(
     emailItemId: string,
+    bypassCache = false,
   ): Promise<ThreadMessage[]> {
     const cacheKey = this.generateCacheKey("thread", emailItemId);
 
-    const cached = this.cacheService.get<ThreadMessage[]>(cacheKey);
+    const cached = bypassCache
+      ? null
+      : this.cacheService.get<ThreadMessage[]>(cacheKey);
     if (cached) {
       this.trackAnalyticsEvent("cache_hit", { type: "thread" });
       return cached;
@@ -772,12 +1201,11 @@ export class EmailAnalysisService {
     this.trackAnalyticsEvent("cache_miss", { type: "thread" });
 
     const thread = await this.withRetry(
-      () => this.getConversationThread(emailItemId),
+      () => this.getMailSource().getThreadForItem(emailItemId),
       this.DEFAULT_RETRY_OPTIONS,
     );
 
-    // Cache thread data for 20 minutes
-    this.cacheService.set(cacheKey, thread, 20 * 60 * 1000);
+    this.cacheService.set(cacheKey, thread, this.threadCacheTtl);
     const threadIds = thread.map((message) => message.id);
     this.registerCacheKey([emailItemId, ...threadIds], cacheKey);
     return thread;
@@ -787,7 +1215,7 @@ export class EmailAnalysisService {
   private async getConversationThreadFromConversationIdCached(
     conversationId: string,
   ): Promise<ThreadMessage[]> {
-    if (!this.isEwsAvailable()) return [];
+    if (!this.getMailSource().isAvailable()) return [];
     const cacheKey = this.generateCacheKey("threadConv", conversationId);
     const cached = this.cacheService.get<ThreadMessage[]>(cacheKey);
     if (cached) {
@@ -796,348 +1224,43 @@ export class EmailAnalysisService {
     }
     this.trackAnalyticsEvent("cache_miss", { type: "threadConv" });
     const messages = await this.withRetry(
-      () => this.searchConversationAcrossFolders(conversationId),
+      () => this.getMailSource().searchConversation(conversationId),
       this.DEFAULT_RETRY_OPTIONS,
     );
-    this.cacheService.set(cacheKey, messages, 20 * 60 * 1000);
+    this.cacheService.set(cacheKey, messages, this.threadCacheTtl);
     const messageIds = messages.map((message) => message.id);
     this.registerCacheKey([conversationId, ...messageIds], cacheKey);
     return messages;
   }
 
   // New: GetConversationItems-based retrieval + cache
+  // bypassCache refetches and refreshes the cached copy
   private async getConversationItemsConversationCached(
     conversationId: string,
+    bypassCache = false,
   ): Promise<ThreadMessage[]> {
-    if (!this.isEwsAvailable()) return [];
+    if (!this.getMailSource().isAvailable()) return [];
     const cacheKey = this.generateCacheKey("convItems", conversationId);
-    const cached = this.cacheService.get<ThreadMessage[]>(cacheKey);
+    const cached = bypassCache
+      ? null
+      : this.cacheService.get<ThreadMessage[]>(cacheKey);
     if (cached) {
       this.trackAnalyticsEvent("cache_hit", { type: "convItems" });
       return cached;
     }
     this.trackAnalyticsEvent("cache_miss", { type: "convItems" });
     const messages = await this.withRetry(
-      () => this.getConversationItems(conversationId),
+      () => this.getMailSource().getConversation(conversationId),
       this.DEFAULT_RETRY_OPTIONS,
     );
-    this.cacheService.set(cacheKey, messages, 20 * 60 * 1000);
+    this.cacheService.set(cacheKey, messages, this.threadCacheTtl);
     const messageIds = messages.map((message) => message.id);
     this.registerCacheKey([conversationId, ...messageIds], cacheKey);
     return messages;
   }
 
-  private buildGetConversationItemsRequest(
-    conversationId: string,
-    maxItems = 250,
-  ): string {
-    // Using shallow to respect folder boundaries but conversation API returns nodes.
-    // Optionally FoldersToIgnore could list drafts/deleteditems if filtering earlier.
-    return `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
-  <soap:Header>
-    <t:RequestServerVersion Version="Exchange2013" />
-  </soap:Header>
-  <soap:Body>
-    <m:GetConversationItems ReturnSynchronizationCookie="false">
-      <m:ItemShape>
-        <t:BaseShape>IdOnly</t:BaseShape>
-    <t:BodyType>Text</t:BodyType>
-        <t:AdditionalProperties>
-          <t:FieldURI FieldURI="item:Subject" />
-          <t:FieldURI FieldURI="item:DateTimeSent" />
-          <t:FieldURI FieldURI="item:DateTimeReceived" />
-          <t:FieldURI FieldURI="message:ToRecipients" />
-          <t:FieldURI FieldURI="message:From" />
-          <t:FieldURI FieldURI="item:Body" />
-          <t:FieldURI FieldURI="conversation:ConversationId" />
-          <t:FieldURI FieldURI="item:HasAttachments" />
-        </t:AdditionalProperties>
-      </m:ItemShape>
-      <m:FoldersToIgnore>
-        <t:DistinguishedFolderId Id="drafts" />
-        <t:DistinguishedFolderId Id="deleteditems" />
-      </m:FoldersToIgnore>
-            <m:MaxItemsToReturn>${maxItems}</m:MaxItemsToReturn>
-      <m:ConversationIds>
-        <t:ConversationId Id="${conversationId}" />
-      </m:ConversationIds>
-    </m:GetConversationItems>
-  </soap:Body>
-</soap:Envelope>`;
-  }
-
-  private async getConversationItems(
-    conversationId: string,
-  ): Promise<ThreadMessage[]> {
-    if (!this.isEwsAvailable()) {
-      throw new Error(
-        "Office.context.mailbox is not available. This feature requires running in Outlook.",
-      );
-    }
-
-    return new Promise((resolve, reject) => {
-      Office.context.mailbox.makeEwsRequestAsync(
-        this.buildGetConversationItemsRequest(conversationId),
-        (result) => {
-          if (result.status === Office.AsyncResultStatus.Succeeded) {
-            try {
-              const messages = this.parseGetConversationItemsResponse(
-                result.value,
-              );
-              resolve(messages);
-            } catch (e) {
-              reject(e);
-            }
-          } else {
-            reject(
-              new Error(result.error?.message || "GetConversationItems failed"),
-            );
-          }
-        },
-      );
-    });
-  }
-
-  private parseGetConversationItemsResponse(xml: string): ThreadMessage[] {
-    const currentUserEmailRaw = this.getCurrentUserEmail();
-    if (!currentUserEmailRaw) {
-      console.warn(
-        "Cannot parse conversation items: Office.context.mailbox.userProfile not available",
-      );
-      return [];
-    }
-    const currentUserEmail = currentUserEmailRaw.toLowerCase();
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, "text/xml");
-    const messages: ThreadMessage[] = [];
-
-    try {
-      // ConversationNodes can contain one or more Items of different classes (Message, Meeting*, etc.)
-      // Use namespace-agnostic search
-      let nodeLists: Element[] = Array.from(
-        doc.getElementsByTagNameNS("*", "ConversationNode"),
-      );
-      if (nodeLists.length === 0) {
-        // Fallback: search by local name
-        const allElements = doc.getElementsByTagName("*");
-        const found: Element[] = [];
-        for (let i = 0; i < allElements.length; i++) {
-          const el = allElements[i];
-          if (
-            el.localName === "ConversationNode" ||
-            el.tagName === "ConversationNode" ||
-            el.tagName === "t:ConversationNode"
-          ) {
-            found.push(el);
-          }
-        }
-        nodeLists = found;
-      }
-      for (let i = 0; i < nodeLists.length; i++) {
-        const node = nodeLists[i];
-
-        // Prefer items under the Items container if present
-        let itemsContainer: Element | null =
-          node.getElementsByTagNameNS("*", "Items")[0] || null;
-        if (!itemsContainer) {
-          // Fallback: search by local name
-          const allElements = node.getElementsByTagName("*");
-          for (let j = 0; j < allElements.length; j++) {
-            const el = allElements[j];
-            if (
-              el.localName === "Items" ||
-              el.tagName === "Items" ||
-              el.tagName === "t:Items"
-            ) {
-              itemsContainer = el;
-              break;
-            }
-          }
-        }
-        if (!itemsContainer) {
-          itemsContainer = node;
-        }
-
-        // Collect candidate item elements across common classes
-        const candidateTags = [
-          "Message",
-          "MeetingMessage",
-          "MeetingRequest",
-          "MeetingResponse",
-          "MeetingCancellation",
-        ];
-        let itemElements: Element[] = [];
-        for (const tag of candidateTags) {
-          const found = Array.from(
-            itemsContainer.getElementsByTagNameNS("*", tag),
-          );
-          itemElements = itemElements.concat(found);
-        }
-
-        // If nothing matched, fall back to scanning any child elements that look like items (have ItemId)
-        if (itemElements.length === 0) {
-          const all = Array.from(
-            itemsContainer.getElementsByTagName("*"),
-          ) as Element[];
-          itemElements = all.filter((el) => {
-            const hasItemId =
-              el.getElementsByTagNameNS("*", "ItemId").length > 0;
-            const hasItemIdLocal =
-              el.getElementsByTagName("ItemId").length > 0 ||
-              el.getElementsByTagName("t:ItemId").length > 0;
-            return hasItemId || hasItemIdLocal;
-          });
-        }
-
-        for (const item of itemElements) {
-          // Try multiple ways to find ItemId
-          let idEl = item.getElementsByTagNameNS("*", "ItemId")[0];
-          if (!idEl) {
-            const itemIdByTag = item.getElementsByTagName("ItemId");
-            if (itemIdByTag.length > 0) idEl = itemIdByTag[0];
-            if (!idEl) {
-              const itemIdByTagNS = item.getElementsByTagName("t:ItemId");
-              if (itemIdByTagNS.length > 0) idEl = itemIdByTagNS[0];
-            }
-          }
-          if (!idEl) continue;
-
-          // Try multiple ways to find other elements
-          const getElement = (tagName: string): Element | null => {
-            let el = item.getElementsByTagNameNS("*", tagName)[0];
-            if (!el) {
-              const byTag = item.getElementsByTagName(tagName);
-              if (byTag.length > 0) el = byTag[0];
-            }
-            if (!el) {
-              const byTagNS = item.getElementsByTagName(`t:${tagName}`);
-              if (byTagNS.length > 0) el = byTagNS[0];
-            }
-            return el || null;
-          };
-
-          const subjEl = getElement("Subject");
-          const sentEl = getElement("DateTimeSent");
-          const recvEl = getElement("DateTimeReceived");
-          const fromEmail = this.extractEmailAddress(getElement("From"));
-          const toEmails = this.extractMultipleAddresses(
-            getElement("ToRecipients"),
-          );
-          const bodyEl = getElement("Body");
-
-          const id = idEl.getAttribute("Id") || idEl.textContent || "";
-          const sentDate = sentEl
-            ? new Date(sentEl.textContent || "")
-            : new Date();
-          const receivedDate = recvEl
-            ? new Date(recvEl.textContent || "")
-            : undefined;
-          const from = (fromEmail || "").trim();
-          const subj = (subjEl?.textContent || "").trim();
-          const body = (bodyEl?.textContent || "").trim();
-          const isFromCurrentUser = from.toLowerCase() === currentUserEmail;
-
-          messages.push({
-            id,
-            subject: subj,
-            from,
-            to: toEmails,
-            sentDate,
-            receivedDate,
-            body,
-            isFromCurrentUser,
-          });
-        }
-      }
-
-      // Sort chronologically by receivedDate if available else sentDate
-      messages.sort((a, b) => {
-        const aTime = (a.receivedDate || a.sentDate).getTime();
-        const bTime = (b.receivedDate || b.sentDate).getTime();
-        return aTime - bTime;
-      });
-    } catch (err) {
-      console.error(
-        "[ERROR] Failed to parse GetConversationItems response:",
-        err,
-      );
-    }
-    return messages;
-  }
-
-  private extractEmailAddress(container?: Element | null): string | undefined {
-    if (!container) return undefined;
-
-    // Try namespace-aware search first
-    let addr = container.getElementsByTagNameNS("*", "EmailAddress")[0];
-    if (addr?.textContent) return addr.textContent.trim();
-
-    // Fallback: try by tag name
-    const addrByTag = container.getElementsByTagName("EmailAddress");
-    if (addrByTag.length > 0 && addrByTag[0].textContent) {
-      return addrByTag[0].textContent.trim();
-    }
-
-    // Try with namespace prefix
-    const addrByTagNS = container.getElementsByTagName("t:EmailAddress");
-    if (addrByTagNS.length > 0 && addrByTagNS[0].textContent) {
-      return addrByTagNS[0].textContent.trim();
-    }
-
-    // Try Address as fallback
-    const addressNode = container.getElementsByTagNameNS("*", "Address")[0];
-    if (addressNode?.textContent) return addressNode.textContent.trim();
-
-    return undefined;
-  }
-
-  private extractMultipleAddresses(container?: Element | null): string[] {
-    if (!container) return [];
-    const emails: string[] = [];
-    const mailboxes = container.getElementsByTagNameNS("*", "Mailbox");
-    for (let i = 0; i < mailboxes.length; i++) {
-      const e = this.extractEmailAddress(mailboxes[i]);
-      if (e) emails.push(e);
-    }
-    return emails;
-  }
-
-  private isEwsAvailable(): boolean {
-    try {
-      return (
-        typeof Office !== "undefined" &&
-        Office.context &&
-        Office.context.mailbox &&
-        typeof Office.context.mailbox.makeEwsRequestAsync === "function"
-      );
-    } catch {
-      return false;
-    }
-  }
-
-  private isOfficeContextAvailable(): boolean {
-    try {
-      return (
-        typeof Office !== "undefined" &&
-        !!Office.context &&
-        !!Office.context.mailbox &&
-        !!Office.context.mailbox.userProfile
-      );
-    } catch {
-      return false;
-    }
-  }
-
-  private getCurrentUserEmail(): string | null {
-    try {
-      if (this.isOfficeContextAvailable()) {
-        return Office.context.mailbox.userProfile.emailAddress;
-      }
-      return null;
-    } catch {
-      return null;
-    }
+  private getMailSource(): MailSource {
+    return this.mailSource || selectMailSource(this.mailSources);
   }
 
   private shouldEnableDebug(): boolean {
@@ -1233,38 +1356,169 @@ export class EmailAnalysisService {
   }
 
   // Snooze and dismiss functionality
-  public snoozeEmail(emailId: string, minutes: number): void {
+  public async snoozeEmail(emailId: string, minutes: number): Promise<void> {
     const snoozeUntil = new Date();
     snoozeUntil.setMinutes(snoozeUntil.getMinutes() + minutes);
-    this.snoozedEmails.set(emailId, snoozeUntil);
+    await this.snoozeEmailUntil(emailId, snoozeUntil);
   }
 
-  public snoozeEmailUntil(emailId: string, until: Date): void {
-    this.snoozedEmails.set(emailId, until);
+  public async snoozeEmailUntil(emailId: string, until: Date): Promise<void> {
+    await this.followupState.snooze([emailId], until);
+    void this.analytics?.recordAction([emailId], "snoozed");
+    this.invalidateEmailCaches([emailId]);
   }
 
-  public unsnoozeEmail(emailId: string): void {
-    this.snoozedEmails.delete(emailId);
+  public async unsnoozeEmail(emailId: string): Promise<void> {
+    await this.followupState.unsnooze(emailId);
+    this.invalidateEmailCaches([emailId]);
   }
 
-  public dismissEmail(emailId: string): void {
-    this.dismissedEmails.add(emailId);
+  public async dismissEmail(emailId: string): Promise<void> {
+    await this.followupState.dismiss([emailId]);
+    void this.analytics?.recordAction([emailId], "dismissed");
+    this.invalidateEmailCaches([emailId]);
   }
 
-  private isEmailSnoozed(emailId: string): boolean {
-    const snoozeUntil = this.snoozedEmails.get(emailId);
-    if (!snoozeUntil) return false;
+  /**
+   * Re-evaluate the threads of follow-ups whose snooze expired. A thread that
+   * got a reply in the meantime is closed; one still waiting is reported as
+   * returned once and stays marked until it is snoozed or dismissed again.
+   */
+  public async resolveExpiredSnoozes(): Promise<SnoozeExpiry[]> {
+    this.followupState.reload();
+    const source = this.getMailSource();
+    // The state has EWS ids, the cache and the threads those of the source
+    const emailIds = this.followupState
+      .getUncheckedReturns()
+      .map((emailId) => (source.toItemId ? source.toItemId(emailId) : emailId));
+    if (emailIds.length === 0) {
+      return [];
+    }
+    // Cached analyses still show these follow-ups as snoozed
+    this.invalidateEmailCaches(emailIds);
 
-    if (new Date() >= snoozeUntil) {
-      this.snoozedEmails.delete(emailId);
-      return false;
+    const expiries: SnoozeExpiry[] = [];
+    const waiting: string[] = [];
+    const closed: string[] = [];
+    for (const emailId of emailIds) {
+      try {
+        const thread = await source.getThreadForItem(emailId);
+        const last = thread[thread.length - 1];
+        const subject =
+          thread.find((message) => message.id === emailId)?.subject ||
+          last?.subject ||
+          "";
+        if (!last || last.id === emailId) {
+          waiting.push(emailId);
+          expiries.push({ emailId, subject, status: "returned" });
+        } else {
+          // A reply closes the follow-up; a newer message of the user's is its own follow-up
+          closed.push(emailId);
+          if (!last.isFromCurrentUser) {
+            expiries.push({ emailId, subject, status: "replied" });
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to re-evaluate snoozed email ${emailId}:`, error);
+      }
+    }
+    await this.followupState.markReturnChecked(waiting);
+    await this.followupState.clearReturned(closed);
+    return expiries;
+  }
+
+  /**
+   * Refetch only the threads of the given follow-ups, bypassing the cache, and
+   * close those that got a response. Closed follow-ups also lose their
+   * dismissed or returned-from-snooze markers, which are not needed anymore.
+   */
+  public async checkForReplies(
+    emails: FollowupEmail[],
+    now: Date = new Date(),
+  ): Promise<ReplyCheckResult> {
+    const resolved: ResolvedFollowup[] = [];
+    const remaining: FollowupEmail[] = [];
+    for (const email of emails) {
+      try {
+        const response = this.findFirstResponse(
+          await this.fetchThreadFresh(email),
+          email.sentDate,
+        );
+        if (!response) {
+          remaining.push(email);
+          continue;
+        }
+        resolved.push({
+          emailId: email.id,
+          conversationId: email.conversationId,
+          subject: email.subject,
+          recipients: email.recipients,
+          sentDate: email.sentDate.toISOString(),
+          responder: response.from,
+          respondedAt: response.sentDate.toISOString(),
+          responseHours:
+            (response.sentDate.getTime() - email.sentDate.getTime()) /
+            (60 * 60 * 1000),
+          businessHours: this.workingCalendar.getBusinessHoursBetween(
+            email.sentDate,
+            response.sentDate,
+          ),
+          resolvedAt: now.toISOString(),
+        });
+      } catch (error) {
+        console.warn(`Failed to check ${email.id} for replies:`, error);
+        remaining.push(email);
+      }
+    }
+
+    const resolvedIds = resolved.map((entry) => entry.emailId);
+    if (resolvedIds.length > 0) {
+      this.invalidateEmailCaches(resolvedIds);
+      for (const emailId of resolvedIds) {
+        if (this.followupState.isDismissed(emailId)) {
+          await this.followupState.undismiss(emailId);
+        }
+      }
+      await this.followupState.clearReturned(resolvedIds);
+      void this.analytics?.recordResolved(resolved);
     }
+    return { resolved, remaining };
+  }
+
+  /** Response times per contact and per domain, most written to first */
+  public getResponseTimeStats(): {
+    contacts: ResponseTimeStats[];
+    domains: ResponseTimeStats[];
+  } {
+    return {
+      contacts: this.responseAnalytics.getContactStats(),
+      domains: this.responseAnalytics.getDomainStats(),
+    };
+  }
+
+  public getNextSnoozeExpiry(): Date | undefined {
+    return this.followupState.getNextSnoozeExpiry();
+  }
 
-    return true;
+  /**
+   * Whether a cached analysis still has the current snooze and dismiss state.
+   * Results persisted by an earlier session miss invalidations made since.
+   */
+  private matchesFollowupState(email: FollowupEmail): boolean {
+    return (
+      !!email.isSnoozed === this.isEmailSnoozed(email.id) &&
+      !!email.isDismissed === this.isEmailDismissed(email.id) &&
+      email.snoozeUntil?.getTime() ===
+        this.followupState.getSnoozeUntil(email.id)?.getTime()
+    );
+  }
+
+  private isEmailSnoozed(emailId: string): boolean {
+    return this.followupState.isSnoozed(emailId);
   }
 
   private isEmailDismissed(emailId: string): boolean {
-    return this.dismissedEmails.has(emailId);
+    return this.followupState.isDismissed(emailId);
   }
 
   // Email processing helper methods
@@ -1282,274 +1536,6 @@ export class EmailAnalysisService {
     return groups;
   }
 
-  private async getSentEmailsRest(
-    emailCount: number,
-    cutoffDate: Date,
-  ): Promise<any[]> {
-    if (!this.isEwsAvailable()) {
-      throw new Error(
-        "Office.context.mailbox is not available. This feature requires running in Outlook.",
-      );
-    }
-
-    return new Promise((resolve, reject) => {
-      Office.context.mailbox.makeEwsRequestAsync(
-        this.buildGetSentEmailsRequest(emailCount, cutoffDate),
-        (result) => {
-          if (result.status === Office.AsyncResultStatus.Succeeded) {
-            try {
-              const response = result.value;
-              const emails = this.parseSentEmailsResponse(response);
-              resolve(emails);
-            } catch (error) {
-              reject(error);
-            }
-          } else {
-            reject(
-              new Error(result.error?.message || "Failed to get sent emails"),
-            );
-          }
-        },
-      );
-    });
-  }
-
-  private buildGetSentEmailsRequest(
-    emailCount: number,
-    cutoffDate: Date,
-  ): string {
-    const cutoffDateISO = cutoffDate.toISOString();
-    return `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
-               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
-               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
-               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Header>
-    <t:RequestServerVersion Version="Exchange2013" />
-  </soap:Header>
-  <soap:Body>
-    <m:FindItem Traversal="Shallow">
-      <m:ItemShape>
-        <t:BaseShape>IdOnly</t:BaseShape>
-        <t:AdditionalProperties>
-          <t:FieldURI FieldURI="item:Subject" />
-          <t:FieldURI FieldURI="item:DateTimeSent" />
-          <t:FieldURI FieldURI="message:ToRecipients" />
-          <t:FieldURI FieldURI="message:CcRecipients" />
-          <t:FieldURI FieldURI="message:From" />
-          <t:FieldURI FieldURI="item:Body" />
-          <t:FieldURI FieldURI="conversation:ConversationId" />
-        </t:AdditionalProperties>
-      </m:ItemShape>
-      <m:IndexedPageItemView MaxEntriesReturned="${emailCount}" Offset="0" BasePoint="Beginning" />
-      <m:Restriction>
-        <t:And>
-          <t:IsGreaterThan>
-            <t:FieldURI FieldURI="item:DateTimeSent" />
-            <t:FieldURIOrConstant>
-              <t:Constant Value="${cutoffDateISO}" />
-            </t:FieldURIOrConstant>
-          </t:IsGreaterThan>
-        </t:And>
-      </m:Restriction>
-      <m:ParentFolderIds>
-        <t:DistinguishedFolderId Id="sentitems" />
-      </m:ParentFolderIds>
-    </m:FindItem>
-  </soap:Body>
-</soap:Envelope>`;
-  }
-
-  private parseSentEmailsResponse(xmlResponse: string): ParsedEmail[] {
-    this.logDebug(
-      `[DEBUG] Parsing EWS FindItem response using XmlParsingService`,
-    );
-
-    // Validate the XML response first
-    const validation = this.xmlParsingService.validateEwsResponse(xmlResponse);
-    if (!validation.isValid) {
-      console.error(`[ERROR] Invalid EWS response: ${validation.error}`);
-      return [];
-    }
-
-    // Use the new parsing service
-    const emails = this.xmlParsingService.parseFindItemResponse(xmlResponse);
-    this.logDebug(`[DEBUG] XmlParsingService parsed ${emails.length} emails`);
-
-    // Log details for first few emails
-    emails.slice(0, 3).forEach((email, index) => {
-      this.logDebug(
-        `[DEBUG] Email ${index + 1}: Subject="${email.subject}", Date=${email.dateTimeSent}, From=${email.from.emailAddress.address}`,
-      );
-    });
-
-    return emails;
-  }
-
-  private async getConversationThread(
-    emailItemId: string,
-  ): Promise<ThreadMessage[]> {
-    if (!this.isEwsAvailable()) {
-      throw new Error(
-        "Office.context.mailbox is not available. This feature requires running in Outlook.",
-      );
-    }
-
-    this.logDebug(
-      `[DEBUG] 🧵 THREAD RETRIEVAL: Getting conversation thread for email ID: ${emailItemId}`,
-    );
-
-    return new Promise((resolve, reject) => {
-      // First get the conversation ID from the email
-      Office.context.mailbox.makeEwsRequestAsync(
-        this.buildGetConversationIdRequest(emailItemId),
-        async (result) => {
-          if (result.status === Office.AsyncResultStatus.Succeeded) {
-            try {
-              const conversationId = this.parseConversationIdResponse(
-                result.value,
-              );
-              if (!conversationId) {
-                this.logDebug(
-                  `[DEBUG] 📧 SINGLE EMAIL: No conversation ID found, treating as single email thread`,
-                );
-                const singleMessage = this.parseConversationResponse(
-                  result.value,
-                );
-                this.logDebug(
-                  `[DEBUG] 📧 SINGLE EMAIL RESULT: ${singleMessage.length} message(s) parsed`,
-                );
-                resolve(singleMessage);
-                return;
-              }
-              this.logDebug(
-                `[DEBUG] 🔗 CONVERSATION FOUND: ID = ${conversationId}, fetching via GetConversationItems`,
-              );
-              try {
-                const convMessages =
-                  await this.getConversationItems(conversationId);
-                if (convMessages.length > 0) {
-                  this.logDebug(
-                    `[DEBUG] 🎯 THREAD COMPLETE: Retrieved ${convMessages.length} messages via GetConversationItems`,
-                  );
-                  // Log the complete thread structure
-                  this.logDebug(`[DEBUG] 📋 COMPLETE THREAD STRUCTURE:`);
-                  convMessages.forEach((msg, index) => {
-                    this.logDebug(
-                      `[DEBUG]   ${index + 1}. ${msg.isFromCurrentUser ? "CURRENT USER" : "OTHER USER"} - ${msg.sentDate.toISOString()} - "${msg.subject}"`,
-                    );
-                  });
-                  resolve(convMessages);
-                } else {
-                  this.logDebug(
-                    `[DEBUG] ⚠️ FALLBACK: GetConversationItems returned no messages, falling back to single message`,
-                  );
-                  const singleMessage = this.parseConversationResponse(
-                    result.value,
-                  );
-                  resolve(singleMessage);
-                }
-              } catch (convErr) {
-                console.error(
-                  "[ERROR] 💥 THREAD FETCH FAILED: GetConversationItems after GetItem failed:",
-                  convErr,
-                );
-                const singleMessage = this.parseConversationResponse(
-                  result.value,
-                );
-                this.logDebug(
-                  `[DEBUG] 🔄 FALLBACK COMPLETE: Using single message instead`,
-                );
-                resolve(singleMessage);
-              }
-            } catch (error) {
-              console.error(
-                "[ERROR] 💥 CONVERSATION PARSING FAILED: Failed to parse conversation ID response:",
-                error,
-              );
-              reject(error);
-            }
-          } else {
-            console.error(
-              "[ERROR] 💥 EWS REQUEST FAILED: Failed to get conversation thread:",
-              result.error?.message,
-            );
-            reject(
-              new Error(
-                result.error?.message || "Failed to get conversation thread",
-              ),
-            );
-          }
-        },
-      );
-    });
-  }
-
-  private parseConversationResponse(xmlResponse: string): ThreadMessage[] {
-    this.logDebug(
-      `[DEBUG] Parsing EWS GetItem response to extract email details`,
-    );
-
-    const currentUserEmailRaw = this.getCurrentUserEmail();
-    if (!currentUserEmailRaw) {
-      console.warn(
-        "Cannot parse conversation: Office.context.mailbox.userProfile not available",
-      );
-      return [];
-    }
-    const currentUserEmail = currentUserEmailRaw.toLowerCase();
-
-    // Validate the XML response first
-    const validation = this.xmlParsingService.validateEwsResponse(xmlResponse);
-    if (!validation.isValid) {
-      console.error(`[ERROR] Invalid EWS response: ${validation.error}`);
-      return [];
-    }
-
-    // Parse the GetItem response which contains a single email item
-    try {
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
-
-      // Look for the message element in the GetItem response (namespace-agnostic)
-      let messageElements: Element[] = Array.from(
-        xmlDoc.getElementsByTagNameNS("*", "Message"),
-      );
-      if (!messageElements || messageElements.length === 0) {
-        // Fallbacks
-        const alt1 = xmlDoc.getElementsByTagName("t:Message");
-        const alt2 = xmlDoc.getElementsByTagName("Message");
-        const combined: Element[] = [];
-        for (let i = 0; i < alt1.length; i++) combined.push(alt1[i]);
-        for (let i = 0; i < alt2.length; i++) combined.push(alt2[i]);
-        messageElements = combined;
-      }
-      if (messageElements.length === 0) {
-        this.logDebug(`[DEBUG] No message found in GetItem response`);
-        return [];
-      }
-
-      const messageElement = messageElements[0];
-      const threadMessage = this.parseMessageElement(
-        messageElement,
-        currentUserEmail,
-      );
-
-      if (threadMessage) {
-        this.logDebug(
-          `[DEBUG] Successfully parsed single email: "${threadMessage.subject}" from ${threadMessage.from} (${threadMessage.isFromCurrentUser ? "current user" : "other"})`,
-        );
-        return [threadMessage];
-      } else {
-        this.logDebug(`[DEBUG] Failed to parse message element`);
-        return [];
-      }
-    } catch (error) {
-      console.error(`[ERROR] Failed to parse GetItem response:`, error);
-      return [];
-    }
-  }
-
   // Check if newer emails with the same normalized subject exist from other participants,
   // indicating the single-message should be suppressed from follow-up.
   private hasNewerOtherWithSameSubject(
@@ -1652,6 +1638,33 @@ export class EmailAnalysisService {
     return false;
   }
 
+  private async fetchThreadFresh(
+    email: FollowupEmail,
+  ): Promise<ThreadMessage[]> {
+    if (email.conversationId && this.getMailSource().isAvailable()) {
+      const messages = await this.getConversationItemsConversationCached(
+        email.conversationId,
+        true,
+      );
+      if (messages.length > 0) {
+        return messages;
+      }
+    }
+    return this.getConversationThreadCached(email.id, true);
+  }
+
+  // The earliest message from someone else sent after the follow-up
+  private findFirstResponse(
+    threadMessages: ThreadMessage[],
+    sentDate: Date,
+  ): ThreadMessage | undefined {
+    return [...threadMessages]
+      .sort((a, b) => a.sentDate.getTime() - b.sentDate.getTime())
+      .find(
+        (message) => !message.isFromCurrentUser && message.sentDate > sentDate,
+      );
+  }
+
   private getLastMessageInThread(
     threadMessages: ThreadMessage[],
   ): ThreadMessage | null {
@@ -1801,33 +1814,30 @@ export class EmailAnalysisService {
     threadMessages: ThreadMessage[],
     currentUserEmail: string,
   ): Promise<FollowupEmail> {
-    const daysSinceSent = Math.floor(
-      (Date.now() - lastMessage.sentDate.getTime()) / (1000 * 60 * 60 * 24),
-    );
+    const waiting = this.workingCalendar.getWaitingTime(lastMessage.sentDate);
+    const daysSinceSent = waiting.days;
 
     let llmSummary: string | undefined;
-    let llmSuggestion: string | undefined;
+    let analysis: FollowupAnalysis | undefined;
     let sentiment: "positive" | "neutral" | "negative" | "urgent" = "neutral";
 
-    // Check if AI features are disabled globally
-    const aiDisabled = localStorage.getItem("aiDisabled") === "true";
+    // Check if AI features are disabled globally or today's budget is spent
+    const aiDisabled =
+      localStorage.getItem("aiDisabled") === "true" ||
+      this.isLlmBudgetExceeded();
 
-    // Get LLM analysis if available and not disabled
-    if (this.llmService && !aiDisabled) {
+    if (this.llmService && !aiDisabled && !this.llmStreaming) {
+      // Summary, sentiment, next step and drafts in one request
       try {
-        const [llmResponse, sentimentResult] = await Promise.all([
-          this.llmService.analyzeThread({
-            emails: threadMessages,
-            context: `User email: ${currentUserEmail}`,
-          }),
-          this.analyzeEmailSentiment(lastMessage.body, lastMessage.id),
-        ]);
-
-        llmSummary = llmResponse; // analyzeThread returns a string, not an object
-        llmSuggestion = await this.llmService
-          .generateFollowupSuggestions(lastMessage.body)
-          .then((suggestions) => suggestions[0]);
-        sentiment = sentimentResult;
+        analysis = await this.llmService.analyzeFollowup({
+          emails: threadMessages,
+          context: `User email: ${currentUserEmail}`,
+          recipient: lastMessage.to.join(", "),
+          daysWithoutResponse: daysSinceSent,
+        });
+        this.recordLlmUsage(lastMessage.id, analysis.usage);
+        llmSummary = analysis.summary;
+        sentiment = analysis.sentiment;
       } catch (error) {
         console.warn("Failed to get LLM analysis:", error);
         sentiment = this.analyzeSentimentBasic(lastMessage.body);
@@ -1836,11 +1846,14 @@ export class EmailAnalysisService {
       sentiment = this.analyzeSentimentBasic(lastMessage.body);
     }
 
-    const priority = this.calculateEnhancedPriority(
-      daysSinceSent,
-      threadMessages.length > 1,
+    const priority = this.scorePriority({
+      daysWaiting: daysSinceSent,
+      threadLength: threadMessages.length,
       sentiment,
-    );
+      recipients: lastMessage.to,
+      hasAttachments: !!lastMessage.hasAttachments,
+      userEmail: currentUserEmail,
+    });
 
     return {
       id: lastMessage.id,
@@ -1851,53 +1864,50 @@ export class EmailAnalysisService {
       summary:
         llmSummary ||
         this.generateSummary(lastMessage.body, lastMessage.subject),
-      priority,
+      priority: priority.level,
+      priorityScore: priority.score,
+      priorityBreakdown: priority.breakdown,
       daysWithoutResponse: daysSinceSent,
+      businessHoursWithoutResponse: waiting.hours,
+      expectedResponseHours: this.getExpectedResponseHours(lastMessage),
       conversationId: conversationId,
-      hasAttachments: false,
+      hasAttachments: !!lastMessage.hasAttachments,
       accountEmail: lastMessage.from,
       threadMessages,
       isSnoozed: false,
       isDismissed: false,
-      llmSuggestion,
+      llmSuggestion: analysis?.drafts[0],
+      llmSuggestions: analysis?.drafts,
+      llmNextStep: analysis?.nextStep,
+      llmUrgency: analysis?.urgency,
+      llmUsage: analysis?.usage,
       llmSummary,
       sentiment, // New field
     };
   }
 
-  private calculateEnhancedPriority(
-    daysSinceSent: number,
-    hasThread: boolean,
-    sentiment: "positive" | "neutral" | "negative" | "urgent",
-  ): "high" | "medium" | "low" {
-    let priority: "high" | "medium" | "low" = "low";
-
-    // Base priority on days
-    if (daysSinceSent >= 7) {
-      priority = "high";
-    } else if (daysSinceSent >= 3) {
-      priority = "medium";
-    }
-
-    // Boost priority based on sentiment
-    if (sentiment === "urgent") {
-      priority = "high";
-    } else if (sentiment === "negative" && priority === "low") {
-      priority = "medium";
-    }
-
-    // Boost priority if it's part of a longer thread
-    if (hasThread && priority === "low") {
-      priority = "medium";
-    } else if (hasThread && priority === "medium") {
-      priority = "high";
+  private getExpectedResponseHours(
+    lastMessage: ThreadMessage,
+  ): number | undefined {
+    if (this.configuration?.adaptiveFollowupTiming === false) {
+      return undefined;
     }
+    return this.responseAnalytics.getExpectedResponseHours(lastMessage.to);
+  }
 
-    return priority;
+  private scorePriority(input: PriorityInput): PriorityScore {
+    return this.priorityScoring.score(input);
   }
 
   private sortFollowupEmails(followupEmails: FollowupEmail[]): FollowupEmail[] {
     return followupEmails.sort((a, b) => {
+      // Follow-ups back from snooze come first, whatever their priority
+      const returnedDiff =
+        Number(!!b.returnedFromSnooze) - Number(!!a.returnedFromSnooze);
+      if (returnedDiff !== 0) {
+        return returnedDiff;
+      }
+
       const priorityOrder = { high: 3, medium: 2, low: 1 };
       const priorityDiff =
         priorityOrder[b.priority] - priorityOrder[a.priority];
@@ -1906,6 +1916,11 @@ export class EmailAnalysisService {
         return priorityDiff;
       }
 
+      const scoreDiff = (b.priorityScore || 0) - (a.priorityScore || 0);
+      if (scoreDiff !== 0) {
+        return scoreDiff;
+      }
+
       // Secondary sort by sentiment (urgent first)
       const sentimentOrder: { [key: string]: number } = {
         urgent: 4,
@@ -2061,6 +2076,22 @@ export class EmailAnalysisService {
     }
   }
 
+  private isLlmBudgetExceeded(): boolean {
+    return !!this.llmUsageLedger && this.llmUsageLedger.isBudgetExceeded();
+  }
+
+  private recordLlmUsage(emailId: string, usage?: LlmUsage): void {
+    // Providers that report no token counts are left out of the average
+    if (!usage) {
+      return;
+    }
+    this.llmUsage.analyses++;
+    this.llmUsage.promptTokens += usage.promptTokens;
+    this.llmUsage.completionTokens += usage.completionTokens;
+    this.llmUsage.totalTokens += usage.totalTokens;
+    this.trackAnalyticsEvent("llm_usage", { emailId, ...usage });
+  }
+
   private updatePerformanceMetrics(
     analyzedCount: number,
     processingTime: number,
@@ -2081,497 +2112,6 @@ export class EmailAnalysisService {
       (totalTime + processingTime) / this.performanceMetrics.totalAnalyzed;
   }
 
-  // Helper methods for enhanced thread analysis
-  private async searchConversationAcrossFolders(
-    conversationId: string,
-  ): Promise<ThreadMessage[]> {
-    this.logDebug(
-      `[DEBUG] Searching for conversation ${conversationId} across multiple folders`,
-    );
-
-    // Include root (deep traversal) to satisfy requirement: analyze across all folders & sub-folders
-    // Order chosen to prioritise cheaper targeted folders before deep mailbox scan
-    const folders = [
-      "sentitems", // Sent Items
-      "inbox", // Inbox
-      "drafts", // Drafts
-      "deleteditems", // Deleted Items
-      "archive", // Archive (if present; harmless if not)
-      "msgfolderroot", // Root (Deep traversal)
-    ];
-
-    const allMessages: ThreadMessage[] = [];
-
-    for (const folder of folders) {
-      try {
-        this.logDebug(`[DEBUG] Searching in folder: ${folder}`);
-        const folderMessages = await this.searchConversationInFolder(
-          conversationId,
-          folder,
-        );
-        allMessages.push(...folderMessages);
-        this.logDebug(
-          `[DEBUG] Found ${folderMessages.length} messages in ${folder}`,
-        );
-
-        // Debug: Log each message found in this folder
-        folderMessages.forEach((msg, index) => {
-          this.logDebug(
-            `[DEBUG] Folder ${folder} message ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
-          );
-        });
-      } catch (error) {
-        console.warn(`[WARN] Failed to search in folder ${folder}:`, error);
-        // Continue with other folders
-      }
-    }
-
-    this.logDebug(
-      `[DEBUG] Total messages before deduplication: ${allMessages.length}`,
-    );
-    allMessages.forEach((msg, index) => {
-      this.logDebug(
-        `[DEBUG] Before dedup ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
-      );
-    });
-
-    // Remove duplicates based on message ID
-    const uniqueMessages = this.removeDuplicateMessages(allMessages);
-
-    this.logDebug(
-      `[DEBUG] Total messages after deduplication: ${uniqueMessages.length}`,
-    );
-    uniqueMessages.forEach((msg, index) => {
-      this.logDebug(
-        `[DEBUG] After dedup ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
-      );
-    });
-
-    // CRITICAL FIX: Ensure chronological sort (earliest first) with proper comparison
-    this.logDebug(
-      `[DEBUG] Applying final chronological sort (earliest first)...`,
-    );
-    const sortedMessages = [...uniqueMessages].sort((a, b) => {
-      const timeA = a.sentDate.getTime();
-      const timeB = b.sentDate.getTime();
-      const diff = timeA - timeB; // Ascending order: earlier dates first
-      this.logDebug(
-        `[DEBUG] Sort comparison: ${a.id} (${timeA}) vs ${b.id} (${timeB}) = ${diff} ${diff < 0 ? "(A first)" : diff > 0 ? "(B first)" : "(same)"}`,
-      );
-      return diff;
-    });
-
-    this.logDebug(
-      `[DEBUG] Final sorted message order (chronological - earliest first):`,
-    );
-    sortedMessages.forEach((msg, index) => {
-      this.logDebug(
-        `[DEBUG]   ${index + 1}. ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()}) - ${msg.isFromCurrentUser ? "CURRENT USER" : "OTHER USER"}`,
-      );
-    });
-
-    // Validate sort order - ensure each message is chronologically before the next
-    for (let i = 1; i < sortedMessages.length; i++) {
-      const prevTime = sortedMessages[i - 1].sentDate.getTime();
-      const currTime = sortedMessages[i].sentDate.getTime();
-      if (prevTime > currTime) {
-        console.error(`[ERROR] ❌ Sort order violation detected!`);
-        console.error(
-          `[ERROR] Message ${i - 1} (${sortedMessages[i - 1].id}) time ${prevTime} > Message ${i} (${sortedMessages[i].id}) time ${currTime}`,
-        );
-        throw new Error(
-          `Sort order violation: Message ${i - 1} (${prevTime}) should not be after Message ${i} (${currTime})`,
-        );
-      } else {
-        this.logDebug(
-          `[DEBUG] ✅ Sort order correct: ${prevTime} <= ${currTime}`,
-        );
-      }
-    }
-
-    this.logDebug(
-      `[DEBUG] ✅ Sort validation passed. Total unique messages found: ${sortedMessages.length}`,
-    );
-    return sortedMessages;
-  }
-
-  private async searchConversationInFolder(
-    conversationId: string,
-    folderId: string,
-  ): Promise<ThreadMessage[]> {
-    if (!this.isEwsAvailable()) {
-      console.warn(
-        "Office.context.mailbox is not available. Cannot search conversation in folder.",
-      );
-      return [];
-    }
-
-    return new Promise((resolve) => {
-      Office.context.mailbox.makeEwsRequestAsync(
-        this.buildSearchConversationRequest(
-          conversationId,
-          folderId,
-          folderId === "msgfolderroot" ? "Deep" : "Shallow",
-        ),
-        (result) => {
-          if (result.status === Office.AsyncResultStatus.Succeeded) {
-            try {
-              const messages = this.parseSearchConversationResponse(
-                result.value,
-              );
-              resolve(messages);
-            } catch (error) {
-              console.error(
-                `[ERROR] Failed to parse search results for folder ${folderId}:`,
-                error,
-              );
-              resolve([]); // Return empty array instead of rejecting
-            }
-          } else {
-            console.warn(
-              `[WARN] Failed to search folder ${folderId}:`,
-              result.error?.message,
-            );
-            resolve([]); // Return empty array instead of rejecting
-          }
-        },
-      );
-    });
-  }
-
-  private buildSearchConversationRequest(
-    conversationId: string,
-    folderId: string,
-    traversal: "Shallow" | "Deep" = "Shallow",
-  ): string {
-    return `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
-                             xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
-                             xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
-                             xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-    <soap:Header>
-        <t:RequestServerVersion Version="Exchange2013" />
-    </soap:Header>
-    <soap:Body>
-        <m:FindItem Traversal="${traversal}">
-            <m:ItemShape>
-                <t:BaseShape>IdOnly</t:BaseShape>
-                <t:AdditionalProperties>
-                    <t:FieldURI FieldURI="item:Subject" />
-                    <t:FieldURI FieldURI="item:DateTimeSent" />
-                    <t:FieldURI FieldURI="message:ToRecipients" />
-                    <t:FieldURI FieldURI="message:From" />
-                    <t:FieldURI FieldURI="item:Body" />
-                    <t:FieldURI FieldURI="conversation:ConversationId" />
-                </t:AdditionalProperties>
-            </m:ItemShape>
-            <m:IndexedPageItemView MaxEntriesReturned="200" Offset="0" BasePoint="Beginning" />
-            <m:Restriction>
-                <t:IsEqualTo>
-                    <t:FieldURI FieldURI="conversation:ConversationId" />
-                    <t:FieldURIOrConstant>
-                        <t:Constant Value="${conversationId}" />
-                    </t:FieldURIOrConstant>
-                </t:IsEqualTo>
-            </m:Restriction>
-            <m:ParentFolderIds>
-                <t:DistinguishedFolderId Id="${folderId}" />
-            </m:ParentFolderIds>
-        </m:FindItem>
-    </soap:Body>
-</soap:Envelope>`;
-  }
-
-  private parseSearchConversationResponse(
-    xmlResponse: string,
-  ): ThreadMessage[] {
-    const currentUserEmailRaw = this.getCurrentUserEmail();
-    if (!currentUserEmailRaw) {
-      console.warn(
-        "Cannot parse search conversation: Office.context.mailbox.userProfile not available",
-      );
-      return [];
-    }
-    const currentUserEmail = currentUserEmailRaw.toLowerCase();
-    const threadMessages: ThreadMessage[] = [];
-
-    try {
-      // Validate the XML response first
-      const validation =
-        this.xmlParsingService.validateEwsResponse(xmlResponse);
-      if (!validation.isValid) {
-        console.error(
-          `[ERROR] Invalid EWS search response: ${validation.error}`,
-        );
-        return [];
-      }
-
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
-
-      // Look for all message elements in the search results
-      const messageElements = xmlDoc.getElementsByTagName("t:Message");
-
-      for (let i = 0; i < messageElements.length; i++) {
-        const messageElement = messageElements[i];
-
-        try {
-          const threadMessage = this.parseMessageElement(
-            messageElement,
-            currentUserEmail,
-          );
-          if (threadMessage) {
-            threadMessages.push(threadMessage);
-          }
-        } catch (error) {
-          console.warn(
-            `[WARN] Failed to parse message ${i} in search results:`,
-            error,
-          );
-          // Continue processing other messages
-        }
-      }
-
-      this.logDebug(
-        `[DEBUG] Parsed ${threadMessages.length} messages from search results`,
-      );
-      return threadMessages;
-    } catch (error) {
-      console.error(
-        `[ERROR] Failed to parse search conversation response:`,
-        error,
-      );
-      return [];
-    }
-  }
-
-  private removeDuplicateMessages(messages: ThreadMessage[]): ThreadMessage[] {
-    const seen = new Set<string>();
-    const uniqueMessages: ThreadMessage[] = [];
-
-    this.logDebug(
-      `[DEBUG] Starting deduplication with ${messages.length} messages`,
-    );
-
-    // Process messages in order received - don't pre-sort here
-    for (const message of messages) {
-      // Create a unique key based on message ID, or fall back to content-based key
-      const key =
-        message.id ||
-        `${message.from}-${message.sentDate.getTime()}-${message.subject}`;
-
-      if (!seen.has(key)) {
-        seen.add(key);
-        uniqueMessages.push(message);
-        this.logDebug(
-          `[DEBUG] ✅ Keeping unique message: ${message.id} at ${message.sentDate.toISOString()} (${message.sentDate.getTime()})`,
-        );
-      } else {
-        this.logDebug(
-          `[DEBUG] ❌ Removing duplicate message: ${message.id} at ${message.sentDate.toISOString()} (${message.sentDate.getTime()})`,
-        );
-      }
-    }
-
-    this.logDebug(
-      `[DEBUG] Deduplication complete: Removed ${messages.length - uniqueMessages.length} duplicate messages`,
-    );
-    this.logDebug(`[DEBUG] Unique messages (in order processed):`);
-    uniqueMessages.forEach((msg, index) => {
-      this.logDebug(
-        `[DEBUG]   ${index + 1}. ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
-      );
-    });
-
-    return uniqueMessages;
-  }
-
-  private buildGetConversationIdRequest(emailItemId: string): string {
-    return `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
-               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
-               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
-               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Header>
-    <t:RequestServerVersion Version="Exchange2013" />
-  </soap:Header>
-  <soap:Body>
-    <m:GetItem>
-      <m:ItemShape>
-        <t:BaseShape>IdOnly</t:BaseShape>
-        <t:AdditionalProperties>
-          <t:FieldURI FieldURI="conversation:ConversationId" />
-          <t:FieldURI FieldURI="item:Subject" />
-          <t:FieldURI FieldURI="item:DateTimeSent" />
-          <t:FieldURI FieldURI="message:ToRecipients" />
-          <t:FieldURI FieldURI="message:From" />
-          <t:FieldURI FieldURI="item:Body" />
-        </t:AdditionalProperties>
-      </m:ItemShape>
-      <m:ItemIds>
-        <t:ItemId Id="${emailItemId}" />
-      </m:ItemIds>
-    </m:GetItem>
-  </soap:Body>
-</soap:Envelope>`;
-  }
-
-  private parseConversationIdResponse(xmlResponse: string): string | null {
-    try {
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
-
-      // Strategy: namespace-agnostic search for element whose localName == ConversationId
-      let conversationId: string | null = null;
-      const allElements = xmlDoc.getElementsByTagName("*");
-      for (let i = 0; i < allElements.length; i++) {
-        const el = allElements[i];
-        if (el.localName === "ConversationId") {
-          conversationId = el.getAttribute("Id");
-          if (conversationId) break;
-        }
-      }
-      if (conversationId) {
-        this.logDebug(`[DEBUG] Found conversation ID: ${conversationId}`);
-        return conversationId;
-      }
-      this.logDebug(
-        "[DEBUG] No conversation ID found in response (namespace-agnostic search)",
-      );
-      return null;
-    } catch (error) {
-      console.error(`[ERROR] Failed to parse conversation ID response:`, error);
-      return null;
-    }
-  }
-
-  private parseMessageElement(
-    messageElement: Element,
-    currentUserEmail: string,
-  ): ThreadMessage | null {
-    try {
-      // Extract ItemId with proper handling
-      const itemIdElements = messageElement.getElementsByTagName("t:ItemId");
-      const itemId =
-        itemIdElements.length > 0
-          ? itemIdElements[0].getAttribute("Id") || ""
-          : "";
-
-      // Extract basic message details with robust parsing
-      const getElementText = (tagName: string): string => {
-        const elements = messageElement.getElementsByTagName(tagName);
-        return elements.length > 0
-          ? (elements[0].textContent || "").trim()
-          : "";
-      };
-
-      const subject = getElementText("t:Subject");
-      const dateTimeSent = getElementText("t:DateTimeSent");
-
-      // Extract body with different possible formats
-      let body = "";
-      const bodyElements = messageElement.getElementsByTagName("t:Body");
-      if (bodyElements.length > 0) {
-        body = bodyElements[0].textContent || "";
-      }
-
-      // Extract From address with proper nested parsing
-      let fromAddress = currentUserEmail; // Default fallback
-      const fromElements = messageElement.getElementsByTagName("t:From");
-      if (fromElements.length > 0) {
-        // Try to get EmailAddress from nested Mailbox
-        const mailboxElements =
-          fromElements[0].getElementsByTagName("t:Mailbox");
-        if (mailboxElements.length > 0) {
-          const emailElements =
-            mailboxElements[0].getElementsByTagName("t:EmailAddress");
-          if (emailElements.length > 0) {
-            fromAddress = emailElements[0].textContent || currentUserEmail;
-          }
-        } else {
-          // Fallback to direct EmailAddress
-          const emailElements =
-            fromElements[0].getElementsByTagName("t:EmailAddress");
-          if (emailElements.length > 0) {
-            fromAddress = emailElements[0].textContent || currentUserEmail;
-          }
-        }
-      }
-
-      // Extract To recipients with robust parsing
-      const toRecipients: string[] = [];
-      const toRecipientsElements =
-        messageElement.getElementsByTagName("t:ToRecipients");
-      if (toRecipientsElements.length > 0) {
-        const mailboxElements =
-          toRecipientsElements[0].getElementsByTagName("t:Mailbox");
-        for (let i = 0; i < mailboxElements.length; i++) {
-          const emailElements =
-            mailboxElements[i].getElementsByTagName("t:EmailAddress");
-          if (emailElements.length > 0) {
-            const email = emailElements[0].textContent;
-            if (email && email.trim()) {
-              toRecipients.push(email.trim());
-            }
-          }
-        }
-      }
-
-      // Parse date with fallback
-      let sentDate: Date;
-      try {
-        sentDate = dateTimeSent ? new Date(dateTimeSent) : new Date();
-        // Validate the date
-        if (isNaN(sentDate.getTime())) {
-          sentDate = new Date();
-        }
-      } catch {
-        console.warn(
-          `[WARN] Failed to parse date: ${dateTimeSent}, using current date`,
-        );
-        sentDate = new Date();
-      }
-
-      // CRITICAL: Normalize email addresses for comparison (case-insensitive and trim whitespace)
-      const normalizedFromAddress = fromAddress.toLowerCase().trim();
-      const normalizedCurrentUserEmail = currentUserEmail.toLowerCase().trim();
-
-      // Determine if this message is from the current user
-      const isFromCurrentUser =
-        normalizedFromAddress === normalizedCurrentUserEmail;
-
-      const threadMessage: ThreadMessage = {
-        id: itemId,
-        subject: subject || "No Subject",
-        from: fromAddress,
-        to: toRecipients,
-        sentDate: sentDate,
-        body: body,
-        isFromCurrentUser: isFromCurrentUser,
-      };
-
-      this.logDebug(`[DEBUG] ✉️ PARSED MESSAGE: "${threadMessage.subject}"`);
-      this.logDebug(
-        `[DEBUG]   From: "${threadMessage.from}" (normalized: "${normalizedFromAddress}")`,
-      );
-      this.logDebug(
-        `[DEBUG]   Current user: "${currentUserEmail}" (normalized: "${normalizedCurrentUserEmail}")`,
-      );
-      this.logDebug(
-        `[DEBUG]   Is from current user: ${threadMessage.isFromCurrentUser ? "YES" : "NO"}`,
-      );
-      this.logDebug(`[DEBUG]   Sent: ${threadMessage.sentDate.toISOString()}`);
-
-      return threadMessage;
-    } catch (error) {
-      console.error(
-        `[ERROR] 💥 MESSAGE PARSING FAILED: Failed to parse message element:`,
-        error,
-      );
-      return null;
-    }
-  }
-
   // Build an artificial thread when only a single message is available by scanning recent emails
   // and enforcing a strict oldest→newest containment chain: each newer body must contain the previous one.
   private buildArtificialThreadFromRecentEmails(
@@ -2661,6 +2201,7 @@ export class EmailAnalysisService {
           sentDate: sent,
           body,
           isFromCurrentUser: fromAddr === currentLower,
+          hasAttachments: e.hasAttachments,
         });
       } catch {
         // ignore malformed items
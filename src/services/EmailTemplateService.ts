@@ -0,0 +1,237 @@
+import { EmailTemplate } from "../models/Configuration";
+import { FollowupEmail } from "../models/FollowupEmail";
+import { DEFAULT_EMAIL_TEMPLATES } from "./EmailTemplates";
+import { FollowupDraftService } from "./FollowupDraftService";
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  "firstName",
+  "subject",
+  "sentDate",
+  "daysWaiting",
+];
+
+const PACK_TYPE = "followup-suggester-templates";
+const PACK_VERSION = 1;
+
+/** File format for sharing templates between users */
+export interface EmailTemplatePack {
+  type: typeof PACK_TYPE;
+  version: number;
+  exportedAt: string;
+  templates: EmailTemplate[];
+}
+
+export interface EmailTemplateImportResult {
+  added: number;
+  updated: number;
+}
+
+const PLACEHOLDER = /\{([A-Za-z][A-Za-z0-9]*)\}/g;
+
+/**
+ * Library of follow-up templates. Rendering is plain substitution from the
+ * email's own fields, so templates work the same with AI disabled.
+ */
+export class EmailTemplateService {
+  private templates: EmailTemplate[];
+
+  constructor(templates: EmailTemplate[] = DEFAULT_EMAIL_TEMPLATES) {
+    this.templates = templates.map((template) => ({ ...template }));
+  }
+
+  public list(): EmailTemplate[] {
+    return this.templates.map((template) => ({ ...template }));
+  }
+
+  public get(id: string): EmailTemplate | undefined {
+    const template = this.templates.find((t) => t.id === id);
+    return template ? { ...template } : undefined;
+  }
+
+  /** Values for the template placeholders, taken from `email` */
+  public getVariables(email: FollowupEmail): Record<string, string> {
+    return {
+      firstName: this.getFirstName(email.recipients),
+      subject: FollowupDraftService.stripSubjectPrefix(email.subject),
+      sentDate: new Date(email.sentDate).toLocaleDateString(undefined, {
+        month: "long",
+        day: "numeric",
+      }),
+      daysWaiting: String(email.daysWithoutResponse),
+    };
+  }
+
+  /** Body of template `id` filled in for `email`; unknown placeholders are kept */
+  public render(id: string, email: FollowupEmail): string {
+    const template = this.get(id);
+    if (!template) {
+      throw new Error(`Unknown email template: ${id}`);
+    }
+    const variables = this.getVariables(email);
+    return template.body.replace(PLACEHOLDER, (match, name: string) =>
+      name in variables ? variables[name] : match,
+    );
+  }
+
+  /** Problems with `template`, empty when valid */
+  public validate(template: Pick<EmailTemplate, "name" | "body">): string[] {
+    const errors: string[] = [];
+    if (!template.name || !template.name.trim()) {
+      errors.push("Template name must not be empty");
+    }
+    if (!template.body || !template.body.trim()) {
+      errors.push("Template text must not be empty");
+    }
+    const unknown = new Set<string>();
+    (template.body || "").replace(PLACEHOLDER, (match, name: string) => {
+      if (!EMAIL_TEMPLATE_VARIABLES.includes(name)) {
+        unknown.add(match);
+      }
+      return match;
+    });
+    unknown.forEach((placeholder) =>
+      errors.push(
+        `Unknown variable ${placeholder}, available: ${EMAIL_TEMPLATE_VARIABLES.map((v) => `{${v}}`).join(", ")}`,
+      ),
+    );
+    return errors;
+  }
+
+  /** Add a template, or replace the one with the same id */
+  public save(
+    template: Pick<EmailTemplate, "name" | "body"> & { id?: string },
+  ): EmailTemplate {
+    const errors = this.validate(template);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    const saved: EmailTemplate = {
+      id: template.id || this.createId(template.name),
+      name: template.name.trim(),
+      body: template.body,
+    };
+    const index = this.templates.findIndex((t) => t.id === saved.id);
+    if (index >= 0) {
+      this.templates[index] = saved;
+    } else {
+      this.templates.push(saved);
+    }
+    return { ...saved };
+  }
+
+  public remove(id: string): void {
+    this.templates = this.templates.filter((t) => t.id !== id);
+  }
+
+  public exportPack(now: Date = new Date()): string {
+    const pack: EmailTemplatePack = {
+      type: PACK_TYPE,
+      version: PACK_VERSION,
+      exportedAt: now.toISOString(),
+      templates: this.list(),
+    };
+    return JSON.stringify(pack, null, 2);
+  }
+
+  /**
+   * Merge the templates of an exported pack. A template replaces the existing
+   * one with the same id or name; nothing is imported if any template is
+   * invalid.
+   */
+  public importPack(json: string): EmailTemplateImportResult {
+    let pack: Partial<EmailTemplatePack>;
+    try {
+      pack = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid template pack: ${(error as Error).message}`);
+    }
+    if (!pack || pack.type !== PACK_TYPE || !Array.isArray(pack.templates)) {
+      throw new Error("Invalid template pack: not a follow-up template export");
+    }
+    if (typeof pack.version === "number" && pack.version > PACK_VERSION) {
+      throw new Error(
+        `Invalid template pack: version ${pack.version} is newer than supported (${PACK_VERSION})`,
+      );
+    }
+
+    const incoming = pack.templates.map((template, index) => {
+      const errors = this.validate(template || ({} as EmailTemplate));
+      if (errors.length > 0) {
+        throw new Error(
+          `Invalid template pack: template ${index + 1}: ${errors.join("; ")}`,
+        );
+      }
+      return template;
+    });
+
+    const result: EmailTemplateImportResult = { added: 0, updated: 0 };
+    incoming.forEach((template) => {
+      const name = template.name.trim();
+      const existing = this.templates.find(
+        (t) =>
+          (!!template.id && t.id === template.id) ||
+          t.name.toLowerCase() === name.toLowerCase(),
+      );
+      this.save({
+        id: existing ? existing.id : template.id,
+        name,
+        body: template.body,
+      });
+      result[existing ? "updated" : "added"]++;
+    });
+    return result;
+  }
+
+  /**
+   * First name of the only recipient, from its display name or else from an
+   * address such as anna.smith@example.com. Several recipients give "all";
+   * no usable name gives "there".
+   */
+  private getFirstName(recipients: string[]): string {
+    const list = (recipients || []).filter((r) => !!r && !!r.trim());
+    if (list.length > 1) {
+      return "all";
+    }
+    if (list.length === 0) {
+      return "there";
+    }
+
+    const recipient = list[0].trim();
+    const angle = recipient.indexOf("<");
+    const displayName =
+      angle > 0 ? recipient.slice(0, angle).replace(/"/g, "").trim() : "";
+    if (displayName && !displayName.includes("@")) {
+      // "Smith, Anna" lists the last name first
+      const parts = displayName.includes(",")
+        ? displayName.split(",")[1].trim().split(/\s+/)
+        : displayName.split(/\s+/);
+      if (parts[0]) {
+        return parts[0];
+      }
+    }
+
+    const address =
+      angle >= 0 ? recipient.slice(angle + 1).replace(">", "") : recipient;
+    const localPart = address.split("@")[0].split(/[._-]/)[0];
+    if (/^[A-Za-z]{2,}$/.test(localPart)) {
+      return (
+        localPart.charAt(0).toUpperCase() + localPart.slice(1).toLowerCase()
+      );
+    }
+    return "there";
+  }
+
+  private createId(name: string): string {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "template";
+    let id = base;
+    let suffix = 2;
+    while (this.templates.some((t) => t.id === id)) {
+      id = `${base}-${suffix++}`;
+    }
+    return id;
+  }
+}
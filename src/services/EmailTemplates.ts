@@ -0,0 +1,32 @@
+import { EmailTemplate } from "../models/Configuration";
+
+// Shipped follow-up templates; users can edit, delete or import more
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: "gentle-nudge",
+    name: "Gentle nudge",
+    body: `Hi {firstName},
+
+I wanted to follow up on my email about "{subject}" from {sentDate}. Have you had a chance to look at it?
+
+Thanks,`,
+  },
+  {
+    id: "checking-in",
+    name: "Checking in",
+    body: `Hi {firstName},
+
+Just checking in on "{subject}" - it has been {daysWaiting} days since I reached out. Please let me know if you need anything else from me to move this forward.
+
+Best regards,`,
+  },
+  {
+    id: "final-follow-up",
+    name: "Final follow-up",
+    body: `Hi {firstName},
+
+I'm following up one last time on "{subject}", which I sent on {sentDate}. If this is no longer a priority, just let me know and I'll close it on my side.
+
+Thanks,`,
+  },
+];
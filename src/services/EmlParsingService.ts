@@ -0,0 +1,297 @@
+import { EmlFile, SnapshotMessage } from "../models/MailboxSnapshot";
+
+interface ParsedMimePart {
+  headers: { [name: string]: string };
+  body: string;
+}
+
+/**
+ * Minimal RFC 5322 / MIME parser for .eml files.
+ * Extracts the headers needed for threading and a plain-text body; attachments are ignored.
+ */
+export class EmlParsingService {
+  /**
+   * Parse a set of .eml files and resolve conversation ids from the
+   * References / In-Reply-To headers so replies share their thread root.
+   */
+  public parseFiles(files: EmlFile[]): SnapshotMessage[] {
+    const parsed: Array<{
+      message: SnapshotMessage;
+      references: string[];
+      inReplyTo?: string;
+    }> = [];
+
+    files.forEach((file) => {
+      try {
+        const result = this.parseEml(file.content, file.name);
+        if (result) {
+          parsed.push(result);
+        }
+      } catch (error) {
+        console.warn(`Failed to parse ${file.name}:`, error);
+      }
+    });
+
+    const parentById = new Map<string, string | undefined>();
+    parsed.forEach((entry) =>
+      parentById.set(entry.message.id, entry.inReplyTo),
+    );
+
+    return parsed.map(({ message, references, inReplyTo }) => {
+      let root = references.length > 0 ? references[0] : undefined;
+      if (!root && inReplyTo) {
+        // Walk the In-Reply-To chain through the messages we have
+        const visited = new Set<string>([message.id]);
+        root = inReplyTo;
+        while (parentById.get(root) && !visited.has(root)) {
+          visited.add(root);
+          root = parentById.get(root)!;
+        }
+      }
+      return { ...message, conversationId: root || message.id };
+    });
+  }
+
+  public parse(content: string, fallbackId = ""): SnapshotMessage | null {
+    const result = this.parseEml(content, fallbackId);
+    return result ? result.message : null;
+  }
+
+  private parseEml(
+    content: string,
+    fallbackId: string,
+  ): {
+    message: SnapshotMessage;
+    references: string[];
+    inReplyTo?: string;
+  } | null {
+    const part = this.parsePart(content);
+    const headers = part.headers;
+
+    const sentDate = new Date(headers["date"] || "");
+    if (isNaN(sentDate.getTime())) {
+      console.warn(`Skipping ${fallbackId || "message"}: missing Date header`);
+      return null;
+    }
+
+    const id = this.extractMessageIds(headers["message-id"] || "")[0];
+    const references = this.extractMessageIds(headers["references"] || "");
+    const inReplyTo = this.extractMessageIds(headers["in-reply-to"] || "")[0];
+
+    return {
+      message: {
+        id: id || fallbackId,
+        subject: this.decodeHeaderValue(headers["subject"] || ""),
+        from: this.parseAddressList(headers["from"] || "")[0] || "",
+        to: this.parseAddressList(headers["to"] || ""),
+        cc: this.parseAddressList(headers["cc"] || ""),
+        sentDateTime: sentDate.toISOString(),
+        body: this.extractTextBody(part).trim(),
+      },
+      references,
+      inReplyTo,
+    };
+  }
+
+  private parsePart(content: string): ParsedMimePart {
+    const normalized = content.replace(/\r\n/g, "\n");
+    const separatorIndex = normalized.indexOf("\n\n");
+    const headerText =
+      separatorIndex >= 0 ? normalized.slice(0, separatorIndex) : normalized;
+    const body =
+      separatorIndex >= 0 ? normalized.slice(separatorIndex + 2) : "";
+
+    const headers: { [name: string]: string } = {};
+    // Unfold continuation lines (RFC 5322 section 2.2.3)
+    headerText
+      .replace(/\n[ \t]+/g, " ")
+      .split("\n")
+      .forEach((line) => {
+        const colonIndex = line.indexOf(":");
+        if (colonIndex <= 0) return;
+        const name = line.slice(0, colonIndex).trim().toLowerCase();
+        // Keep the first occurrence, later duplicates are usually trace headers
+        if (!(name in headers)) {
+          headers[name] = line.slice(colonIndex + 1).trim();
+        }
+      });
+
+    return { headers, body };
+  }
+
+  private extractTextBody(part: ParsedMimePart): string {
+    const contentType = part.headers["content-type"] || "text/plain";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+    if (mimeType.startsWith("multipart/")) {
+      const boundary = this.getHeaderParam(contentType, "boundary");
+      if (!boundary) return "";
+      const children = this.splitMultipart(part.body, boundary).map((child) =>
+        this.parsePart(child),
+      );
+      // Prefer text/plain, then anything that yields text (nested multipart or html)
+      const plain = children.find((child) =>
+        (child.headers["content-type"] || "text/plain")
+          .toLowerCase()
+          .startsWith("text/plain"),
+      );
+      if (plain && !this.isAttachment(plain)) {
+        return this.extractTextBody(plain);
+      }
+      for (const child of children) {
+        if (this.isAttachment(child)) continue;
+        const text = this.extractTextBody(child);
+        if (text) return text;
+      }
+      return "";
+    }
+
+    if (!mimeType.startsWith("text/")) {
+      return "";
+    }
+
+    const charset = this.getHeaderParam(contentType, "charset") || "utf-8";
+    const decoded = this.decodeTransferEncoding(
+      part.body,
+      (part.headers["content-transfer-encoding"] || "7bit").toLowerCase(),
+      charset,
+    );
+    return mimeType === "text/html" ? this.htmlToText(decoded) : decoded;
+  }
+
+  private splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    const sections = body.split(delimiter);
+    // sections[0] is the preamble; a section starting with "--" is the epilogue
+    for (let i = 1; i < sections.length; i++) {
+      const section = sections[i];
+      if (section.startsWith("--")) break;
+      parts.push(section.replace(/^[ \t]*\n/, ""));
+    }
+    return parts;
+  }
+
+  private isAttachment(part: ParsedMimePart): boolean {
+    return (part.headers["content-disposition"] || "")
+      .toLowerCase()
+      .startsWith("attachment");
+  }
+
+  private decodeTransferEncoding(
+    body: string,
+    encoding: string,
+    charset: string,
+  ): string {
+    if (encoding === "base64") {
+      return this.decodeBytes(
+        this.base64ToBytes(body.replace(/\s+/g, "")),
+        charset,
+      );
+    }
+    if (encoding === "quoted-printable") {
+      return this.decodeQuotedPrintable(body, charset);
+    }
+    return body;
+  }
+
+  private decodeQuotedPrintable(text: string, charset: string): string {
+    const softBreaksRemoved = text.replace(/=\n/g, "");
+    const bytes: number[] = [];
+    for (let i = 0; i < softBreaksRemoved.length; i++) {
+      const char = softBreaksRemoved[i];
+      const hex = softBreaksRemoved.substr(i + 1, 2);
+      if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        // Non-ASCII characters should not appear in QP, encode them defensively
+        const encoded = unescape(encodeURIComponent(char));
+        for (let j = 0; j < encoded.length; j++) {
+          bytes.push(encoded.charCodeAt(j));
+        }
+      }
+    }
+    return this.decodeBytes(new Uint8Array(bytes), charset);
+  }
+
+  /**
+   * Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?= or =?iso-8859-1?Q?...?=
+   */
+  private decodeHeaderValue(value: string): string {
+    return value
+      .replace(/\?=\s+=\?/g, "?==?") // whitespace between encoded words is ignored
+      .replace(
+        /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+        (_match, charset: string, encoding: string, text: string) => {
+          if (encoding.toUpperCase() === "B") {
+            return this.decodeBytes(this.base64ToBytes(text), charset);
+          }
+          return this.decodeQuotedPrintable(text.replace(/_/g, " "), charset);
+        },
+      );
+  }
+
+  private parseAddressList(value: string): string[] {
+    const decoded = this.decodeHeaderValue(value);
+    const addresses: string[] = [];
+    // Drop quoted display names first, they may contain commas or "@"
+    const withoutQuoted = decoded.replace(/"[^"]*"/g, "");
+    withoutQuoted.split(",").forEach((entry) => {
+      const angle = entry.match(/<([^>]+)>/);
+      const address = angle ? angle[1] : entry;
+      const match = address.match(/[^\s<>()]+@[^\s<>()]+/);
+      if (match) {
+        addresses.push(match[0].trim());
+      }
+    });
+    return addresses;
+  }
+
+  private extractMessageIds(value: string): string[] {
+    const ids = value.match(/<[^>]+>/g);
+    if (ids) {
+      return ids.map((id) => id.slice(1, -1).trim());
+    }
+    return value.trim() ? [value.trim()] : [];
+  }
+
+  private getHeaderParam(headerValue: string, param: string): string | null {
+    const match = headerValue.match(
+      new RegExp(`${param}\\s*=\\s*(?:"([^"]+)"|([^;\\s]+))`, "i"),
+    );
+    return match ? match[1] || match[2] : null;
+  }
+
+  private base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private decodeBytes(bytes: Uint8Array, charset: string): string {
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(bytes);
+    } catch {
+      return new TextDecoder("utf-8").decode(bytes);
+    }
+  }
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|tr)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, "&")
+      .replace(/\n{3,}/g, "\n\n");
+  }
+}
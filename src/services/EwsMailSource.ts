@@ -0,0 +1,1359 @@
+import { ThreadMessage } from "../models/FollowupEmail";
+import { XmlParsingService, ParsedEmail } from "./XmlParsingService";
+import {
+  DebugLogger,
+  FolderChanges,
+  MailSource,
+  SyncFolderName,
+} from "./MailSource";
+
+/**
+ * MailSource backed by Exchange Web Services through Office.context.mailbox.makeEwsRequestAsync.
+ */
+export class EwsMailSource implements MailSource {
+  public readonly kind = "ews" as const;
+
+  // Most changes a SyncFolderItems request may return
+  private readonly MAX_SYNC_CHANGES = 512;
+
+  private xmlParsingService: XmlParsingService;
+  private logDebug: DebugLogger;
+  // Outlook always has makeEwsRequestAsync, even when EWS is disabled for the tenant
+  private probeResult?: Promise<boolean>;
+  private ewsBlocked = false;
+
+  constructor(
+    xmlParsingService: XmlParsingService = new XmlParsingService(),
+    logDebug: DebugLogger = () => {},
+  ) {
+    this.xmlParsingService = xmlParsingService;
+    this.logDebug = logDebug;
+  }
+
+  public async resolveConversationId(itemId: string): Promise<string | null> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildGetConversationIdRequest(itemId),
+        (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            resolve(this.parseConversationIdResponse(result.value));
+          } else {
+            reject(
+              new Error(
+                result.error?.message || "Failed to resolve conversation ID",
+              ),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  public async listInboxItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildGetInboxEmailsRequest(emailCount, cutoffDate),
+        (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            try {
+              const response = result.value;
+              const emails = this.parseSentEmailsResponse(response); // same parsing logic applies
+              resolve(emails);
+            } catch (error) {
+              reject(error);
+            }
+          } else {
+            reject(
+              new Error(result.error?.message || "Failed to get inbox emails"),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  private buildGetInboxEmailsRequest(
+    emailCount: number,
+    cutoffDate: Date,
+  ): string {
+    const cutoffDateISO = cutoffDate.toISOString();
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+                             xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+                             xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+                             xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+    <soap:Header>
+        <t:RequestServerVersion Version="Exchange2013" />
+    </soap:Header>
+    <soap:Body>
+        <m:FindItem Traversal="Shallow">
+            <m:ItemShape>
+                <t:BaseShape>IdOnly</t:BaseShape>
+                <t:AdditionalProperties>
+                    <t:FieldURI FieldURI="item:Subject" />
+                    <t:FieldURI FieldURI="item:DateTimeSent" />
+                    <t:FieldURI FieldURI="message:ToRecipients" />
+                    <t:FieldURI FieldURI="message:CcRecipients" />
+                    <t:FieldURI FieldURI="message:From" />
+                    <t:FieldURI FieldURI="item:Body" />
+                    <t:FieldURI FieldURI="conversation:ConversationId" />
+                    <t:FieldURI FieldURI="item:HasAttachments" />
+                </t:AdditionalProperties>
+            </m:ItemShape>
+            <m:IndexedPageItemView MaxEntriesReturned="${emailCount}" Offset="0" BasePoint="Beginning" />
+            <m:Restriction>
+                <t:And>
+                    <t:IsGreaterThan>
+                        <t:FieldURI FieldURI="item:DateTimeSent" />
+                        <t:FieldURIOrConstant>
+                            <t:Constant Value="${cutoffDateISO}" />
+                        </t:FieldURIOrConstant>
+                    </t:IsGreaterThan>
+                </t:And>
+            </m:Restriction>
+            <m:ParentFolderIds>
+                <t:DistinguishedFolderId Id="inbox" />
+            </m:ParentFolderIds>
+        </m:FindItem>
+    </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private buildGetConversationItemsRequest(
+    conversationId: string,
+    maxItems = 250,
+  ): string {
+    // Using shallow to respect folder boundaries but conversation API returns nodes.
+    // Optionally FoldersToIgnore could list drafts/deleteditems if filtering earlier.
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+  <soap:Header>
+    <t:RequestServerVersion Version="Exchange2013" />
+  </soap:Header>
+  <soap:Body>
+    <m:GetConversationItems ReturnSynchronizationCookie="false">
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+    <t:BodyType>Text</t:BodyType>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:Subject" />
+          <t:FieldURI FieldURI="item:DateTimeSent" />
+          <t:FieldURI FieldURI="item:DateTimeReceived" />
+          <t:FieldURI FieldURI="message:ToRecipients" />
+          <t:FieldURI FieldURI="message:From" />
+          <t:FieldURI FieldURI="item:Body" />
+          <t:FieldURI FieldURI="conversation:ConversationId" />
+          <t:FieldURI FieldURI="item:HasAttachments" />
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:FoldersToIgnore>
+        <t:DistinguishedFolderId Id="drafts" />
+        <t:DistinguishedFolderId Id="deleteditems" />
+      </m:FoldersToIgnore>
+            <m:MaxItemsToReturn>${maxItems}</m:MaxItemsToReturn>
+      <m:ConversationIds>
+        <t:ConversationId Id="${conversationId}" />
+      </m:ConversationIds>
+    </m:GetConversationItems>
+  </soap:Body>
+</soap:Envelope>`;
+  }
+
+  public async getConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildGetConversationItemsRequest(conversationId),
+        (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            try {
+              const messages = this.parseGetConversationItemsResponse(
+                result.value,
+              );
+              resolve(messages);
+            } catch (e) {
+              reject(e);
+            }
+          } else {
+            reject(
+              new Error(result.error?.message || "GetConversationItems failed"),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  private parseGetConversationItemsResponse(xml: string): ThreadMessage[] {
+    const currentUserEmailRaw = this.getCurrentUserEmail();
+    if (!currentUserEmailRaw) {
+      console.warn(
+        "Cannot parse conversation items: Office.context.mailbox.userProfile not available",
+      );
+      return [];
+    }
+    const currentUserEmail = currentUserEmailRaw.toLowerCase();
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(xml, "text/xml");
+    const messages: ThreadMessage[] = [];
+
+    try {
+      // ConversationNodes can contain one or more Items of different classes (Message, Meeting*, etc.)
+      // Use namespace-agnostic search
+      let nodeLists: Element[] = Array.from(
+        doc.getElementsByTagNameNS("*", "ConversationNode"),
+      );
+      if (nodeLists.length === 0) {
+        // Fallback: search by local name
+        const allElements = doc.getElementsByTagName("*");
+        const found: Element[] = [];
+        for (let i = 0; i < allElements.length; i++) {
+          const el = allElements[i];
+          if (
+            el.localName === "ConversationNode" ||
+            el.tagName === "ConversationNode" ||
+            el.tagName === "t:ConversationNode"
+          ) {
+            found.push(el);
+          }
+        }
+        nodeLists = found;
+      }
+      for (let i = 0; i < nodeLists.length; i++) {
+        const node = nodeLists[i];
+
+        // Prefer items under the Items container if present
+        let itemsContainer: Element | null =
+          node.getElementsByTagNameNS("*", "Items")[0] || null;
+        if (!itemsContainer) {
+          // Fallback: search by local name
+          const allElements = node.getElementsByTagName("*");
+          for (let j = 0; j < allElements.length; j++) {
+            const el = allElements[j];
+            if (
+              el.localName === "Items" ||
+              el.tagName === "Items" ||
+              el.tagName === "t:Items"
+            ) {
+              itemsContainer = el;
+              break;
+            }
+          }
+        }
+        if (!itemsContainer) {
+          itemsContainer = node;
+        }
+
+        // Collect candidate item elements across common classes
+        const candidateTags = [
+          "Message",
+          "MeetingMessage",
+          "MeetingRequest",
+          "MeetingResponse",
+          "MeetingCancellation",
+        ];
+        let itemElements: Element[] = [];
+        for (const tag of candidateTags) {
+          const found = Array.from(
+            itemsContainer.getElementsByTagNameNS("*", tag),
+          );
+          itemElements = itemElements.concat(found);
+        }
+
+        // If nothing matched, fall back to scanning any child elements that look like items (have ItemId)
+        if (itemElements.length === 0) {
+          const all = Array.from(
+            itemsContainer.getElementsByTagName("*"),
+          ) as Element[];
+          itemElements = all.filter((el) => {
+            const hasItemId =
+              el.getElementsByTagNameNS("*", "ItemId").length > 0;
+            const hasItemIdLocal =
+              el.getElementsByTagName("ItemId").length > 0 ||
+              el.getElementsByTagName("t:ItemId").length > 0;
+            return hasItemId || hasItemIdLocal;
+          });
+        }
+
+        for (const item of itemElements) {
+          // Try multiple ways to find ItemId
+          let idEl = item.getElementsByTagNameNS("*", "ItemId")[0];
+          if (!idEl) {
+            const itemIdByTag = item.getElementsByTagName("ItemId");
+            if (itemIdByTag.length > 0) idEl = itemIdByTag[0];
+            if (!idEl) {
+              const itemIdByTagNS = item.getElementsByTagName("t:ItemId");
+              if (itemIdByTagNS.length > 0) idEl = itemIdByTagNS[0];
+            }
+          }
+          if (!idEl) continue;
+
+          // Try multiple ways to find other elements
+          const getElement = (tagName: string): Element | null => {
+            let el = item.getElementsByTagNameNS("*", tagName)[0];
+            if (!el) {
+              const byTag = item.getElementsByTagName(tagName);
+              if (byTag.length > 0) el = byTag[0];
+            }
+            if (!el) {
+              const byTagNS = item.getElementsByTagName(`t:${tagName}`);
+              if (byTagNS.length > 0) el = byTagNS[0];
+            }
+            return el || null;
+          };
+
+          const subjEl = getElement("Subject");
+          const sentEl = getElement("DateTimeSent");
+          const recvEl = getElement("DateTimeReceived");
+          const fromEmail = this.extractEmailAddress(getElement("From"));
+          const toEmails = this.extractMultipleAddresses(
+            getElement("ToRecipients"),
+          );
+          const bodyEl = getElement("Body");
+          const attachmentsEl = getElement("HasAttachments");
+
+          const id = idEl.getAttribute("Id") || idEl.textContent || "";
+          const sentDate = sentEl
+            ? new Date(sentEl.textContent || "")
+            : new Date();
+          const receivedDate = recvEl
+            ? new Date(recvEl.textContent || "")
+            : undefined;
+          const from = (fromEmail || "").trim();
+          const subj = (subjEl?.textContent || "").trim();
+          const body = (bodyEl?.textContent || "").trim();
+          const isFromCurrentUser = from.toLowerCase() === currentUserEmail;
+
+          messages.push({
+            id,
+            subject: subj,
+            from,
+            to: toEmails,
+            sentDate,
+            receivedDate,
+            body,
+            isFromCurrentUser,
+            hasAttachments: attachmentsEl?.textContent?.trim() === "true",
+          });
+        }
+      }
+
+      // Sort chronologically by receivedDate if available else sentDate
+      messages.sort((a, b) => {
+        const aTime = (a.receivedDate || a.sentDate).getTime();
+        const bTime = (b.receivedDate || b.sentDate).getTime();
+        return aTime - bTime;
+      });
+    } catch (err) {
+      console.error(
+        "[ERROR] Failed to parse GetConversationItems response:",
+        err,
+      );
+    }
+    return messages;
+  }
+
+  private extractEmailAddress(container?: Element | null): string | undefined {
+    if (!container) return undefined;
+
+    // Try namespace-aware search first
+    let addr = container.getElementsByTagNameNS("*", "EmailAddress")[0];
+    if (addr?.textContent) return addr.textContent.trim();
+
+    // Fallback: try by tag name
+    const addrByTag = container.getElementsByTagName("EmailAddress");
+    if (addrByTag.length > 0 && addrByTag[0].textContent) {
+      return addrByTag[0].textContent.trim();
+    }
+
+    // Try with namespace prefix
+    const addrByTagNS = container.getElementsByTagName("t:EmailAddress");
+    if (addrByTagNS.length > 0 && addrByTagNS[0].textContent) {
+      return addrByTagNS[0].textContent.trim();
+    }
+
+    // Try Address as fallback
+    const addressNode = container.getElementsByTagNameNS("*", "Address")[0];
+    if (addressNode?.textContent) return addressNode.textContent.trim();
+
+    return undefined;
+  }
+
+  private extractMultipleAddresses(container?: Element | null): string[] {
+    if (!container) return [];
+    const emails: string[] = [];
+    const mailboxes = container.getElementsByTagNameNS("*", "Mailbox");
+    for (let i = 0; i < mailboxes.length; i++) {
+      const e = this.extractEmailAddress(mailboxes[i]);
+      if (e) emails.push(e);
+    }
+    return emails;
+  }
+
+  public isAvailable(): boolean {
+    return !this.ewsBlocked && this.hasEwsApi();
+  }
+
+  /** Send one small request to check that EWS answers; the result is kept */
+  public probe(): Promise<boolean> {
+    if (!this.hasEwsApi()) return Promise.resolve(false);
+    if (!this.probeResult) {
+      this.probeResult = new Promise((resolve) => {
+        const fail = (reason?: string) => {
+          console.warn("EWS is not usable, trying other mail sources:", reason);
+          this.ewsBlocked = true;
+          resolve(false);
+        };
+        try {
+          Office.context.mailbox.makeEwsRequestAsync(
+            this.buildProbeRequest(),
+            (result) => {
+              if (result.status === Office.AsyncResultStatus.Succeeded) {
+                resolve(true);
+              } else {
+                fail(result.error?.message);
+              }
+            },
+          );
+        } catch (error) {
+          fail((error as Error).message);
+        }
+      });
+    }
+    return this.probeResult;
+  }
+
+  private buildProbeRequest(): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Header>
+    <t:RequestServerVersion Version="Exchange2013" />
+  </soap:Header>
+  <soap:Body>
+    <m:GetFolder>
+      <m:FolderShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+      </m:FolderShape>
+      <m:FolderIds>
+        <t:DistinguishedFolderId Id="sentitems" />
+      </m:FolderIds>
+    </m:GetFolder>
+  </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private hasEwsApi(): boolean {
+    try {
+      return (
+        typeof Office !== "undefined" &&
+        Office.context &&
+        Office.context.mailbox &&
+        typeof Office.context.mailbox.makeEwsRequestAsync === "function"
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private isOfficeContextAvailable(): boolean {
+    try {
+      return (
+        typeof Office !== "undefined" &&
+        !!Office.context &&
+        !!Office.context.mailbox &&
+        !!Office.context.mailbox.userProfile
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  public getCurrentUserEmail(): string | null {
+    try {
+      if (this.isOfficeContextAvailable()) {
+        return Office.context.mailbox.userProfile.emailAddress;
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  public async listSentItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildGetSentEmailsRequest(emailCount, cutoffDate),
+        (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            try {
+              const response = result.value;
+              const emails = this.parseSentEmailsResponse(response);
+              resolve(emails);
+            } catch (error) {
+              reject(error);
+            }
+          } else {
+            reject(
+              new Error(result.error?.message || "Failed to get sent emails"),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * SyncFolderItems has no date restriction, so a first sync walks the whole
+   * folder; items sent before `cutoffDate` are skipped.
+   */
+  public async syncFolder(
+    folder: SyncFolderName,
+    syncState: string | undefined,
+    cutoffDate: Date,
+  ): Promise<FolderChanges> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildSyncFolderItemsRequest(folder, syncState),
+        (result) => {
+          if (result.status !== Office.AsyncResultStatus.Succeeded) {
+            reject(
+              new Error(result.error?.message || `Failed to sync ${folder}`),
+            );
+            return;
+          }
+          try {
+            const validation = this.xmlParsingService.validateEwsResponse(
+              result.value,
+            );
+            if (!validation.isValid) {
+              throw new Error(validation.error);
+            }
+            const changes = this.xmlParsingService.parseSyncFolderItemsResponse(
+              result.value,
+            );
+            this.logDebug(
+              `[DEBUG] SyncFolderItems ${folder}: ${changes.changed.length} changed, ${changes.deletedIds.length} deleted`,
+            );
+            resolve({
+              syncState: changes.syncState,
+              changed: changes.changed.filter(
+                (email) =>
+                  !email.dateTimeSent ||
+                  new Date(email.dateTimeSent) >= cutoffDate,
+              ),
+              deletedIds: changes.deletedIds,
+              complete: changes.includesLastItemInRange,
+            });
+          } catch (error) {
+            reject(error);
+          }
+        },
+      );
+    });
+  }
+
+  // Body is not among the properties SyncFolderItems returns
+  private buildSyncFolderItemsRequest(
+    folder: SyncFolderName,
+    syncState: string | undefined,
+  ): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Header>
+    <t:RequestServerVersion Version="Exchange2013" />
+  </soap:Header>
+  <soap:Body>
+    <m:SyncFolderItems>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:Subject" />
+          <t:FieldURI FieldURI="item:DateTimeSent" />
+          <t:FieldURI FieldURI="message:ToRecipients" />
+          <t:FieldURI FieldURI="message:CcRecipients" />
+          <t:FieldURI FieldURI="message:From" />
+          <t:FieldURI FieldURI="conversation:ConversationId" />
+          <t:FieldURI FieldURI="item:HasAttachments" />
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:SyncFolderId>
+        <t:DistinguishedFolderId Id="${folder}" />
+      </m:SyncFolderId>${syncState ? `\n      <m:SyncState>${syncState}</m:SyncState>` : ""}
+      <m:MaxChangesReturned>${this.MAX_SYNC_CHANGES}</m:MaxChangesReturned>
+      <m:SyncScope>NormalItems</m:SyncScope>
+    </m:SyncFolderItems>
+  </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private buildGetSentEmailsRequest(
+    emailCount: number,
+    cutoffDate: Date,
+  ): string {
+    const cutoffDateISO = cutoffDate.toISOString();
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Header>
+    <t:RequestServerVersion Version="Exchange2013" />
+  </soap:Header>
+  <soap:Body>
+    <m:FindItem Traversal="Shallow">
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:Subject" />
+          <t:FieldURI FieldURI="item:DateTimeSent" />
+          <t:FieldURI FieldURI="message:ToRecipients" />
+          <t:FieldURI FieldURI="message:CcRecipients" />
+          <t:FieldURI FieldURI="message:From" />
+          <t:FieldURI FieldURI="item:Body" />
+          <t:FieldURI FieldURI="conversation:ConversationId" />
+          <t:FieldURI FieldURI="item:HasAttachments" />
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:IndexedPageItemView MaxEntriesReturned="${emailCount}" Offset="0" BasePoint="Beginning" />
+      <m:Restriction>
+        <t:And>
+          <t:IsGreaterThan>
+            <t:FieldURI FieldURI="item:DateTimeSent" />
+            <t:FieldURIOrConstant>
+              <t:Constant Value="${cutoffDateISO}" />
+            </t:FieldURIOrConstant>
+          </t:IsGreaterThan>
+        </t:And>
+      </m:Restriction>
+      <m:ParentFolderIds>
+        <t:DistinguishedFolderId Id="sentitems" />
+      </m:ParentFolderIds>
+    </m:FindItem>
+  </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private parseSentEmailsResponse(xmlResponse: string): ParsedEmail[] {
+    this.logDebug(
+      `[DEBUG] Parsing EWS FindItem response using XmlParsingService`,
+    );
+
+    // Validate the XML response first
+    const validation = this.xmlParsingService.validateEwsResponse(xmlResponse);
+    if (!validation.isValid) {
+      console.error(`[ERROR] Invalid EWS response: ${validation.error}`);
+      return [];
+    }
+
+    // Use the new parsing service
+    const emails = this.xmlParsingService.parseFindItemResponse(xmlResponse);
+    this.logDebug(`[DEBUG] XmlParsingService parsed ${emails.length} emails`);
+
+    // Log details for first few emails
+    emails.slice(0, 3).forEach((email, index) => {
+      this.logDebug(
+        `[DEBUG] Email ${index + 1}: Subject="${email.subject}", Date=${email.dateTimeSent}, From=${email.from.emailAddress.address}`,
+      );
+    });
+
+    return emails;
+  }
+
+  public async getThreadForItem(emailItemId: string): Promise<ThreadMessage[]> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Office.context.mailbox is not available. This feature requires running in Outlook.",
+      );
+    }
+
+    this.logDebug(
+      `[DEBUG] 🧵 THREAD RETRIEVAL: Getting conversation thread for email ID: ${emailItemId}`,
+    );
+
+    return new Promise((resolve, reject) => {
+      // First get the conversation ID from the email
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildGetConversationIdRequest(emailItemId),
+        async (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            try {
+              const conversationId = this.parseConversationIdResponse(
+                result.value,
+              );
+              if (!conversationId) {
+                this.logDebug(
+                  `[DEBUG] 📧 SINGLE EMAIL: No conversation ID found, treating as single email thread`,
+                );
+                const singleMessage = this.parseConversationResponse(
+                  result.value,
+                );
+                this.logDebug(
+                  `[DEBUG] 📧 SINGLE EMAIL RESULT: ${singleMessage.length} message(s) parsed`,
+                );
+                resolve(singleMessage);
+                return;
+              }
+              this.logDebug(
+                `[DEBUG] 🔗 CONVERSATION FOUND: ID = ${conversationId}, fetching via GetConversationItems`,
+              );
+              try {
+                const convMessages = await this.getConversation(conversationId);
+                if (convMessages.length > 0) {
+                  this.logDebug(
+                    `[DEBUG] 🎯 THREAD COMPLETE: Retrieved ${convMessages.length} messages via GetConversationItems`,
+                  );
+                  // Log the complete thread structure
+                  this.logDebug(`[DEBUG] 📋 COMPLETE THREAD STRUCTURE:`);
+                  convMessages.forEach((msg, index) => {
+                    this.logDebug(
+                      `[DEBUG]   ${index + 1}. ${msg.isFromCurrentUser ? "CURRENT USER" : "OTHER USER"} - ${msg.sentDate.toISOString()} - "${msg.subject}"`,
+                    );
+                  });
+                  resolve(convMessages);
+                } else {
+                  this.logDebug(
+                    `[DEBUG] ⚠️ FALLBACK: GetConversationItems returned no messages, falling back to single message`,
+                  );
+                  const singleMessage = this.parseConversationResponse(
+                    result.value,
+                  );
+                  resolve(singleMessage);
+                }
+              } catch (convErr) {
+                console.error(
+                  "[ERROR] 💥 THREAD FETCH FAILED: GetConversationItems after GetItem failed:",
+                  convErr,
+                );
+                const singleMessage = this.parseConversationResponse(
+                  result.value,
+                );
+                this.logDebug(
+                  `[DEBUG] 🔄 FALLBACK COMPLETE: Using single message instead`,
+                );
+                resolve(singleMessage);
+              }
+            } catch (error) {
+              console.error(
+                "[ERROR] 💥 CONVERSATION PARSING FAILED: Failed to parse conversation ID response:",
+                error,
+              );
+              reject(error);
+            }
+          } else {
+            console.error(
+              "[ERROR] 💥 EWS REQUEST FAILED: Failed to get conversation thread:",
+              result.error?.message,
+            );
+            reject(
+              new Error(
+                result.error?.message || "Failed to get conversation thread",
+              ),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  private parseConversationResponse(xmlResponse: string): ThreadMessage[] {
+    this.logDebug(
+      `[DEBUG] Parsing EWS GetItem response to extract email details`,
+    );
+
+    const currentUserEmailRaw = this.getCurrentUserEmail();
+    if (!currentUserEmailRaw) {
+      console.warn(
+        "Cannot parse conversation: Office.context.mailbox.userProfile not available",
+      );
+      return [];
+    }
+    const currentUserEmail = currentUserEmailRaw.toLowerCase();
+
+    // Validate the XML response first
+    const validation = this.xmlParsingService.validateEwsResponse(xmlResponse);
+    if (!validation.isValid) {
+      console.error(`[ERROR] Invalid EWS response: ${validation.error}`);
+      return [];
+    }
+
+    // Parse the GetItem response which contains a single email item
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
+
+      // Look for the message element in the GetItem response (namespace-agnostic)
+      let messageElements: Element[] = Array.from(
+        xmlDoc.getElementsByTagNameNS("*", "Message"),
+      );
+      if (!messageElements || messageElements.length === 0) {
+        // Fallbacks
+        const alt1 = xmlDoc.getElementsByTagName("t:Message");
+        const alt2 = xmlDoc.getElementsByTagName("Message");
+        const combined: Element[] = [];
+        for (let i = 0; i < alt1.length; i++) combined.push(alt1[i]);
+        for (let i = 0; i < alt2.length; i++) combined.push(alt2[i]);
+        messageElements = combined;
+      }
+      if (messageElements.length === 0) {
+        this.logDebug(`[DEBUG] No message found in GetItem response`);
+        return [];
+      }
+
+      const messageElement = messageElements[0];
+      const threadMessage = this.parseMessageElement(
+        messageElement,
+        currentUserEmail,
+      );
+
+      if (threadMessage) {
+        this.logDebug(
+          `[DEBUG] Successfully parsed single email: "${threadMessage.subject}" from ${threadMessage.from} (${threadMessage.isFromCurrentUser ? "current user" : "other"})`,
+        );
+        return [threadMessage];
+      } else {
+        this.logDebug(`[DEBUG] Failed to parse message element`);
+        return [];
+      }
+    } catch (error) {
+      console.error(`[ERROR] Failed to parse GetItem response:`, error);
+      return [];
+    }
+  }
+
+  // Helper methods for enhanced thread analysis
+  public async searchConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    this.logDebug(
+      `[DEBUG] Searching for conversation ${conversationId} across multiple folders`,
+    );
+
+    // Include root (deep traversal) to satisfy requirement: analyze across all folders & sub-folders
+    // Order chosen to prioritise cheaper targeted folders before deep mailbox scan
+    const folders = [
+      "sentitems", // Sent Items
+      "inbox", // Inbox
+      "drafts", // Drafts
+      "deleteditems", // Deleted Items
+      "archive", // Archive (if present; harmless if not)
+      "msgfolderroot", // Root (Deep traversal)
+    ];
+
+    const allMessages: ThreadMessage[] = [];
+
+    for (const folder of folders) {
+      try {
+        this.logDebug(`[DEBUG] Searching in folder: ${folder}`);
+        const folderMessages = await this.searchConversationInFolder(
+          conversationId,
+          folder,
+        );
+        allMessages.push(...folderMessages);
+        this.logDebug(
+          `[DEBUG] Found ${folderMessages.length} messages in ${folder}`,
+        );
+
+        // Debug: Log each message found in this folder
+        folderMessages.forEach((msg, index) => {
+          this.logDebug(
+            `[DEBUG] Folder ${folder} message ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
+          );
+        });
+      } catch (error) {
+        console.warn(`[WARN] Failed to search in folder ${folder}:`, error);
+        // Continue with other folders
+      }
+    }
+
+    this.logDebug(
+      `[DEBUG] Total messages before deduplication: ${allMessages.length}`,
+    );
+    allMessages.forEach((msg, index) => {
+      this.logDebug(
+        `[DEBUG] Before dedup ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
+      );
+    });
+
+    // Remove duplicates based on message ID
+    const uniqueMessages = this.removeDuplicateMessages(allMessages);
+
+    this.logDebug(
+      `[DEBUG] Total messages after deduplication: ${uniqueMessages.length}`,
+    );
+    uniqueMessages.forEach((msg, index) => {
+      this.logDebug(
+        `[DEBUG] After dedup ${index + 1}: ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
+      );
+    });
+
+    // CRITICAL FIX: Ensure chronological sort (earliest first) with proper comparison
+    this.logDebug(
+      `[DEBUG] Applying final chronological sort (earliest first)...`,
+    );
+    const sortedMessages = [...uniqueMessages].sort((a, b) => {
+      const timeA = a.sentDate.getTime();
+      const timeB = b.sentDate.getTime();
+      const diff = timeA - timeB; // Ascending order: earlier dates first
+      this.logDebug(
+        `[DEBUG] Sort comparison: ${a.id} (${timeA}) vs ${b.id} (${timeB}) = ${diff} ${diff < 0 ? "(A first)" : diff > 0 ? "(B first)" : "(same)"}`,
+      );
+      return diff;
+    });
+
+    this.logDebug(
+      `[DEBUG] Final sorted message order (chronological - earliest first):`,
+    );
+    sortedMessages.forEach((msg, index) => {
+      this.logDebug(
+        `[DEBUG]   ${index + 1}. ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()}) - ${msg.isFromCurrentUser ? "CURRENT USER" : "OTHER USER"}`,
+      );
+    });
+
+    // Validate sort order - ensure each message is chronologically before the next
+    for (let i = 1; i < sortedMessages.length; i++) {
+      const prevTime = sortedMessages[i - 1].sentDate.getTime();
+      const currTime = sortedMessages[i].sentDate.getTime();
+      if (prevTime > currTime) {
+        console.error(`[ERROR] ❌ Sort order violation detected!`);
+        console.error(
+          `[ERROR] Message ${i - 1} (${sortedMessages[i - 1].id}) time ${prevTime} > Message ${i} (${sortedMessages[i].id}) time ${currTime}`,
+        );
+        throw new Error(
+          `Sort order violation: Message ${i - 1} (${prevTime}) should not be after Message ${i} (${currTime})`,
+        );
+      } else {
+        this.logDebug(
+          `[DEBUG] ✅ Sort order correct: ${prevTime} <= ${currTime}`,
+        );
+      }
+    }
+
+    this.logDebug(
+      `[DEBUG] ✅ Sort validation passed. Total unique messages found: ${sortedMessages.length}`,
+    );
+    return sortedMessages;
+  }
+
+  private async searchConversationInFolder(
+    conversationId: string,
+    folderId: string,
+  ): Promise<ThreadMessage[]> {
+    if (!this.isAvailable()) {
+      console.warn(
+        "Office.context.mailbox is not available. Cannot search conversation in folder.",
+      );
+      return [];
+    }
+
+    return new Promise((resolve) => {
+      Office.context.mailbox.makeEwsRequestAsync(
+        this.buildSearchConversationRequest(
+          conversationId,
+          folderId,
+          folderId === "msgfolderroot" ? "Deep" : "Shallow",
+        ),
+        (result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            try {
+              const messages = this.parseSearchConversationResponse(
+                result.value,
+              );
+              resolve(messages);
+            } catch (error) {
+              console.error(
+                `[ERROR] Failed to parse search results for folder ${folderId}:`,
+                error,
+              );
+              resolve([]); // Return empty array instead of rejecting
+            }
+          } else {
+            console.warn(
+              `[WARN] Failed to search folder ${folderId}:`,
+              result.error?.message,
+            );
+            resolve([]); // Return empty array instead of rejecting
+          }
+        },
+      );
+    });
+  }
+
+  private buildSearchConversationRequest(
+    conversationId: string,
+    folderId: string,
+    traversal: "Shallow" | "Deep" = "Shallow",
+  ): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+                             xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+                             xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+                             xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+    <soap:Header>
+        <t:RequestServerVersion Version="Exchange2013" />
+    </soap:Header>
+    <soap:Body>
+        <m:FindItem Traversal="${traversal}">
+            <m:ItemShape>
+                <t:BaseShape>IdOnly</t:BaseShape>
+                <t:AdditionalProperties>
+                    <t:FieldURI FieldURI="item:Subject" />
+                    <t:FieldURI FieldURI="item:DateTimeSent" />
+                    <t:FieldURI FieldURI="message:ToRecipients" />
+                    <t:FieldURI FieldURI="message:From" />
+                    <t:FieldURI FieldURI="item:Body" />
+                    <t:FieldURI FieldURI="conversation:ConversationId" />
+                    <t:FieldURI FieldURI="item:HasAttachments" />
+                </t:AdditionalProperties>
+            </m:ItemShape>
+            <m:IndexedPageItemView MaxEntriesReturned="200" Offset="0" BasePoint="Beginning" />
+            <m:Restriction>
+                <t:IsEqualTo>
+                    <t:FieldURI FieldURI="conversation:ConversationId" />
+                    <t:FieldURIOrConstant>
+                        <t:Constant Value="${conversationId}" />
+                    </t:FieldURIOrConstant>
+                </t:IsEqualTo>
+            </m:Restriction>
+            <m:ParentFolderIds>
+                <t:DistinguishedFolderId Id="${folderId}" />
+            </m:ParentFolderIds>
+        </m:FindItem>
+    </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private parseSearchConversationResponse(
+    xmlResponse: string,
+  ): ThreadMessage[] {
+    const currentUserEmailRaw = this.getCurrentUserEmail();
+    if (!currentUserEmailRaw) {
+      console.warn(
+        "Cannot parse search conversation: Office.context.mailbox.userProfile not available",
+      );
+      return [];
+    }
+    const currentUserEmail = currentUserEmailRaw.toLowerCase();
+    const threadMessages: ThreadMessage[] = [];
+
+    try {
+      // Validate the XML response first
+      const validation =
+        this.xmlParsingService.validateEwsResponse(xmlResponse);
+      if (!validation.isValid) {
+        console.error(
+          `[ERROR] Invalid EWS search response: ${validation.error}`,
+        );
+        return [];
+      }
+
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
+
+      // Look for all message elements in the search results
+      const messageElements = xmlDoc.getElementsByTagName("t:Message");
+
+      for (let i = 0; i < messageElements.length; i++) {
+        const messageElement = messageElements[i];
+
+        try {
+          const threadMessage = this.parseMessageElement(
+            messageElement,
+            currentUserEmail,
+          );
+          if (threadMessage) {
+            threadMessages.push(threadMessage);
+          }
+        } catch (error) {
+          console.warn(
+            `[WARN] Failed to parse message ${i} in search results:`,
+            error,
+          );
+          // Continue processing other messages
+        }
+      }
+
+      this.logDebug(
+        `[DEBUG] Parsed ${threadMessages.length} messages from search results`,
+      );
+      return threadMessages;
+    } catch (error) {
+      console.error(
+        `[ERROR] Failed to parse search conversation response:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  private removeDuplicateMessages(messages: ThreadMessage[]): ThreadMessage[] {
+    const seen = new Set<string>();
+    const uniqueMessages: ThreadMessage[] = [];
+
+    this.logDebug(
+      `[DEBUG] Starting deduplication with ${messages.length} messages`,
+    );
+
+    // Process messages in order received - don't pre-sort here
+    for (const message of messages) {
+      // Create a unique key based on message ID, or fall back to content-based key
+      const key =
+        message.id ||
+        `${message.from}-${message.sentDate.getTime()}-${message.subject}`;
+
+      if (!seen.has(key)) {
+        seen.add(key);
+        uniqueMessages.push(message);
+        this.logDebug(
+          `[DEBUG] ✅ Keeping unique message: ${message.id} at ${message.sentDate.toISOString()} (${message.sentDate.getTime()})`,
+        );
+      } else {
+        this.logDebug(
+          `[DEBUG] ❌ Removing duplicate message: ${message.id} at ${message.sentDate.toISOString()} (${message.sentDate.getTime()})`,
+        );
+      }
+    }
+
+    this.logDebug(
+      `[DEBUG] Deduplication complete: Removed ${messages.length - uniqueMessages.length} duplicate messages`,
+    );
+    this.logDebug(`[DEBUG] Unique messages (in order processed):`);
+    uniqueMessages.forEach((msg, index) => {
+      this.logDebug(
+        `[DEBUG]   ${index + 1}. ${msg.id} - ${msg.sentDate.toISOString()} (${msg.sentDate.getTime()})`,
+      );
+    });
+
+    return uniqueMessages;
+  }
+
+  private buildGetConversationIdRequest(emailItemId: string): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" 
+               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" 
+               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types" 
+               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Header>
+    <t:RequestServerVersion Version="Exchange2013" />
+  </soap:Header>
+  <soap:Body>
+    <m:GetItem>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="conversation:ConversationId" />
+          <t:FieldURI FieldURI="item:Subject" />
+          <t:FieldURI FieldURI="item:DateTimeSent" />
+          <t:FieldURI FieldURI="message:ToRecipients" />
+          <t:FieldURI FieldURI="message:From" />
+          <t:FieldURI FieldURI="item:Body" />
+          <t:FieldURI FieldURI="item:HasAttachments" />
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:ItemIds>
+        <t:ItemId Id="${emailItemId}" />
+      </m:ItemIds>
+    </m:GetItem>
+  </soap:Body>
+</soap:Envelope>`;
+  }
+
+  private parseConversationIdResponse(xmlResponse: string): string | null {
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlResponse, "text/xml");
+
+      // Strategy: namespace-agnostic search for element whose localName == ConversationId
+      let conversationId: string | null = null;
+      const allElements = xmlDoc.getElementsByTagName("*");
+      for (let i = 0; i < allElements.length; i++) {
+        const el = allElements[i];
+        if (el.localName === "ConversationId") {
+          conversationId = el.getAttribute("Id");
+          if (conversationId) break;
+        }
+      }
+      if (conversationId) {
+        this.logDebug(`[DEBUG] Found conversation ID: ${conversationId}`);
+        return conversationId;
+      }
+      this.logDebug(
+        "[DEBUG] No conversation ID found in response (namespace-agnostic search)",
+      );
+      return null;
+    } catch (error) {
+      console.error(`[ERROR] Failed to parse conversation ID response:`, error);
+      return null;
+    }
+  }
+
+  private parseMessageElement(
+    messageElement: Element,
+    currentUserEmail: string,
+  ): ThreadMessage | null {
+    try {
+      // Extract ItemId with proper handling
+      const itemIdElements = messageElement.getElementsByTagName("t:ItemId");
+      const itemId =
+        itemIdElements.length > 0
+          ? itemIdElements[0].getAttribute("Id") || ""
+          : "";
+
+      // Extract basic message details with robust parsing
+      const getElementText = (tagName: string): string => {
+        const elements = messageElement.getElementsByTagName(tagName);
+        return elements.length > 0
+          ? (elements[0].textContent || "").trim()
+          : "";
+      };
+
+      const subject = getElementText("t:Subject");
+      const dateTimeSent = getElementText("t:DateTimeSent");
+
+      // Extract body with different possible formats
+      let body = "";
+      const bodyElements = messageElement.getElementsByTagName("t:Body");
+      if (bodyElements.length > 0) {
+        body = bodyElements[0].textContent || "";
+      }
+
+      // Extract From address with proper nested parsing
+      let fromAddress = currentUserEmail; // Default fallback
+      const fromElements = messageElement.getElementsByTagName("t:From");
+      if (fromElements.length > 0) {
+        // Try to get EmailAddress from nested Mailbox
+        const mailboxElements =
+          fromElements[0].getElementsByTagName("t:Mailbox");
+        if (mailboxElements.length > 0) {
+          const emailElements =
+            mailboxElements[0].getElementsByTagName("t:EmailAddress");
+          if (emailElements.length > 0) {
+            fromAddress = emailElements[0].textContent || currentUserEmail;
+          }
+        } else {
+          // Fallback to direct EmailAddress
+          const emailElements =
+            fromElements[0].getElementsByTagName("t:EmailAddress");
+          if (emailElements.length > 0) {
+            fromAddress = emailElements[0].textContent || currentUserEmail;
+          }
+        }
+      }
+
+      // Extract To recipients with robust parsing
+      const toRecipients: string[] = [];
+      const toRecipientsElements =
+        messageElement.getElementsByTagName("t:ToRecipients");
+      if (toRecipientsElements.length > 0) {
+        const mailboxElements =
+          toRecipientsElements[0].getElementsByTagName("t:Mailbox");
+        for (let i = 0; i < mailboxElements.length; i++) {
+          const emailElements =
+            mailboxElements[i].getElementsByTagName("t:EmailAddress");
+          if (emailElements.length > 0) {
+            const email = emailElements[0].textContent;
+            if (email && email.trim()) {
+              toRecipients.push(email.trim());
+            }
+          }
+        }
+      }
+
+      // Parse date with fallback
+      let sentDate: Date;
+      try {
+        sentDate = dateTimeSent ? new Date(dateTimeSent) : new Date();
+        // Validate the date
+        if (isNaN(sentDate.getTime())) {
+          sentDate = new Date();
+        }
+      } catch {
+        console.warn(
+          `[WARN] Failed to parse date: ${dateTimeSent}, using current date`,
+        );
+        sentDate = new Date();
+      }
+
+      // CRITICAL: Normalize email addresses for comparison (case-insensitive and trim whitespace)
+      const normalizedFromAddress = fromAddress.toLowerCase().trim();
+      const normalizedCurrentUserEmail = currentUserEmail.toLowerCase().trim();
+
+      // Determine if this message is from the current user
+      const isFromCurrentUser =
+        normalizedFromAddress === normalizedCurrentUserEmail;
+
+      const threadMessage: ThreadMessage = {
+        id: itemId,
+        subject: subject || "No Subject",
+        from: fromAddress,
+        to: toRecipients,
+        sentDate: sentDate,
+        body: body,
+        isFromCurrentUser: isFromCurrentUser,
+        hasAttachments: getElementText("t:HasAttachments") === "true",
+      };
+
+      this.logDebug(`[DEBUG] ✉️ PARSED MESSAGE: "${threadMessage.subject}"`);
+      this.logDebug(
+        `[DEBUG]   From: "${threadMessage.from}" (normalized: "${normalizedFromAddress}")`,
+      );
+      this.logDebug(
+        `[DEBUG]   Current user: "${currentUserEmail}" (normalized: "${normalizedCurrentUserEmail}")`,
+      );
+      this.logDebug(
+        `[DEBUG]   Is from current user: ${threadMessage.isFromCurrentUser ? "YES" : "NO"}`,
+      );
+      this.logDebug(`[DEBUG]   Sent: ${threadMessage.sentDate.toISOString()}`);
+
+      return threadMessage;
+    } catch (error) {
+      console.error(
+        `[ERROR] 💥 MESSAGE PARSING FAILED: Failed to parse message element:`,
+        error,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { FollowupEmail, ThreadMessage } from "../models/FollowupEmail";
+
+export type ReplyMode = "reply" | "replyAll";
+
+export interface ComposeDraft {
+  toRecipients: string[];
+  ccRecipients: string[];
+  subject: string;
+  htmlBody: string;
+}
+
+// Reply/forward prefixes Outlook adds in common locales
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|tr)\s*(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * Turns a follow-up and its AI draft into a compose form. When the follow-up
+ * is the message open in Outlook, the native reply form is used so Outlook
+ * quotes the thread itself; otherwise a new message is prefilled with the
+ * recipients, a prefixed subject and the quoted thread.
+ */
+export class FollowupDraftService {
+  private currentUserEmail?: string;
+
+  constructor(currentUserEmail?: string) {
+    this.currentUserEmail = currentUserEmail;
+  }
+
+  public buildReply(
+    email: FollowupEmail,
+    body: string,
+    mode: ReplyMode = "replyAll",
+  ): ComposeDraft {
+    return {
+      toRecipients: this.getReplyRecipients(email, mode),
+      ccRecipients: [],
+      subject: FollowupDraftService.prefixSubject("RE", email.subject),
+      htmlBody: this.toHtml(body) + this.quoteThread(email),
+    };
+  }
+
+  public buildForward(email: FollowupEmail, body: string = ""): ComposeDraft {
+    return {
+      toRecipients: [],
+      ccRecipients: [],
+      subject: FollowupDraftService.prefixSubject("FW", email.subject),
+      htmlBody: this.toHtml(body) + this.quoteThread(email),
+    };
+  }
+
+  /** Open a reply to `email` with `body` above the quoted thread */
+  public openReply(
+    email: FollowupEmail,
+    body: string,
+    mode: ReplyMode = "replyAll",
+  ): void {
+    const item = this.getOpenItem(email);
+    if (item) {
+      const form = { htmlBody: this.toHtml(body) };
+      if (mode === "replyAll") {
+        item.displayReplyAllForm(form);
+      } else {
+        item.displayReplyForm(form);
+      }
+      return;
+    }
+    this.getMailbox().displayNewMessageForm(this.buildReply(email, body, mode));
+  }
+
+  public openForward(email: FollowupEmail, body: string = ""): void {
+    this.getMailbox().displayNewMessageForm(this.buildForward(email, body));
+  }
+
+  /** `subject` with a single `prefix:`, replacing any existing RE/FW chain */
+  public static prefixSubject(prefix: string, subject: string): string {
+    return `${prefix}: ${FollowupDraftService.stripSubjectPrefix(subject)}`;
+  }
+
+  /** `subject` without its RE/FW chain */
+  public static stripSubjectPrefix(subject: string): string {
+    return (subject || "").replace(SUBJECT_PREFIX, "").trim();
+  }
+
+  /**
+   * Replying to our own message goes back to its recipients, as Outlook does.
+   * Replying to someone else goes to the sender, plus the other recipients
+   * for reply-all. The current user is never addressed.
+   */
+  private getReplyRecipients(email: FollowupEmail, mode: ReplyMode): string[] {
+    const last = this.getLastMessage(email);
+    let recipients: string[];
+    if (!last) {
+      recipients = email.recipients;
+    } else if (last.isFromCurrentUser || this.isCurrentUser(last.from)) {
+      recipients = last.to.length > 0 ? last.to : email.recipients;
+    } else {
+      recipients = mode === "replyAll" ? [last.from, ...last.to] : [last.from];
+    }
+
+    const seen = new Set<string>();
+    return recipients
+      .map((recipient) => this.extractAddress(recipient))
+      .filter((address) => {
+        const key = address.toLowerCase();
+        if (!address || this.isCurrentUser(address) || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private getLastMessage(email: FollowupEmail): ThreadMessage | undefined {
+    return this.sortNewestFirst(email.threadMessages || [])[0];
+  }
+
+  private sortNewestFirst(messages: ThreadMessage[]): ThreadMessage[] {
+    return [...messages].sort(
+      (a, b) =>
+        new Date(b.receivedDate || b.sentDate).getTime() -
+        new Date(a.receivedDate || a.sentDate).getTime(),
+    );
+  }
+
+  private quoteThread(email: FollowupEmail): string {
+    const messages = this.sortNewestFirst(email.threadMessages || []);
+    if (messages.length === 0) {
+      return this.quoteMessage({
+        from: email.accountEmail,
+        to: email.recipients,
+        sentDate: email.sentDate,
+        subject: email.subject,
+        body: email.body,
+      });
+    }
+    return messages.map((message) => this.quoteMessage(message)).join("");
+  }
+
+  private quoteMessage(
+    message: Pick<
+      ThreadMessage,
+      "from" | "to" | "sentDate" | "subject" | "body"
+    >,
+  ): string {
+    const sent = new Date(message.sentDate).toLocaleString();
+    return (
+      `<br><hr>` +
+      `<b>From:</b> ${this.escapeHtml(message.from)}<br>` +
+      `<b>Sent:</b> ${this.escapeHtml(sent)}<br>` +
+      `<b>To:</b> ${this.escapeHtml(message.to.join("; "))}<br>` +
+      `<b>Subject:</b> ${this.escapeHtml(message.subject)}<br><br>` +
+      this.toHtml(message.body)
+    );
+  }
+
+  private toHtml(text: string): string {
+    return this.escapeHtml((text || "").trim()).replace(/\r?\n/g, "<br>");
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  private extractAddress(recipient: string): string {
+    const angle = /<([^>]+)>/.exec(recipient || "");
+    return (angle ? angle[1] : recipient || "").trim();
+  }
+
+  private isCurrentUser(address: string): boolean {
+    const current = this.getCurrentUserEmail();
+    return (
+      !!current &&
+      this.extractAddress(address).toLowerCase() === current.toLowerCase()
+    );
+  }
+
+  private getCurrentUserEmail(): string | undefined {
+    if (this.currentUserEmail) {
+      return this.currentUserEmail;
+    }
+    try {
+      return Office.context.mailbox.userProfile.emailAddress;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getMailbox(): Office.Mailbox {
+    const mailbox =
+      typeof Office !== "undefined" && Office.context
+        ? Office.context.mailbox
+        : undefined;
+    if (!mailbox || typeof mailbox.displayNewMessageForm !== "function") {
+      throw new Error("Composing messages requires Outlook");
+    }
+    return mailbox;
+  }
+
+  /** The open Outlook item when it is `email`, so its reply forms can be used */
+  private getOpenItem(email: FollowupEmail): Office.MessageRead | undefined {
+    try {
+      const mailbox = this.getMailbox();
+      const item = mailbox.item as Office.MessageRead | undefined;
+      if (!item || typeof item.displayReplyAllForm !== "function") {
+        return undefined;
+      }
+      const itemId = item.itemId;
+      const restId =
+        itemId && typeof mailbox.convertToRestId === "function"
+          ? mailbox.convertToRestId(
+              itemId,
+              Office.MailboxEnums.RestVersion.v2_0,
+            )
+          : undefined;
+      return itemId && (itemId === email.id || restId === email.id)
+        ? item
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
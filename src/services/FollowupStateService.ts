@@ -0,0 +1,339 @@
+import { FollowupState, ReturnedEntry } from "../models/FollowupState";
+import { toEwsItemId } from "./ItemIds";
+
+/**
+ * Persistent snooze/dismiss state shared by the task pane and the ribbon commands.
+ *
+ * State is stored in Office roamingSettings (roams across devices) and mirrored to
+ * localStorage so that another runtime on the same origin (e.g. the commands bundle)
+ * sees changes without waiting for the add-in to reload. On load the copy with the
+ * most recent `updatedAt` wins.
+ *
+ * An expired snooze is not just dropped: the follow-up is marked as returned
+ * from snooze until it is snoozed or dismissed again, so its thread can be
+ * re-evaluated and the follow-up brought back to the user's attention.
+ *
+ * Ids are stored in EWS format, the format of Office.js item ids used by the
+ * ribbon commands, so Graph REST ids are converted first. Ids returned from
+ * here are EWS ids.
+ */
+export class FollowupStateService {
+  private readonly STORAGE_KEY = "followup-suggester-state";
+  private readonly STATE_VERSION = 1;
+  // roamingSettings is limited to 32KB per add-in, keep dismissed history bounded
+  private readonly MAX_DISMISSED_ENTRIES = 500;
+  private readonly MAX_RETURNED_ENTRIES = 100;
+
+  private state: FollowupState | null = null;
+
+  /**
+   * Re-read state from storage, discarding the in-memory copy.
+   * Call before an analysis run to pick up changes made from another surface.
+   */
+  public reload(): void {
+    this.state = this.load();
+    this.pruneExpiredSnoozes();
+  }
+
+  public isSnoozed(emailId: string, now: Date = new Date()): boolean {
+    const key = toEwsItemId(emailId);
+    const entry = this.getState().snoozed[key];
+    if (!entry) return false;
+
+    if (now >= new Date(entry.until)) {
+      this.expireSnooze(key);
+      this.persistInBackground();
+      return false;
+    }
+
+    return true;
+  }
+
+  public getSnoozeUntil(emailId: string): Date | undefined {
+    const entry = this.getState().snoozed[toEwsItemId(emailId)];
+    return entry ? new Date(entry.until) : undefined;
+  }
+
+  public getSnoozedEmails(): Map<string, Date> {
+    const result = new Map<string, Date>();
+    Object.keys(this.getState().snoozed).forEach((emailId) => {
+      result.set(emailId, new Date(this.getState().snoozed[emailId].until));
+    });
+    return result;
+  }
+
+  public isDismissed(emailId: string): boolean {
+    return !!this.getState().dismissed[toEwsItemId(emailId)];
+  }
+
+  public async snooze(emailIds: string[], until: Date): Promise<void> {
+    const state = this.getState();
+    const snoozedAt = new Date().toISOString();
+    emailIds.map(toEwsItemId).forEach((emailId) => {
+      state.snoozed[emailId] = { until: until.toISOString(), snoozedAt };
+      delete state.returned[emailId];
+    });
+    await this.persist();
+  }
+
+  public async unsnooze(emailId: string): Promise<void> {
+    delete this.getState().snoozed[toEwsItemId(emailId)];
+    await this.persist();
+  }
+
+  public async dismiss(emailIds: string[]): Promise<void> {
+    const state = this.getState();
+    const dismissedAt = new Date().toISOString();
+    emailIds.map(toEwsItemId).forEach((emailId) => {
+      state.dismissed[emailId] = dismissedAt;
+      delete state.snoozed[emailId];
+      delete state.returned[emailId];
+    });
+    this.trimDismissed();
+    await this.persist();
+  }
+
+  public async undismiss(emailId: string): Promise<void> {
+    delete this.getState().dismissed[toEwsItemId(emailId)];
+    await this.persist();
+  }
+
+  public isReturned(emailId: string): boolean {
+    return !!this.getState().returned[toEwsItemId(emailId)];
+  }
+
+  /** Returned follow-ups whose thread has not been re-evaluated yet */
+  public getUncheckedReturns(): string[] {
+    const returned = this.getState().returned;
+    return Object.keys(returned).filter(
+      (emailId) => !returned[emailId].checked,
+    );
+  }
+
+  public async markReturnChecked(emailIds: string[]): Promise<void> {
+    const returned = this.getState().returned;
+    emailIds
+      .map(toEwsItemId)
+      .filter((emailId) => returned[emailId])
+      .forEach((emailId) => (returned[emailId].checked = true));
+    await this.persist();
+  }
+
+  /** Drop the returned marker, e.g. once the thread got a reply */
+  public async clearReturned(emailIds: string[]): Promise<void> {
+    const returned = this.getState().returned;
+    emailIds.map(toEwsItemId).forEach((emailId) => delete returned[emailId]);
+    await this.persist();
+  }
+
+  /** The earliest snooze expiry still ahead */
+  public getNextSnoozeExpiry(): Date | undefined {
+    const times = Object.keys(this.getState().snoozed).map((emailId) =>
+      new Date(this.getState().snoozed[emailId].until).getTime(),
+    );
+    return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+  }
+
+  /**
+   * Move snoozes whose expiry date has passed to the returned follow-ups.
+   * @returns ids of the snoozes that expired
+   */
+  public pruneExpiredSnoozes(now: Date = new Date()): string[] {
+    const state = this.getState();
+    const expired = Object.keys(state.snoozed).filter(
+      (emailId) => now >= new Date(state.snoozed[emailId].until),
+    );
+    expired.forEach((emailId) => this.expireSnooze(emailId));
+    if (expired.length > 0) {
+      this.persistInBackground();
+    }
+    return expired;
+  }
+
+  public async clear(): Promise<void> {
+    this.state = this.createEmptyState();
+    await this.persist();
+  }
+
+  private expireSnooze(emailId: string): void {
+    const state = this.getState();
+    const entry: ReturnedEntry = {
+      returnedAt: state.snoozed[emailId].until,
+      checked: false,
+    };
+    delete state.snoozed[emailId];
+    state.returned[emailId] = entry;
+    this.trimReturned();
+  }
+
+  private getState(): FollowupState {
+    if (!this.state) {
+      this.state = this.load();
+    }
+    return this.state;
+  }
+
+  private createEmptyState(): FollowupState {
+    return {
+      version: this.STATE_VERSION,
+      snoozed: {},
+      dismissed: {},
+      returned: {},
+      updatedAt: new Date(0).toISOString(),
+    };
+  }
+
+  private load(): FollowupState {
+    const candidates = [
+      this.loadFromRoamingSettings(),
+      this.loadFromLocalStorage(),
+    ].filter((candidate): candidate is FollowupState => candidate !== null);
+
+    if (candidates.length === 0) {
+      return this.createEmptyState();
+    }
+
+    // Prefer the most recently written copy
+    candidates.sort(
+      (a, b) =>
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+    );
+    return candidates[0];
+  }
+
+  private loadFromRoamingSettings(): FollowupState | null {
+    try {
+      if (
+        typeof Office !== "undefined" &&
+        Office.context &&
+        Office.context.roamingSettings
+      ) {
+        const stored = Office.context.roamingSettings.get(this.STORAGE_KEY);
+        return this.normalize(stored);
+      }
+    } catch (error) {
+      console.warn(
+        "Error loading follow-up state from Office settings:",
+        error,
+      );
+    }
+    return null;
+  }
+
+  private loadFromLocalStorage(): FollowupState | null {
+    try {
+      if (typeof localStorage !== "undefined") {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (stored) {
+          return this.normalize(JSON.parse(stored));
+        }
+      }
+    } catch (error) {
+      console.warn("Error loading follow-up state from localStorage:", error);
+    }
+    return null;
+  }
+
+  private normalize(stored: any): FollowupState | null {
+    if (!stored || typeof stored !== "object") {
+      return null;
+    }
+    return {
+      ...this.createEmptyState(),
+      snoozed: { ...(stored.snoozed || {}) },
+      dismissed: { ...(stored.dismissed || {}) },
+      returned: { ...(stored.returned || {}) },
+      updatedAt: stored.updatedAt || new Date(0).toISOString(),
+    };
+  }
+
+  private trimDismissed(): void {
+    const dismissed = this.getState().dismissed;
+    const ids = Object.keys(dismissed);
+    if (ids.length <= this.MAX_DISMISSED_ENTRIES) {
+      return;
+    }
+    // Drop the oldest dismissals first
+    ids
+      .sort(
+        (a, b) =>
+          new Date(dismissed[a]).getTime() - new Date(dismissed[b]).getTime(),
+      )
+      .slice(0, ids.length - this.MAX_DISMISSED_ENTRIES)
+      .forEach((emailId) => delete dismissed[emailId]);
+  }
+
+  private trimReturned(): void {
+    const returned = this.getState().returned;
+    const ids = Object.keys(returned);
+    if (ids.length <= this.MAX_RETURNED_ENTRIES) {
+      return;
+    }
+    ids
+      .sort(
+        (a, b) =>
+          new Date(returned[a].returnedAt).getTime() -
+          new Date(returned[b].returnedAt).getTime(),
+      )
+      .slice(0, ids.length - this.MAX_RETURNED_ENTRIES)
+      .forEach((emailId) => delete returned[emailId]);
+  }
+
+  private persistInBackground(): void {
+    this.persist().catch((error) =>
+      console.warn("Error persisting follow-up state:", error),
+    );
+  }
+
+  private async persist(): Promise<void> {
+    const state = this.getState();
+    state.updatedAt = new Date().toISOString();
+    const toSave: FollowupState = {
+      ...state,
+      snoozed: { ...state.snoozed },
+      dismissed: { ...state.dismissed },
+      returned: { ...state.returned },
+    };
+
+    // Mirror to localStorage so other runtimes on this origin see the change immediately
+    try {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(toSave));
+      }
+    } catch (localStorageError) {
+      console.warn(
+        "Error saving follow-up state to localStorage:",
+        localStorageError,
+      );
+    }
+
+    if (
+      typeof Office === "undefined" ||
+      !Office.context ||
+      !Office.context.roamingSettings
+    ) {
+      return;
+    }
+
+    return new Promise((resolve) => {
+      try {
+        Office.context.roamingSettings.set(this.STORAGE_KEY, toSave);
+        Office.context.roamingSettings.saveAsync((result) => {
+          if (result.status !== Office.AsyncResultStatus.Succeeded) {
+            console.warn(
+              "Error saving follow-up state to Office settings, kept localStorage copy:",
+              result.error?.message,
+            );
+          }
+          resolve();
+        });
+      } catch (error) {
+        console.warn(
+          "Error saving follow-up state to Office settings, kept localStorage copy:",
+          error,
+        );
+        resolve();
+      }
+    });
+  }
+}
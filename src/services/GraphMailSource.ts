@@ -0,0 +1,346 @@
+import { ThreadMessage } from "../models/FollowupEmail";
+import { ParsedEmail } from "./XmlParsingService";
+import { toRestItemId } from "./ItemIds";
+import {
+  DebugLogger,
+  FolderChanges,
+  MailSource,
+  SyncFolderName,
+} from "./MailSource";
+
+export type AccessTokenProvider = () => Promise<string>;
+
+interface GraphEmailAddress {
+  emailAddress?: { name?: string; address?: string };
+}
+
+interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  subject?: string;
+  sentDateTime?: string;
+  receivedDateTime?: string;
+  body?: { contentType?: string; content?: string };
+  from?: GraphEmailAddress;
+  toRecipients?: GraphEmailAddress[];
+  ccRecipients?: GraphEmailAddress[];
+  hasAttachments?: boolean;
+  // Set on delta query results for messages that were deleted or moved away
+  "@removed"?: { reason?: string };
+}
+
+interface GraphCollection<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+/**
+ * MailSource backed by the Microsoft Graph REST API.
+ * Used when EWS is disabled for the tenant.
+ *
+ * The default token provider uses Office SSO; hosts that exchange the SSO token
+ * server-side (on-behalf-of flow) should inject their own provider.
+ */
+export class GraphMailSource implements MailSource {
+  public readonly kind = "graph" as const;
+
+  private readonly GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+  private readonly MESSAGE_FIELDS = [
+    "id",
+    "conversationId",
+    "subject",
+    "sentDateTime",
+    "receivedDateTime",
+    "body",
+    "from",
+    "toRecipients",
+    "ccRecipients",
+    "hasAttachments",
+  ].join(",");
+  // Upper bound on pages followed for a single conversation
+  private readonly MAX_CONVERSATION_PAGES = 5;
+
+  private tokenProvider?: AccessTokenProvider;
+  private logDebug: DebugLogger;
+
+  constructor(
+    tokenProvider?: AccessTokenProvider,
+    logDebug: DebugLogger = () => {},
+  ) {
+    this.tokenProvider = tokenProvider;
+    this.logDebug = logDebug;
+  }
+
+  public isAvailable(): boolean {
+    if (this.tokenProvider) {
+      return true;
+    }
+    try {
+      return (
+        typeof Office !== "undefined" &&
+        !!Office.auth &&
+        typeof Office.auth.getAccessToken === "function"
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  public getCurrentUserEmail(): string | null {
+    try {
+      if (
+        typeof Office !== "undefined" &&
+        Office.context &&
+        Office.context.mailbox &&
+        Office.context.mailbox.userProfile
+      ) {
+        return Office.context.mailbox.userProfile.emailAddress;
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  public async listSentItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    return this.listFolderItems("sentitems", emailCount, cutoffDate);
+  }
+
+  public async listInboxItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    return this.listFolderItems("inbox", emailCount, cutoffDate);
+  }
+
+  public async getConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    // Graph rejects $orderby combined with a conversationId filter, sort locally instead
+    let url: string | undefined =
+      `${this.GRAPH_BASE_URL}/me/messages?` +
+      this.buildQuery({
+        $filter: `conversationId eq '${conversationId.replace(/'/g, "''")}'`,
+        $select: this.MESSAGE_FIELDS,
+        $top: "100",
+      });
+
+    const graphMessages: GraphMessage[] = [];
+    for (let page = 0; url && page < this.MAX_CONVERSATION_PAGES; page++) {
+      const response: GraphCollection<GraphMessage> = await this.request(url);
+      graphMessages.push(...response.value);
+      url = response["@odata.nextLink"];
+    }
+
+    this.logDebug(
+      `[DEBUG] Graph returned ${graphMessages.length} messages for conversation ${conversationId}`,
+    );
+
+    const currentUserEmail = (this.getCurrentUserEmail() || "").toLowerCase();
+    return graphMessages
+      .map((message) => this.toThreadMessage(message, currentUserEmail))
+      .sort((a, b) => {
+        const aTime = (a.receivedDate || a.sentDate).getTime();
+        const bTime = (b.receivedDate || b.sentDate).getTime();
+        return aTime - bTime;
+      });
+  }
+
+  public async searchConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    // /me/messages already spans every folder, no per-folder scan needed
+    return this.getConversation(conversationId);
+  }
+
+  public async getThreadForItem(itemId: string): Promise<ThreadMessage[]> {
+    const message: GraphMessage = await this.request(
+      `${this.GRAPH_BASE_URL}/me/messages/${encodeURIComponent(this.toItemId(itemId))}?` +
+        this.buildQuery({ $select: this.MESSAGE_FIELDS }),
+    );
+
+    if (message.conversationId) {
+      try {
+        const thread = await this.getConversation(message.conversationId);
+        if (thread.length > 0) {
+          return thread;
+        }
+      } catch (error) {
+        console.warn(
+          "[WARN] Graph conversation fetch failed, using single message:",
+          error,
+        );
+      }
+    }
+
+    const currentUserEmail = (this.getCurrentUserEmail() || "").toLowerCase();
+    return [this.toThreadMessage(message, currentUserEmail)];
+  }
+
+  public async resolveConversationId(itemId: string): Promise<string | null> {
+    const message: GraphMessage = await this.request(
+      `${this.GRAPH_BASE_URL}/me/messages/${encodeURIComponent(this.toItemId(itemId))}?` +
+        this.buildQuery({ $select: "id,conversationId" }),
+    );
+    return message.conversationId || null;
+  }
+
+  /** Graph only accepts REST ids; Office.js and the follow-up state use EWS ids */
+  public toItemId(itemId: string): string {
+    return toRestItemId(itemId);
+  }
+
+  /**
+   * Uses a delta query; the sync state is the next or delta link it returned.
+   * Delta queries only filter on receivedDateTime, which for sent items is
+   * the time they were sent.
+   */
+  public async syncFolder(
+    folder: SyncFolderName,
+    syncState: string | undefined,
+    cutoffDate: Date,
+  ): Promise<FolderChanges> {
+    const url =
+      syncState ||
+      `${this.GRAPH_BASE_URL}/me/mailFolders/${folder}/messages/delta?` +
+        this.buildQuery({
+          $filter: `receivedDateTime ge ${cutoffDate.toISOString()}`,
+          $select: this.MESSAGE_FIELDS,
+        });
+
+    const response: GraphCollection<GraphMessage> = await this.request(url);
+    const removed = response.value.filter((message) => message["@removed"]);
+    const changed = response.value.filter((message) => !message["@removed"]);
+    this.logDebug(
+      `[DEBUG] Graph delta ${folder}: ${changed.length} changed, ${removed.length} removed`,
+    );
+
+    const nextLink = response["@odata.nextLink"];
+    return {
+      syncState: nextLink || response["@odata.deltaLink"] || "",
+      changed: changed.map((message) => this.toParsedEmail(message)),
+      deletedIds: removed.map((message) => message.id),
+      complete: !nextLink,
+    };
+  }
+
+  private async listFolderItems(
+    folderId: string,
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    const url =
+      `${this.GRAPH_BASE_URL}/me/mailFolders/${folderId}/messages?` +
+      this.buildQuery({
+        $filter: `sentDateTime gt ${cutoffDate.toISOString()}`,
+        $orderby: "sentDateTime desc",
+        $select: this.MESSAGE_FIELDS,
+        $top: String(emailCount),
+      });
+
+    const response: GraphCollection<GraphMessage> = await this.request(url);
+    this.logDebug(
+      `[DEBUG] Graph returned ${response.value.length} messages from ${folderId}`,
+    );
+    return response.value.map((message) => this.toParsedEmail(message));
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    if (!this.isAvailable()) {
+      throw new Error(
+        "Microsoft Graph is not available. Office SSO or an access token provider is required.",
+      );
+    }
+
+    const token = await this.getAccessToken();
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/json",
+        Prefer: 'outlook.body-content-type="text"',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Graph request failed: ${response.status} ${response.statusText} - ${errorText}`,
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.tokenProvider) {
+      return this.tokenProvider();
+    }
+    return Office.auth.getAccessToken({
+      allowSignInPrompt: true,
+      allowConsentPrompt: true,
+      forMSGraphAccess: true,
+    });
+  }
+
+  private buildQuery(params: { [key: string]: string }): string {
+    return Object.keys(params)
+      .map((key) => `${key}=${encodeURIComponent(params[key])}`)
+      .join("&");
+  }
+
+  private toParsedEmail(message: GraphMessage): ParsedEmail {
+    return {
+      id: message.id,
+      subject: message.subject || "",
+      dateTimeSent: message.sentDateTime || "",
+      conversationId: message.conversationId || "",
+      body: { content: message.body?.content || "" },
+      from: {
+        emailAddress: { address: message.from?.emailAddress?.address || "" },
+      },
+      toRecipients: this.toRecipientList(message.toRecipients),
+      ccRecipients: this.toRecipientList(message.ccRecipients),
+      hasAttachments: !!message.hasAttachments,
+    };
+  }
+
+  private toRecipientList(
+    recipients?: GraphEmailAddress[],
+  ): Array<{ emailAddress: { address: string } }> {
+    return (recipients || [])
+      .map((recipient) => recipient.emailAddress?.address || "")
+      .filter((address) => address.length > 0)
+      .map((address) => ({ emailAddress: { address } }));
+  }
+
+  private toThreadMessage(
+    message: GraphMessage,
+    currentUserEmail: string,
+  ): ThreadMessage {
+    const from = (message.from?.emailAddress?.address || "").trim();
+    const sentDate = message.sentDateTime
+      ? new Date(message.sentDateTime)
+      : new Date();
+    return {
+      id: message.id,
+      subject: message.subject || "No Subject",
+      from,
+      to: this.toRecipientList(message.toRecipients).map(
+        (recipient) => recipient.emailAddress.address,
+      ),
+      sentDate,
+      receivedDate: message.receivedDateTime
+        ? new Date(message.receivedDateTime)
+        : undefined,
+      body: (message.body?.content || "").trim(),
+      isFromCurrentUser:
+        !!currentUserEmail && from.toLowerCase() === currentUserEmail,
+      hasAttachments: !!message.hasAttachments,
+    };
+  }
+}
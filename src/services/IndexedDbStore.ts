@@ -0,0 +1,130 @@
+// A key or key range, as accepted by IDBObjectStore
+type StoreQuery = Parameters<IDBObjectStore["get"]>[0];
+
+/**
+ * Promise wrapper around one IndexedDB database. Outlook on the web and the
+ * new Outlook give add-ins IndexedDB; where it is missing (older desktop
+ * webviews, unit tests) isSupported() is false and callers keep their data
+ * in memory instead.
+ */
+export class IndexedDbStore {
+  private name: string;
+  private version: number;
+  private upgrade: (db: IDBDatabase, oldVersion: number) => void;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param upgrade - creates or migrates object stores, called when the
+   * database is new or older than `version`
+   */
+  constructor(
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void,
+  ) {
+    this.name = name;
+    this.version = version;
+    this.upgrade = upgrade;
+  }
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  public getAll<T>(storeName: string, query?: IDBKeyRange): Promise<T[]> {
+    return this.request(storeName, "readonly", (store) => store.getAll(query));
+  }
+
+  public get<T>(storeName: string, key: StoreQuery): Promise<T | undefined> {
+    return this.request(storeName, "readonly", (store) => store.get(key));
+  }
+
+  /** Write several values in one transaction */
+  public async putAll(storeName: string, values: unknown[]): Promise<void> {
+    await this.write(storeName, (store) =>
+      values.forEach((value) => store.put(value)),
+    );
+  }
+
+  /** Delete several keys in one transaction */
+  public async deleteAll(storeName: string, keys: StoreQuery[]): Promise<void> {
+    await this.write(storeName, (store) =>
+      keys.forEach((key) => store.delete(key)),
+    );
+  }
+
+  public async delete(storeName: string, key: StoreQuery): Promise<void> {
+    await this.request(storeName, "readwrite", (store) => store.delete(key));
+  }
+
+  public async clear(storeName: string): Promise<void> {
+    await this.request(storeName, "readwrite", (store) => store.clear());
+  }
+
+  private async write(
+    storeName: string,
+    operate: (store: IDBObjectStore) => void,
+  ): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeName, "readwrite");
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      try {
+        operate(transaction.objectStore(storeName));
+      } catch (error) {
+        // e.g. a value that cannot be cloned; write nothing
+        transaction.abort();
+        reject(error);
+      }
+    });
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: "readonly" | "readwrite",
+    operate: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operate(
+        db.transaction(storeName, mode).objectStore(storeName),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        if (!IndexedDbStore.isSupported()) {
+          reject(new Error("IndexedDB is not available"));
+          return;
+        }
+        const request = indexedDB.open(this.name, this.version);
+        request.onupgradeneeded = (event) =>
+          this.upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => {
+          // Let a newer version opened in another task pane take over
+          request.result.onversionchange = () => {
+            request.result.close();
+            this.database = null;
+          };
+          resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () =>
+          reject(
+            new Error(`IndexedDB ${this.name} is in use by an older version`),
+          );
+      }).catch((error) => {
+        // Try again on the next request
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Conversion between the two formats of Outlook item ids. Office.js and EWS
+ * use EWS ids, Microsoft Graph uses REST ids; state shared between the task
+ * pane and the ribbon commands is keyed by EWS id.
+ *
+ * Outside Outlook, or when the host cannot convert, ids are returned as is.
+ * Both conversions leave ids already in the target format unchanged.
+ */
+
+function getMailbox(): Office.Mailbox | undefined {
+  return typeof Office !== "undefined" && Office.context
+    ? Office.context.mailbox
+    : undefined;
+}
+
+function getRestVersion(): Office.MailboxEnums.RestVersion {
+  return (Office.MailboxEnums?.RestVersion?.v2_0 ??
+    "v2.0") as Office.MailboxEnums.RestVersion;
+}
+
+export function toEwsItemId(itemId: string): string {
+  const mailbox = getMailbox();
+  if (!mailbox || typeof mailbox.convertToEwsId !== "function") {
+    return itemId;
+  }
+  // EWS ids are base64, REST ids use the URL-safe alphabet
+  if (!/[-_]/.test(itemId)) {
+    return itemId;
+  }
+  try {
+    return mailbox.convertToEwsId(itemId, getRestVersion());
+  } catch (error) {
+    console.warn("Could not convert item id to EWS format:", error);
+    return itemId;
+  }
+}
+
+export function toRestItemId(itemId: string): string {
+  const mailbox = getMailbox();
+  if (!mailbox || typeof mailbox.convertToRestId !== "function") {
+    return itemId;
+  }
+  if (!/[/+]/.test(itemId)) {
+    return itemId;
+  }
+  try {
+    return mailbox.convertToRestId(itemId, getRestVersion());
+  } catch (error) {
+    console.warn("Could not convert item id to REST format:", error);
+    return itemId;
+  }
+}
@@ -0,0 +1,195 @@
+import { FollowupEmail } from "../models/FollowupEmail";
+
+// Fills in the AI part of a follow-up; should stop when the signal aborts
+export type EnrichFollowup = (
+  email: FollowupEmail,
+  signal: AbortSignal,
+) => Promise<void>;
+
+export interface EnrichmentProgress {
+  done: number;
+  failed: number;
+  total: number; // Done, failed, running and waiting
+  paused: boolean;
+}
+
+/**
+ * Background queue that adds the AI summary, drafts and next step to
+ * follow-ups after the heuristic list is displayed, running up to
+ * `concurrency` requests at a time.
+ *
+ * pause() aborts the running requests and keeps them at the front of the
+ * queue for resume(). clear() drops everything, e.g. when a new analysis
+ * starts. Follow-ups that already have AI results are skipped.
+ */
+export class LlmEnrichmentQueue {
+  private enrich: EnrichFollowup;
+  private concurrency: number;
+  private onProgress?: (progress: EnrichmentProgress) => void;
+  private pending: FollowupEmail[] = [];
+  private running = new Map<
+    string,
+    { email: FollowupEmail; controller: AbortController }
+  >();
+  private done = 0;
+  private failed = 0;
+  private paused = false;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(
+    enrich: EnrichFollowup,
+    options: {
+      concurrency?: number;
+      onProgress?: (progress: EnrichmentProgress) => void;
+    } = {},
+  ) {
+    this.enrich = enrich;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.onProgress = options.onProgress;
+  }
+
+  /** Queue follow-ups that are not queued, running or enriched yet */
+  public enqueue(emails: FollowupEmail[]): void {
+    const known = new Set([
+      ...this.pending.map((email) => email.id),
+      ...this.running.keys(),
+    ]);
+    emails.forEach((email) => {
+      if (!known.has(email.id) && !this.isEnriched(email)) {
+        known.add(email.id);
+        this.pending.push(email);
+      }
+    });
+    this.update();
+  }
+
+  /**
+   * Swap in newer copies of queued or running follow-ups, e.g. after a
+   * background refresh, so the results land on the displayed objects.
+   * Running requests restart with the new copy.
+   */
+  public replace(emails: FollowupEmail[]): void {
+    const restarted: FollowupEmail[] = [];
+    emails.forEach((email) => {
+      const fresh = this.isEnriched(email) ? [] : [email];
+      const index = this.pending.findIndex((queued) => queued.id === email.id);
+      const job = this.running.get(email.id);
+      if (index >= 0) {
+        this.pending.splice(index, 1, ...fresh);
+      } else if (job && job.email !== email) {
+        this.stop(email.id);
+        restarted.push(...fresh);
+      }
+    });
+    this.pending.unshift(...restarted);
+    this.update();
+  }
+
+  /** Forget follow-ups, e.g. ones that turned out to be duplicates */
+  public remove(emailIds: string[]): void {
+    this.pending = this.pending.filter((email) => !emailIds.includes(email.id));
+    emailIds.forEach((id) => this.stop(id));
+    this.update();
+  }
+
+  public pause(): void {
+    this.paused = true;
+    const interrupted = Array.from(this.running.values()).map(
+      ({ email }) => email,
+    );
+    interrupted.forEach((email) => this.stop(email.id));
+    this.pending.unshift(...interrupted);
+    this.update();
+  }
+
+  public resume(): void {
+    this.paused = false;
+    this.update();
+  }
+
+  public clear(): void {
+    this.pending = [];
+    Array.from(this.running.keys()).forEach((id) => this.stop(id));
+    this.done = 0;
+    this.failed = 0;
+    this.update();
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public getProgress(): EnrichmentProgress {
+    return {
+      done: this.done,
+      failed: this.failed,
+      total: this.done + this.failed + this.running.size + this.pending.length,
+      paused: this.paused,
+    };
+  }
+
+  /** Resolves once nothing runs and nothing waits, or the queue is paused */
+  public whenIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private async run(email: FollowupEmail): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(email.id, { email, controller });
+    try {
+      await this.enrich(email, controller.signal);
+      if (!controller.signal.aborted) {
+        this.done++;
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.failed++;
+        console.warn("AI enrichment failed:", error);
+      }
+    } finally {
+      // Paused or removed jobs are already gone, or replaced by a rerun
+      if (this.running.get(email.id)?.controller === controller) {
+        this.running.delete(email.id);
+      }
+      this.update();
+    }
+  }
+
+  private stop(emailId: string): void {
+    const job = this.running.get(emailId);
+    if (job) {
+      this.running.delete(emailId);
+      job.controller.abort();
+    }
+  }
+
+  // Start what the concurrency limit allows, then report
+  private update(): void {
+    while (
+      !this.paused &&
+      this.running.size < this.concurrency &&
+      this.pending.length > 0
+    ) {
+      void this.run(this.pending.shift()!);
+    }
+    this.onProgress?.(this.getProgress());
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private isIdle(): boolean {
+    return (
+      this.running.size === 0 && (this.paused || this.pending.length === 0)
+    );
+  }
+
+  private isEnriched(email: FollowupEmail): boolean {
+    return email.llmSummary !== undefined || email.llmSuggestions !== undefined;
+  }
+}
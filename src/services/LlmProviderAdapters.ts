@@ -0,0 +1,545 @@
+import { Configuration } from "../models/Configuration";
+import { LlmUsage } from "../models/LlmAnalysis";
+import { LlmOptions, LlmResponse } from "./LlmService";
+import {
+  LlmChatParams,
+  LlmHttpClient,
+  LlmHttpRequest,
+  LlmProviderAdapter,
+  LlmStreamChunk,
+} from "./LlmProviderRegistry";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+function getBaseEndpoint(configuration: Configuration): string {
+  return (configuration.llmApiEndpoint || "")
+    .replace(/\/api\/chat\/?$/, "")
+    .replace(/\/$/, "");
+}
+
+/**
+ * Server root for OpenAI-style servers, accepting endpoints given as the
+ * root, the /v1 base or the full chat completions URL.
+ */
+function getOpenAICompatibleRoot(configuration: Configuration): string {
+  return getBaseEndpoint(configuration)
+    .replace(/\/chat\/completions$/, "")
+    .replace(/\/v1$/, "");
+}
+
+function buildBearerHeaders(
+  configuration: Configuration,
+): Record<string, string> {
+  const headers: Record<string, string> = { ...JSON_HEADERS };
+  // Local servers usually run without auth, but some sit behind a key-checking proxy
+  if (configuration.llmApiKey) {
+    headers.Authorization = `Bearer ${configuration.llmApiKey}`;
+  }
+  return headers;
+}
+
+/** Chat completions API shared by OpenAI, Azure OpenAI, DIAL and local servers */
+abstract class OpenAIChatAdapter implements LlmProviderAdapter {
+  public abstract readonly id: LlmProviderAdapter["id"];
+  public abstract readonly displayName: string;
+  public readonly requiresApiKey: boolean = true;
+  public readonly streamFormat = "sse" as const;
+  /**
+   * Native structured output: "json_schema" constrains the output to the
+   * schema, "json_object" (older API versions and most local servers) only
+   * guarantees valid JSON
+   */
+  protected readonly jsonMode: "json_schema" | "json_object" = "json_object";
+
+  public abstract matchesEndpoint(endpoint: string): boolean;
+
+  protected abstract getUrl(configuration: Configuration): string;
+
+  protected abstract getHeaders(
+    configuration: Configuration,
+  ): Record<string, string>;
+
+  /** Deployment-routed APIs take the model from the URL instead */
+  protected abstract getModel(configuration: Configuration): string | undefined;
+
+  public buildChatRequest(
+    configuration: Configuration,
+    { messages, options, stream }: LlmChatParams,
+  ): LlmHttpRequest {
+    const model = this.getModel(configuration);
+    return {
+      url: this.getUrl(configuration),
+      headers: this.getHeaders(configuration),
+      body: {
+        ...(model ? { model } : {}),
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 500,
+        top_p: options.topP ?? 1.0,
+        frequency_penalty: options.frequencyPenalty ?? 0,
+        presence_penalty: options.presencePenalty ?? 0,
+        ...(options.responseFormat
+          ? { response_format: this.buildResponseFormat(options) }
+          : {}),
+        ...(stream ? { stream: true } : {}),
+      },
+    };
+  }
+
+  protected buildResponseFormat({
+    responseFormat,
+  }: LlmOptions): Record<string, unknown> {
+    if (this.jsonMode === "json_object" || !responseFormat) {
+      return { type: "json_object" };
+    }
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: responseFormat.name,
+        schema: responseFormat.schema,
+        strict: false,
+      },
+    };
+  }
+
+  public parseChatResponse(data: any): LlmResponse {
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error(`No response choices returned from ${this.displayName}`);
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      usage: data.usage ? this.parseUsage(data.usage) : undefined,
+      model: data.model,
+      finishReason: data.choices[0].finish_reason,
+    };
+  }
+
+  public parseStreamChunk(chunk: any): LlmStreamChunk {
+    const usage = chunk.usage ? this.parseUsage(chunk.usage) : undefined;
+    // Azure sends content filter results, and OpenAI the usage, in chunks without choices
+    const choice = chunk.choices && chunk.choices[0];
+    if (!choice) {
+      return { model: chunk.model, usage };
+    }
+    return {
+      delta: choice.delta && choice.delta.content,
+      finishReason: choice.finish_reason || undefined,
+      model: chunk.model,
+      usage,
+    };
+  }
+
+  protected parseUsage(usage: any): LlmUsage {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+}
+
+export class DialAdapter extends OpenAIChatAdapter {
+  public readonly id = "dial" as const;
+  public readonly displayName = "DIAL API";
+
+  public matchesEndpoint(endpoint: string): boolean {
+    return (
+      endpoint.includes("ai-proxy.lab.epam.com") ||
+      endpoint.includes("/openai/deployments/")
+    );
+  }
+
+  protected getUrl(configuration: Configuration): string {
+    // {endpoint}/openai/deployments/{deploymentName}/chat/completions?api-version={apiVersion}
+    const deploymentName =
+      configuration.llmDeploymentName ||
+      configuration.llmModel ||
+      "gpt-35-turbo";
+    const apiVersion = configuration.llmApiVersion || "2024-02-01";
+    const baseEndpoint = configuration.llmApiEndpoint!.replace(/\/$/, "");
+    return `${baseEndpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected getHeaders(configuration: Configuration): Record<string, string> {
+    const headers: Record<string, string> = { ...JSON_HEADERS };
+    if (configuration.llmApiKey) {
+      headers["Api-Key"] = configuration.llmApiKey;
+    }
+    return headers;
+  }
+
+  protected getModel(configuration: Configuration): string {
+    return configuration.llmModel || "gpt-35-turbo";
+  }
+}
+
+export class AzureOpenAIAdapter extends OpenAIChatAdapter {
+  public readonly id = "azure" as const;
+  public readonly displayName = "Azure OpenAI API";
+
+  public matchesEndpoint(endpoint: string): boolean {
+    return endpoint.includes("openai.azure.com");
+  }
+
+  protected getUrl(configuration: Configuration): string {
+    // Use deployment name or fallback to model name
+    const deploymentName =
+      configuration.llmDeploymentName ||
+      configuration.llmModel ||
+      "gpt-35-turbo";
+    const apiVersion = configuration.llmApiVersion || "2023-12-01-preview";
+    return `${configuration.llmApiEndpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected getHeaders(configuration: Configuration): Record<string, string> {
+    return { ...JSON_HEADERS, "api-key": configuration.llmApiKey! };
+  }
+
+  protected getModel(): undefined {
+    return undefined;
+  }
+}
+
+export class OpenAIAdapter extends OpenAIChatAdapter {
+  public readonly id = "openai" as const;
+  public readonly displayName = "OpenAI API";
+  protected readonly jsonMode = "json_schema" as const;
+
+  // Fallback provider, never auto-detected
+  public matchesEndpoint(): boolean {
+    return false;
+  }
+
+  protected getUrl(configuration: Configuration): string {
+    return configuration.llmApiEndpoint!.includes("/chat/completions")
+      ? configuration.llmApiEndpoint!
+      : `${configuration.llmApiEndpoint}/v1/chat/completions`;
+  }
+
+  protected getHeaders(configuration: Configuration): Record<string, string> {
+    return {
+      ...JSON_HEADERS,
+      Authorization: `Bearer ${configuration.llmApiKey}`,
+    };
+  }
+
+  protected getModel(configuration: Configuration): string {
+    return configuration.llmModel || "gpt-3.5-turbo";
+  }
+
+  public buildChatRequest(
+    configuration: Configuration,
+    params: LlmChatParams,
+  ): LlmHttpRequest {
+    const request = super.buildChatRequest(configuration, params);
+    if (params.stream) {
+      // Streams carry no token counts unless asked for
+      request.body = {
+        ...request.body,
+        stream_options: { include_usage: true },
+      };
+    }
+    return request;
+  }
+
+  public buildModelsRequest(configuration: Configuration): LlmHttpRequest {
+    return {
+      url: `${getOpenAICompatibleRoot(configuration)}/v1/models`,
+      headers: buildBearerHeaders(configuration),
+    };
+  }
+
+  public parseModels(data: any): string[] {
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+}
+
+/** llama.cpp server, vLLM, LM Studio and other self-hosted OpenAI clones */
+export class OpenAICompatibleAdapter extends OpenAIChatAdapter {
+  public readonly id = "openai-compatible" as const;
+  public readonly displayName = "OpenAI-compatible server";
+  public readonly requiresApiKey = false;
+
+  // Indistinguishable from OpenAI by URL, so only used when selected
+  public matchesEndpoint(): boolean {
+    return false;
+  }
+
+  protected getUrl(configuration: Configuration): string {
+    return `${getOpenAICompatibleRoot(configuration)}/v1/chat/completions`;
+  }
+
+  protected getHeaders(configuration: Configuration): Record<string, string> {
+    return buildBearerHeaders(configuration);
+  }
+
+  protected getModel(configuration: Configuration): string {
+    return configuration.llmModel || "local-model";
+  }
+
+  public buildModelsRequest(configuration: Configuration): LlmHttpRequest {
+    return {
+      url: `${getOpenAICompatibleRoot(configuration)}/v1/models`,
+      headers: buildBearerHeaders(configuration),
+    };
+  }
+
+  public parseModels(data: any): string[] {
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+
+  /** llama.cpp-style servers answer /health, no completion is spent */
+  public async healthCheck(
+    configuration: Configuration,
+    http: LlmHttpClient,
+  ): Promise<boolean> {
+    const health = await http.get({
+      url: `${getOpenAICompatibleRoot(configuration)}/health`,
+      headers: buildBearerHeaders(configuration),
+    });
+    if (health.ok) {
+      return true;
+    }
+    // Not every OpenAI-compatible server has /health (vLLM, LM Studio); a model list is enough
+    await http.getJson(this.buildModelsRequest(configuration));
+    return true;
+  }
+}
+
+/** Ollama's native API, which has its own response shape and NDJSON streaming */
+export class OllamaAdapter implements LlmProviderAdapter {
+  public readonly id = "ollama" as const;
+  public readonly displayName = "Ollama";
+  public readonly requiresApiKey = false;
+  public readonly streamFormat = "ndjson" as const;
+
+  public matchesEndpoint(endpoint: string): boolean {
+    // 11434 is Ollama's default port
+    return endpoint.includes(":11434") || endpoint.includes("/api/chat");
+  }
+
+  public buildChatRequest(
+    configuration: Configuration,
+    { messages, options, stream }: LlmChatParams,
+  ): LlmHttpRequest {
+    // Ollama streams by default, so stream is always sent explicitly
+    return {
+      url: `${getBaseEndpoint(configuration)}/api/chat`,
+      headers: buildBearerHeaders(configuration),
+      body: {
+        model: configuration.llmModel || "llama3.1",
+        messages,
+        stream,
+        // Ollama constrains the output to a JSON schema passed as the format
+        ...(options.responseFormat
+          ? { format: options.responseFormat.schema }
+          : {}),
+        options: {
+          temperature: options.temperature ?? 0.7,
+          num_predict: options.maxTokens ?? 500,
+          top_p: options.topP ?? 1.0,
+          frequency_penalty: options.frequencyPenalty ?? 0,
+          presence_penalty: options.presencePenalty ?? 0,
+        },
+      },
+    };
+  }
+
+  public parseChatResponse(data: any): LlmResponse {
+    if (!data.message) {
+      throw new Error(`No message returned from ${this.displayName}`);
+    }
+    return {
+      content: data.message.content,
+      usage: this.parseUsage(data),
+      model: data.model,
+      finishReason: data.done_reason,
+    };
+  }
+
+  public parseStreamChunk(chunk: any): LlmStreamChunk {
+    return {
+      delta: chunk.message && chunk.message.content,
+      finishReason: chunk.done ? chunk.done_reason || "stop" : undefined,
+      model: chunk.model,
+      // Counts arrive with the final chunk
+      usage: chunk.done ? this.parseUsage(chunk) : undefined,
+    };
+  }
+
+  private parseUsage(data: any): LlmUsage | undefined {
+    if (data.prompt_eval_count === undefined) {
+      return undefined;
+    }
+    return {
+      promptTokens: data.prompt_eval_count,
+      completionTokens: data.eval_count || 0,
+      totalTokens: data.prompt_eval_count + (data.eval_count || 0),
+    };
+  }
+
+  public buildModelsRequest(configuration: Configuration): LlmHttpRequest {
+    return {
+      url: `${getBaseEndpoint(configuration)}/api/tags`,
+      headers: buildBearerHeaders(configuration),
+    };
+  }
+
+  public parseModels(data: any): string[] {
+    return (data.models || []).map((model: { name: string }) => model.name);
+  }
+
+  /** The configured model must be pulled, not just the server running */
+  public async healthCheck(
+    configuration: Configuration,
+    http: LlmHttpClient,
+  ): Promise<boolean> {
+    const models = this.parseModels(
+      await http.getJson(this.buildModelsRequest(configuration)),
+    );
+    const model = configuration.llmModel;
+    if (
+      model &&
+      !models.some((name) => name === model || name === `${model}:latest`)
+    ) {
+      console.warn(`[LLM HealthCheck] Model ${model} is not pulled`);
+      return false;
+    }
+    return true;
+  }
+}
+
+// Anthropic stop reasons mapped onto the OpenAI finish reasons used elsewhere
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+/** Anthropic Messages API */
+export class AnthropicAdapter implements LlmProviderAdapter {
+  public readonly id = "anthropic" as const;
+  public readonly displayName = "Anthropic API";
+  public readonly requiresApiKey = true;
+  public readonly streamFormat = "sse" as const;
+
+  public static readonly API_VERSION = "2023-06-01";
+
+  public matchesEndpoint(endpoint: string): boolean {
+    return endpoint.includes("api.anthropic.com");
+  }
+
+  public buildChatRequest(
+    configuration: Configuration,
+    { messages, options, stream }: LlmChatParams,
+  ): LlmHttpRequest {
+    // System prompts are a top-level field, not a message role
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    return {
+      url: `${this.getRoot(configuration)}/v1/messages`,
+      headers: this.getHeaders(configuration),
+      body: {
+        model: configuration.llmModel || "claude-haiku-4-5",
+        max_tokens: options.maxTokens ?? 500,
+        messages: messages.filter((message) => message.role !== "system"),
+        ...(system ? { system } : {}),
+        temperature: options.temperature ?? 0.7,
+        // Newer models reject temperature and top_p together unless asked for
+        ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+        // No JSON mode: structured output relies on the schema in the prompt
+        ...(stream ? { stream: true } : {}),
+      },
+    };
+  }
+
+  public parseChatResponse(data: any): LlmResponse {
+    if (!Array.isArray(data.content)) {
+      throw new Error(`No content returned from ${this.displayName}`);
+    }
+
+    return {
+      content: data.content
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join(""),
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.input_tokens,
+            completionTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : undefined,
+      model: data.model,
+      finishReason: this.mapStopReason(data.stop_reason),
+    };
+  }
+
+  public parseStreamChunk(chunk: any): LlmStreamChunk {
+    switch (chunk.type) {
+      case "message_start":
+        return {
+          model: chunk.message && chunk.message.model,
+          usage:
+            chunk.message && chunk.message.usage
+              ? { promptTokens: chunk.message.usage.input_tokens }
+              : undefined,
+        };
+      case "content_block_delta":
+        return { delta: chunk.delta && chunk.delta.text };
+      case "message_delta":
+        // output_tokens is cumulative
+        return {
+          finishReason: this.mapStopReason(
+            chunk.delta && chunk.delta.stop_reason,
+          ),
+          usage: chunk.usage
+            ? { completionTokens: chunk.usage.output_tokens }
+            : undefined,
+        };
+      default:
+        // ping, content_block_start/stop, message_stop
+        return {};
+    }
+  }
+
+  public buildModelsRequest(configuration: Configuration): LlmHttpRequest {
+    return {
+      url: `${this.getRoot(configuration)}/v1/models`,
+      headers: this.getHeaders(configuration),
+    };
+  }
+
+  public parseModels(data: any): string[] {
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+
+  private getRoot(configuration: Configuration): string {
+    return getBaseEndpoint(configuration)
+      .replace(/\/messages$/, "")
+      .replace(/\/v1$/, "");
+  }
+
+  private getHeaders(configuration: Configuration): Record<string, string> {
+    return {
+      ...JSON_HEADERS,
+      "x-api-key": configuration.llmApiKey || "",
+      "anthropic-version": AnthropicAdapter.API_VERSION,
+      // The taskpane calls the API straight from the browser
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  }
+
+  private mapStopReason(stopReason?: string | null): string | undefined {
+    if (!stopReason) {
+      return undefined;
+    }
+    return ANTHROPIC_STOP_REASONS[stopReason] || stopReason;
+  }
+}
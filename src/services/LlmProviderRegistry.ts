@@ -0,0 +1,141 @@
+import { Configuration, LlmProvider } from "../models/Configuration";
+import { LlmUsage } from "../models/LlmAnalysis";
+import { LlmOptions, LlmResponse } from "./LlmService";
+import {
+  AnthropicAdapter,
+  AzureOpenAIAdapter,
+  DialAdapter,
+  OllamaAdapter,
+  OpenAIAdapter,
+  OpenAICompatibleAdapter,
+} from "./LlmProviderAdapters";
+
+export interface LlmChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmChatParams {
+  messages: LlmChatMessage[];
+  options: LlmOptions;
+  stream: boolean;
+}
+
+export interface LlmHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+/** A streamed chunk normalized across wire formats */
+export interface LlmStreamChunk {
+  delta?: string;
+  finishReason?: string;
+  model?: string;
+  // Providers report token counts in different chunks; later values win
+  usage?: Partial<LlmUsage>;
+}
+
+/** GET helpers handed to adapters for discovery and health checks */
+export interface LlmHttpClient {
+  get(request: LlmHttpRequest): Promise<Response>;
+  getJson(request: LlmHttpRequest): Promise<any>;
+}
+
+/**
+ * Maps the provider-neutral chat call onto one provider's HTTP API.
+ * LlmService owns transport, retries and stream decoding; adapters only
+ * translate requests and responses.
+ */
+export interface LlmProviderAdapter {
+  readonly id: LlmProvider;
+  /** Used in error messages, e.g. "DIAL API request failed: ..." */
+  readonly displayName: string;
+  /** Self-hosted providers don't need an API key */
+  readonly requiresApiKey: boolean;
+  /** "sse" for text/event-stream, "ndjson" for newline-delimited JSON */
+  readonly streamFormat: "sse" | "ndjson";
+
+  /** Auto-detection from the endpoint URL when no provider is configured */
+  matchesEndpoint(endpoint: string): boolean;
+
+  buildChatRequest(
+    configuration: Configuration,
+    params: LlmChatParams,
+  ): LlmHttpRequest;
+
+  parseChatResponse(data: any): LlmResponse;
+
+  parseStreamChunk(chunk: any): LlmStreamChunk;
+
+  /** Model discovery, when the provider exposes a model list */
+  buildModelsRequest?(configuration: Configuration): LlmHttpRequest;
+  parseModels?(data: any): string[];
+
+  /** Cheaper check than a test completion, when the provider has one */
+  healthCheck?(
+    configuration: Configuration,
+    http: LlmHttpClient,
+  ): Promise<boolean>;
+}
+
+export class LlmProviderRegistry {
+  private adapters: LlmProviderAdapter[] = [];
+  private fallbackId: LlmProvider;
+
+  /**
+   * @param fallbackId - Provider used when auto-detection matches nothing
+   */
+  constructor(fallbackId: LlmProvider = "openai") {
+    this.fallbackId = fallbackId;
+  }
+
+  /** Registry with every built-in provider, in auto-detection order */
+  public static createDefault(): LlmProviderRegistry {
+    return new LlmProviderRegistry("openai")
+      .register(new DialAdapter())
+      .register(new AzureOpenAIAdapter())
+      .register(new AnthropicAdapter())
+      .register(new OllamaAdapter())
+      .register(new OpenAICompatibleAdapter())
+      .register(new OpenAIAdapter());
+  }
+
+  /** Register an adapter; re-registering an id replaces the earlier adapter */
+  public register(adapter: LlmProviderAdapter): this {
+    this.adapters = this.adapters.filter((a) => a.id !== adapter.id);
+    this.adapters.push(adapter);
+    return this;
+  }
+
+  public get(id: LlmProvider): LlmProviderAdapter {
+    const adapter = this.adapters.find((a) => a.id === id);
+    if (!adapter) {
+      throw new Error(`Unknown LLM provider: ${id}`);
+    }
+    return adapter;
+  }
+
+  public list(): LlmProviderAdapter[] {
+    return [...this.adapters];
+  }
+
+  /** Adapters are tried in registration order */
+  public detect(endpoint: string): LlmProviderAdapter {
+    return (
+      this.adapters.find((adapter) => adapter.matchesEndpoint(endpoint)) ||
+      this.get(this.fallbackId)
+    );
+  }
+
+  /**
+   * Adapter for the configured provider, falling back to auto-detection
+   * when none is set or the stored value is no longer registered
+   */
+  public resolve(configuration: Configuration): LlmProviderAdapter {
+    const configured = this.adapters.find(
+      (adapter) => adapter.id === configuration.llmProvider,
+    );
+    return configured || this.detect(configuration.llmApiEndpoint || "");
+  }
+}
@@ -0,0 +1,113 @@
+import { Sentiment, Urgency } from "../models/LlmAnalysis";
+import { JsonSchema, StructuredTask } from "./StructuredOutputParser";
+
+// Wire shapes use snake_case, which models follow more reliably than camelCase
+
+const SENTIMENT_PROPERTY: JsonSchema = {
+  type: "string",
+  enum: ["positive", "neutral", "negative", "urgent"],
+  description: "Tone and urgency of the latest message",
+};
+
+const SUGGESTIONS_PROPERTY: JsonSchema = {
+  type: "array",
+  description: "Professional follow-up messages, best first",
+  items: { type: "string", minLength: 1 },
+  minItems: 1,
+  maxItems: 5,
+};
+
+export const FOLLOWUP_NEED_TASK: StructuredTask<{
+  needs_followup: boolean;
+  reason: string;
+}> = {
+  name: "followup_need",
+  schema: {
+    type: "object",
+    properties: {
+      needs_followup: {
+        type: "boolean",
+        description: "true if it needs followup, false if it's a closing email",
+      },
+      reason: { type: "string", description: "Brief explanation" },
+    },
+    required: ["needs_followup", "reason"],
+    additionalProperties: false,
+  },
+};
+
+export const SENTIMENT_TASK: StructuredTask<{ sentiment: Sentiment }> = {
+  name: "sentiment",
+  schema: {
+    type: "object",
+    properties: { sentiment: SENTIMENT_PROPERTY },
+    required: ["sentiment"],
+    additionalProperties: false,
+  },
+};
+
+export const FOLLOWUP_SUGGESTIONS_TASK: StructuredTask<{
+  suggestions: string[];
+}> = {
+  name: "followup_suggestions",
+  schema: {
+    type: "object",
+    properties: { suggestions: SUGGESTIONS_PROPERTY },
+    required: ["suggestions"],
+    additionalProperties: false,
+  },
+};
+
+export interface FollowupAnalysisPayload {
+  summary: string;
+  sentiment: Sentiment;
+  urgency: Urgency;
+  needs_followup: boolean;
+  followup_reason: string;
+  next_step: string;
+  drafts: string[];
+}
+
+// Summary comes first so it can be shown while the rest streams
+export const FOLLOWUP_ANALYSIS_TASK: StructuredTask<FollowupAnalysisPayload> = {
+  name: "followup_analysis",
+  schema: {
+    type: "object",
+    properties: {
+      summary: {
+        type: "string",
+        description: "2-3 sentence summary of the thread",
+        minLength: 1,
+      },
+      sentiment: SENTIMENT_PROPERTY,
+      urgency: {
+        type: "string",
+        enum: ["high", "medium", "low"],
+        description: "How soon the user should follow up",
+      },
+      needs_followup: {
+        type: "boolean",
+        description: "true if the user is still waiting for a response",
+      },
+      followup_reason: { type: "string", description: "Brief explanation" },
+      next_step: {
+        type: "string",
+        description: "One concrete action for the user, e.g. who to nudge",
+      },
+      drafts: {
+        ...SUGGESTIONS_PROPERTY,
+        description: "Ready-to-send follow-up emails, best first",
+      },
+    },
+    required: [
+      "summary",
+      "sentiment",
+      "urgency",
+      "needs_followup",
+      "followup_reason",
+      "next_step",
+      "drafts",
+    ],
+    additionalProperties: false,
+  },
+};
@@ -1,5 +1,31 @@
 import { Configuration } from "../models/Configuration";
+import {
+  FollowupAnalysis,
+  FollowupNeed,
+  LlmUsage,
+  Sentiment,
+} from "../models/LlmAnalysis";
+import { LlmOperation } from "../models/LlmUsageLedger";
 import { RetryService, RetryOptions } from "./RetryService";
+import {
+  FollowupAnalysisPayload,
+  FOLLOWUP_ANALYSIS_TASK,
+  FOLLOWUP_NEED_TASK,
+  FOLLOWUP_SUGGESTIONS_TASK,
+  SENTIMENT_TASK,
+} from "./LlmSchemas";
+import {
+  StructuredOutputParser,
+  StructuredTask,
+} from "./StructuredOutputParser";
+import {
+  LlmChatMessage,
+  LlmHttpRequest,
+  LlmProviderAdapter,
+  LlmProviderRegistry,
+} from "./LlmProviderRegistry";
+import { LlmUsageService } from "./LlmUsageService";
+import { PromptTemplateService } from "./PromptTemplateService";
 
 export interface LlmOptions {
   temperature?: number;
@@ -7,26 +33,61 @@ export interface LlmOptions {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  systemPrompt?: string;
+  /** Ask for JSON matching this task's schema, natively where supported */
+  responseFormat?: StructuredTask<unknown>;
 }
 
 export interface LlmResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LlmUsage;
   model?: string;
   finishReason?: string;
 }
 
+export interface ThreadAnalysisParams {
+  emails: any[];
+  context?: string;
+  recipient?: string;
+  daysWithoutResponse?: number;
+}
+
+interface ChatRequest extends LlmHttpRequest {
+  adapter: LlmProviderAdapter;
+}
+
+interface StructuredResult<T> {
+  value: T;
+  usage?: LlmUsage;
+}
+
+const defaultProviders = LlmProviderRegistry.createDefault();
+
 export class LlmService {
   private retryService: RetryService;
   private configuration: Configuration;
-
-  constructor(configuration: Configuration, retryService: RetryService) {
+  private providers: LlmProviderRegistry;
+  private outputParser = new StructuredOutputParser();
+  private usageLedger?: LlmUsageService;
+  private prompts: PromptTemplateService;
+
+  constructor(
+    configuration: Configuration,
+    retryService: RetryService,
+    providers: LlmProviderRegistry = defaultProviders,
+  ) {
     this.configuration = configuration;
     this.retryService = retryService;
+    this.providers = providers;
+    this.prompts = new PromptTemplateService(configuration.promptTemplates);
+  }
+
+  /**
+   * Record the tokens of every call in `ledger`, and refuse calls once its
+   * daily budget is exceeded. Health checks are recorded but never refused.
+   */
+  public setUsageLedger(ledger: LlmUsageService): void {
+    this.usageLedger = ledger;
   }
 
   public async generateFollowupSuggestions(
@@ -37,8 +98,13 @@ export class LlmService {
     const prompt = this.buildFollowupPrompt(emailContent, context);
 
     try {
-      const response = await this.callLlmApi(prompt, options);
-      return this.parseFollowupSuggestions(response.content);
+      const { value } = await this.callStructured(
+        prompt,
+        FOLLOWUP_SUGGESTIONS_TASK,
+        options,
+        "suggestion",
+      );
+      return value.suggestions.map((suggestion) => suggestion.trim());
     } catch (error: any) {
       console.error("Error generating followup suggestions:", error);
       throw new Error(
@@ -51,14 +117,10 @@ export class LlmService {
     emailContent: string,
     options: LlmOptions = {},
   ): Promise<string> {
-    const prompt = `Analyze the tone of the following email and provide a brief description:
-
-${emailContent}
-
-Provide a concise tone analysis in one sentence.`;
+    const prompt = this.prompts.render("tone", { email: emailContent });
 
     try {
-      const response = await this.callLlmApi(prompt, options);
+      const response = await this.callLlmApi(prompt, options, "tone");
       return response.content.trim();
     } catch (error: any) {
       console.error("Error analyzing tone:", error);
@@ -70,14 +132,10 @@ Provide a concise tone analysis in one sentence.`;
     emailContent: string,
     options: LlmOptions = {},
   ): Promise<string> {
-    const prompt = `Summarize the following email concisely:
-
-${emailContent}
-
-Provide a brief summary in 2-3 sentences.`;
+    const prompt = this.prompts.render("summary", { email: emailContent });
 
     try {
-      const response = await this.callLlmApi(prompt, options);
+      const response = await this.callLlmApi(prompt, options, "summary");
       return response.content.trim();
     } catch (error: any) {
       console.error("Error summarizing email:", error);
@@ -86,26 +144,13 @@ Provide a brief summary in 2-3 sentences.`;
   }
 
   public async analyzeThread(
-    params: { emails: any[]; context?: string },
+    params: ThreadAnalysisParams,
     options: LlmOptions = {},
   ): Promise<string> {
-    const emailsText = params.emails
-      .map(
-        (email, index) =>
-          `Email ${index + 1}:\n${email.subject}\n${email.content}\n---`,
-      )
-      .join("\n\n");
-
-    const prompt = `Analyze the following email thread and provide insights:
-
-${emailsText}
-
-${params.context ? `Additional context: ${params.context}` : ""}
-
-Provide a brief analysis of the thread including key points, sentiment, and suggested actions.`;
+    const prompt = this.buildThreadAnalysisPrompt(params);
 
     try {
-      const response = await this.callLlmApi(prompt, options);
+      const response = await this.callLlmApi(prompt, options, "summary");
       return response.content.trim();
     } catch (error: any) {
       console.error("Error analyzing thread:", error);
@@ -116,33 +161,21 @@ Provide a brief analysis of the thread including key points, sentiment, and sugg
   public async analyzeFollowupNeed(
     emailContent: string,
     options: LlmOptions = {},
-  ): Promise<{ needsFollowup: boolean; reason: string }> {
-    const prompt = `Analyze the following email text (which is the last email in a thread sent by the user) to determine if it requires a response or follow-up from the recipients.
-
-Email content:
-${emailContent}
-
-Criteria:
-1. DOES NOT NEED FOLLOWUP (Closing Email): The email is a "closing" email or statement. Examples: "Thank you", "Final update", "To sum up", "Just FYI", "No action needed", "Done", "Resolved".
-2. NEEDS FOLLOWUP (Pending Action/Question): The user asked a question or is waiting for input. Examples: "Did you have a chance to look?", "Appreciate response on this matter", "Any feedback?", "Need help to look into my inquiry".
-
-Output Format:
-Return a JSON object with two fields:
-- "needs_followup": boolean (true if it needs followup, false if it's a closing email)
-- "reason": string (brief explanation)
-
-Do not include markdown formatting. Just the JSON string.`;
+  ): Promise<FollowupNeed> {
+    const prompt = this.prompts.render("followup_need", {
+      email: emailContent,
+    });
 
     try {
-      const response = await this.callLlmApi(prompt, options);
-      let content = response.content.trim();
-      // Clean potential markdown blocks
-      content = content.replace(/^```json/, "").replace(/```$/, "").trim();
-
-      const result = JSON.parse(content);
+      const { value } = await this.callStructured(
+        prompt,
+        FOLLOWUP_NEED_TASK,
+        options,
+        "followup_need",
+      );
       return {
-        needsFollowup: !!result.needs_followup,
-        reason: result.reason || "No reason provided",
+        needsFollowup: value.needs_followup,
+        reason: value.reason || "No reason provided",
       };
     } catch (error: any) {
       console.error("Error analyzing followup need:", error);
@@ -157,43 +190,105 @@ Do not include markdown formatting. Just the JSON string.`;
   public async analyzeSentiment(
     emailContent: string,
     options: LlmOptions = {},
-  ): Promise<{ sentiment: "positive" | "neutral" | "negative" | "urgent" }> {
-    const prompt = `Analyze the sentiment and urgency of the following email content:
+  ): Promise<{ sentiment: Sentiment }> {
+    const prompt = `Classify the sentiment and urgency of the following email content as positive, neutral, negative or urgent:
 
-${emailContent}
-
-Return one of these sentiment classifications: positive, neutral, negative, urgent
-
-Just return the classification word, nothing else.`;
+${emailContent}`;
 
     try {
-      const response = await this.callLlmApi(prompt, options);
-      const content = response.content.trim().toLowerCase();
-
-      if (content.includes("urgent")) {
-        return { sentiment: "urgent" };
-      } else if (content.includes("positive")) {
-        return { sentiment: "positive" };
-      } else if (content.includes("negative")) {
-        return { sentiment: "negative" };
-      } else {
-        return { sentiment: "neutral" };
-      }
+      const { value } = await this.callStructured(
+        prompt,
+        SENTIMENT_TASK,
+        options,
+        "sentiment",
+      );
+      return value;
     } catch (error: any) {
       console.error("Error analyzing sentiment:", error);
       return { sentiment: "neutral" };
     }
   }
 
-  // Lightweight availability check – attempts a minimal completion.
+  /**
+   * Summary, sentiment, urgency, next step and follow-up drafts for a thread
+   * in a single call, instead of one round-trip per analysis.
+   */
+  public async analyzeFollowup(
+    params: ThreadAnalysisParams,
+    options: LlmOptions = {},
+  ): Promise<FollowupAnalysis> {
+    try {
+      const result = await this.callStructured(
+        this.buildFollowupAnalysisPrompt(params),
+        FOLLOWUP_ANALYSIS_TASK,
+        { maxTokens: 1000, ...options },
+        "followup_analysis",
+      );
+      return this.toFollowupAnalysis(result);
+    } catch (error: any) {
+      console.error("Error analyzing followup:", error);
+      throw new Error(`Failed to analyze followup: ${error.message}`);
+    }
+  }
+
+  /** Local providers run inside the network and don't need an API key */
+  public static requiresApiKey(
+    configuration: Configuration,
+    providers: LlmProviderRegistry = defaultProviders,
+  ): boolean {
+    return providers.resolve(configuration).requiresApiKey;
+  }
+
+  /**
+   * List the models the server offers, for the settings modal.
+   * Supported by providers whose adapter exposes a model list.
+   */
+  public async listModels(timeoutMs = 6000): Promise<string[]> {
+    if (!this.configuration.llmApiEndpoint) {
+      throw new Error("LLM API endpoint is not configured");
+    }
+
+    const adapter = this.getAdapter();
+    if (!adapter.buildModelsRequest || !adapter.parseModels) {
+      throw new Error(
+        `Model discovery is not supported for provider ${adapter.id}`,
+      );
+    }
+    const data = await this.getJson(
+      adapter.buildModelsRequest(this.configuration),
+      timeoutMs,
+    );
+    return adapter.parseModels(data);
+  }
+
+  /**
+   * Lightweight availability check. Providers with a status endpoint use it,
+   * the rest attempt a minimal completion.
+   */
   public async healthCheck(timeoutMs = 6000): Promise<boolean> {
+    const adapter = this.configuration.llmApiEndpoint
+      ? this.getAdapter()
+      : undefined;
+    if (adapter && adapter.healthCheck) {
+      try {
+        return await adapter.healthCheck(this.configuration, {
+          get: (request) => this.fetchWithTimeout(request, timeoutMs),
+          getJson: (request) => this.getJson(request, timeoutMs),
+        });
+      } catch (e) {
+        console.warn("[LLM HealthCheck] Failed:", (e as Error).message);
+        return false;
+      }
+    }
+
+    const prompt = "Return the word OK";
     try {
       const attempt = async (): Promise<LlmResponse> => {
         const controller = new AbortController();
         const timeoutHandle = setTimeout(() => controller.abort(), timeoutMs);
         try {
           return await this.makeApiCall(
-            "Return the word OK",
+            prompt,
             { maxTokens: 5 },
             controller.signal,
           );
@@ -212,6 +307,7 @@ Just return the classification word, nothing else.`;
         },
         "llm-health",
       );
+      this.recordUsage("health_check", prompt, response);
       return /\bOK\b/i.test(response.content.trim());
     } catch (e) {
       console.warn("[LLM HealthCheck] Failed:", (e as Error).message);
@@ -219,207 +315,416 @@ Just return the classification word, nothing else.`;
     }
   }
 
-  private async callLlmApi(
+  /**
+   * Stream a completion (SSE `stream: true`), yielding token deltas as they arrive.
+   * The generator's return value is the assembled response.
+   */
+  public async *streamCompletion(
     prompt: string,
     options: LlmOptions = {},
-  ): Promise<LlmResponse> {
-    const retryOptions: RetryOptions = {
-      maxAttempts: 3,
-      baseDelayMs: 1000,
-      maxDelayMs: 10000,
-      backoffFactor: 2,
-    };
-
-    return this.retryService.executeWithRetry(
-      () => this.makeApiCall(prompt, options),
-      retryOptions,
-      "llm-api",
+    signal?: AbortSignal,
+    operation: LlmOperation = "completion",
+  ): AsyncGenerator<string, LlmResponse> {
+    this.assertWithinBudget();
+    const request = this.buildChatRequest(prompt, options, true);
+
+    // Only opening the stream is retried, deltas already yielded can't be taken back
+    const response = await this.retryService.executeWithRetry(
+      () => this.sendChatRequest(request, signal),
+      {
+        maxAttempts: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 10000,
+        backoffFactor: 2,
+      },
+      "llm-stream",
     );
-  }
 
-  private async callDialAPI(
-    prompt: string,
-    options: LlmOptions = {},
-    signal?: AbortSignal,
-  ): Promise<LlmResponse> {
-    const requestBody = {
-      model: this.configuration.llmModel || "gpt-35-turbo",
-      messages: [{ role: "user", content: prompt }],
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.maxTokens ?? 500,
-      top_p: options.topP ?? 1.0,
-      frequency_penalty: options.frequencyPenalty ?? 0,
-      presence_penalty: options.presencePenalty ?? 0,
-    };
+    if (!response.body) {
+      throw new Error(
+        `${request.adapter.displayName} returned an empty stream`,
+      );
+    }
 
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
+    let content = "";
+    let model: string | undefined;
+    let finishReason: string | undefined;
+    let usage: Partial<LlmUsage> = {};
 
-    if (this.configuration.llmApiKey) {
-      headers["Api-Key"] = this.configuration.llmApiKey;
+    const events =
+      request.adapter.streamFormat === "ndjson"
+        ? this.readJsonLines(response.body)
+        : this.readServerSentEvents(response.body);
+
+    for await (const data of events) {
+      if (data === "[DONE]") {
+        break;
+      }
+
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new Error(
+          `${request.adapter.displayName} stream failed: ${chunk.error.message || (typeof chunk.error === "string" ? chunk.error : JSON.stringify(chunk.error))}`,
+        );
+      }
+
+      const parsed = request.adapter.parseStreamChunk(chunk);
+      model = parsed.model || model;
+      if (parsed.usage) {
+        usage = { ...usage, ...parsed.usage };
+      }
+      if (parsed.delta) {
+        content += parsed.delta;
+        yield parsed.delta;
+      }
+      if (parsed.finishReason) {
+        finishReason = parsed.finishReason;
+      }
     }
 
-    // Build DIAL API URL in the format: {endpoint}/openai/deployments/{deploymentName}/chat/completions?api-version={apiVersion}
-    const deploymentName =
-      this.configuration.llmDeploymentName ||
-      this.configuration.llmModel ||
-      "gpt-35-turbo";
-    const apiVersion = this.configuration.llmApiVersion || "2024-02-01";
-    const baseEndpoint = this.configuration.llmApiEndpoint!.replace(/\/$/, ""); // Remove trailing slash
+    const result: LlmResponse = {
+      content,
+      usage: this.completeUsage(usage),
+      model,
+      finishReason,
+    };
+    this.recordUsage(operation, prompt, result);
+    return result;
+  }
+
+  /** Streaming variant of analyzeThread */
+  public async *streamThreadAnalysis(
+    params: ThreadAnalysisParams,
+    options: LlmOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<string, string> {
+    try {
+      const response = yield* this.streamCompletion(
+        this.buildThreadAnalysisPrompt(params),
+        options,
+        signal,
+        "summary",
+      );
+      return response.content.trim();
+    } catch (error: any) {
+      console.error("Error streaming thread analysis:", error);
+      throw new Error(`Failed to analyze thread: ${error.message}`);
+    }
+  }
 
-    const apiUrl = `${baseEndpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=${apiVersion}`;
+  /**
+   * Streaming variant of generateFollowupSuggestions. The response is
+   * structured JSON; the first suggestion is yielded as it arrives.
+   */
+  public async *streamFollowupSuggestions(
+    emailContent: string,
+    context?: string,
+    options: LlmOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<string, string[]> {
+    try {
+      const { value } = yield* this.streamStructured(
+        this.buildFollowupPrompt(emailContent, context),
+        FOLLOWUP_SUGGESTIONS_TASK,
+        "suggestions",
+        options,
+        "suggestion",
+        signal,
+      );
+      return value.suggestions.map((suggestion) => suggestion.trim());
+    } catch (error: any) {
+      console.error("Error streaming followup suggestions:", error);
+      throw new Error(
+        `Failed to generate followup suggestions: ${error.message}`,
+      );
+    }
+  }
 
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-      signal,
-    });
+  /** Streaming variant of analyzeFollowup, yielding the summary as it arrives */
+  public async *streamFollowupAnalysis(
+    params: ThreadAnalysisParams,
+    options: LlmOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<string, FollowupAnalysis> {
+    try {
+      const result = yield* this.streamStructured(
+        this.buildFollowupAnalysisPrompt(params),
+        FOLLOWUP_ANALYSIS_TASK,
+        "summary",
+        { maxTokens: 1000, ...options },
+        "followup_analysis",
+        signal,
+      );
+      return this.toFollowupAnalysis(result);
+    } catch (error: any) {
+      console.error("Error streaming followup analysis:", error);
+      throw new Error(`Failed to analyze followup: ${error.message}`);
+    }
+  }
 
+  private async getJson(
+    request: LlmHttpRequest,
+    timeoutMs: number,
+  ): Promise<any> {
+    const response = await this.fetchWithTimeout(request, timeoutMs);
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(
-        `DIAL API request failed: ${response.status} ${response.statusText} - ${errorText}`,
+        `Request to ${request.url} failed: ${response.status} ${response.statusText} - ${errorText}`,
       );
     }
+    return response.json();
+  }
 
-    const data = await response.json();
-
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No response choices returned from DIAL API");
+  private async fetchWithTimeout(
+    request: LlmHttpRequest,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutHandle = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(request.url, {
+        method: "GET",
+        headers: request.headers,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutHandle);
     }
+  }
 
-    return {
-      content: data.choices[0].message.content,
-      usage: data.usage
-        ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-          }
-        : undefined,
-      model: data.model,
-      finishReason: data.choices[0].finish_reason,
-    };
+  /**
+   * Run a structured task: ask for JSON matching the task schema, validate the
+   * response and give the model one chance to repair an invalid one.
+   */
+  private async callStructured<T>(
+    prompt: string,
+    task: StructuredTask<T>,
+    options: LlmOptions,
+    operation: LlmOperation,
+  ): Promise<StructuredResult<T>> {
+    const structuredOptions: LlmOptions = { ...options, responseFormat: task };
+    const response = await this.callLlmApi(
+      this.withSchemaInstructions(prompt, task),
+      structuredOptions,
+      operation,
+    );
+    return this.parseStructured(response, task, structuredOptions, operation);
   }
 
-  private async callAzureOpenAI(
+  /**
+   * Streaming variant of callStructured. Yields the string value of
+   * `partialKey` as it arrives, so the JSON itself is never shown.
+   */
+  private async *streamStructured<T>(
     prompt: string,
-    options: LlmOptions = {},
+    task: StructuredTask<T>,
+    partialKey: string,
+    options: LlmOptions,
+    operation: LlmOperation,
     signal?: AbortSignal,
-  ): Promise<LlmResponse> {
-    const requestBody = {
-      messages: [{ role: "user", content: prompt }],
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.maxTokens ?? 500,
-      top_p: options.topP ?? 1.0,
-      frequency_penalty: options.frequencyPenalty ?? 0,
-      presence_penalty: options.presencePenalty ?? 0,
-    };
+  ): AsyncGenerator<string, StructuredResult<T>> {
+    const structuredOptions: LlmOptions = { ...options, responseFormat: task };
+    const stream = this.streamCompletion(
+      this.withSchemaInstructions(prompt, task),
+      structuredOptions,
+      signal,
+      operation,
+    );
 
-    // Use deployment name or fallback to model name
-    const deploymentName =
-      this.configuration.llmDeploymentName ||
-      this.configuration.llmModel ||
-      "gpt-35-turbo";
-    const apiVersion = this.configuration.llmApiVersion || "2023-12-01-preview";
+    let content = "";
+    let shown = "";
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      const partial = this.outputParser.readPartialString(content, partialKey);
+      if (partial.length > shown.length) {
+        yield partial.slice(shown.length);
+        shown = partial;
+      }
+      next = await stream.next();
+    }
 
-    const apiUrl = `${this.configuration.llmApiEndpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=${apiVersion}`;
+    return this.parseStructured(next.value, task, structuredOptions, operation);
+  }
 
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "api-key": this.configuration.llmApiKey!,
-      },
-      body: JSON.stringify(requestBody),
-      signal,
-    });
+  private async parseStructured<T>(
+    response: LlmResponse,
+    task: StructuredTask<T>,
+    options: LlmOptions,
+    operation: LlmOperation,
+  ): Promise<StructuredResult<T>> {
+    const result = this.outputParser.parse(response.content, task);
+    if (result.ok) {
+      return { value: result.value, usage: response.usage };
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
+    console.warn(
+      `[LLM] Invalid ${task.name} response, requesting a repair:`,
+      result.errors,
+    );
+    const repairPrompt = `Your previous response did not match the required JSON schema.
+
+Previous response:
+${response.content}
+
+Problems:
+${result.errors.map((error) => `- ${error}`).join("\n")}
+
+Return the corrected response.`;
+    const repaired = await this.callLlmApi(
+      this.withSchemaInstructions(repairPrompt, task),
+      options,
+      operation,
+    );
+
+    const repairedResult = this.outputParser.parse(repaired.content, task);
+    if (!repairedResult.ok) {
       throw new Error(
-        `Azure OpenAI API request failed: ${response.status} ${response.statusText} - ${errorText}`,
+        `Invalid ${task.name} response: ${repairedResult.errors.join("; ")}`,
       );
     }
+    return {
+      value: repairedResult.value,
+      usage: this.addUsage(response.usage, repaired.usage),
+    };
+  }
 
-    const data = await response.json();
-
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No response choices returned from Azure OpenAI API");
+  /** Token counts collected from a stream, when the provider sent both */
+  private completeUsage(usage: Partial<LlmUsage>): LlmUsage | undefined {
+    if (
+      usage.promptTokens === undefined ||
+      usage.completionTokens === undefined
+    ) {
+      return undefined;
     }
+    return {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens:
+        usage.totalTokens ?? usage.promptTokens + usage.completionTokens,
+    };
+  }
 
+  /** Sum of both, or whichever is known when a provider reported only one */
+  private addUsage(a?: LlmUsage, b?: LlmUsage): LlmUsage | undefined {
+    if (!a || !b) {
+      return a || b;
+    }
     return {
-      content: data.choices[0].message.content,
-      usage: data.usage
-        ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-          }
-        : undefined,
-      model: data.model,
-      finishReason: data.choices[0].finish_reason,
+      promptTokens: a.promptTokens + b.promptTokens,
+      completionTokens: a.completionTokens + b.completionTokens,
+      totalTokens: a.totalTokens + b.totalTokens,
     };
   }
 
-  private async callOpenAI(
+  /** Providers without a native JSON mode only have the prompt to go on */
+  private withSchemaInstructions(
     prompt: string,
-    options: LlmOptions = {},
-    signal?: AbortSignal,
+    task: StructuredTask<unknown>,
+  ): string {
+    return `${prompt}
+
+Respond with a single JSON object matching this JSON schema, without markdown formatting:
+${JSON.stringify(task.schema)}`;
+  }
+
+  private async callLlmApi(
+    prompt: string,
+    options: LlmOptions,
+    operation: LlmOperation,
   ): Promise<LlmResponse> {
-    const requestBody = {
-      model: this.configuration.llmModel || "gpt-3.5-turbo",
-      messages: [{ role: "user", content: prompt }],
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.maxTokens ?? 500,
-      top_p: options.topP ?? 1.0,
-      frequency_penalty: options.frequencyPenalty ?? 0,
-      presence_penalty: options.presencePenalty ?? 0,
+    this.assertWithinBudget();
+    const retryOptions: RetryOptions = {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 10000,
+      backoffFactor: 2,
     };
 
-    const apiUrl = this.configuration.llmApiEndpoint!.includes(
-      "/chat/completions",
-    )
-      ? this.configuration.llmApiEndpoint!
-      : `${this.configuration.llmApiEndpoint}/v1/chat/completions`;
+    const response = await this.retryService.executeWithRetry(
+      () => this.makeApiCall(prompt, options),
+      retryOptions,
+      "llm-api",
+    );
+    this.recordUsage(operation, prompt, response);
+    return response;
+  }
+
+  private assertWithinBudget(): void {
+    if (this.usageLedger && this.usageLedger.isBudgetExceeded()) {
+      throw new Error("Daily LLM budget exceeded");
+    }
+  }
+
+  private recordUsage(
+    operation: LlmOperation,
+    prompt: string,
+    response: LlmResponse,
+  ): void {
+    if (!this.usageLedger) {
+      return;
+    }
+    // Some providers send no token counts when streaming (DIAL, Azure); an
+    // estimate of ~4 characters per token keeps those calls under the budget
+    const usage =
+      response.usage ||
+      this.completeUsage({
+        promptTokens: Math.ceil(prompt.length / 4),
+        completionTokens: Math.ceil(response.content.length / 4),
+      })!;
+    this.usageLedger.record(
+      operation,
+      response.model || this.configuration.llmModel || this.getAdapter().id,
+      usage,
+    );
+  }
+
+  private buildChatRequest(
+    prompt: string,
+    options: LlmOptions,
+    stream: boolean,
+  ): ChatRequest {
+    // Check if API endpoint is configured
+    if (!this.configuration.llmApiEndpoint) {
+      throw new Error("LLM API endpoint is not configured");
+    }
+
+    const messages: LlmChatMessage[] = [{ role: "user", content: prompt }];
+    if (options.systemPrompt) {
+      messages.unshift({ role: "system", content: options.systemPrompt });
+    }
 
-    const response = await fetch(apiUrl, {
+    const adapter = this.getAdapter();
+    return {
+      adapter,
+      ...adapter.buildChatRequest(this.configuration, {
+        messages,
+        options,
+        stream,
+      }),
+    };
+  }
+
+  private async sendChatRequest(
+    request: ChatRequest,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await fetch(request.url, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.configuration.llmApiKey}`,
-      },
-      body: JSON.stringify(requestBody),
+      headers: request.headers,
+      body: JSON.stringify(request.body),
       signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(
-        `OpenAI API request failed: ${response.status} ${response.statusText} - ${errorText}`,
+        `${request.adapter.displayName} request failed: ${response.status} ${response.statusText} - ${errorText}`,
       );
     }
 
-    const data = await response.json();
-
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No response choices returned from OpenAI API");
-    }
-
-    return {
-      content: data.choices[0].message.content,
-      usage: data.usage
-        ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-          }
-        : undefined,
-      model: data.model,
-      finishReason: data.choices[0].finish_reason,
-    };
+    return response;
   }
 
   private async makeApiCall(
@@ -427,86 +732,124 @@ Just return the classification word, nothing else.`;
     options: LlmOptions = {},
     signal?: AbortSignal,
   ): Promise<LlmResponse> {
-    // Check if API endpoint is configured
-    if (!this.configuration.llmApiEndpoint) {
-      throw new Error("LLM API endpoint is not configured");
-    }
+    const request = this.buildChatRequest(prompt, options, false);
+    const response = await this.sendChatRequest(request, signal);
+    return request.adapter.parseChatResponse(await response.json());
+  }
 
-    // Determine provider type
-    const provider = this.configuration.llmProvider || this.detectProvider();
-
-    switch (provider) {
-      case "dial":
-        return this.callDialAPI(prompt, options, signal);
-      case "azure":
-        return this.callAzureOpenAI(prompt, options, signal);
-      case "openai":
-        return this.callOpenAI(prompt, options, signal);
-      default:
-        // Fallback to auto-detection
-        if (
-          this.configuration.llmApiEndpoint.includes("ai-proxy.lab.epam.com") ||
-          this.configuration.llmApiEndpoint.includes("/openai/deployments/")
-        ) {
-          return this.callDialAPI(prompt, options, signal);
-        } else if (
-          this.configuration.llmApiEndpoint.includes("openai.azure.com")
-        ) {
-          return this.callAzureOpenAI(prompt, options, signal);
-        } else {
-          return this.callOpenAI(prompt, options, signal);
+  /**
+   * Read a text/event-stream body and yield the payload of each `data:` field.
+   */
+  private async *readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<string> {
+    let data: string[] = [];
+    for await (const line of this.readLines(body)) {
+      // Events are separated by a blank line
+      if (line === "") {
+        if (data.length > 0) {
+          yield data.join("\n");
         }
+        data = [];
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    if (data.length > 0) {
+      yield data.join("\n");
     }
   }
 
-  private detectProvider(): "azure" | "dial" | "openai" {
-    const endpoint = this.configuration.llmApiEndpoint!;
-
-    if (
-      endpoint.includes("ai-proxy.lab.epam.com") ||
-      endpoint.includes("/openai/deployments/")
-    ) {
-      return "dial";
-    } else if (endpoint.includes("openai.azure.com")) {
-      return "azure";
-    } else {
-      return "openai";
+  /** Read a newline-delimited JSON body (Ollama streaming) */
+  private async *readJsonLines(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<string> {
+    for await (const line of this.readLines(body)) {
+      if (line.trim()) {
+        yield line;
+      }
     }
   }
 
-  private buildFollowupPrompt(emailContent: string, context?: string): string {
-    let prompt = `Based on the following email, suggest 3-5 professional followup responses that would be appropriate:
+  private async *readLines(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
 
-Email content:
-${emailContent}`;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? "" : lines.pop() || "";
+        for (const line of lines) {
+          yield line;
+        }
 
-    if (context) {
-      prompt += `\n\nAdditional context:
-${context}`;
+        if (done) {
+          return;
+        }
+      }
+    } finally {
+      reader.releaseLock();
     }
+  }
 
-    prompt += `\n\nPlease provide followup suggestions in the following format:
-1. [First suggestion]
-2. [Second suggestion]
-3. [Third suggestion]
-[etc.]
+  private getAdapter(): LlmProviderAdapter {
+    return this.providers.resolve(this.configuration);
+  }
 
-Focus on being professional, helpful, and contextually appropriate.`;
+  private buildThreadAnalysisPrompt(params: ThreadAnalysisParams): string {
+    return this.prompts.render("thread_analysis", {
+      thread: this.formatThread(params.emails),
+      context: params.context,
+    });
+  }
 
-    return prompt;
+  private buildFollowupAnalysisPrompt(params: ThreadAnalysisParams): string {
+    return this.prompts.render("followup_analysis", {
+      thread: this.formatThread(params.emails),
+      context: params.context,
+      recipient: params.recipient,
+      daysWithoutResponse: params.daysWithoutResponse,
+    });
   }
 
-  private parseFollowupSuggestions(response: string): string[] {
-    const lines = response.split("\n").filter((line) => line.trim());
-    const suggestions: string[] = [];
+  private toFollowupAnalysis({
+    value,
+    usage,
+  }: StructuredResult<FollowupAnalysisPayload>): FollowupAnalysis {
+    return {
+      summary: value.summary.trim(),
+      sentiment: value.sentiment,
+      urgency: value.urgency,
+      needsFollowup: value.needs_followup,
+      followupReason: value.followup_reason,
+      nextStep: value.next_step.trim(),
+      drafts: value.drafts.map((draft) => draft.trim()),
+      usage,
+    };
+  }
 
-    for (const line of lines) {
-      const match = line.match(/^\d+\.\s*(.+)$/);
-      if (match) {
-        suggestions.push(match[1].trim());
-      }
-    }
+  private formatThread(emails: any[]): string {
+    // Callers pass either { subject, content } or ThreadMessages with a body
+    return emails
+      .map(
+        (email, index) =>
+          `Email ${index + 1}:\n${email.subject}\n${email.content ?? email.body}\n---`,
+      )
+      .join("\n\n");
+  }
 
-    return suggestions.length > 0 ? suggestions : [response.trim()];
+  private buildFollowupPrompt(emailContent: string, context?: string): string {
+    return this.prompts.render("followup_suggestions", {
+      email: emailContent,
+      context,
+    });
   }
 }
@@ -0,0 +1,262 @@
+import { Configuration, LlmModelPrice } from "../models/Configuration";
+import { LlmUsage } from "../models/LlmAnalysis";
+import {
+  LlmBudgetStatus,
+  LlmDailyUsage,
+  LlmOperation,
+  LlmUsageLedger,
+  LlmUsageRecord,
+  LlmUsageTotals,
+} from "../models/LlmUsageLedger";
+
+/**
+ * Ledger of LLM token usage per day, operation and model, with cost from the
+ * configured per-model prices and an optional daily token/cost budget.
+ *
+ * The ledger is kept in localStorage only: it is per device, grows with every
+ * model and operation used, and would eat into the 32KB roamingSettings quota
+ * that the follow-up state needs.
+ */
+export class LlmUsageService {
+  private readonly STORAGE_KEY = "followup-suggester-llm-usage";
+  private readonly LEDGER_VERSION = 1;
+  private readonly RETENTION_DAYS = 30;
+
+  private ledger: LlmUsageLedger | null = null;
+  private pricing: LlmModelPrice[] = [];
+  private tokenBudget?: number;
+  private costBudget?: number;
+
+  constructor(configuration?: Partial<Configuration>) {
+    if (configuration) {
+      this.configure(configuration);
+    }
+  }
+
+  public configure(configuration: Partial<Configuration>): void {
+    this.pricing = configuration.llmPricing || [];
+    // 0 and negative values mean no limit
+    this.tokenBudget =
+      configuration.llmDailyTokenBudget && configuration.llmDailyTokenBudget > 0
+        ? configuration.llmDailyTokenBudget
+        : undefined;
+    this.costBudget =
+      configuration.llmDailyCostBudget && configuration.llmDailyCostBudget > 0
+        ? configuration.llmDailyCostBudget
+        : undefined;
+  }
+
+  public record(
+    operation: LlmOperation,
+    model: string,
+    usage: LlmUsage,
+    now: Date = new Date(),
+  ): LlmUsageRecord {
+    const ledger = this.getLedger();
+    const day = this.toDayKey(now);
+    let record = ledger.records.find(
+      (r) => r.day === day && r.operation === operation && r.model === model,
+    );
+    if (!record) {
+      record = { day, operation, model, ...this.createEmptyTotals() };
+      ledger.records.push(record);
+    }
+
+    record.calls++;
+    record.promptTokens += usage.promptTokens;
+    record.completionTokens += usage.completionTokens;
+    record.totalTokens += usage.totalTokens;
+    record.cost += this.calculateCost(model, usage);
+
+    this.pruneOldRecords(now);
+    this.persist();
+    return record;
+  }
+
+  public getDailyUsage(now: Date = new Date()): LlmDailyUsage {
+    const day = this.toDayKey(now);
+    const usage: LlmDailyUsage = {
+      day,
+      ...this.createEmptyTotals(),
+      byOperation: {},
+      byModel: {},
+    };
+
+    this.getLedger()
+      .records.filter((record) => record.day === day)
+      .forEach((record) => {
+        const byOperation = (usage.byOperation[record.operation] =
+          usage.byOperation[record.operation] || this.createEmptyTotals());
+        const byModel = (usage.byModel[record.model] =
+          usage.byModel[record.model] || this.createEmptyTotals());
+        [usage, byOperation, byModel].forEach((totals) =>
+          this.addTotals(totals, record),
+        );
+      });
+    return usage;
+  }
+
+  public getBudgetStatus(now: Date = new Date()): LlmBudgetStatus {
+    const usage = this.getDailyUsage(now);
+    return {
+      exceeded:
+        (this.tokenBudget !== undefined &&
+          usage.totalTokens >= this.tokenBudget) ||
+        (this.costBudget !== undefined && usage.cost >= this.costBudget),
+      tokensUsed: usage.totalTokens,
+      costUsed: usage.cost,
+      tokenBudget: this.tokenBudget,
+      costBudget: this.costBudget,
+    };
+  }
+
+  public isBudgetExceeded(now: Date = new Date()): boolean {
+    return this.getBudgetStatus(now).exceeded;
+  }
+
+  /** Cost of `usage` on `model`, 0 when no price is configured for it */
+  public calculateCost(model: string, usage: LlmUsage): number {
+    const price = this.findPrice(model);
+    if (!price) {
+      return 0;
+    }
+    return (
+      (usage.promptTokens * price.promptPerMillion +
+        usage.completionTokens * price.completionPerMillion) /
+      1000000
+    );
+  }
+
+  /**
+   * The exact price for `model`, else the longest prefix match, so a price for
+   * "gpt-4o-mini" also covers "gpt-4o-mini-2024-07-18".
+   */
+  public findPrice(model: string): LlmModelPrice | undefined {
+    return (
+      this.pricing.find((price) => price.model === model) ||
+      this.pricing
+        .filter((price) => model.startsWith(price.model))
+        .sort((a, b) => b.model.length - a.model.length)[0]
+    );
+  }
+
+  public clear(): void {
+    this.ledger = this.createEmptyLedger();
+    this.persist();
+  }
+
+  /**
+   * Parse the settings text format, one `model = prompt / completion` line per
+   * model with prices per 1M tokens. Blank lines and `#` comments are skipped.
+   */
+  public static parsePricing(text: string): LlmModelPrice[] {
+    return text
+      .split(/\r?\n/)
+      .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+      .filter(({ line }) => line !== "" && !line.startsWith("#"))
+      .map(({ line, lineNumber }) => {
+        const match = /^(.+?)\s*=\s*([\d.]+)\s*\/\s*([\d.]+)$/.exec(line);
+        if (!match || isNaN(Number(match[2])) || isNaN(Number(match[3]))) {
+          throw new Error(
+            `Invalid price on line ${lineNumber}, expected "model = prompt / completion": ${line}`,
+          );
+        }
+        return {
+          model: match[1],
+          promptPerMillion: Number(match[2]),
+          completionPerMillion: Number(match[3]),
+        };
+      });
+  }
+
+  public static formatPricing(pricing: LlmModelPrice[]): string {
+    return pricing
+      .map(
+        (price) =>
+          `${price.model} = ${price.promptPerMillion} / ${price.completionPerMillion}`,
+      )
+      .join("\n");
+  }
+
+  private getLedger(): LlmUsageLedger {
+    if (!this.ledger) {
+      this.ledger = this.load();
+    }
+    return this.ledger;
+  }
+
+  private createEmptyLedger(): LlmUsageLedger {
+    return {
+      version: this.LEDGER_VERSION,
+      records: [],
+      updatedAt: new Date(0).toISOString(),
+    };
+  }
+
+  private createEmptyTotals(): LlmUsageTotals {
+    return {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+    };
+  }
+
+  private addTotals(target: LlmUsageTotals, source: LlmUsageTotals): void {
+    target.calls += source.calls;
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+    target.totalTokens += source.totalTokens;
+    target.cost += source.cost;
+  }
+
+  // The budget resets at local midnight, so days are keyed by local date
+  private toDayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private pruneOldRecords(now: Date): void {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - this.RETENTION_DAYS);
+    const cutoffKey = this.toDayKey(cutoff);
+    const ledger = this.getLedger();
+    // Day keys sort chronologically as strings
+    ledger.records = ledger.records.filter((record) => record.day > cutoffKey);
+  }
+
+  private load(): LlmUsageLedger {
+    try {
+      if (typeof localStorage !== "undefined") {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          if (parsed && Array.isArray(parsed.records)) {
+            return {
+              ...this.createEmptyLedger(),
+              records: parsed.records,
+              updatedAt: parsed.updatedAt || new Date(0).toISOString(),
+            };
+          }
+        }
+      }
+    } catch (error) {
+      console.warn("Error loading LLM usage ledger:", error);
+    }
+    return this.createEmptyLedger();
+  }
+
+  private persist(): void {
+    const ledger = this.getLedger();
+    ledger.updatedAt = new Date().toISOString();
+    try {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(ledger));
+      }
+    } catch (error) {
+      console.warn("Error saving LLM usage ledger:", error);
+    }
+  }
+}
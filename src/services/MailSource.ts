@@ -0,0 +1,110 @@
+import { ThreadMessage } from "../models/FollowupEmail";
+import { ParsedEmail } from "./XmlParsingService";
+
+export type MailSourceKind = "ews" | "graph" | "replay";
+
+export type DebugLogger = (
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface MailSourceStatus {
+  kind: MailSourceKind;
+  available: boolean;
+  active: boolean;
+}
+
+export type SyncFolderName = "sentitems" | "inbox";
+
+/** One page of changes to a folder */
+export interface FolderChanges {
+  // Pass to the next syncFolder call to continue from here
+  syncState: string;
+  changed: ParsedEmail[]; // Created or updated items
+  deletedIds: string[];
+  // False while more changes are waiting to be fetched
+  complete: boolean;
+}
+
+/**
+ * Backend used by EmailAnalysisService to read the mailbox.
+ * Implementations return ParsedEmail for folder listings and chronologically
+ * sorted ThreadMessage arrays (earliest first) for conversations.
+ */
+export interface MailSource {
+  readonly kind: MailSourceKind;
+
+  /** Whether the backend can be used in the current host */
+  isAvailable(): boolean;
+
+  /**
+   * Check once that the backend actually answers, e.g. that EWS is not
+   * disabled for the tenant. Optional; after a failed probe isAvailable()
+   * returns false.
+   */
+  probe?(): Promise<boolean>;
+
+  getCurrentUserEmail(): string | null;
+
+  listSentItems(emailCount: number, cutoffDate: Date): Promise<ParsedEmail[]>;
+
+  listInboxItems(emailCount: number, cutoffDate: Date): Promise<ParsedEmail[]>;
+
+  /** Fetch all messages of a conversation */
+  getConversation(conversationId: string): Promise<ThreadMessage[]>;
+
+  /**
+   * Slower conversation lookup that scans individual folders.
+   * Used when the backend's native conversation API is unreliable.
+   */
+  searchConversation(conversationId: string): Promise<ThreadMessage[]>;
+
+  /**
+   * Fetch the conversation an item belongs to, falling back to the
+   * single item when it has no conversation.
+   */
+  getThreadForItem(itemId: string): Promise<ThreadMessage[]>;
+
+  resolveConversationId(itemId: string): Promise<string | null>;
+
+  /**
+   * An item id in the format this backend lists items with, given one in
+   * either EWS or REST format. Optional; without it ids are used as is.
+   */
+  toItemId?(itemId: string): string;
+
+  /**
+   * Changes to a folder since `syncState`, or its items sent after
+   * `cutoffDate` when there is no sync state yet. Optional; backends without
+   * it are listed with listSentItems/listInboxItems on every analysis.
+   */
+  syncFolder?(
+    folder: SyncFolderName,
+    syncState: string | undefined,
+    cutoffDate: Date,
+  ): Promise<FolderChanges>;
+}
+
+/**
+ * Pick the first available source in order of preference.
+ * Falls back to the first candidate so callers get its "not available" error.
+ */
+export function selectMailSource(candidates: MailSource[]): MailSource {
+  if (candidates.length === 0) {
+    throw new Error("No mail sources configured");
+  }
+  return candidates.find((source) => source.isAvailable()) || candidates[0];
+}
+
+/**
+ * Probe the candidates in order of preference until one works, so that
+ * selectMailSource skips backends that are present but failing.
+ */
+export async function probeMailSources(
+  candidates: MailSource[],
+): Promise<void> {
+  for (const source of candidates) {
+    if (!source.isAvailable()) continue;
+    if (!source.probe || (await source.probe())) return;
+  }
+}
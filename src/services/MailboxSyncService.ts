@@ -0,0 +1,229 @@
+import { IndexedDbStore } from "./IndexedDbStore";
+import { MailSource, SyncFolderName } from "./MailSource";
+import { ParsedEmail } from "./XmlParsingService";
+
+interface FolderSyncRecord {
+  key: string; // source kind, mailbox and folder
+  syncState: string;
+  complete: boolean;
+  cutoff: string; // ISO date; items sent before it are not kept
+  items: ParsedEmail[];
+  syncedAt: string;
+}
+
+export interface MailboxSyncResult {
+  // Items of all synced folders sent after the cutoff, in no particular order
+  emails: ParsedEmail[];
+  // Conversations with items created, updated or deleted by this sync
+  changedConversationIds: string[];
+  changedItemIds: string[];
+  // Whether a folder was synced from scratch, so every conversation is new
+  initial: boolean;
+}
+
+/**
+ * Keeps a local copy of the Sent Items and Inbox listings, updated with the
+ * incremental changes of MailSource.syncFolder (EWS SyncFolderItems or a
+ * Graph delta query), so an analysis only fetches what changed since the
+ * previous one and knows which conversations need another look.
+ *
+ * Sync states and items are kept in IndexedDB per mail source, mailbox and
+ * folder; without IndexedDB they last for the session. When a source cannot
+ * sync, or syncing fails, sync() returns null and the caller lists the
+ * folders as before.
+ */
+export class MailboxSyncService {
+  private readonly DB_NAME = "followup-suggester-sync";
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = "folders";
+  private readonly FOLDERS: SyncFolderName[] = ["sentitems", "inbox"];
+  // Pages of changes fetched per folder and sync before giving up on it
+  private readonly MAX_PAGES = 20;
+
+  private store?: IndexedDbStore;
+  private memory = new Map<string, FolderSyncRecord>();
+
+  constructor(useIndexedDb: boolean = IndexedDbStore.isSupported()) {
+    if (useIndexedDb) {
+      this.store = new IndexedDbStore(
+        this.DB_NAME,
+        this.DB_VERSION,
+        (db, oldVersion) => {
+          if (oldVersion < 1) {
+            db.createObjectStore(this.STORE_NAME, { keyPath: "key" });
+          }
+        },
+      );
+    }
+  }
+
+  /**
+   * Bring the local copy of each folder up to date.
+   * @returns null when the source does not support syncing or a folder could
+   * not be synced completely
+   */
+  public async sync(
+    source: MailSource,
+    mailbox: string,
+    cutoffDate: Date,
+  ): Promise<MailboxSyncResult | null> {
+    if (!source.syncFolder) {
+      return null;
+    }
+    const results = await Promise.all(
+      this.FOLDERS.map((folder) =>
+        this.syncFolder(source, mailbox, folder, cutoffDate),
+      ),
+    );
+    if (results.some((result) => result === null)) {
+      return null;
+    }
+
+    const emails = new Map<string, ParsedEmail>();
+    const changedConversationIds = new Set<string>();
+    const changedItemIds = new Set<string>();
+    let initial = false;
+    results.forEach((result) => {
+      result!.emails.forEach((email) => emails.set(email.id, email));
+      result!.changedConversationIds.forEach((id) =>
+        changedConversationIds.add(id),
+      );
+      result!.changedItemIds.forEach((id) => changedItemIds.add(id));
+      initial = initial || result!.initial;
+    });
+    return {
+      emails: Array.from(emails.values()),
+      changedConversationIds: Array.from(changedConversationIds),
+      changedItemIds: Array.from(changedItemIds),
+      initial,
+    };
+  }
+
+  /** Forget all sync states, so the next sync starts from scratch */
+  public async reset(): Promise<void> {
+    this.memory.clear();
+    if (this.store) {
+      try {
+        await this.store.clear(this.STORE_NAME);
+      } catch (error) {
+        console.warn("Error clearing mailbox sync state:", error);
+      }
+    }
+  }
+
+  private async syncFolder(
+    source: MailSource,
+    mailbox: string,
+    folder: SyncFolderName,
+    cutoffDate: Date,
+  ): Promise<MailboxSyncResult | null> {
+    const key = `${source.kind}|${mailbox.toLowerCase()}|${folder}`;
+    let record = await this.load(key);
+    // The local copy lacks items older than its cutoff, so start over
+    if (record && new Date(record.cutoff) > cutoffDate) {
+      record = undefined;
+    }
+    const initial = !record;
+    const state: FolderSyncRecord = record
+      ? { ...record }
+      : {
+          key,
+          syncState: "",
+          complete: false,
+          cutoff: cutoffDate.toISOString(),
+          items: [],
+          syncedAt: "",
+        };
+
+    const items = new Map(state.items.map((item) => [item.id, item] as const));
+    const changedConversationIds = new Set<string>();
+    const changedItemIds = new Set<string>();
+    try {
+      for (let page = 0; page < this.MAX_PAGES; page++) {
+        const changes = await source.syncFolder!(
+          folder,
+          state.syncState || undefined,
+          cutoffDate,
+        );
+        changes.deletedIds.forEach((id) => {
+          const removed = items.get(id);
+          if (removed) {
+            items.delete(id);
+            changedItemIds.add(id);
+            changedConversationIds.add(removed.conversationId);
+          }
+        });
+        changes.changed.forEach((item) => {
+          items.set(item.id, item);
+          changedItemIds.add(item.id);
+          changedConversationIds.add(item.conversationId);
+        });
+        state.syncState = changes.syncState;
+        state.complete = changes.complete;
+        if (changes.complete || !changes.syncState) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.warn(`Error syncing ${folder}:`, error);
+      if (/SyncState|410|syncStateNotFound|resync/i.test(String(error))) {
+        await this.remove(key);
+      }
+      return null;
+    }
+
+    state.items = Array.from(items.values()).filter(
+      (item) => !item.dateTimeSent || new Date(item.dateTimeSent) >= cutoffDate,
+    );
+    state.cutoff = cutoffDate.toISOString();
+    state.syncedAt = new Date().toISOString();
+    await this.save(state);
+    // Resume from the saved state next time, list the folder this time
+    if (!state.complete) {
+      return null;
+    }
+    return {
+      emails: state.items,
+      changedConversationIds: Array.from(changedConversationIds).filter(
+        Boolean,
+      ),
+      changedItemIds: Array.from(changedItemIds),
+      initial,
+    };
+  }
+
+  private async load(key: string): Promise<FolderSyncRecord | undefined> {
+    if (!this.store) {
+      return this.memory.get(key);
+    }
+    try {
+      return await this.store.get<FolderSyncRecord>(this.STORE_NAME, key);
+    } catch (error) {
+      console.warn("Error loading mailbox sync state:", error);
+      return undefined;
+    }
+  }
+
+  private async save(record: FolderSyncRecord): Promise<void> {
+    if (!this.store) {
+      this.memory.set(record.key, record);
+      return;
+    }
+    try {
+      await this.store.putAll(this.STORE_NAME, [record]);
+    } catch (error) {
+      console.warn("Error saving mailbox sync state:", error);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    this.memory.delete(key);
+    if (this.store) {
+      try {
+        await this.store.delete(this.STORE_NAME, key);
+      } catch (error) {
+        console.warn("Error removing mailbox sync state:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { FollowupEmail } from "../models/FollowupEmail";
+import { SnoozeExpiry } from "../models/FollowupState";
+import {
+  FollowupNotification,
+  NotificationSettings,
+} from "../models/NotificationSettings";
+import { PriorityLevel } from "../models/PriorityScore";
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: true,
+  minPriority: "high",
+};
+
+const PRIORITY_RANK: Record<PriorityLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * Notifies the user of newly overdue follow-ups and expired snoozes: an
+ * Outlook notification message on the selected item, and an entry in the task
+ * pane's notification center. During quiet hours only the notification
+ * center is updated.
+ *
+ * The notification center history is kept in localStorage, like the LLM
+ * usage ledger it is per device.
+ */
+export class NotificationService {
+  private readonly STORAGE_KEY = "followup-suggester-notifications";
+  private readonly MAX_HISTORY = 50;
+  private readonly OUTLOOK_MESSAGE_KEY = "followupSuggesterOverdue";
+  // Outlook rejects longer notification messages
+  private readonly OUTLOOK_MESSAGE_MAX_LENGTH = 150;
+
+  private settings: NotificationSettings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+  };
+  private history: FollowupNotification[] | null = null;
+
+  constructor(settings?: Partial<NotificationSettings>) {
+    this.configure(settings);
+  }
+
+  public configure(settings?: Partial<NotificationSettings>): void {
+    this.settings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings };
+  }
+
+  public getSettings(): NotificationSettings {
+    return { ...this.settings };
+  }
+
+  /** Quiet hours may span midnight, e.g. 20:00 to 07:00 */
+  public isQuietHours(now: Date = new Date()): boolean {
+    const { quietHoursStart, quietHoursEnd } = this.settings;
+    if (!quietHoursStart || !quietHoursEnd) {
+      return false;
+    }
+    const start = this.toMinutes(quietHoursStart);
+    const end = this.toMinutes(quietHoursEnd);
+    const current = now.getHours() * 60 + now.getMinutes();
+    if (start === end) {
+      return false;
+    }
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  public shouldNotify(email: FollowupEmail): boolean {
+    return (
+      this.settings.enabled &&
+      !email.isSnoozed &&
+      !email.isDismissed &&
+      PRIORITY_RANK[email.priority] >= PRIORITY_RANK[this.settings.minPriority]
+    );
+  }
+
+  /**
+   * Record the newly overdue follow-ups that pass the priority rule and show
+   * an Outlook message for them unless it is quiet hours.
+   * @returns the notification center entries that were added
+   */
+  public async notify(
+    emails: FollowupEmail[],
+    now: Date = new Date(),
+  ): Promise<FollowupNotification[]> {
+    return this.add(
+      emails
+        .filter((email) => this.shouldNotify(email))
+        .map((email) => ({
+          kind: "overdue" as const,
+          emailId: email.id,
+          subject: email.subject,
+          priority: email.priority,
+          daysWithoutResponse: email.daysWithoutResponse,
+        })),
+      now,
+    );
+  }
+
+  /**
+   * Record which snoozed follow-ups are back and which got a reply meanwhile.
+   * Snoozing asks for a reminder, so these skip the enabled and priority
+   * settings; quiet hours still apply.
+   */
+  public async notifySnoozeExpiries(
+    expiries: SnoozeExpiry[],
+    now: Date = new Date(),
+  ): Promise<FollowupNotification[]> {
+    return this.add(
+      expiries.map((expiry) => ({
+        kind: expiry.status,
+        emailId: expiry.emailId,
+        subject: expiry.subject,
+      })),
+      now,
+    );
+  }
+
+  /** One line describing a notification, for Outlook messages and the notification center */
+  public static describe(notification: FollowupNotification): string {
+    switch (notification.kind) {
+      case "returned":
+        return `Back from snooze, still no reply: "${notification.subject}"`;
+      case "replied":
+        return `"${notification.subject}" got a reply while snoozed and was closed`;
+      default:
+        return `Follow-up overdue: "${notification.subject}", no response for ${notification.daysWithoutResponse} business days`;
+    }
+  }
+
+  private async add(
+    entries: Omit<
+      FollowupNotification,
+      "id" | "createdAt" | "read" | "silent"
+    >[],
+    now: Date,
+  ): Promise<FollowupNotification[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    const silent = this.isQuietHours(now);
+    const added = entries.map((entry) => ({
+      ...entry,
+      id: `${entry.kind}:${entry.emailId}:${now.getTime()}`,
+      createdAt: now.toISOString(),
+      read: false,
+      silent,
+    }));
+
+    this.history = [...added, ...this.getHistory()].slice(0, this.MAX_HISTORY);
+    this.persist();
+    if (!silent) {
+      await this.showOutlookMessage(added);
+    }
+    return added;
+  }
+
+  /** Notification center entries, newest first */
+  public getHistory(): FollowupNotification[] {
+    if (!this.history) {
+      this.history = this.load();
+    }
+    return this.history;
+  }
+
+  public getUnreadCount(): number {
+    return this.getHistory().filter((entry) => !entry.read).length;
+  }
+
+  public markAllRead(): void {
+    this.history = this.getHistory().map((entry) => ({
+      ...entry,
+      read: true,
+    }));
+    this.persist();
+  }
+
+  public clear(): void {
+    this.history = [];
+    this.persist();
+  }
+
+  private async showOutlookMessage(
+    notifications: FollowupNotification[],
+  ): Promise<void> {
+    try {
+      const item =
+        typeof Office !== "undefined"
+          ? Office.context?.mailbox?.item
+          : undefined;
+      if (!item || !item.notificationMessages) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        item.notificationMessages.replaceAsync(
+          this.OUTLOOK_MESSAGE_KEY,
+          {
+            type: Office.MailboxEnums.ItemNotificationMessageType
+              .InformationalMessage,
+            message: this.formatMessage(notifications),
+            icon: "Icon.16x16",
+            persistent: false,
+          },
+          (result) => {
+            if (result.status !== Office.AsyncResultStatus.Succeeded) {
+              console.warn(
+                "Failed to show Outlook notification:",
+                result.error,
+              );
+            }
+            resolve();
+          },
+        );
+      });
+    } catch (error) {
+      console.warn("Failed to show Outlook notification:", error);
+    }
+  }
+
+  private formatMessage(notifications: FollowupNotification[]): string {
+    const first = notifications[0];
+    let message = NotificationService.describe(first);
+    if (notifications.length > 1) {
+      message = notifications.every((entry) => entry.kind === "overdue")
+        ? `${notifications.length} follow-ups are now overdue, including "${first.subject}"`
+        : `${notifications.length} follow-up updates. ${message}`;
+    }
+    return message.length > this.OUTLOOK_MESSAGE_MAX_LENGTH
+      ? `${message.slice(0, this.OUTLOOK_MESSAGE_MAX_LENGTH - 1)}…`
+      : message;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  private load(): FollowupNotification[] {
+    try {
+      if (typeof localStorage !== "undefined") {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          if (Array.isArray(parsed)) {
+            return parsed.map((entry) => ({ kind: "overdue", ...entry }));
+          }
+        }
+      }
+    } catch (error) {
+      console.warn("Error loading notifications:", error);
+    }
+    return [];
+  }
+
+  private persist(): void {
+    try {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.history));
+      }
+    } catch (error) {
+      console.warn("Error saving notifications:", error);
+    }
+  }
+}
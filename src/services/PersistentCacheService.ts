@@ -0,0 +1,224 @@
+import { CacheEntry, CacheEvictionResult } from "../models/CacheEntry";
+import { IndexedDbStore } from "./IndexedDbStore";
+
+interface PersistedCacheEntry {
+  key: string;
+  schemaVersion: number;
+  entry: CacheEntry<unknown>;
+}
+
+/**
+ * IndexedDB tier of TieredCacheService, so entries survive a reload of the
+ * task pane. Values are not kept in memory, only an index of the stored keys
+ * and their expiry: load() hands the persisted entries to the memory tier
+ * once, read() fetches one again after the memory tier evicted it, and set()
+ * entries are written in batches shortly after they happen.
+ *
+ * Entries are stored as the memory tier built them, content hash included.
+ * Entries stored under another `schemaVersion` are dropped on load, so bump
+ * it when the shape of the cached data changes. Without IndexedDB nothing is
+ * stored.
+ */
+export class PersistentCacheService {
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = "entries";
+  private readonly FLUSH_DELAY = 1000;
+
+  private store?: IndexedDbStore;
+  private schemaVersion: number;
+  // Expiry of every stored entry, by key
+  private index = new Map<string, number>();
+  // Changes since the last write; entries are dropped once written
+  private pending = new Map<string, CacheEntry<unknown>>();
+  private removed = new Set<string>();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private loading: Promise<void> | null = null;
+
+  constructor(name: string, schemaVersion: number) {
+    this.schemaVersion = schemaVersion;
+    if (IndexedDbStore.isSupported()) {
+      this.store = new IndexedDbStore(
+        name,
+        this.DB_VERSION,
+        (db, oldVersion) => {
+          if (oldVersion < 1) {
+            db.createObjectStore(this.STORE_NAME, {
+              keyPath: "key",
+            });
+          }
+        },
+      );
+    }
+  }
+
+  /**
+   * Pass the entries of earlier sessions to `hydrate` and index them; only
+   * reads once, later calls return the first load
+   */
+  public load(
+    hydrate: (
+      entries: Array<{ key: string; entry: CacheEntry<unknown> }>,
+    ) => void,
+  ): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readPersisted(hydrate);
+    }
+    return this.loading;
+  }
+
+  public set(key: string, entry: CacheEntry<unknown>): void {
+    if (!this.store) {
+      return;
+    }
+    this.index.set(key, entry.timestamp + entry.ttl);
+    this.pending.set(key, entry);
+    this.removed.delete(key);
+    this.scheduleFlush();
+  }
+
+  /** The stored entry for `key`, if it has not expired */
+  public async read(key: string): Promise<CacheEntry<unknown> | undefined> {
+    if (!this.has(key)) {
+      return undefined;
+    }
+    const pending = this.pending.get(key);
+    const store = this.store;
+    if (pending || !store) {
+      return pending;
+    }
+    try {
+      const record = await store.get<PersistedCacheEntry>(this.STORE_NAME, key);
+      return record?.schemaVersion === this.schemaVersion
+        ? record.entry
+        : undefined;
+    } catch (error) {
+      console.warn("Error reading persisted cache:", error);
+      return undefined;
+    }
+  }
+
+  public has(key: string): boolean {
+    const expiry = this.index.get(key);
+    return expiry !== undefined && expiry >= Date.now();
+  }
+
+  public invalidate(key: string): boolean {
+    if (!this.index.delete(key)) {
+      return false;
+    }
+    this.pending.delete(key);
+    this.removed.add(key);
+    this.scheduleFlush();
+    return true;
+  }
+
+  public getCacheKeys(pattern?: RegExp): string[] {
+    const keys = Array.from(this.index.keys());
+    return pattern ? keys.filter((key) => pattern.test(key)) : keys;
+  }
+
+  /** Forget expired entries; they are deleted from IndexedDB on the next write */
+  public cleanup(): CacheEvictionResult {
+    const now = Date.now();
+    const expired = Array.from(this.index)
+      .filter(([, expiry]) => expiry < now)
+      .map(([key]) => key);
+    expired.forEach((key) => this.invalidate(key));
+    return { evictedCount: expired.length, freedMemory: 0, reason: "ttl" };
+  }
+
+  public clear(): void {
+    this.index.clear();
+    this.pending.clear();
+    this.removed.clear();
+    const store = this.store;
+    if (store) {
+      store.clear(this.STORE_NAME).catch((error) => {
+        console.warn("Error clearing persisted cache:", error);
+      });
+    }
+  }
+
+  /** Write pending changes now and stop; persisted entries are kept */
+  public destroy(): void {
+    void this.flush();
+    this.store = undefined;
+  }
+
+  /** Write the entries set since the last write and delete removed ones */
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const store = this.store;
+    const puts: PersistedCacheEntry[] = Array.from(
+      this.pending,
+      ([key, entry]) => ({ key, schemaVersion: this.schemaVersion, entry }),
+    );
+    const removed = Array.from(this.removed);
+    this.pending.clear();
+    this.removed.clear();
+    if (!store) {
+      return;
+    }
+
+    try {
+      if (puts.length > 0) {
+        await store.putAll(this.STORE_NAME, puts);
+      }
+      if (removed.length > 0) {
+        await store.deleteAll(this.STORE_NAME, removed);
+      }
+    } catch (error) {
+      console.warn("Error saving cache, keeping it in memory only:", error);
+      this.store = undefined;
+      this.index.clear();
+    }
+  }
+
+  private async readPersisted(
+    hydrate: (
+      entries: Array<{ key: string; entry: CacheEntry<unknown> }>,
+    ) => void,
+  ): Promise<void> {
+    const store = this.store;
+    if (!store) {
+      return;
+    }
+    try {
+      const records = await store.getAll<PersistedCacheEntry>(this.STORE_NAME);
+      const now = Date.now();
+      const usable = records.filter(
+        (record) =>
+          record.schemaVersion === this.schemaVersion &&
+          now - record.entry.timestamp <= record.entry.ttl,
+      );
+      hydrate(usable.map(({ key, entry }) => ({ key, entry })));
+      // Entries set while loading are newer than the persisted ones
+      usable
+        .filter((record) => !this.pending.has(record.key))
+        .forEach((record) =>
+          this.index.set(record.key, record.entry.timestamp + record.entry.ttl),
+        );
+
+      const stale = records
+        .filter((record) => !usable.includes(record))
+        .map((record) => record.key);
+      if (stale.length > 0) {
+        await store.deleteAll(this.STORE_NAME, stale);
+      }
+    } catch (error) {
+      console.warn("Error loading persisted cache:", error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.store || this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      void this.flush();
+    }, this.FLUSH_DELAY);
+  }
+}
@@ -0,0 +1,173 @@
+import { Configuration } from "../models/Configuration";
+import {
+  PriorityFactorScore,
+  PriorityInput,
+  PriorityLevel,
+  PriorityScore,
+  PriorityWeights,
+} from "../models/PriorityScore";
+import { ContactRulesService } from "./ContactRulesService";
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  daysWaiting: 50,
+  threadLength: 40,
+  sentiment: 50,
+  recipientImportance: 25,
+  attachments: 5,
+  externalDomain: 5,
+};
+
+const DEFAULT_THRESHOLDS = { high: 7, medium: 3, low: 1 };
+
+const HIGH_SCORE = 50;
+const MEDIUM_SCORE = 25;
+
+// Replies after which the thread length counts in full
+const FULL_THREAD_REPLIES = 2;
+
+const SENTIMENT_STRENGTH = {
+  urgent: 1,
+  negative: 0.5,
+  neutral: 0,
+  positive: 0,
+};
+
+/**
+ * Weighted priority score for a follow-up. Each factor has a strength from 0
+ * to 1 and adds strength x weight points; the total (capped at 100) decides
+ * the level. The days factor follows `priorityThresholds` (in business
+ * days): nothing before `low` days, half at `medium` and full strength at `high`.
+ */
+export class PriorityScoringService {
+  private weights: PriorityWeights = { ...DEFAULT_PRIORITY_WEIGHTS };
+  private thresholds = { ...DEFAULT_THRESHOLDS };
+  private contactRules = new ContactRulesService();
+
+  constructor(configuration?: Partial<Configuration>) {
+    if (configuration) {
+      this.configure(configuration);
+    }
+  }
+
+  public configure(configuration: Partial<Configuration>): void {
+    this.weights = {
+      ...DEFAULT_PRIORITY_WEIGHTS,
+      ...configuration.priorityWeights,
+    };
+    this.thresholds = {
+      ...DEFAULT_THRESHOLDS,
+      ...configuration.priorityThresholds,
+    };
+    this.contactRules = new ContactRulesService(configuration.contactRules);
+  }
+
+  public getWeights(): PriorityWeights {
+    return { ...this.weights };
+  }
+
+  public score(input: PriorityInput): PriorityScore {
+    const factors: PriorityFactorScore[] = [];
+    const add = (
+      factor: PriorityFactorScore["factor"],
+      strength: number,
+      reason: string,
+    ) => {
+      const points = strength * (this.weights[factor] || 0);
+      if (points > 0) {
+        factors.push({ factor, points, reason });
+      }
+    };
+
+    const days = input.daysWaiting;
+    add(
+      "daysWaiting",
+      this.getDaysStrength(days),
+      `Waiting ${days} business ${days === 1 ? "day" : "days"} for a response`,
+    );
+
+    const replies = Math.max(0, input.threadLength - 1);
+    add(
+      "threadLength",
+      Math.min(1, replies / FULL_THREAD_REPLIES),
+      `Ongoing thread of ${input.threadLength} messages`,
+    );
+
+    const sentiment = input.sentiment || "neutral";
+    add(
+      "sentiment",
+      SENTIMENT_STRENGTH[sentiment] || 0,
+      sentiment === "urgent" ? "Urgent tone" : "Negative tone",
+    );
+
+    const vip = this.contactRules.findVip(input.recipients);
+    add("recipientImportance", vip ? 1 : 0, `VIP contact: ${vip || ""}`);
+
+    add("attachments", input.hasAttachments ? 1 : 0, "Has attachments");
+
+    const external = this.findExternalRecipient(
+      input.recipients,
+      input.userEmail,
+    );
+    add(
+      "externalDomain",
+      external ? 1 : 0,
+      `External recipient: ${external || ""}`,
+    );
+
+    const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+    return {
+      score: Math.round(Math.min(100, total)),
+      level: this.toLevel(total),
+      breakdown: factors
+        .map((factor) => ({ ...factor, points: Math.round(factor.points) }))
+        .sort((a, b) => b.points - a.points),
+    };
+  }
+
+  public toLevel(score: number): PriorityLevel {
+    if (score >= HIGH_SCORE) {
+      return "high";
+    }
+    return score >= MEDIUM_SCORE ? "medium" : "low";
+  }
+
+  private getDaysStrength(days: number): number {
+    const { low, medium, high } = this.thresholds;
+    if (days >= high) {
+      return 1;
+    }
+    if (days >= medium) {
+      return 0.5 + (0.5 * (days - medium)) / Math.max(1, high - medium);
+    }
+    if (days <= low) {
+      return 0;
+    }
+    return (0.5 * (days - low)) / Math.max(1, medium - low);
+  }
+
+  private findExternalRecipient(
+    recipients: string[],
+    userEmail?: string,
+  ): string | undefined {
+    const userDomain = this.getDomain(userEmail || "");
+    if (!userDomain) {
+      return undefined;
+    }
+    return recipients
+      .map((recipient) => this.extractAddress(recipient))
+      .find((address) => {
+        const domain = this.getDomain(address);
+        return !!domain && domain !== userDomain;
+      });
+  }
+
+  private getDomain(address: string): string {
+    const at = address.lastIndexOf("@");
+    return at >= 0 ? address.slice(at + 1).toLowerCase() : "";
+  }
+
+  private extractAddress(recipient: string): string {
+    const angle = /<([^>]+)>/.exec(recipient || "");
+    return (angle ? angle[1] : recipient || "").trim();
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  PromptTemplate,
+  PromptTemplateId,
+  PromptTemplateOverride,
+  PromptVariables,
+} from "../models/PromptTemplate";
+import { DEFAULT_PROMPT_TEMPLATES } from "./PromptTemplates";
+
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  isCustomized: boolean;
+  // The shipped default has changed since the override was written
+  isOutdated: boolean;
+}
+
+export type PromptTemplateOverrides = Partial<
+  Record<PromptTemplateId, PromptTemplateOverride>
+>;
+
+const PLACEHOLDER = /\{([A-Za-z][A-Za-z0-9]*)\}/g;
+
+// Used by the settings preview
+const SAMPLE_VARIABLES: PromptVariables = {
+  email:
+    "Hi Anna,\n\nCould you confirm the Q3 budget by Friday so we can book the venue?\n\nThanks,\nSam",
+  thread:
+    "Email 1:\nQ3 offsite budget\nHi Anna,\n\nCould you confirm the Q3 budget by Friday so we can book the venue?\n\nThanks,\nSam\n---",
+  context: "User email: sam@example.com",
+  recipient: "anna@example.com",
+  daysWithoutResponse: 4,
+};
+
+/**
+ * Prompt templates for the LLM tasks. Defaults ship in code
+ * (PromptTemplates.ts); user overrides come from the configuration and win
+ * until they are reset.
+ */
+export class PromptTemplateService {
+  private overrides: PromptTemplateOverrides;
+
+  constructor(overrides: PromptTemplateOverrides = {}) {
+    this.overrides = { ...overrides };
+  }
+
+  public list(): ResolvedPromptTemplate[] {
+    return (Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[]).map(
+      (id) => this.get(id),
+    );
+  }
+
+  public get(id: PromptTemplateId): ResolvedPromptTemplate {
+    const defaults = this.getDefaultTemplate(id);
+    const override = this.overrides[id];
+    return {
+      ...defaults,
+      template: override ? override.template : defaults.template,
+      isCustomized: !!override,
+      isOutdated: !!override && override.baseVersion < defaults.version,
+    };
+  }
+
+  public getDefaultTemplate(id: PromptTemplateId): PromptTemplate {
+    const template = DEFAULT_PROMPT_TEMPLATES[id];
+    if (!template) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    return template;
+  }
+
+  public getOverrides(): PromptTemplateOverrides {
+    return { ...this.overrides };
+  }
+
+  /** Render the effective template for `id` */
+  public render(id: PromptTemplateId, variables: PromptVariables): string {
+    const template = this.get(id);
+    return this.renderTemplate(
+      template.template,
+      template.variables,
+      variables,
+    );
+  }
+
+  /** Render `template` (or the effective one) with sample values */
+  public preview(id: PromptTemplateId, template?: string): string {
+    const defaults = this.getDefaultTemplate(id);
+    return this.renderTemplate(
+      template ?? this.get(id).template,
+      defaults.variables,
+      SAMPLE_VARIABLES,
+    );
+  }
+
+  /** Problems with `template` as a replacement for `id`, empty when valid */
+  public validate(id: PromptTemplateId, template: string): string[] {
+    const { variables } = this.getDefaultTemplate(id);
+    const errors: string[] = [];
+    if (!template.trim()) {
+      errors.push("Template must not be empty");
+    }
+    const unknown = new Set<string>();
+    template.replace(PLACEHOLDER, (match, name: string) => {
+      if (!variables.includes(name)) {
+        unknown.add(match);
+      }
+      return match;
+    });
+    unknown.forEach((placeholder) =>
+      errors.push(
+        `Unknown variable ${placeholder}, available: ${variables.map((v) => `{${v}}`).join(", ")}`,
+      ),
+    );
+    return errors;
+  }
+
+  public setOverride(
+    id: PromptTemplateId,
+    template: string,
+  ): PromptTemplateOverride {
+    const errors = this.validate(id, template);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    const override: PromptTemplateOverride = {
+      template,
+      baseVersion: this.getDefaultTemplate(id).version,
+      updatedAt: new Date().toISOString(),
+    };
+    this.overrides[id] = override;
+    return override;
+  }
+
+  public reset(id: PromptTemplateId): void {
+    delete this.overrides[id];
+  }
+
+  /**
+   * Fill `{name}` placeholders for the declared variables. A line whose
+   * placeholders are all empty is dropped, so optional values don't leave
+   * dangling labels. Other braces (e.g. JSON examples) are kept as written.
+   */
+  private renderTemplate(
+    template: string,
+    declared: string[],
+    variables: PromptVariables,
+  ): string {
+    const lines: string[] = [];
+    let dropped = false;
+    template.split("\n").forEach((line) => {
+      let placeholders = 0;
+      let filled = 0;
+      const rendered = line.replace(PLACEHOLDER, (match, name: string) => {
+        if (!declared.includes(name)) {
+          return match;
+        }
+        placeholders++;
+        const value = variables[name];
+        const text = value === undefined ? "" : String(value);
+        if (text.trim()) {
+          filled++;
+        }
+        return text;
+      });
+      if (placeholders > 0 && filled === 0) {
+        dropped = true;
+        return;
+      }
+      // Don't leave two blank lines where a dropped line sat between them
+      if (dropped && rendered === "" && lines[lines.length - 1] === "") {
+        return;
+      }
+      dropped = false;
+      lines.push(rendered);
+    });
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,95 @@
+import { PromptTemplate, PromptTemplateId } from "../models/PromptTemplate";
+
+// Lines whose placeholders are all empty are dropped when rendering, so
+// optional details such as {context} get a line of their own
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<
+  PromptTemplateId,
+  PromptTemplate
+> = {
+  followup_suggestions: {
+    id: "followup_suggestions",
+    name: "Follow-up suggestions",
+    description: "Drafts offered for a single email",
+    version: 1,
+    variables: ["email", "context"],
+    template: `Based on the following email, suggest 3-5 professional followup responses that would be appropriate:
+
+Email content:
+{email}
+
+Additional context: {context}
+
+Focus on being professional, helpful, and contextually appropriate.`,
+  },
+  summary: {
+    id: "summary",
+    name: "Email summary",
+    description: "Short summary of a single email",
+    version: 1,
+    variables: ["email"],
+    template: `Summarize the following email concisely:
+
+{email}
+
+Provide a brief summary in 2-3 sentences.`,
+  },
+  tone: {
+    id: "tone",
+    name: "Tone analysis",
+    description: "One-sentence description of an email's tone",
+    version: 1,
+    variables: ["email"],
+    template: `Analyze the tone of the following email and provide a brief description:
+
+{email}
+
+Provide a concise tone analysis in one sentence.`,
+  },
+  thread_analysis: {
+    id: "thread_analysis",
+    name: "Thread analysis",
+    description: "Free-text insights about a whole thread",
+    version: 1,
+    variables: ["thread", "context"],
+    template: `Analyze the following email thread and provide insights:
+
+{thread}
+
+Additional context: {context}
+
+Provide a brief analysis of the thread including key points, sentiment, and suggested actions.`,
+  },
+  followup_need: {
+    id: "followup_need",
+    name: "Follow-up need",
+    description: "Decides whether the user's last email awaits a response",
+    version: 1,
+    variables: ["email"],
+    template: `Analyze the following email text (which is the last email in a thread sent by the user) to determine if it requires a response or follow-up from the recipients.
+
+Email content:
+{email}
+
+Criteria:
+1. DOES NOT NEED FOLLOWUP (Closing Email): The email is a "closing" email or statement. Examples: "Thank you", "Final update", "To sum up", "Just FYI", "No action needed", "Done", "Resolved".
+2. NEEDS FOLLOWUP (Pending Action/Question): The user asked a question or is waiting for input. Examples: "Did you have a chance to look?", "Appreciate response on this matter", "Any feedback?", "Need help to look into my inquiry".`,
+  },
+  followup_analysis: {
+    id: "followup_analysis",
+    name: "Follow-up analysis",
+    description:
+      "Summary, sentiment, urgency, next step and drafts shown on each card",
+    version: 1,
+    variables: ["thread", "context", "recipient", "daysWithoutResponse"],
+    template: `Analyze the following email thread for its author, who wants to know whether they are still waiting on a response.
+
+{thread}
+
+Recipients: {recipient}
+Days without a response: {daysWithoutResponse}
+Additional context: {context}
+
+Provide a brief summary of the thread, the sentiment of the latest message, how urgently the user should follow up, whether a follow-up is needed at all (a closing message such as "Thank you" or "Done" does not need one), the single most useful next step, and 2-3 ready-to-send follow-up drafts.`,
+  },
+};
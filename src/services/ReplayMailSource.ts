@@ -0,0 +1,210 @@
+import { ThreadMessage } from "../models/FollowupEmail";
+import {
+  EmlFile,
+  MailboxSnapshot,
+  SnapshotMessage,
+} from "../models/MailboxSnapshot";
+import { ParsedEmail } from "./XmlParsingService";
+import { EmlParsingService } from "./EmlParsingService";
+import { MailSource } from "./MailSource";
+
+/**
+ * MailSource that replays a recorded mailbox snapshot.
+ * Lets the taskpane run outside Outlook and lets tests feed a known mailbox
+ * through the same thread reconstruction and priority logic as live mail.
+ */
+export class ReplayMailSource implements MailSource {
+  public readonly kind = "replay" as const;
+
+  private snapshot: MailboxSnapshot;
+  // Milliseconds added to every message date, see MailboxSnapshot.capturedAt
+  private timeShift: number;
+
+  constructor(snapshot: MailboxSnapshot, now: Date = new Date()) {
+    this.snapshot = snapshot;
+    this.timeShift = snapshot.capturedAt
+      ? now.getTime() - new Date(snapshot.capturedAt).getTime()
+      : 0;
+  }
+
+  public static fromJson(json: string | object): ReplayMailSource {
+    const data = typeof json === "string" ? JSON.parse(json) : json;
+    if (!data || typeof data.userEmail !== "string" || !data.userEmail) {
+      throw new Error("Invalid mailbox snapshot: userEmail is required");
+    }
+    if (!Array.isArray(data.messages)) {
+      throw new Error("Invalid mailbox snapshot: messages must be an array");
+    }
+    data.messages.forEach((message: SnapshotMessage, index: number) => {
+      if (!message || !message.id || !message.from || !message.sentDateTime) {
+        throw new Error(
+          `Invalid mailbox snapshot: message ${index} needs id, from and sentDateTime`,
+        );
+      }
+    });
+    return new ReplayMailSource(data as MailboxSnapshot);
+  }
+
+  /**
+   * Build a snapshot from .eml files. When no owner is given the most
+   * frequent sender is assumed to be the mailbox owner.
+   */
+  public static fromEmlFiles(
+    files: EmlFile[],
+    userEmail?: string,
+  ): ReplayMailSource {
+    const messages = new EmlParsingService().parseFiles(files);
+    if (messages.length === 0) {
+      throw new Error("Invalid mailbox snapshot: no readable .eml files");
+    }
+    return new ReplayMailSource({
+      userEmail: userEmail || ReplayMailSource.inferOwner(messages),
+      messages,
+    });
+  }
+
+  private static inferOwner(messages: SnapshotMessage[]): string {
+    const counts = new Map<string, number>();
+    messages.forEach((message) => {
+      const from = message.from.toLowerCase();
+      counts.set(from, (counts.get(from) || 0) + 1);
+    });
+    let owner = "";
+    let best = 0;
+    counts.forEach((count, address) => {
+      if (count > best) {
+        owner = address;
+        best = count;
+      }
+    });
+    return owner;
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public getCurrentUserEmail(): string | null {
+    return this.snapshot.userEmail;
+  }
+
+  public async listSentItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    return this.listFolderItems("sentitems", emailCount, cutoffDate);
+  }
+
+  public async listInboxItems(
+    emailCount: number,
+    cutoffDate: Date,
+  ): Promise<ParsedEmail[]> {
+    return this.listFolderItems("inbox", emailCount, cutoffDate);
+  }
+
+  public async getConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    return this.snapshot.messages
+      .filter((message) => this.getConversationId(message) === conversationId)
+      .map((message) => this.toThreadMessage(message))
+      .sort((a, b) => {
+        const aTime = (a.receivedDate || a.sentDate).getTime();
+        const bTime = (b.receivedDate || b.sentDate).getTime();
+        return aTime - bTime;
+      });
+  }
+
+  public async searchConversation(
+    conversationId: string,
+  ): Promise<ThreadMessage[]> {
+    return this.getConversation(conversationId);
+  }
+
+  public async getThreadForItem(itemId: string): Promise<ThreadMessage[]> {
+    const message = this.findMessage(itemId);
+    const thread = await this.getConversation(this.getConversationId(message));
+    return thread.length > 0 ? thread : [this.toThreadMessage(message)];
+  }
+
+  public async resolveConversationId(itemId: string): Promise<string | null> {
+    const message = this.snapshot.messages.find((m) => m.id === itemId);
+    return message ? this.getConversationId(message) : null;
+  }
+
+  private listFolderItems(
+    folder: string,
+    emailCount: number,
+    cutoffDate: Date,
+  ): ParsedEmail[] {
+    return this.snapshot.messages
+      .filter((message) => this.getFolder(message) === folder)
+      .map((message) => ({
+        message,
+        sentDate: this.shiftDate(message.sentDateTime),
+      }))
+      .filter(({ sentDate }) => sentDate.getTime() > cutoffDate.getTime())
+      .sort((a, b) => b.sentDate.getTime() - a.sentDate.getTime())
+      .slice(0, emailCount)
+      .map(({ message, sentDate }) => this.toParsedEmail(message, sentDate));
+  }
+
+  private findMessage(itemId: string): SnapshotMessage {
+    const message = this.snapshot.messages.find((m) => m.id === itemId);
+    if (!message) {
+      throw new Error(`Item ${itemId} not found in mailbox snapshot`);
+    }
+    return message;
+  }
+
+  private getFolder(message: SnapshotMessage): string {
+    if (message.folder) {
+      return message.folder.toLowerCase();
+    }
+    return this.isFromOwner(message) ? "sentitems" : "inbox";
+  }
+
+  private getConversationId(message: SnapshotMessage): string {
+    return message.conversationId || message.id;
+  }
+
+  private isFromOwner(message: SnapshotMessage): boolean {
+    return message.from.toLowerCase() === this.snapshot.userEmail.toLowerCase();
+  }
+
+  private shiftDate(isoDate: string): Date {
+    return new Date(new Date(isoDate).getTime() + this.timeShift);
+  }
+
+  private toParsedEmail(message: SnapshotMessage, sentDate: Date): ParsedEmail {
+    return {
+      id: message.id,
+      subject: message.subject,
+      dateTimeSent: sentDate.toISOString(),
+      conversationId: this.getConversationId(message),
+      body: { content: message.body },
+      from: { emailAddress: { address: message.from } },
+      toRecipients: message.to.map((address) => ({
+        emailAddress: { address },
+      })),
+      ccRecipients: (message.cc || []).map((address) => ({
+        emailAddress: { address },
+      })),
+    };
+  }
+
+  private toThreadMessage(message: SnapshotMessage): ThreadMessage {
+    return {
+      id: message.id,
+      subject: message.subject || "No Subject",
+      from: message.from,
+      to: message.to,
+      sentDate: this.shiftDate(message.sentDateTime),
+      receivedDate: message.receivedDateTime
+        ? this.shiftDate(message.receivedDateTime)
+        : undefined,
+      body: message.body.trim(),
+      isFromCurrentUser: this.isFromOwner(message),
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { ResolvedFollowup } from "../models/ResolvedFollowup";
+
+interface ResolvedHistory {
+  lastCheckedAt?: string;
+  entries: ResolvedFollowup[];
+}
+
+/**
+ * History of follow-ups closed by a response, newest first, with the time of
+ * the last reply check. Kept in localStorage like the notification center:
+ * it is per device and would not fit the roamingSettings quota.
+ */
+export class ResolvedFollowupService {
+  private readonly STORAGE_KEY = "followup-suggester-resolved";
+  private readonly MAX_ENTRIES = 200;
+
+  private history: ResolvedHistory | null = null;
+
+  /** Add the follow-ups resolved by a check; a thread is only listed once */
+  public record(
+    resolved: ResolvedFollowup[],
+    checkedAt: Date = new Date(),
+  ): void {
+    const history = this.getState();
+    const emailIds = new Set(resolved.map((entry) => entry.emailId));
+    history.entries = [
+      ...resolved,
+      ...history.entries.filter((entry) => !emailIds.has(entry.emailId)),
+    ].slice(0, this.MAX_ENTRIES);
+    history.lastCheckedAt = checkedAt.toISOString();
+    this.persist();
+  }
+
+  public getHistory(): ResolvedFollowup[] {
+    return this.getState().entries;
+  }
+
+  /** Follow-ups resolved after the given time, e.g. since the previous check */
+  public getResolvedSince(since: Date): ResolvedFollowup[] {
+    return this.getHistory().filter(
+      (entry) => new Date(entry.resolvedAt) > since,
+    );
+  }
+
+  public getLastCheckedAt(): Date | undefined {
+    const lastCheckedAt = this.getState().lastCheckedAt;
+    return lastCheckedAt ? new Date(lastCheckedAt) : undefined;
+  }
+
+  public clear(): void {
+    this.history = {
+      lastCheckedAt: this.getState().lastCheckedAt,
+      entries: [],
+    };
+    this.persist();
+  }
+
+  private getState(): ResolvedHistory {
+    if (!this.history) {
+      this.history = this.load();
+    }
+    return this.history;
+  }
+
+  private load(): ResolvedHistory {
+    try {
+      if (typeof localStorage !== "undefined") {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          if (parsed && Array.isArray(parsed.entries)) {
+            return parsed;
+          }
+        }
+      }
+    } catch (error) {
+      console.warn("Error loading resolved follow-ups:", error);
+    }
+    return { entries: [] };
+  }
+
+  private persist(): void {
+    try {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.history));
+      }
+    } catch (error) {
+      console.warn("Error saving resolved follow-ups:", error);
+    }
+  }
+}
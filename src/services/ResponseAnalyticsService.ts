@@ -0,0 +1,281 @@
+import { ThreadMessage } from "../models/FollowupEmail";
+import {
+  ResponseSample,
+  ResponseTimeStats,
+  ResponseTrend,
+} from "../models/ResponseAnalytics";
+import { WorkingCalendarService } from "./WorkingCalendarService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toAddress(recipient: string): string {
+  const angle = /<([^>]+)>/.exec(recipient || "");
+  return (angle ? angle[1] : recipient || "").trim().toLowerCase();
+}
+
+function getDomain(address: string): string {
+  return address.slice(address.indexOf("@") + 1);
+}
+
+/**
+ * Learns how long contacts take to respond from the threads the analysis
+ * reads: each message of the user's is paired with the first later message
+ * from each of its recipients. Reminders sent before that response are not
+ * counted as separate requests.
+ *
+ * Response times are counted in working hours of the configured calendar,
+ * like the waiting time of follow-ups, so they can be compared directly.
+ * Samples are kept in localStorage; like the LLM usage ledger they are per
+ * device and too large for roamingSettings.
+ */
+export class ResponseAnalyticsService {
+  private readonly STORAGE_KEY = "followup-suggester-response-times";
+  private readonly MAX_SAMPLES = 2000;
+  private readonly RETENTION_DAYS = 180;
+  // Unanswered messages younger than this may still get a response
+  private readonly PENDING_DAYS = 7;
+  private readonly TREND_DAYS = 30;
+  // Fewer responses than this say little about a contact's habits
+  private readonly MIN_RESPONSES = 3;
+
+  private samples: Map<string, ResponseSample> | null = null;
+  // Working hours per answered sample, for the current calendar
+  private hours = new Map<string, number>();
+  private dirty = false;
+  private calendar: WorkingCalendarService;
+
+  constructor(calendar: WorkingCalendarService = new WorkingCalendarService()) {
+    this.calendar = calendar;
+  }
+
+  public setWorkingCalendar(calendar: WorkingCalendarService): void {
+    this.calendar = calendar;
+    this.hours.clear();
+  }
+
+  /** Add the requests and responses of a thread; call save() when done */
+  public recordThread(messages: ThreadMessage[]): void {
+    const samples = this.getSamples();
+    const pending = new Map<string, ResponseSample>();
+    [...messages]
+      .sort((a, b) => a.sentDate.getTime() - b.sentDate.getTime())
+      .forEach((message) => {
+        if (message.isFromCurrentUser) {
+          const self = toAddress(message.from);
+          message.to.map(toAddress).forEach((contact) => {
+            if (contact && contact !== self && !pending.has(contact)) {
+              pending.set(contact, {
+                requestId: message.id,
+                contact,
+                sentAt: message.sentDate.toISOString(),
+              });
+            }
+          });
+          return;
+        }
+        const sender = toAddress(message.from);
+        const request = pending.get(sender);
+        if (request) {
+          request.repliedAt = message.sentDate.toISOString();
+          samples.set(this.getKey(request), request);
+          pending.delete(sender);
+        }
+      });
+    pending.forEach((request) => {
+      const key = this.getKey(request);
+      // Keep a response seen in an earlier, fuller copy of the thread
+      if (!samples.get(key)?.repliedAt) {
+        samples.set(key, request);
+      }
+    });
+    this.dirty = true;
+  }
+
+  public getContactStats(now: Date = new Date()): ResponseTimeStats[] {
+    return this.summarize((sample) => sample.contact, now);
+  }
+
+  public getDomainStats(now: Date = new Date()): ResponseTimeStats[] {
+    return this.summarize((sample) => getDomain(sample.contact), now);
+  }
+
+  /**
+   * The usual response time of the recipients in working hours: the slowest
+   * median among those with enough responses, falling back to their domains.
+   * Undefined when nothing is known about any of them.
+   */
+  public getExpectedResponseHours(
+    recipients: string[],
+    now: Date = new Date(),
+  ): number | undefined {
+    const addresses = recipients.map(toAddress);
+    const domainNames = new Set(addresses.map(getDomain));
+    const contacts = this.indexStats(
+      this.summarize((sample) => sample.contact, now, new Set(addresses)),
+    );
+    const domains = this.indexStats(
+      this.summarize((sample) => getDomain(sample.contact), now, domainNames),
+    );
+    const expected = addresses
+      .map(
+        (contact) =>
+          contacts.get(contact)?.medianHours ??
+          domains.get(getDomain(contact))?.medianHours,
+      )
+      .filter((hours): hours is number => hours !== undefined);
+    return expected.length > 0 ? Math.max(...expected) : undefined;
+  }
+
+  /** Persist the samples recorded since the last save */
+  public save(now: Date = new Date()): void {
+    if (!this.dirty || !this.samples) {
+      return;
+    }
+    const cutoff = now.getTime() - this.RETENTION_DAYS * DAY_MS;
+    const kept = Array.from(this.samples.values())
+      .filter((sample) => new Date(sample.sentAt).getTime() >= cutoff)
+      .sort(
+        (a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime(),
+      )
+      .slice(0, this.MAX_SAMPLES);
+    this.samples = new Map(kept.map((sample) => [this.getKey(sample), sample]));
+    this.dirty = false;
+    try {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(kept));
+      }
+    } catch (error) {
+      console.warn("Error saving response times:", error);
+    }
+  }
+
+  public clear(): void {
+    this.samples = new Map();
+    this.dirty = true;
+    this.save();
+  }
+
+  private summarize(
+    keyOf: (sample: ResponseSample) => string,
+    now: Date,
+    onlyKeys?: Set<string>,
+  ): ResponseTimeStats[] {
+    const groups = new Map<string, ResponseSample[]>();
+    this.getSamples().forEach((sample) => {
+      const key = keyOf(sample);
+      if (onlyKeys && !onlyKeys.has(key)) {
+        return;
+      }
+      const group = groups.get(key);
+      if (group) {
+        group.push(sample);
+      } else {
+        groups.set(key, [sample]);
+      }
+    });
+
+    const pendingSince = now.getTime() - this.PENDING_DAYS * DAY_MS;
+    const recentSince = now.getTime() - this.TREND_DAYS * DAY_MS;
+    const stats: ResponseTimeStats[] = [];
+    groups.forEach((samples, key) => {
+      const answered = samples.filter((sample) => sample.repliedAt);
+      const missed = samples.filter(
+        (sample) =>
+          !sample.repliedAt && new Date(sample.sentAt).getTime() < pendingSince,
+      );
+      const requests = answered.length + missed.length;
+      if (requests === 0) {
+        return;
+      }
+      const recent = answered.filter(
+        (sample) => new Date(sample.repliedAt!).getTime() >= recentSince,
+      );
+      const older = answered.filter((sample) => !recent.includes(sample));
+      stats.push({
+        key,
+        requests,
+        replies: answered.length,
+        replyRate: answered.length / requests,
+        medianHours:
+          answered.length >= this.MIN_RESPONSES
+            ? this.median(answered)
+            : undefined,
+        trend:
+          recent.length >= 2 && older.length >= 2
+            ? this.compare(this.median(recent), this.median(older))
+            : undefined,
+      });
+    });
+    return stats.sort((a, b) => b.requests - a.requests);
+  }
+
+  private median(samples: ResponseSample[]): number {
+    const hours = samples
+      .map((sample) => this.getResponseHours(sample))
+      .sort((a, b) => a - b);
+    const middle = Math.floor(hours.length / 2);
+    return hours.length % 2
+      ? hours[middle]
+      : (hours[middle - 1] + hours[middle]) / 2;
+  }
+
+  private getResponseHours(sample: ResponseSample): number {
+    const key = `${this.getKey(sample)}|${sample.repliedAt}`;
+    let hours = this.hours.get(key);
+    if (hours === undefined) {
+      hours = this.calendar.getBusinessHoursBetween(
+        new Date(sample.sentAt),
+        new Date(sample.repliedAt!),
+      );
+      this.hours.set(key, hours);
+    }
+    return hours;
+  }
+
+  // A quarter faster or slower counts as a change
+  private compare(recent: number, older: number): ResponseTrend {
+    if (recent < older * 0.75) {
+      return "faster";
+    }
+    if (recent > older * 1.25) {
+      return "slower";
+    }
+    return "steady";
+  }
+
+  private indexStats(
+    stats: ResponseTimeStats[],
+  ): Map<string, ResponseTimeStats> {
+    return new Map(stats.map((entry) => [entry.key, entry]));
+  }
+
+  private getKey(sample: ResponseSample): string {
+    return `${sample.requestId}|${sample.contact}`;
+  }
+
+  private getSamples(): Map<string, ResponseSample> {
+    if (!this.samples) {
+      this.samples = new Map(
+        this.load().map((sample) => [this.getKey(sample), sample]),
+      );
+    }
+    return this.samples;
+  }
+
+  private load(): ResponseSample[] {
+    try {
+      if (typeof localStorage !== "undefined") {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          if (Array.isArray(parsed)) {
+            return parsed;
+          }
+        }
+      }
+    } catch (error) {
+      console.warn("Error loading response times:", error);
+    }
+    return [];
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * The subset of JSON Schema used to describe LLM output. Kept small enough to
+ * pass to provider-native JSON modes and to validate without a dependency.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+/**
+ * A structured LLM task. `T` is the shape the schema describes; it is only
+ * used for typing the parsed result.
+ */
+export interface StructuredTask<T> {
+  /** Identifier sent to providers that name their response formats */
+  name: string;
+  schema: JsonSchema;
+  /** Marker for the result type, never set at runtime */
+  readonly __result?: T;
+}
+
+export type StructuredParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export class StructuredOutputParser {
+  /**
+   * Parse model output as JSON and validate it against the task schema.
+   * Tolerates markdown fences and prose around the JSON object, which some
+   * models add even in JSON mode.
+   */
+  public parse<T>(
+    content: string,
+    task: StructuredTask<T>,
+  ): StructuredParseResult<T> {
+    let value: unknown;
+    try {
+      value = JSON.parse(this.extractJson(content));
+    } catch (error: any) {
+      return {
+        ok: false,
+        errors: [`response is not valid JSON: ${error.message}`],
+      };
+    }
+
+    const errors = this.validate(value, task.schema);
+    return errors.length > 0
+      ? { ok: false, errors }
+      : { ok: true, value: value as T };
+  }
+
+  /** Validation errors for `value`, empty when it matches the schema */
+  public validate(value: unknown, schema: JsonSchema, path = "$"): string[] {
+    if (!this.matchesType(value, schema.type)) {
+      return [
+        `${path} must be ${schema.type === "integer" ? "an" : "a"} ${schema.type}`,
+      ];
+    }
+
+    const errors: string[] = [];
+    if (schema.enum && !schema.enum.includes(value as string)) {
+      errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+    }
+    if (
+      schema.minLength !== undefined &&
+      (value as string).trim().length < schema.minLength
+    ) {
+      errors.push(`${path} must not be empty`);
+    }
+
+    if (schema.type === "array") {
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} item(s)`);
+      }
+      if (schema.items) {
+        items.forEach((item, index) =>
+          errors.push(
+            ...this.validate(item, schema.items!, `${path}[${index}]`),
+          ),
+        );
+      }
+    }
+
+    if (schema.type === "object") {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties || {},
+      )) {
+        if (record[key] !== undefined) {
+          errors.push(
+            ...this.validate(record[key], propertySchema, `${path}.${key}`),
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Decode the string value of `key` from incomplete JSON, as far as it has
+   * arrived. For arrays of strings the first element is read. Used to show
+   * structured output while it streams.
+   */
+  public readPartialString(content: string, key: string): string {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\[?\\s*"`).exec(content);
+    if (!match) {
+      return "";
+    }
+
+    let text = "";
+    for (let i = match.index + match[0].length; i < content.length; i++) {
+      const char = content[i];
+      if (char === '"') {
+        break;
+      }
+      if (char !== "\\") {
+        text += char;
+        continue;
+      }
+      // Stop before an escape sequence that hasn't fully arrived
+      const escape = content[i + 1];
+      if (escape === undefined || (escape === "u" && i + 6 > content.length)) {
+        break;
+      }
+      if (escape === "u") {
+        text += String.fromCharCode(parseInt(content.slice(i + 2, i + 6), 16));
+        i += 5;
+      } else {
+        text += JSON.parse(`"\\${escape}"`);
+        i += 1;
+      }
+    }
+    return text;
+  }
+
+  private extractJson(content: string): string {
+    const text = content
+      .trim()
+      .replace(/^```(?:json)?\s*/i, "")
+      .replace(/```$/, "")
+      .trim();
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+  }
+
+  private matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+    switch (type) {
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return (
+          typeof value === "object" && value !== null && !Array.isArray(value)
+        );
+      case "integer":
+        return Number.isInteger(value);
+      default:
+        return typeof value === type;
+    }
+  }
+}
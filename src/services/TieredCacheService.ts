@@ -0,0 +1,151 @@
+import {
+  CacheEvictionResult,
+  CacheOptions,
+  CacheStats,
+} from "../models/CacheEntry";
+import { CacheService, ICacheService } from "./CacheService";
+import { PersistentCacheService } from "./PersistentCacheService";
+
+/**
+ * Two-tier cache: a memory L1 in front of an IndexedDB-backed L2. Every
+ * entry goes to L1; those `shouldPersist` accepts also go to L2, which keeps
+ * them across reloads but holds no values in memory. load() copies the L2
+ * entries into L1. Reading an entry back from L2 after L1 evicted it is
+ * asynchronous, so that lookup misses and later ones find it in L1 again.
+ *
+ * Statistics describe L1, except that hits and misses count lookups of both
+ * tiers together.
+ */
+export class TieredCacheService implements ICacheService {
+  private memory: CacheService;
+  private persistent: PersistentCacheService;
+  private shouldPersist: (key: string) => boolean;
+  private stats = { totalHits: 0, totalMisses: 0, storageEvictions: 0 };
+
+  /**
+   * @param name - IndexedDB database of the L2 tier
+   * @param schemaVersion - version of the cached data, see PersistentCacheService
+   */
+  constructor(
+    name: string,
+    schemaVersion: number,
+    shouldPersist: (key: string) => boolean,
+    options?: Partial<CacheOptions>,
+  ) {
+    this.memory = new CacheService(options);
+    this.persistent = new PersistentCacheService(name, schemaVersion);
+    this.shouldPersist = shouldPersist;
+  }
+
+  /** Copy the persisted L2 entries into L1; lookups before it finishes miss them */
+  public load(): Promise<void> {
+    return this.persistent.load((entries) =>
+      // Entries set while loading are newer than the persisted ones
+      this.memory.importCache(
+        entries.filter(({ key }) => !this.memory.has(key)),
+      ),
+    );
+  }
+
+  public get<T>(key: string): T | null {
+    const inMemory = this.memory.has(key);
+    const cached = this.memory.get<T>(key);
+    if (cached !== null) {
+      this.stats.totalHits++;
+      return cached;
+    }
+    if (this.shouldPersist(key)) {
+      if (inMemory) {
+        // Failed the integrity check, and L2 holds the same entry
+        this.persistent.invalidate(key);
+      } else if (this.persistent.has(key)) {
+        void this.restore(key);
+      }
+    }
+    this.stats.totalMisses++;
+    return null;
+  }
+
+  public set<T>(key: string, value: T, ttl?: number): void {
+    this.memory.set(key, value, ttl);
+    const entry = this.memory.getEntry(key);
+    if (entry && this.shouldPersist(key)) {
+      this.persistent.set(key, entry);
+    }
+  }
+
+  public has(key: string): boolean {
+    return this.memory.has(key) || this.persistent.has(key);
+  }
+
+  public invalidate(key: string): boolean {
+    const fromMemory = this.memory.invalidate(key);
+    const fromStorage = this.persistent.invalidate(key);
+    return fromMemory || fromStorage;
+  }
+
+  public clear(): void {
+    this.memory.clear();
+    this.persistent.clear();
+  }
+
+  public getStats(): CacheStats {
+    const stats = this.memory.getStats();
+    const totalRequests = this.stats.totalHits + this.stats.totalMisses;
+    const hitRate =
+      totalRequests > 0 ? (this.stats.totalHits / totalRequests) * 100 : 0;
+    return {
+      ...stats,
+      hitRate: Math.round(hitRate * 100) / 100,
+      totalHits: this.stats.totalHits,
+      totalMisses: this.stats.totalMisses,
+      totalEvictions: stats.totalEvictions + this.stats.storageEvictions,
+    };
+  }
+
+  public cleanup(): CacheEvictionResult {
+    const fromMemory = this.memory.cleanup();
+    const fromStorage = this.persistent.cleanup();
+    this.stats.storageEvictions += fromStorage.evictedCount;
+    return {
+      evictedCount: fromMemory.evictedCount + fromStorage.evictedCount,
+      freedMemory: fromMemory.freedMemory + fromStorage.freedMemory,
+      reason: "ttl",
+    };
+  }
+
+  public updateOptions(options: Partial<CacheOptions>): void {
+    this.memory.updateOptions(options);
+  }
+
+  public bulkInvalidate(pattern: RegExp): number {
+    const keys = new Set([
+      ...this.memory.getCacheKeys(pattern),
+      ...this.persistent.getCacheKeys(pattern),
+    ]);
+    keys.forEach((key) => this.invalidate(key));
+    return keys.size;
+  }
+
+  public getMemoryPressure(): number {
+    return this.memory.getMemoryPressure();
+  }
+
+  /** Write pending L2 changes now */
+  public flush(): Promise<void> {
+    return this.persistent.flush();
+  }
+
+  public destroy(): void {
+    this.memory.destroy();
+    this.persistent.destroy();
+  }
+
+  // Bring back an entry L1 evicted, unless it was set again meanwhile
+  private async restore(key: string): Promise<void> {
+    const entry = await this.persistent.read(key);
+    if (entry && !this.memory.has(key)) {
+      this.memory.importCache([{ key, entry }]);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { WorkingCalendar } from "../models/Configuration";
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workDays: [1, 2, 3, 4, 5],
+  workStart: "09:00",
+  workEnd: "17:00",
+  holidays: [],
+};
+
+export interface WaitingTime {
+  days: number; // Whole business days, a business day being one full working day of hours
+  hours: number; // Whole business hours
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Longest holiday a single calendar event may span, guards against broken DTEND values
+const MAX_EVENT_DAYS = 366;
+
+/**
+ * Counts waiting time in working time only: hours on work days inside the
+ * working hours, skipping holidays. Times are read as wall-clock time in
+ * the calendar's time zone, so a message sent Friday evening has waited
+ * one business hour at 10:00 on Monday.
+ */
+export class WorkingCalendarService {
+  private calendar: WorkingCalendar;
+  private holidays: Set<string>;
+  private workStartMs: number;
+  private workEndMs: number;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(calendar?: Partial<WorkingCalendar>) {
+    const merged = { ...DEFAULT_WORKING_CALENDAR, ...calendar };
+    // Settings are validated on save; fall back rather than count no time at all
+    this.calendar =
+      WorkingCalendarService.validate(merged).length === 0
+        ? merged
+        : { ...DEFAULT_WORKING_CALENDAR, holidays: merged.holidays || [] };
+    this.holidays = new Set(this.calendar.holidays);
+    this.workStartMs =
+      WorkingCalendarService.toMinutes(this.calendar.workStart) * 60 * 1000;
+    this.workEndMs =
+      WorkingCalendarService.toMinutes(this.calendar.workEnd) * 60 * 1000;
+    this.formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.calendar.timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hour12: false,
+    });
+  }
+
+  public getCalendar(): WorkingCalendar {
+    return {
+      ...this.calendar,
+      workDays: [...this.calendar.workDays],
+      holidays: [...this.calendar.holidays],
+    };
+  }
+
+  public getHoursPerDay(): number {
+    return (this.workEndMs - this.workStartMs) / HOUR_MS;
+  }
+
+  /** Working hours between two instants, fractional */
+  public getBusinessHoursBetween(from: Date, to: Date): number {
+    const start = this.toWallTime(from);
+    const end = this.toWallTime(to);
+    let total = 0;
+    for (let day = start - (start % DAY_MS); day < end; day += DAY_MS) {
+      if (!this.isWorkingDay(day)) {
+        continue;
+      }
+      const open = Math.max(start, day + this.workStartMs);
+      const close = Math.min(end, day + this.workEndMs);
+      if (close > open) {
+        total += close - open;
+      }
+    }
+    return total / HOUR_MS;
+  }
+
+  public getWaitingTime(sentDate: Date, now: Date = new Date()): WaitingTime {
+    const hours = this.getBusinessHoursBetween(sentDate, now);
+    return {
+      days: Math.floor(hours / this.getHoursPerDay()),
+      hours: Math.floor(hours),
+    };
+  }
+
+  /** Problems with a calendar from the settings form, empty when it is usable */
+  public static validate(calendar: WorkingCalendar): string[] {
+    const errors: string[] = [];
+    const time = /^([01]?\d|2[0-3]):[0-5]\d$/;
+    if (
+      calendar.workDays.length === 0 ||
+      calendar.workDays.some((day) => !(day >= 0 && day <= 6))
+    ) {
+      errors.push("Select at least one work day");
+    }
+    if (!time.test(calendar.workStart) || !time.test(calendar.workEnd)) {
+      errors.push("Working hours must be given as HH:MM");
+    } else if (
+      WorkingCalendarService.toMinutes(calendar.workEnd) <=
+      WorkingCalendarService.toMinutes(calendar.workStart)
+    ) {
+      errors.push("Working hours must end after they start");
+    }
+    if (calendar.timeZone) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: calendar.timeZone });
+      } catch {
+        errors.push(`Unknown time zone ${calendar.timeZone}`);
+      }
+    }
+    const invalid = calendar.holidays.find(
+      (holiday) => !/^\d{4}-\d{2}-\d{2}$/.test(holiday),
+    );
+    if (invalid) {
+      errors.push(`Holiday ${invalid} is not a YYYY-MM-DD date`);
+    }
+    return errors;
+  }
+
+  /** Split the holidays textarea into dates */
+  public static parseHolidays(text: string): string[] {
+    return Array.from(
+      new Set(
+        text
+          .split(/[\n,;]/)
+          .map((entry) => entry.trim())
+          .filter((entry) => !!entry),
+      ),
+    ).sort();
+  }
+
+  /**
+   * Holiday dates from an iCalendar (.ics) file. Every day an event covers
+   * counts; recurring events only count on their first date.
+   */
+  public static parseIcs(text: string): string[] {
+    // Long lines are folded onto continuation lines starting with whitespace
+    const lines = text
+      .replace(/\r\n?/g, "\n")
+      .replace(/\n[ \t]/g, "")
+      .split("\n");
+    if (!lines.some((line) => line.trim() === "BEGIN:VCALENDAR")) {
+      throw new Error("Invalid calendar file: missing BEGIN:VCALENDAR");
+    }
+
+    const dates = new Set<string>();
+    let start: number | undefined;
+    let end: number | undefined;
+    lines.forEach((line) => {
+      const trimmed = line.trim();
+      if (trimmed === "BEGIN:VEVENT") {
+        start = undefined;
+        end = undefined;
+        return;
+      }
+      if (trimmed === "END:VEVENT") {
+        if (start !== undefined) {
+          // DTEND of an all-day event is the day after it ends
+          const last =
+            end !== undefined && end > start
+              ? Math.min(end - DAY_MS, start + (MAX_EVENT_DAYS - 1) * DAY_MS)
+              : start;
+          for (let day = start; day <= last; day += DAY_MS) {
+            dates.add(new Date(day).toISOString().slice(0, 10));
+          }
+        }
+        return;
+      }
+      const match = /^(DTSTART|DTEND)(;[^:]*)?:(\d{4})(\d{2})(\d{2})(T?)/.exec(
+        trimmed,
+      );
+      if (match) {
+        const day = Date.UTC(+match[3], +match[4] - 1, +match[5]);
+        if (match[1] === "DTSTART") {
+          start = day;
+        } else {
+          // A timed end on the same day still makes a one-day event
+          end = match[6] ? day + DAY_MS : day;
+        }
+      }
+    });
+    if (dates.size === 0) {
+      throw new Error("Invalid calendar file: no events with a date found");
+    }
+    return Array.from(dates).sort();
+  }
+
+  private isWorkingDay(day: number): boolean {
+    return (
+      this.calendar.workDays.includes(new Date(day).getUTCDay()) &&
+      !this.holidays.has(new Date(day).toISOString().slice(0, 10))
+    );
+  }
+
+  // The wall-clock time in the calendar's time zone, as milliseconds of a UTC date
+  private toWallTime(date: Date): number {
+    const parts: Record<string, number> = {};
+    this.formatter.formatToParts(date).forEach((part) => {
+      if (part.type !== "literal") {
+        parts[part.type] = Number(part.value);
+      }
+    });
+    return Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour % 24, // Some engines format midnight as 24
+      parts.minute,
+      parts.second,
+    );
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+}
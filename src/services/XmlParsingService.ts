@@ -25,6 +25,14 @@ export interface ParsedEmail {
   from: { emailAddress: { address: string } };
   toRecipients: Array<{ emailAddress: { address: string } }>;
   ccRecipients?: Array<{ emailAddress: { address: string } }>;
+  hasAttachments?: boolean;
+}
+
+export interface ParsedSyncChanges {
+  syncState: string;
+  includesLastItemInRange: boolean;
+  changed: ParsedEmail[]; // Created or updated messages
+  deletedIds: string[];
 }
 
 export interface ParsedThreadMessage {
@@ -36,6 +44,7 @@ export interface ParsedThreadMessage {
   sentDate: Date;
   body: string;
   isFromCurrentUser: boolean;
+  hasAttachments?: boolean;
 }
 
 export class XmlParsingService {
@@ -96,6 +105,60 @@ export class XmlParsingService {
     }
   }
 
+  /**
+   * Parse EWS SyncFolderItems response; read flag changes are ignored
+   * Schema: https://learn.microsoft.com/en-us/exchange/client-developer/web-service-reference/syncfolderitemsresponse
+   */
+  public parseSyncFolderItemsResponse(xmlResponse: string): ParsedSyncChanges {
+    const xmlDoc = new DOMParser().parseFromString(xmlResponse, "text/xml");
+    const parserError = xmlDoc.querySelector("parsererror");
+    if (parserError) {
+      throw new Error(`XML Parse Error: ${parserError.textContent}`);
+    }
+
+    // Same namespace-agnostic fallback as parseFindItemResponse
+    const localNameOf = (element: Element) =>
+      (element.localName || element.tagName).split(":").pop();
+    const findMessageElement = (localName: string) =>
+      this.getElementsByTagNameNS(
+        xmlDoc,
+        EWS_NAMESPACES.EWS_MESSAGES,
+        localName,
+      )[0] ||
+      Array.from(xmlDoc.getElementsByTagName("*")).find(
+        (element) => localNameOf(element) === localName,
+      );
+    const messageText = (localName: string) =>
+      findMessageElement(localName)?.textContent?.trim() || "";
+    const changes = findMessageElement("Changes");
+
+    const changed: ParsedEmail[] = [];
+    const deletedIds: string[] = [];
+    Array.from(changes?.children || []).forEach((change) => {
+      const kind = localNameOf(change);
+      if (kind === "Delete") {
+        const id = this.getElementAttribute(change, "ItemId", "Id");
+        if (id) {
+          deletedIds.push(id);
+        }
+      } else if (kind === "Create" || kind === "Update") {
+        const message = this.getChildElementByTagName(change, "Message");
+        const email = message && this.parseEmailMessage(message);
+        if (email) {
+          changed.push(email);
+        }
+      }
+    });
+
+    return {
+      syncState: messageText("SyncState"),
+      includesLastItemInRange:
+        messageText("IncludesLastItemInRange") === "true",
+      changed,
+      deletedIds,
+    };
+  }
+
   /**
    * Parse EWS GetConversationItems response to extract thread messages
    * Schema: https://docs.microsoft.com/en-us/exchange/client-developer/web-service-reference/getconversationitemsresponse
@@ -190,6 +253,9 @@ export class XmlParsingService {
         },
         toRecipients: this.parseRecipientsList(messageElement, "ToRecipients"),
         ccRecipients: this.parseRecipientsList(messageElement, "CcRecipients"),
+        hasAttachments:
+          this.getElementTextContent(messageElement, "HasAttachments") ===
+          "true",
       };
 
       return email;
@@ -231,6 +297,9 @@ export class XmlParsingService {
           this.getElementTextContent(messageElement, "Body") || "",
         ),
         isFromCurrentUser: fromEmail === currentUserEmail,
+        hasAttachments:
+          this.getElementTextContent(messageElement, "HasAttachments") ===
+          "true",
       };
 
       return threadMessage;
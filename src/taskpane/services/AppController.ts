@@ -1,35 +1,117 @@
-import { EmailAnalysisService } from "../../services/EmailAnalysisService";
+import {
+  EmailAnalysisService,
+  FollowupStreamUpdate,
+} from "../../services/EmailAnalysisService";
+import { EmailTemplateService } from "../../services/EmailTemplateService";
+import {
+  FollowupDraftService,
+  ReplyMode,
+} from "../../services/FollowupDraftService";
 import { ConfigurationService } from "../../services/ConfigurationService";
 import { LlmService } from "../../services/LlmService";
+import { LlmEnrichmentQueue } from "../../services/LlmEnrichmentQueue";
+import { LlmUsageService } from "../../services/LlmUsageService";
+import { AnalyticsService } from "../../services/AnalyticsService";
+import { PromptTemplateService } from "../../services/PromptTemplateService";
+import { PriorityScoringService } from "../../services/PriorityScoringService";
+import { ContactRulesService } from "../../services/ContactRulesService";
+import { WorkingCalendarService } from "../../services/WorkingCalendarService";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationService,
+} from "../../services/NotificationService";
+import { BackgroundAnalysisScheduler } from "../../services/BackgroundAnalysisScheduler";
+import { ResolvedFollowupService } from "../../services/ResolvedFollowupService";
 import { RetryService } from "../../services/RetryService";
-import { Configuration } from "../../models/Configuration";
+import { Configuration, LlmProvider } from "../../models/Configuration";
 import { FollowupEmail } from "../../models/FollowupEmail";
+import { PromptTemplateId } from "../../models/PromptTemplate";
+import {
+  PriorityFactor,
+  PriorityLevel,
+  PriorityWeights,
+} from "../../models/PriorityScore";
 import { UiService } from "./UiService";
+import { ReplaySnapshotLoader } from "./ReplaySnapshotLoader";
+import { MailSource } from "../../services/MailSource";
 
 export class AppController {
   private emailAnalysisService: EmailAnalysisService;
   private configurationService: ConfigurationService;
   private llmService?: LlmService;
   private retryService: RetryService;
+  private llmUsageService: LlmUsageService;
+  private promptTemplates: PromptTemplateService;
+  private followupDraftService: FollowupDraftService;
+  private emailTemplates: EmailTemplateService;
+  private notificationService: NotificationService;
+  private backgroundScheduler: BackgroundAnalysisScheduler;
+  private resolvedFollowups: ResolvedFollowupService;
+  private analytics: AnalyticsService;
   private uiService: UiService;
 
   private availableAccounts: string[] = [];
   private allEmails: FollowupEmail[] = [];
   private filteredEmails: FollowupEmail[] = [];
   private currentEmailForSnooze: string = "";
+  private currentEmailForDraft: string = "";
   private debounceTimer?: number;
+  private enrichmentQueue: LlmEnrichmentQueue;
+  private analysisInProgress = false;
+  private analysisCancelled = false;
+  // Both runs share the EmailAnalysisService state, so only one may run at a time
+  private backgroundRun?: Promise<FollowupEmail[] | null>;
+  private snoozeExpiryTimer?: ReturnType<typeof setTimeout>;
 
   constructor(uiService: UiService) {
     this.uiService = uiService;
     this.retryService = new RetryService();
     this.emailAnalysisService = new EmailAnalysisService();
     this.configurationService = new ConfigurationService();
+    this.llmUsageService = new LlmUsageService();
+    this.promptTemplates = new PromptTemplateService();
+    this.followupDraftService = new FollowupDraftService();
+    this.emailTemplates = new EmailTemplateService();
+    this.notificationService = new NotificationService();
+    this.resolvedFollowups = new ResolvedFollowupService();
+    this.analytics = new AnalyticsService();
+    this.backgroundScheduler = new BackgroundAnalysisScheduler(
+      () => this.runBackgroundAnalysis(),
+      (emails) => this.notifyNewlyOverdue(emails),
+    );
+    this.emailAnalysisService.setLlmUsageLedger(this.llmUsageService);
+    this.emailAnalysisService.setAnalytics(this.analytics);
+    // Summary, sentiment and drafts fill into the cards after they are displayed
+    this.enrichmentQueue = new LlmEnrichmentQueue(
+      (email, signal) =>
+        this.emailAnalysisService.streamLlmInsights(
+          email,
+          (update) => this.uiService.updateEmailInsight(update),
+          signal,
+        ),
+      {
+        concurrency: 2,
+        onProgress: (progress) => {
+          this.uiService.showEnrichmentStatus(progress);
+          this.refreshLlmUsage();
+        },
+      },
+    );
   }
 
   public async initialize(): Promise<void> {
     this.attachEventListeners();
     await this.loadConfiguration();
     await this.loadCachedResults();
+    if (this.allEmails.length > 0) {
+      // Background analysis reports what changed since the cached results
+      this.backgroundScheduler.setBaseline(this.allEmails);
+    }
+    await this.emailAnalysisService.detectMailSource();
+    this.uiService.updateMailSourceStatus(
+      this.emailAnalysisService.getMailSourceStatus(),
+    );
+    await this.loadReplayFromQuery();
     
     // Check AI status
     const aiDisabled = localStorage.getItem("aiDisabled") === "true";
@@ -41,6 +123,12 @@ export class AppController {
     // Main controls
     this.uiService.analyzeButton.addEventListener("click", () => this.analyzeEmails());
     this.uiService.refreshButton.addEventListener("click", () => this.analyzeEmails());
+    this.uiService.cancelAnalysisButton.addEventListener("click", () =>
+      this.cancelAnalysis(),
+    );
+    this.uiService.toggleEnrichmentButton.addEventListener("click", () =>
+      this.toggleEnrichment(),
+    );
     this.uiService.settingsButton.addEventListener("click", () => this.showSettingsModal());
 
     // Configuration changes
@@ -54,10 +142,16 @@ export class AppController {
     configElements.forEach(el => el.addEventListener("change", () => this.saveConfiguration()));
 
     // UI Toggles
-    this.uiService.showStatsButton.addEventListener("click", () => this.uiService.toggleStatsDashboard(true));
+    this.uiService.showStatsButton.addEventListener("click", () => this.showStatistics());
     this.uiService.toggleStatsButton.addEventListener("click", () => this.uiService.toggleStatsDashboard(false));
     this.uiService.toggleAdvancedFiltersButton.addEventListener("click", () => this.uiService.toggleAdvancedFilters());
     this.uiService.clearFiltersButton.addEventListener("click", () => this.clearAllFilters());
+    this.uiService.toggleApiDetailsButton.addEventListener("click", () =>
+      this.uiService.toggleApiStatusDetails(),
+    );
+    this.uiService.replayFileInput.addEventListener("change", () =>
+      this.loadReplayFromFiles(),
+    );
 
     // Filters
     this.uiService.priorityFilter.addEventListener("change", () => this.applyFilters());
@@ -71,6 +165,12 @@ export class AppController {
     document.getElementById("confirmSnooze")?.addEventListener("click", () => this.confirmSnooze());
     document.getElementById("cancelSnooze")?.addEventListener("click", () => this.uiService.snoozeModal.style.display = "none");
     this.uiService.snoozeOptionsSelect.addEventListener("change", () => this.handleSnoozeOptionChange());
+    document
+      .getElementById("confirmDraft")
+      ?.addEventListener("click", () => this.confirmDraft());
+    document
+      .getElementById("cancelDraft")
+      ?.addEventListener("click", () => this.uiService.hideDraftModal());
 
     document.getElementById("saveSettings")?.addEventListener("click", () => this.saveSettings());
     document.getElementById("cancelSettings")?.addEventListener("click", () => this.uiService.settingsModal.style.display = "none");
@@ -79,6 +179,70 @@ export class AppController {
     this.uiService.disableAiFeaturesButton.addEventListener("click", () => this.disableAiFeatures());
     this.uiService.enableAiFeaturesCheckbox.addEventListener("change", () => this.toggleAiFeatures());
     this.uiService.llmProviderSelect.addEventListener("change", () => this.handleProviderChange());
+    this.uiService.discoverModelsButton.addEventListener("click", () =>
+      this.discoverModels(),
+    );
+    this.uiService.promptTemplateSelect.addEventListener("change", () =>
+      this.showSelectedPromptTemplate(),
+    );
+    this.uiService.previewPromptTemplateButton.addEventListener("click", () =>
+      this.previewPromptTemplate(),
+    );
+    this.uiService.savePromptTemplateButton.addEventListener("click", () =>
+      this.savePromptTemplate(),
+    );
+    this.uiService.resetPromptTemplateButton.addEventListener("click", () =>
+      this.resetPromptTemplate(),
+    );
+    this.uiService.emailTemplateSelect.addEventListener("change", () =>
+      this.uiService.showEmailTemplate(
+        this.emailTemplates.get(this.uiService.emailTemplateSelect.value),
+      ),
+    );
+    this.uiService.saveEmailTemplateButton.addEventListener("click", () =>
+      this.saveEmailTemplate(),
+    );
+    this.uiService.deleteEmailTemplateButton.addEventListener("click", () =>
+      this.deleteEmailTemplate(),
+    );
+    this.uiService.exportEmailTemplatesButton.addEventListener("click", () =>
+      this.exportEmailTemplates(),
+    );
+    this.uiService.importEmailTemplatesInput.addEventListener("change", () =>
+      this.importEmailTemplates(),
+    );
+    this.uiService.importHolidaysInput.addEventListener("change", () =>
+      this.importHolidays(),
+    );
+    this.uiService.notificationCenterButton.addEventListener("click", () =>
+      this.showNotificationCenter(),
+    );
+    this.uiService.closeNotificationCenterButton.addEventListener("click", () =>
+      this.uiService.toggleNotificationCenter(false),
+    );
+    this.uiService.clearNotificationsButton.addEventListener("click", () => {
+      this.notificationService.clear();
+      this.refreshNotifications();
+    });
+    this.uiService.exportActivityJsonButton.addEventListener("click", () =>
+      this.exportActivity("json"),
+    );
+    this.uiService.exportActivityCsvButton.addEventListener("click", () =>
+      this.exportActivity("csv"),
+    );
+    this.uiService.checkRepliesButton.addEventListener("click", () =>
+      this.checkForReplies(),
+    );
+    this.uiService.resolvedHistoryButton.addEventListener("click", () =>
+      this.showResolvedHistory(),
+    );
+    this.uiService.closeResolvedHistoryButton.addEventListener("click", () =>
+      this.uiService.toggleResolvedHistory(false),
+    );
+    this.uiService.clearResolvedButton.addEventListener("click", () => {
+      this.resolvedFollowups.clear();
+      this.showResolvedHistory();
+    });
 
     // Thread modal
     this.uiService.threadModal?.addEventListener("click", (e) => {
@@ -87,6 +251,9 @@ export class AppController {
 
     // Email Actions
     this.uiService.setOnActionCallback((action, emailId) => this.handleEmailAction(action, emailId));
+    this.uiService.setOnTemplateCallback((templateId, emailId) =>
+      this.replyWithTemplate(templateId, emailId),
+    );
   }
 
   private async loadConfiguration(): Promise<void> {
@@ -105,6 +272,38 @@ export class AppController {
       if (config.llmProvider) this.uiService.llmProviderSelect.value = config.llmProvider;
       if (config.llmDeploymentName) this.uiService.llmDeploymentNameInput.value = config.llmDeploymentName;
       if (config.llmApiVersion) this.uiService.llmApiVersionInput.value = config.llmApiVersion;
+      this.uiService.llmDailyTokenBudgetInput.value =
+        config.llmDailyTokenBudget?.toString() || "";
+      this.uiService.llmDailyCostBudgetInput.value =
+        config.llmDailyCostBudget?.toString() || "";
+      this.uiService.llmPricingInput.value = LlmUsageService.formatPricing(
+        config.llmPricing || [],
+      );
+      this.llmUsageService.configure(config);
+      this.refreshLlmUsage();
+      const weights = new PriorityScoringService(config).getWeights();
+      (Object.keys(weights) as PriorityFactor[]).forEach((factor) => {
+        this.uiService.priorityWeightInputs[factor].value = String(
+          weights[factor],
+        );
+      });
+      const contactRules = new ContactRulesService(
+        config.contactRules,
+      ).getRules();
+      this.uiService.vipAddressesInput.value =
+        contactRules.vipAddresses.join("\n");
+      this.uiService.vipDomainsInput.value = contactRules.vipDomains.join("\n");
+      this.uiService.neverTrackInput.value = contactRules.neverTrack.join("\n");
+      this.uiService.adaptiveFollowupTimingCheckbox.checked =
+        config.adaptiveFollowupTiming !== false;
+      this.uiService.showWorkingCalendar(
+        new WorkingCalendarService(config.workingCalendar).getCalendar(),
+      );
+      this.applyNotificationSettings(config);
+
+      this.promptTemplates = new PromptTemplateService(config.promptTemplates);
+      this.uiService.populatePromptTemplates(this.promptTemplates.list());
+      this.showSelectedPromptTemplate();
 
       this.handleProviderChange();
 
@@ -120,9 +319,16 @@ export class AppController {
       this.emailAnalysisService.setConfiguration(config);
 
       // Initialize LLM
-      if (config.llmApiEndpoint && config.llmApiKey) {
+      // Local providers (Ollama, llama.cpp) run without an API key
+      if (
+        config.llmApiEndpoint &&
+        (config.llmApiKey || !LlmService.requiresApiKey(config))
+      ) {
         this.llmService = new LlmService(config, this.retryService);
+        this.llmService.setUsageLedger(this.llmUsageService);
         this.emailAnalysisService.setLlmService(this.llmService);
+        // Analysis stays heuristic, the enrichment queue adds the AI part
+        this.emailAnalysisService.setLlmStreaming(true);
         
         const aiDisabled = localStorage.getItem("aiDisabled") === "true";
         if (!aiDisabled) {
@@ -137,6 +343,8 @@ export class AppController {
         }
       }
 
+      this.emailTemplates = new EmailTemplateService(config.emailTemplates);
+      this.uiService.populateEmailTemplates(this.emailTemplates.list());
       this.uiService.populateSnoozeOptions(config.snoozeOptions);
 
     } catch (error) {
@@ -145,10 +353,22 @@ export class AppController {
   }
 
   private async analyzeEmails(): Promise<void> {
+    if (this.analysisInProgress) return;
+    this.analysisInProgress = true;
+    this.analysisCancelled = false;
     try {
       this.uiService.setLoadingState(true);
       this.uiService.hideStatus();
-      this.uiService.updateProgress(0, "Initializing...", "Getting ready");
+      this.uiService.updateProgress(
+        0,
+        "Initializing...",
+        this.backgroundRun
+          ? "Waiting for the background refresh"
+          : "Getting ready",
+      );
+      // The scheduler reports background errors itself
+      await this.backgroundRun?.catch(() => null);
+      this.enrichmentQueue.clear();
 
       const emailCount = parseInt(this.uiService.emailCountSelect.value);
       const daysBack = parseInt(this.uiService.daysBackSelect.value);
@@ -156,45 +376,317 @@ export class AppController {
 
       const config = await this.configurationService.getConfiguration();
       this.emailAnalysisService.setConfiguration(config);
+      await this.checkSnoozeExpiries();
 
-      this.uiService.updateProgress(20, "Fetching emails...", `Checking last ${daysBack} days`);
-
-      // Fake progress
-      const progressInterval = setInterval(() => {
-        const current = this.uiService.getCurrentProgress();
-        if (current < 80) {
-            this.uiService.updateProgress(current + 10, "Analyzing...", "Processing threads");
-        }
-      }, 500);
-
-      const followupEmails = await this.emailAnalysisService.analyzeEmails(emailCount, daysBack, selectedAccounts);
+      // Cards appear as conversations are analyzed, the final list replaces them
+      this.allEmails = [];
+      this.uiService.clearEmails();
+      const stream = this.emailAnalysisService.streamFollowups(
+        emailCount,
+        daysBack,
+        selectedAccounts,
+        (progress) => this.uiService.showAnalysisProgress(progress),
+      );
+      let next = await stream.next();
+      while (!next.done) {
+        this.showStreamedFollowup(next.value);
+        next = await stream.next();
+      }
+      const followupEmails = next.value;
 
-      clearInterval(progressInterval);
       this.uiService.updateProgress(100, "Done!", "Preparing results");
 
       this.allEmails = followupEmails;
       this.filteredEmails = [...followupEmails];
+      // Partial results would make background refresh report the rest as new
+      if (!this.analysisCancelled) {
+        this.backgroundScheduler.setBaseline(followupEmails);
+      }
 
       await this.saveConfiguration(); // Save last analysis date implicitly via analyzeEmails side effects? No, explicitly.
       // But analyzeEmails in service doesn't save config.
       
       this.applyFilters(); // This calls displayEmails and updateStatistics
 
-      if (followupEmails.length > 0) {
+      if (this.analysisCancelled) {
+        this.uiService.showStatus(
+          `Analysis cancelled - showing the ${followupEmails.length} follow-ups found so far`,
+          "warning",
+        );
+      } else if (followupEmails.length > 0) {
         this.uiService.showStatus(`Found ${followupEmails.length} emails needing follow-up`, "success");
       } else {
         this.uiService.showStatus("No emails needing follow-up found", "success");
       }
+      this.refreshLlmUsage();
+      if (this.llmService && this.llmUsageService.isBudgetExceeded()) {
+        this.uiService.showStatus(
+          "Daily AI budget reached - using basic analysis until tomorrow",
+          "warning",
+        );
+      }
+
+      // Catches follow-ups that were not streamed, e.g. after a cancel
+      if (this.llmService) this.enrichmentQueue.enqueue(followupEmails);
 
     } catch (error) {
       console.error("Analysis error:", error);
       this.uiService.showStatus(`Error: ${(error as Error).message}`, "error");
       this.uiService.displayEmails([]);
     } finally {
+      this.analysisInProgress = false;
       this.uiService.setLoadingState(false);
     }
   }
 
+  private showStreamedFollowup(update: FollowupStreamUpdate): void {
+    const { email, removedIds } = update;
+    this.allEmails = this.allEmails.filter((e) => !removedIds.includes(e.id));
+    this.allEmails.push(email);
+    this.uiService.removeEmails(removedIds);
+    if (this.matchesFilters(email)) this.uiService.insertEmail(email);
+    this.enrichmentQueue.remove(removedIds);
+    if (this.llmService) this.enrichmentQueue.enqueue([email]);
+  }
+
+  private toggleEnrichment(): void {
+    if (this.enrichmentQueue.isPaused()) {
+      this.enrichmentQueue.resume();
+    } else {
+      this.enrichmentQueue.pause();
+    }
+  }
+
+  private cancelAnalysis(): void {
+    if (!this.analysisInProgress) return;
+    this.analysisCancelled = true;
+    this.emailAnalysisService.cancelAnalysis();
+    this.uiService.cancelAnalysisButton.disabled = true;
+    this.uiService.updateProgress(
+      this.uiService.getCurrentProgress(),
+      "Cancelling...",
+      "Keeping the results found so far",
+    );
+  }
+
+  // --- Background Refresh & Notifications ---
+
+  private applyNotificationSettings(config: Configuration): void {
+    const settings = {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...config.notificationSettings,
+    };
+    const interval = config.autoRefreshInterval || 0;
+    this.uiService.autoRefreshIntervalSelect.value = String(interval);
+    this.uiService.enableNotificationsCheckbox.checked = settings.enabled;
+    this.uiService.notifyMinPrioritySelect.value = settings.minPriority;
+    this.uiService.quietHoursStartInput.value = settings.quietHoursStart || "";
+    this.uiService.quietHoursEndInput.value = settings.quietHoursEnd || "";
+    this.notificationService.configure(settings);
+    this.backgroundScheduler.start(interval);
+    this.refreshNotifications();
+  }
+
+  private async saveNotificationSettings(): Promise<void> {
+    await this.configurationService.updateNotificationSettings(
+      Number(this.uiService.autoRefreshIntervalSelect.value) || 0,
+      {
+        enabled: this.uiService.enableNotificationsCheckbox.checked,
+        minPriority: this.uiService.notifyMinPrioritySelect
+          .value as PriorityLevel,
+        quietHoursStart: this.uiService.quietHoursStartInput.value || undefined,
+        quietHoursEnd: this.uiService.quietHoursEndInput.value || undefined,
+      },
+    );
+  }
+
+  // Same analysis as the Analyze button, without the progress UI; skipped while that one runs
+  private async runBackgroundAnalysis(): Promise<FollowupEmail[] | null> {
+    if (this.analysisInProgress || this.backgroundRun) return null;
+    this.uiService.setBackgroundAnalysisState(true);
+    this.backgroundRun = this.refreshInBackground();
+    try {
+      return await this.backgroundRun;
+    } finally {
+      this.backgroundRun = undefined;
+      if (!this.analysisInProgress) {
+        this.uiService.setBackgroundAnalysisState(false);
+      }
+    }
+  }
+
+  private async refreshInBackground(): Promise<FollowupEmail[] | null> {
+    const selectedAccounts = Array.from(
+      this.uiService.accountFilterSelect.selectedOptions,
+    ).map((o) => o.value);
+    const config = await this.configurationService.getConfiguration();
+    this.emailAnalysisService.setConfiguration(config);
+    await this.checkSnoozeExpiries();
+    const emails = await this.emailAnalysisService.analyzeEmails(
+      parseInt(this.uiService.emailCountSelect.value),
+      parseInt(this.uiService.daysBackSelect.value),
+      selectedAccounts,
+    );
+    if (this.analysisInProgress) return null;
+    const currentIds = new Set(emails.map((e) => e.id));
+    const removedIds = this.allEmails
+      .map((e) => e.id)
+      .filter((id) => !currentIds.has(id));
+    this.allEmails = emails;
+    this.applyFilters();
+    this.enrichmentQueue.remove(removedIds);
+    // Follow-ups still being enriched continue on the refreshed copies
+    this.enrichmentQueue.replace(emails);
+    // Only new and changed follow-ups lack AI results, the queue skips the cached ones
+    if (this.llmService) this.enrichmentQueue.enqueue(emails);
+    return emails;
+  }
+
+  private async notifyNewlyOverdue(emails: FollowupEmail[]): Promise<void> {
+    await this.notificationService.notify(emails);
+    this.refreshNotifications();
+  }
+
+  // Expired snoozes come back before the analysis so they show up in its result
+  private async checkSnoozeExpiries(): Promise<void> {
+    const expiries = await this.emailAnalysisService.resolveExpiredSnoozes();
+    if (expiries.length > 0) {
+      await this.notificationService.notifySnoozeExpiries(expiries);
+      this.refreshNotifications();
+      const replied = expiries.filter((expiry) => expiry.status === "replied");
+      if (replied.length > 0) {
+        this.uiService.showStatus(
+          replied.length === 1
+            ? `"${replied[0].subject}" got a reply while snoozed and was closed`
+            : `${replied.length} snoozed follow-ups got a reply and were closed`,
+          "success",
+        );
+      }
+    }
+    this.scheduleSnoozeExpiry();
+  }
+
+  // Rerun the analysis when the next snooze expires, even without background refresh
+  private scheduleSnoozeExpiry(): void {
+    clearTimeout(this.snoozeExpiryTimer);
+    const next = this.emailAnalysisService.getNextSnoozeExpiry();
+    if (!next) return;
+    // setTimeout overflows beyond ~24.8 days; the timer is simply set again then
+    const delay = Math.min(
+      Math.max(next.getTime() - Date.now(), 0),
+      2 ** 31 - 1,
+    );
+    this.snoozeExpiryTimer = setTimeout(() => {
+      if (next.getTime() > Date.now()) {
+        this.scheduleSnoozeExpiry();
+      } else {
+        void this.backgroundScheduler.runNow();
+      }
+    }, delay);
+  }
+
+  // A new snooze may expire before the one the timer is waiting for
+  private onEmailSnoozed(): void {
+    this.scheduleSnoozeExpiry();
+    this.uiService.showStatus("Email snoozed", "success");
+  }
+
+  // Refetches only the listed threads, much cheaper than a full analysis
+  private async checkForReplies(): Promise<void> {
+    if (this.analysisInProgress || this.allEmails.length === 0) return;
+    this.uiService.checkRepliesButton.disabled = true;
+    try {
+      const now = new Date();
+      const { resolved, remaining } =
+        await this.emailAnalysisService.checkForReplies(this.allEmails, now);
+      this.resolvedFollowups.record(resolved, now);
+      this.allEmails = remaining;
+      this.backgroundScheduler.setBaseline(remaining);
+      this.applyFilters();
+      this.uiService.showStatus(
+        resolved.length === 0
+          ? "No new replies"
+          : `${resolved.length} follow-up${resolved.length === 1 ? "" : "s"} got a reply and ${resolved.length === 1 ? "was" : "were"} closed`,
+        "success",
+      );
+      if (resolved.length > 0) this.showResolvedHistory();
+    } catch (error) {
+      console.error("Reply check error:", error);
+      this.uiService.showStatus(
+        `Error checking replies: ${(error as Error).message}`,
+        "error",
+      );
+    } finally {
+      this.uiService.checkRepliesButton.disabled = false;
+    }
+  }
+
+  private showResolvedHistory(): void {
+    this.uiService.showResolvedHistory(
+      this.resolvedFollowups.getHistory(),
+      this.resolvedFollowups.getLastCheckedAt(),
+    );
+    this.uiService.toggleResolvedHistory(true);
+  }
+
+  // Unread entries stay highlighted until the center is opened again
+  private showNotificationCenter(): void {
+    const notifications = this.notificationService.getHistory();
+    this.notificationService.markAllRead();
+    this.uiService.showNotifications(notifications, 0);
+    this.uiService.toggleNotificationCenter(true);
+  }
+
+  private refreshNotifications(): void {
+    this.uiService.showNotifications(
+      this.notificationService.getHistory(),
+      this.notificationService.getUnreadCount(),
+    );
+  }
+
+  private async showStatistics(): Promise<void> {
+    const { contacts, domains } =
+      this.emailAnalysisService.getResponseTimeStats();
+    this.uiService.showResponseTimeStats(contacts, domains);
+    this.uiService.toggleStatsDashboard(true);
+    this.uiService.showWeeklyActivity(await this.analytics.getWeeklySummary());
+  }
+
+  private async exportActivity(format: "json" | "csv"): Promise<void> {
+    try {
+      if (format === "csv") {
+        this.uiService.downloadFile(
+          "followup-activity.csv",
+          await this.analytics.exportCsv(),
+          "text/csv",
+        );
+      } else {
+        this.uiService.downloadFile(
+          "followup-activity.json",
+          await this.analytics.exportJson(),
+        );
+      }
+    } catch (e) {
+      this.uiService.showStatus(
+        `Export failed: ${(e as Error).message}`,
+        "error",
+      );
+    }
+  }
+
+  /** Open a reply in Outlook and count it as a follow-up sent */
+  private openReply(email: FollowupEmail, body: string, mode: ReplyMode): void {
+    this.followupDraftService.openReply(email, body, mode);
+    void this.analytics.recordAction([email.id], "replied");
+  }
+
+  private refreshLlmUsage(): void {
+    this.uiService.updateLlmUsage(
+      this.llmUsageService.getDailyUsage(),
+      this.llmUsageService.getBudgetStatus(),
+    );
+  }
+
   private async saveConfiguration(): Promise<void> {
     try {
       const currentConfig = await this.configurationService.getConfiguration();
@@ -208,7 +700,7 @@ export class AppController {
         llmApiEndpoint: this.uiService.llmEndpointInput.value.trim(),
         llmApiKey: this.uiService.llmApiKeyInput.value.trim(),
         llmModel: this.uiService.llmModelInput.value.trim(),
-        llmProvider: (this.uiService.llmProviderSelect.value as "azure" | "dial" | "openai") || undefined,
+        llmProvider: (this.uiService.llmProviderSelect.value as LlmProvider) || undefined,
         llmDeploymentName: this.uiService.llmDeploymentNameInput.value.trim(),
         llmApiVersion: this.uiService.llmApiVersionInput.value.trim(),
         showSnoozedEmails: this.uiService.showSnoozedEmailsCheckbox.checked,
@@ -227,39 +719,9 @@ export class AppController {
   }
 
   private applyFilters(): void {
-    this.filteredEmails = this.allEmails.filter(email => {
-        // Priority
-        if (this.uiService.priorityFilter.value && email.priority !== this.uiService.priorityFilter.value) return false;
-        
-        // Response Time
-        if (this.uiService.responseTimeFilter.value) {
-            const days = email.daysWithoutResponse;
-            const range = this.uiService.responseTimeFilter.value;
-            if (range === "1-3" && (days < 1 || days > 3)) return false;
-            if (range === "4-7" && (days < 4 || days > 7)) return false;
-            if (range === "8-14" && (days < 8 || days > 14)) return false;
-            if (range === "15+" && days < 15) return false;
-        }
-
-        // Subject
-        if (this.uiService.subjectFilter.value && !email.subject.toLowerCase().includes(this.uiService.subjectFilter.value.toLowerCase())) return false;
-
-        // Sender
-        if (this.uiService.senderFilter.value) {
-            const senderText = this.uiService.senderFilter.value.toLowerCase();
-            const hasMatching = email.recipients.some(r => r.toLowerCase().includes(senderText));
-            if (!hasMatching) return false;
-        }
-
-        // AI
-        if (this.uiService.aiSuggestionFilter.value) {
-            const hasAI = !!email.llmSuggestion;
-            if (this.uiService.aiSuggestionFilter.value === "with-ai" && !hasAI) return false;
-            if (this.uiService.aiSuggestionFilter.value === "without-ai" && hasAI) return false;
-        }
-
-        return true;
-    });
+    this.filteredEmails = this.allEmails.filter((email) =>
+      this.matchesFilters(email),
+    );
 
     this.uiService.displayEmails(this.filteredEmails);
     
@@ -271,6 +733,43 @@ export class AppController {
     this.uiService.updateStatistics(total, needing, high, avg);
   }
 
+  private matchesFilters(email: FollowupEmail): boolean {
+    // Priority
+    const priority = this.uiService.priorityFilter.value;
+    if (priority && email.priority !== priority) return false;
+
+    // Response Time
+    const range = this.uiService.responseTimeFilter.value;
+    if (range) {
+      const days = email.daysWithoutResponse;
+      if (range === "1-3" && (days < 1 || days > 3)) return false;
+      if (range === "4-7" && (days < 4 || days > 7)) return false;
+      if (range === "8-14" && (days < 8 || days > 14)) return false;
+      if (range === "15+" && days < 15) return false;
+    }
+
+    // Subject
+    const subject = this.uiService.subjectFilter.value.toLowerCase();
+    if (subject && !email.subject.toLowerCase().includes(subject)) return false;
+
+    // Sender
+    const sender = this.uiService.senderFilter.value.toLowerCase();
+    if (
+      sender &&
+      !email.recipients.some((r) => r.toLowerCase().includes(sender))
+    ) {
+      return false;
+    }
+
+    // AI
+    const ai = this.uiService.aiSuggestionFilter.value;
+    const hasAI = !!email.llmSuggestion;
+    if (ai === "with-ai" && !hasAI) return false;
+    if (ai === "without-ai" && hasAI) return false;
+
+    return true;
+  }
+
   private clearAllFilters(): void {
     this.uiService.priorityFilter.value = "";
     this.uiService.responseTimeFilter.value = "";
@@ -280,6 +779,50 @@ export class AppController {
     this.applyFilters();
   }
 
+  /**
+   * ?replay=<url> loads a mailbox snapshot so the taskpane works outside Outlook.
+   */
+  private async loadReplayFromQuery(): Promise<void> {
+    const replayUrl = new URLSearchParams(window.location.search).get("replay");
+    if (!replayUrl) return;
+    try {
+      const source = await new ReplaySnapshotLoader().loadFromUrl(replayUrl);
+      this.activateMailSource(source, `Replaying snapshot ${replayUrl}`);
+    } catch (e) {
+      this.uiService.showStatus(
+        `Error loading snapshot: ${(e as Error).message}`,
+        "error",
+      );
+    }
+  }
+
+  private async loadReplayFromFiles(): Promise<void> {
+    const files = Array.from(this.uiService.replayFileInput.files || []);
+    if (files.length === 0) return;
+    try {
+      const source = await new ReplaySnapshotLoader().loadFromFiles(files);
+      this.activateMailSource(
+        source,
+        `Replaying ${files.length} snapshot file(s)`,
+      );
+    } catch (e) {
+      this.uiService.showStatus(
+        `Error loading snapshot: ${(e as Error).message}`,
+        "error",
+      );
+    }
+  }
+
+  private activateMailSource(source: MailSource, message: string): void {
+    this.emailAnalysisService.setMailSource(source);
+    // Cached threads belong to the previous mailbox
+    this.emailAnalysisService.clearCache();
+    this.uiService.updateMailSourceStatus(
+      this.emailAnalysisService.getMailSourceStatus(),
+    );
+    this.uiService.showStatus(message, "success");
+  }
+
   private async loadCachedResults(): Promise<void> {
     try {
         const cached = await this.configurationService.getCachedAnalysisResults();
@@ -298,6 +841,9 @@ export class AppController {
 
   private async handleEmailAction(action: string, emailId: string): Promise<void> {
     switch (action) {
+        case "draft":
+            await this.showDraftModal(emailId);
+            break;
         case "reply":
             await this.replyToEmail(emailId);
             break;
@@ -319,26 +865,170 @@ export class AppController {
   }
 
   private async replyToEmail(emailId: string): Promise<void> {
-    // simplified for brevity - assumes Outlook context
-    if (Office.context?.mailbox && typeof (Office.context.mailbox as any).displayMessageForm === "function") {
-        (Office.context.mailbox as any).displayMessageForm(emailId);
-    } else {
-        this.uiService.showStatus("Reply requires Outlook", "error");
+    const email = this.allEmails.find((e) => e.id === emailId);
+    if (!email) return;
+    try {
+      this.openReply(email, "", "replyAll");
+    } catch (e) {
+      this.uiService.showStatus(`Reply failed: ${(e as Error).message}`, "error");
     }
   }
 
   private async forwardEmail(emailId: string): Promise<void> {
-    // simplified - leveraging TaskpaneManager's logic would be better but for now basic stub
-    if (Office.context?.mailbox && typeof (Office.context.mailbox as any).displayMessageForm === "function") {
-        (Office.context.mailbox as any).displayMessageForm(emailId);
-    } else {
-        // Fallback or error
-        this.uiService.showStatus("Forward requires Outlook", "error");
+    const email = this.allEmails.find((e) => e.id === emailId);
+    if (!email) return;
+    try {
+      this.followupDraftService.openForward(email);
+    } catch (e) {
+      this.uiService.showStatus(
+        `Forward failed: ${(e as Error).message}`,
+        "error",
+      );
+    }
+  }
+
+  // --- Follow-up Templates ---
+
+  private replyWithTemplate(templateId: string, emailId: string): void {
+    const email = this.allEmails.find((e) => e.id === emailId);
+    if (!email) return;
+    try {
+      this.openReply(
+        email,
+        this.emailTemplates.render(templateId, email),
+        "replyAll",
+      );
+    } catch (e) {
+      this.uiService.showStatus(
+        `Could not open template: ${(e as Error).message}`,
+        "error",
+      );
+    }
+  }
+
+  private async saveEmailTemplate(): Promise<void> {
+    try {
+      const template = this.emailTemplates.save({
+        id: this.uiService.emailTemplateSelect.value || undefined,
+        name: this.uiService.emailTemplateNameInput.value,
+        body: this.uiService.emailTemplateBodyInput.value,
+      });
+      await this.persistEmailTemplates(template.id);
+      this.uiService.showStatus(`Template "${template.name}" saved`, "success");
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    }
+  }
+
+  private async deleteEmailTemplate(): Promise<void> {
+    const id = this.uiService.emailTemplateSelect.value;
+    if (!id) return;
+    try {
+      this.emailTemplates.remove(id);
+      await this.persistEmailTemplates("");
+      this.uiService.showStatus("Template deleted", "success");
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    }
+  }
+
+  private exportEmailTemplates(): void {
+    this.uiService.downloadFile(
+      "followup-templates.json",
+      this.emailTemplates.exportPack(),
+    );
+  }
+
+  private async importEmailTemplates(): Promise<void> {
+    const input = this.uiService.importEmailTemplatesInput;
+    const file = (input.files || [])[0];
+    if (!file) return;
+    try {
+      const result = this.emailTemplates.importPack(await file.text());
+      await this.persistEmailTemplates();
+      this.uiService.showStatus(
+        `Imported ${result.added} new and ${result.updated} updated templates`,
+        "success",
+      );
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    } finally {
+      input.value = "";
+    }
+  }
+
+  private async persistEmailTemplates(selectedId?: string): Promise<void> {
+    const templates = this.emailTemplates.list();
+    await this.configurationService.saveEmailTemplates(templates);
+    this.uiService.populateEmailTemplates(templates, selectedId);
+    // Refresh the card pickers
+    this.applyFilters();
+  }
+
+  // --- Draft Follow-up ---
+
+  private async showDraftModal(emailId: string): Promise<void> {
+    const email = this.allEmails.find((e) => e.id === emailId);
+    if (!email) return;
+    this.currentEmailForDraft = emailId;
+
+    let suggestions =
+      email.llmSuggestions && email.llmSuggestions.length > 0
+        ? email.llmSuggestions
+        : email.llmSuggestion
+          ? [email.llmSuggestion]
+          : [];
+    // Analysis may have skipped the AI (disabled, budget, errors); ask now
+    if (
+      suggestions.length === 0 &&
+      this.llmService &&
+      localStorage.getItem("aiDisabled") !== "true" &&
+      !this.llmUsageService.isBudgetExceeded()
+    ) {
+      this.uiService.showStatus("Generating follow-up drafts...", "success");
+      try {
+        suggestions = await this.llmService.generateFollowupSuggestions(
+          email.body,
+          `User email: ${email.accountEmail}`,
+        );
+        email.llmSuggestions = suggestions;
+        email.llmSuggestion = suggestions[0];
+        this.uiService.hideStatus();
+      } catch (e) {
+        this.uiService.showStatus(
+          `Could not generate drafts: ${(e as Error).message}`,
+          "warning",
+        );
+      } finally {
+        this.refreshLlmUsage();
+      }
+    }
+
+    this.uiService.showDraftModal(suggestions);
+  }
+
+  private confirmDraft(): void {
+    const email = this.allEmails.find(
+      (e) => e.id === this.currentEmailForDraft,
+    );
+    if (!email) return;
+    try {
+      this.openReply(
+        email,
+        this.uiService.draftBodyInput.value,
+        this.uiService.draftReplyAllCheckbox.checked ? "replyAll" : "reply",
+      );
+      this.uiService.hideDraftModal();
+    } catch (e) {
+      this.uiService.showStatus(
+        `Could not open draft: ${(e as Error).message}`,
+        "error",
+      );
     }
   }
 
   private async dismissEmail(emailId: string): Promise<void> {
-    this.emailAnalysisService.dismissEmail(emailId);
+    await this.emailAnalysisService.dismissEmail(emailId);
     // Remove from allEmails
     this.allEmails = this.allEmails.filter(e => e.id !== emailId);
     this.applyFilters();
@@ -370,15 +1060,15 @@ export class AppController {
                 this.uiService.showStatus("Snooze time must be in future", "error");
                 return;
             }
-            this.emailAnalysisService.snoozeEmailUntil(this.currentEmailForSnooze, date);
+            await this.emailAnalysisService.snoozeEmailUntil(this.currentEmailForSnooze, date);
         } else {
             const minutes = parseInt(selected.value);
-            this.emailAnalysisService.snoozeEmail(this.currentEmailForSnooze, minutes);
+            await this.emailAnalysisService.snoozeEmail(this.currentEmailForSnooze, minutes);
         }
 
         this.allEmails = this.allEmails.filter(e => e.id !== this.currentEmailForSnooze);
         this.applyFilters();
-        this.uiService.showStatus("Email snoozed", "success");
+        this.onEmailSnoozed();
         this.uiService.snoozeModal.style.display = "none";
     } catch (e) {
         this.uiService.showStatus(`Error snoozing: ${(e as Error).message}`, "error");
@@ -410,8 +1100,15 @@ export class AppController {
             endpoint,
             apiKey,
             this.uiService.enableLlmSummaryCheckbox.checked,
-            this.uiService.enableLlmSuggestionsCheckbox.checked
+            this.uiService.enableLlmSuggestionsCheckbox.checked,
+            this.readLlmConnection(),
         );
+        await this.configurationService.updateLlmBudget(
+          LlmUsageService.parsePricing(this.uiService.llmPricingInput.value),
+          Number(this.uiService.llmDailyTokenBudgetInput.value) || 0,
+          Number(this.uiService.llmDailyCostBudgetInput.value) || 0,
+        );
+        await this.saveAnalysisSettings();
 
         // Reload config to update service
         await this.loadConfiguration();
@@ -422,6 +1119,84 @@ export class AppController {
     }
   }
 
+  private async saveAnalysisSettings(): Promise<void> {
+    await this.savePrioritySettings();
+    await this.saveWorkingCalendar();
+    await this.saveNotificationSettings();
+  }
+
+  private async savePrioritySettings(): Promise<void> {
+    await this.configurationService.updatePriorityScoring(
+      this.readPriorityWeights(),
+    );
+    await this.configurationService.updateContactRules({
+      vipAddresses: ContactRulesService.parseList(
+        this.uiService.vipAddressesInput.value,
+      ),
+      vipDomains: ContactRulesService.parseList(
+        this.uiService.vipDomainsInput.value,
+      ),
+      neverTrack: ContactRulesService.parseList(
+        this.uiService.neverTrackInput.value,
+      ),
+    });
+    await this.configurationService.updateAdaptiveFollowupTiming(
+      this.uiService.adaptiveFollowupTimingCheckbox.checked,
+    );
+  }
+
+  private async saveWorkingCalendar(): Promise<void> {
+    const calendar = {
+      workDays: this.uiService.getSelectedWorkDays(),
+      workStart: this.uiService.workStartInput.value,
+      workEnd: this.uiService.workEndInput.value,
+      timeZone: this.uiService.workTimeZoneInput.value.trim() || undefined,
+      holidays: WorkingCalendarService.parseHolidays(
+        this.uiService.holidaysInput.value,
+      ),
+    };
+    const errors = WorkingCalendarService.validate(calendar);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    await this.configurationService.updateWorkingCalendar(calendar);
+  }
+
+  // Adds the calendar's dates to the holidays field, saved with the settings
+  private async importHolidays(): Promise<void> {
+    const input = this.uiService.importHolidaysInput;
+    const file = (input.files || [])[0];
+    if (!file) return;
+    try {
+      const imported = WorkingCalendarService.parseIcs(await file.text());
+      this.uiService.holidaysInput.value = WorkingCalendarService.parseHolidays(
+        `${this.uiService.holidaysInput.value}\n${imported.join("\n")}`,
+      ).join("\n");
+      this.uiService.showStatus(
+        `Imported ${imported.length} holidays, save the settings to apply them`,
+        "success",
+      );
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    } finally {
+      input.value = "";
+    }
+  }
+
+  // Blank inputs fall back to the default weight
+  private readPriorityWeights(): Partial<PriorityWeights> {
+    const weights: Partial<PriorityWeights> = {};
+    (
+      Object.keys(this.uiService.priorityWeightInputs) as PriorityFactor[]
+    ).forEach((factor) => {
+      const value = this.uiService.priorityWeightInputs[factor].value.trim();
+      if (value !== "" && !isNaN(Number(value))) {
+        weights[factor] = Math.max(0, Number(value));
+      }
+    });
+    return weights;
+  }
+
   private updateAiStatus(): void {
     const aiDisabled = localStorage.getItem("aiDisabled") === "true";
     if (aiDisabled) {
@@ -429,9 +1204,25 @@ export class AppController {
         return;
     }
     
-    if (!this.llmService || !this.uiService.llmEndpointInput.value.trim() || !this.uiService.llmApiKeyInput.value.trim()) {
-        this.uiService.setAiStatus("warning", "AI features disabled - No config");
-        return;
+    const endpoint = this.uiService.llmEndpointInput.value.trim();
+    // Local providers (Ollama, llama.cpp) run without an API key
+    const missingApiKey =
+      !this.uiService.llmApiKeyInput.value.trim() &&
+      LlmService.requiresApiKey({
+        llmApiEndpoint: endpoint,
+        llmProvider: this.getSelectedLlmProvider(),
+      } as Configuration);
+    if (!this.llmService || !endpoint || missingApiKey) {
+      this.uiService.setAiStatus("warning", "AI features disabled - No config");
+      return;
+    }
+
+    if (this.llmUsageService.isBudgetExceeded()) {
+      this.uiService.setAiStatus(
+        "warning",
+        "Daily AI budget reached - using basic analysis",
+      );
+      return;
     }
 
     const circuitStates = this.retryService.getCircuitBreakerStates();
@@ -473,9 +1264,117 @@ export class AppController {
     }
   }
 
+  /** Provider, model and Azure options entered in the settings modal */
+  private readLlmConnection(): Pick<
+    Configuration,
+    "llmProvider" | "llmModel" | "llmDeploymentName" | "llmApiVersion"
+  > {
+    return {
+      llmProvider: this.getSelectedLlmProvider(),
+      llmModel: this.uiService.llmModelInput.value.trim() || undefined,
+      llmDeploymentName:
+        this.uiService.llmDeploymentNameInput.value.trim() || undefined,
+      llmApiVersion: this.uiService.llmApiVersionInput.value.trim() || undefined,
+    };
+  }
+
+  /** The provider picked in the settings modal, undefined for auto-detect */
+  private getSelectedLlmProvider(): LlmProvider | undefined {
+    return (this.uiService.llmProviderSelect.value as LlmProvider) || undefined;
+  }
+
   private handleProviderChange(): void {
     const provider = this.uiService.llmProviderSelect.value;
     const isAzure = provider === "azure" || (provider === "" && this.uiService.llmEndpointInput.value.includes("azure"));
     this.uiService.azureSpecificOptions.style.display = isAzure ? "block" : "none";
+
+    const isLocal = provider === "ollama" || provider === "openai-compatible";
+    this.uiService.llmApiKeyInput.placeholder = isLocal
+      ? "Not required for local servers"
+      : "Enter your API key";
+    this.uiService.discoverModelsButton.style.display =
+      isLocal || provider === "openai" || provider === "anthropic"
+        ? "inline-block"
+        : "none";
+  }
+
+  private showSelectedPromptTemplate(): void {
+    const id = this.uiService.promptTemplateSelect.value as PromptTemplateId;
+    if (id) {
+      this.uiService.showPromptTemplate(this.promptTemplates.get(id));
+    }
+  }
+
+  private previewPromptTemplate(): void {
+    const id = this.uiService.promptTemplateSelect.value as PromptTemplateId;
+    const template = this.uiService.promptTemplateEditor.value;
+    const errors = this.promptTemplates.validate(id, template);
+    if (errors.length > 0) {
+      this.uiService.showStatus(errors.join("; "), "error");
+      return;
+    }
+    this.uiService.showPromptPreview(
+      this.promptTemplates.preview(id, template),
+    );
+  }
+
+  private async savePromptTemplate(): Promise<void> {
+    const id = this.uiService.promptTemplateSelect.value as PromptTemplateId;
+    try {
+      const override = this.promptTemplates.setOverride(
+        id,
+        this.uiService.promptTemplateEditor.value,
+      );
+      await this.configurationService.savePromptTemplate(id, override);
+      // Rebuilds the LLM service with the new prompt
+      await this.loadConfiguration();
+      this.uiService.showStatus("Prompt template saved", "success");
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    }
+  }
+
+  private async resetPromptTemplate(): Promise<void> {
+    const id = this.uiService.promptTemplateSelect.value as PromptTemplateId;
+    try {
+      await this.configurationService.savePromptTemplate(id, undefined);
+      await this.loadConfiguration();
+      this.uiService.showStatus("Prompt template reset to default", "success");
+    } catch (e) {
+      this.uiService.showStatus(`Error: ${(e as Error).message}`, "error");
+    }
+  }
+
+  private async discoverModels(): Promise<void> {
+    // Use the values currently in the form so models can be picked before saving
+    const config: Configuration = {
+      ...(await this.configurationService.getConfiguration()),
+      llmApiEndpoint: this.uiService.llmEndpointInput.value.trim(),
+      llmApiKey: this.uiService.llmApiKeyInput.value.trim(),
+      llmProvider:
+        (this.uiService.llmProviderSelect.value as LlmProvider) || undefined,
+    };
+    this.uiService.setAiStatus("warning", "Discovering models...");
+    try {
+      const models = await new LlmService(
+        config,
+        this.retryService,
+      ).listModels();
+      this.uiService.populateModelOptions(models);
+      if (models.length > 0 && !this.uiService.llmModelInput.value) {
+        this.uiService.llmModelInput.value = models[0];
+      }
+      this.uiService.setAiStatus(
+        models.length > 0 ? "success" : "warning",
+        models.length > 0
+          ? `Found ${models.length} model(s)`
+          : "Server returned no models",
+      );
+    } catch (e) {
+      this.uiService.setAiStatus(
+        "error",
+        `Model discovery failed: ${(e as Error).message}`,
+      );
+    }
   }
 }
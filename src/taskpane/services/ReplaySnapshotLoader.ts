@@ -0,0 +1,37 @@
+import { ReplayMailSource } from "../../services/ReplayMailSource";
+
+/**
+ * Loads mailbox snapshots in the browser for offline replay.
+ * Accepts a snapshot JSON file or a set of .eml files.
+ */
+export class ReplaySnapshotLoader {
+  public async loadFromUrl(url: string): Promise<ReplayMailSource> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load mailbox snapshot: ${response.status} ${response.statusText}`,
+      );
+    }
+    return ReplayMailSource.fromJson(await response.text());
+  }
+
+  public async loadFromFiles(files: File[]): Promise<ReplayMailSource> {
+    if (files.length === 0) {
+      throw new Error("No snapshot files selected");
+    }
+
+    const jsonFile = files.find((file) =>
+      file.name.toLowerCase().endsWith(".json"),
+    );
+    if (jsonFile) {
+      return ReplayMailSource.fromJson(await jsonFile.text());
+    }
+
+    const emlFiles = await Promise.all(
+      files
+        .filter((file) => file.name.toLowerCase().endsWith(".eml"))
+        .map(async (file) => ({ name: file.name, content: await file.text() })),
+    );
+    return ReplayMailSource.fromEmlFiles(emlFiles);
+  }
+}
@@ -1,10 +1,30 @@
 import { FollowupEmail } from "../../models/FollowupEmail";
-import { SnoozeOption } from "../../models/Configuration";
+import { AnalysisProgress } from "../../models/AnalysisProgress";
+import {
+  EmailTemplate,
+  SnoozeOption,
+  WorkingCalendar,
+} from "../../models/Configuration";
+import { LlmUsage } from "../../models/LlmAnalysis";
+import { FollowupNotification } from "../../models/NotificationSettings";
+import { LlmBudgetStatus, LlmDailyUsage } from "../../models/LlmUsageLedger";
+import { PriorityFactor } from "../../models/PriorityScore";
+import { ResolvedFollowup } from "../../models/ResolvedFollowup";
+import { ResponseTimeStats } from "../../models/ResponseAnalytics";
+import { WeeklyAnalytics } from "../../models/AnalyticsRecord";
+import { MailSourceStatus } from "../../services/MailSource";
+import { LlmInsightUpdate } from "../../services/EmailAnalysisService";
+import { ResolvedPromptTemplate } from "../../services/PromptTemplateService";
+import { EMAIL_TEMPLATE_VARIABLES } from "../../services/EmailTemplateService";
+import { NotificationService } from "../../services/NotificationService";
+import { EnrichmentProgress } from "../../services/LlmEnrichmentQueue";
 
 export class UiService {
   // Main controls
   public analyzeButton!: HTMLButtonElement;
   public refreshButton!: HTMLButtonElement;
+  public cancelAnalysisButton!: HTMLButtonElement;
+  public toggleEnrichmentButton!: HTMLButtonElement;
   public settingsButton!: HTMLButtonElement;
   public emailCountSelect!: HTMLSelectElement;
   public daysBackSelect!: HTMLSelectElement;
@@ -17,12 +37,18 @@ export class UiService {
   private loadingDiv!: HTMLDivElement;
   private emptyStateDiv!: HTMLDivElement;
   private emailListDiv!: HTMLDivElement;
+  private enrichmentStatusDiv!: HTMLDivElement;
+  private enrichmentStatusText!: HTMLSpanElement;
 
   // Modal elements
   public snoozeModal!: HTMLDivElement;
   public settingsModal!: HTMLDivElement;
   public snoozeOptionsSelect!: HTMLSelectElement;
   public customSnoozeGroup!: HTMLDivElement;
+  public draftModal!: HTMLDivElement;
+  public draftSuggestionsDiv!: HTMLDivElement;
+  public draftBodyInput!: HTMLTextAreaElement;
+  public draftReplyAllCheckbox!: HTMLInputElement;
   public customSnoozeDate!: HTMLInputElement;
   public llmEndpointInput!: HTMLInputElement;
   public llmApiKeyInput!: HTMLInputElement;
@@ -35,9 +61,58 @@ export class UiService {
   public enableAiFeaturesCheckbox!: HTMLInputElement;
   public llmProviderSelect!: HTMLSelectElement;
   public llmModelInput!: HTMLInputElement;
+  public discoverModelsButton!: HTMLButtonElement;
+  private llmModelOptions!: HTMLDataListElement;
   public llmDeploymentNameInput!: HTMLInputElement;
   public llmApiVersionInput!: HTMLInputElement;
   public azureSpecificOptions!: HTMLDivElement;
+  public llmDailyTokenBudgetInput!: HTMLInputElement;
+  public llmDailyCostBudgetInput!: HTMLInputElement;
+  public llmPricingInput!: HTMLTextAreaElement;
+  public promptTemplateSelect!: HTMLSelectElement;
+  private promptTemplateInfo!: HTMLDivElement;
+  public promptTemplateEditor!: HTMLTextAreaElement;
+  public previewPromptTemplateButton!: HTMLButtonElement;
+  public savePromptTemplateButton!: HTMLButtonElement;
+  public resetPromptTemplateButton!: HTMLButtonElement;
+  private promptTemplatePreview!: HTMLPreElement;
+  public priorityWeightInputs!: Record<PriorityFactor, HTMLInputElement>;
+  public vipAddressesInput!: HTMLTextAreaElement;
+  public vipDomainsInput!: HTMLTextAreaElement;
+  public neverTrackInput!: HTMLTextAreaElement;
+  private workDaysContainer!: HTMLDivElement;
+  public workStartInput!: HTMLInputElement;
+  public workEndInput!: HTMLInputElement;
+  public workTimeZoneInput!: HTMLInputElement;
+  public holidaysInput!: HTMLTextAreaElement;
+  public importHolidaysInput!: HTMLInputElement;
+  public autoRefreshIntervalSelect!: HTMLSelectElement;
+  public enableNotificationsCheckbox!: HTMLInputElement;
+  public notifyMinPrioritySelect!: HTMLSelectElement;
+  public quietHoursStartInput!: HTMLInputElement;
+  public quietHoursEndInput!: HTMLInputElement;
+  public notificationCenterButton!: HTMLButtonElement;
+  private notificationBadge!: HTMLSpanElement;
+  private notificationCenter!: HTMLDivElement;
+  private notificationList!: HTMLDivElement;
+  public clearNotificationsButton!: HTMLButtonElement;
+  public closeNotificationCenterButton!: HTMLButtonElement;
+  public checkRepliesButton!: HTMLButtonElement;
+  public resolvedHistoryButton!: HTMLButtonElement;
+  private resolvedHistory!: HTMLDivElement;
+  private resolvedLastCheck!: HTMLDivElement;
+  private resolvedList!: HTMLDivElement;
+  public clearResolvedButton!: HTMLButtonElement;
+  public closeResolvedHistoryButton!: HTMLButtonElement;
+  public adaptiveFollowupTimingCheckbox!: HTMLInputElement;
+  public emailTemplateSelect!: HTMLSelectElement;
+  private emailTemplateInfo!: HTMLDivElement;
+  public emailTemplateNameInput!: HTMLInputElement;
+  public emailTemplateBodyInput!: HTMLTextAreaElement;
+  public saveEmailTemplateButton!: HTMLButtonElement;
+  public deleteEmailTemplateButton!: HTMLButtonElement;
+  public exportEmailTemplatesButton!: HTMLButtonElement;
+  public importEmailTemplatesInput!: HTMLInputElement;
 
   // Enhanced UI elements
   private statsDashboard!: HTMLDivElement;
@@ -54,6 +129,12 @@ export class UiService {
   private needingFollowupSpan!: HTMLSpanElement;
   private highPriorityCountSpan!: HTMLSpanElement;
   private avgResponseTimeSpan!: HTMLSpanElement;
+  private llmTokensTodaySpan!: HTMLSpanElement;
+  private llmCostTodaySpan!: HTMLSpanElement;
+  private responseTimeStatsDiv!: HTMLDivElement;
+  private weeklyActivityDiv!: HTMLDivElement;
+  public exportActivityJsonButton!: HTMLButtonElement;
+  public exportActivityCsvButton!: HTMLButtonElement;
 
   // Filter elements
   public priorityFilter!: HTMLSelectElement;
@@ -63,6 +144,18 @@ export class UiService {
   public aiSuggestionFilter!: HTMLSelectElement;
   public clearFiltersButton!: HTMLButtonElement;
 
+  // Mail API status banner
+  private apiStatusBanner!: HTMLDivElement;
+  private apiStatusTitle!: HTMLHeadingElement;
+  private apiStatusDetails!: HTMLDivElement;
+  private apiStatusMessage!: HTMLParagraphElement;
+  public toggleApiDetailsButton!: HTMLButtonElement;
+  private ewsStatusIcon!: HTMLSpanElement;
+  private ewsStatusText!: HTMLSpanElement;
+  private graphStatusIcon!: HTMLSpanElement;
+  private graphStatusText!: HTMLSpanElement;
+  public replayFileInput!: HTMLInputElement;
+
   // Progress elements
   private loadingStep!: HTMLSpanElement;
   private loadingDetail!: HTMLDivElement;
@@ -70,6 +163,10 @@ export class UiService {
 
   // Action handlers
   private onActionCallback?: (action: string, emailId: string) => void;
+  private onTemplateCallback?: (templateId: string, emailId: string) => void;
+
+  // Follow-up templates offered on each card
+  private emailTemplates: EmailTemplate[] = [];
 
   constructor() {
     this.initializeElements();
@@ -79,6 +176,12 @@ export class UiService {
     this.onActionCallback = callback;
   }
 
+  public setOnTemplateCallback(
+    callback: (templateId: string, emailId: string) => void,
+  ) {
+    this.onTemplateCallback = callback;
+  }
+
   private initializeElements(): void {
     const safeElement = (id: string): any => {
       const el = document.getElementById(id);
@@ -112,6 +215,8 @@ export class UiService {
     // Main controls
     this.analyzeButton = safeElement("analyzeButton");
     this.refreshButton = safeElement("refreshButton");
+    this.cancelAnalysisButton = safeElement("cancelAnalysis");
+    this.toggleEnrichmentButton = safeElement("toggleEnrichment");
     this.settingsButton = safeElement("settingsButton");
     this.emailCountSelect = safeElement("emailCount");
     this.daysBackSelect = safeElement("daysBack");
@@ -124,6 +229,8 @@ export class UiService {
     this.loadingDiv = safeElement("loadingMessage");
     this.emptyStateDiv = safeElement("emptyState");
     this.emailListDiv = safeElement("emailList");
+    this.enrichmentStatusDiv = safeElement("enrichmentStatus");
+    this.enrichmentStatusText = safeElement("enrichmentStatusText");
 
     // Modal elements
     this.snoozeModal = safeElement("snoozeModal");
@@ -131,6 +238,10 @@ export class UiService {
     this.snoozeOptionsSelect = safeElement("snoozeOptions");
     this.customSnoozeGroup = safeElement("customSnoozeGroup");
     this.customSnoozeDate = safeElement("customSnoozeDate");
+    this.draftModal = safeElement("draftModal");
+    this.draftSuggestionsDiv = safeElement("draftSuggestions");
+    this.draftBodyInput = safeElement("draftBody");
+    this.draftReplyAllCheckbox = safeElement("draftReplyAll");
     this.llmEndpointInput = safeElement("llmEndpoint");
     this.llmApiKeyInput = safeElement("llmApiKey");
     this.showSnoozedEmailsCheckbox = safeElement("showSnoozedEmails");
@@ -142,9 +253,65 @@ export class UiService {
     this.enableAiFeaturesCheckbox = safeElement("enableAiFeatures");
     this.llmProviderSelect = safeElement("llmProvider");
     this.llmModelInput = safeElement("llmModel");
+    this.discoverModelsButton = safeElement("discoverModels");
+    this.llmModelOptions = safeElement("llmModelOptions");
     this.llmDeploymentNameInput = safeElement("llmDeploymentName");
     this.llmApiVersionInput = safeElement("llmApiVersion");
     this.azureSpecificOptions = safeElement("azureSpecificOptions");
+    this.llmDailyTokenBudgetInput = safeElement("llmDailyTokenBudget");
+    this.llmDailyCostBudgetInput = safeElement("llmDailyCostBudget");
+    this.llmPricingInput = safeElement("llmPricing");
+    this.promptTemplateSelect = safeElement("promptTemplateSelect");
+    this.promptTemplateInfo = safeElement("promptTemplateInfo");
+    this.promptTemplateEditor = safeElement("promptTemplateEditor");
+    this.previewPromptTemplateButton = safeElement("previewPromptTemplate");
+    this.savePromptTemplateButton = safeElement("savePromptTemplate");
+    this.resetPromptTemplateButton = safeElement("resetPromptTemplate");
+    this.promptTemplatePreview = safeElement("promptTemplatePreview");
+    this.priorityWeightInputs = {
+      daysWaiting: safeElement("priorityWeightDaysWaiting"),
+      threadLength: safeElement("priorityWeightThreadLength"),
+      sentiment: safeElement("priorityWeightSentiment"),
+      recipientImportance: safeElement("priorityWeightRecipientImportance"),
+      attachments: safeElement("priorityWeightAttachments"),
+      externalDomain: safeElement("priorityWeightExternalDomain"),
+    };
+    this.vipAddressesInput = safeElement("vipAddresses");
+    this.vipDomainsInput = safeElement("vipDomains");
+    this.neverTrackInput = safeElement("neverTrack");
+    this.workDaysContainer = safeElement("workDays");
+    this.workStartInput = safeElement("workStart");
+    this.workEndInput = safeElement("workEnd");
+    this.workTimeZoneInput = safeElement("workTimeZone");
+    this.holidaysInput = safeElement("holidays");
+    this.importHolidaysInput = safeElement("importHolidays");
+    this.autoRefreshIntervalSelect = safeElement("autoRefreshInterval");
+    this.enableNotificationsCheckbox = safeElement("enableNotifications");
+    this.notifyMinPrioritySelect = safeElement("notifyMinPriority");
+    this.quietHoursStartInput = safeElement("quietHoursStart");
+    this.quietHoursEndInput = safeElement("quietHoursEnd");
+    this.notificationCenterButton = safeElement("notificationCenterButton");
+    this.notificationBadge = safeElement("notificationBadge");
+    this.notificationCenter = safeElement("notificationCenter");
+    this.notificationList = safeElement("notificationList");
+    this.clearNotificationsButton = safeElement("clearNotifications");
+    this.closeNotificationCenterButton = safeElement("closeNotificationCenter");
+    this.checkRepliesButton = safeElement("checkRepliesButton");
+    this.resolvedHistoryButton = safeElement("resolvedHistoryButton");
+    this.resolvedHistory = safeElement("resolvedHistory");
+    this.resolvedLastCheck = safeElement("resolvedLastCheck");
+    this.resolvedList = safeElement("resolvedList");
+    this.clearResolvedButton = safeElement("clearResolved");
+    this.closeResolvedHistoryButton = safeElement("closeResolvedHistory");
+    this.adaptiveFollowupTimingCheckbox = safeElement("adaptiveFollowupTiming");
+    this.emailTemplateSelect = safeElement("emailTemplateSelect");
+    this.emailTemplateInfo = safeElement("emailTemplateInfo");
+    this.emailTemplateNameInput = safeElement("emailTemplateName");
+    this.emailTemplateBodyInput = safeElement("emailTemplateBody");
+    this.saveEmailTemplateButton = safeElement("saveEmailTemplate");
+    this.deleteEmailTemplateButton = safeElement("deleteEmailTemplate");
+    this.exportEmailTemplatesButton = safeElement("exportEmailTemplates");
+    this.importEmailTemplatesInput = safeElement("importEmailTemplates");
 
     // New UI elements
     this.statsDashboard = safeElement("statsDashboard");
@@ -161,6 +328,12 @@ export class UiService {
     this.needingFollowupSpan = safeElement("needingFollowup");
     this.highPriorityCountSpan = safeElement("highPriorityCount");
     this.avgResponseTimeSpan = safeElement("avgResponseTime");
+    this.llmTokensTodaySpan = safeElement("llmTokensToday");
+    this.llmCostTodaySpan = safeElement("llmCostToday");
+    this.responseTimeStatsDiv = safeElement("responseTimeStats");
+    this.weeklyActivityDiv = safeElement("weeklyActivity");
+    this.exportActivityJsonButton = safeElement("exportActivityJson");
+    this.exportActivityCsvButton = safeElement("exportActivityCsv");
 
     // Filter elements
     this.priorityFilter = safeElement("priorityFilter");
@@ -170,6 +343,18 @@ export class UiService {
     this.aiSuggestionFilter = safeElement("aiSuggestionFilter");
     this.clearFiltersButton = safeElement("clearFilters");
 
+    // Mail API status banner
+    this.apiStatusBanner = safeElement("apiStatusBanner");
+    this.apiStatusTitle = safeElement("apiStatusTitle");
+    this.apiStatusDetails = safeElement("apiStatusDetails");
+    this.apiStatusMessage = safeElement("apiStatusMessage");
+    this.toggleApiDetailsButton = safeElement("toggleApiDetails");
+    this.ewsStatusIcon = safeElement("ewsStatusIcon");
+    this.replayFileInput = safeElement("replayFileInput");
+    this.ewsStatusText = safeElement("ewsStatusText");
+    this.graphStatusIcon = safeElement("graphStatusIcon");
+    this.graphStatusText = safeElement("graphStatusText");
+
     // Progress elements
     this.loadingStep = safeElement("loadingStep");
     this.loadingDetail = safeElement("loadingDetail");
@@ -196,6 +381,7 @@ export class UiService {
       this.loadingDiv.style.display = "block";
       this.analyzeButton.disabled = true;
       this.refreshButton.disabled = true;
+      this.cancelAnalysisButton.disabled = false;
     } else {
       this.loadingDiv.style.display = "none";
       this.analyzeButton.disabled = false;
@@ -203,12 +389,56 @@ export class UiService {
     }
   }
 
+  // Analyze waits until a background refresh is done
+  public setBackgroundAnalysisState(isRunning: boolean): void {
+    this.analyzeButton.disabled = isRunning;
+    this.refreshButton.disabled = isRunning;
+  }
+
   public updateProgress(percentage: number, step: string, detail: string): void {
     this.progressFill.style.width = `${percentage}%`;
     this.loadingStep.textContent = step;
     this.loadingDetail.textContent = detail;
   }
 
+  /** Fetching and grouping fill the first 20% of the bar */
+  public showAnalysisProgress(progress: AnalysisProgress): void {
+    if (progress.phase === "fetch") {
+      this.updateProgress(
+        5,
+        "Fetching emails...",
+        "Reading Sent Items and Inbox",
+      );
+      return;
+    }
+    const conversations = `${progress.conversationCount} conversation${progress.conversationCount === 1 ? "" : "s"}`;
+    if (progress.phase === "group") {
+      this.updateProgress(
+        15,
+        "Grouping conversations...",
+        `${progress.emailCount} emails in ${conversations}`,
+      );
+      return;
+    }
+    const share =
+      progress.conversationCount > 0
+        ? progress.conversationsDone / progress.conversationCount
+        : 1;
+    const eta =
+      progress.etaMs !== undefined ? `, ${this.formatEta(progress.etaMs)}` : "";
+    this.updateProgress(
+      Math.round(20 + share * 80),
+      "Analyzing conversations...",
+      `${progress.conversationsDone} of ${conversations}${eta}`,
+    );
+  }
+
+  private formatEta(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `about ${seconds}s left`;
+    return `about ${Math.ceil(seconds / 60)} min left`;
+  }
+
   public getCurrentProgress(): number {
     return parseInt(this.progressFill.style.width) || 0;
   }
@@ -245,9 +475,42 @@ export class UiService {
     this.emailListDiv.style.display = "block";
   }
 
+  /** Empty the list before follow-ups are added one by one with insertEmail */
+  public clearEmails(): void {
+    this.emailListDiv.innerHTML = "";
+  }
+
+  /**
+   * Add a card while the analysis is still running, in the position
+   * displayEmails would give it; the loading message stays visible.
+   */
+  public insertEmail(email: FollowupEmail): void {
+    const emailElement = this.createEmailElement(email);
+    const next = Array.from(
+      this.emailListDiv.querySelectorAll<HTMLDivElement>(".email-item"),
+    ).find(
+      (element) => Number(element.dataset.sentTime) < email.sentDate.getTime(),
+    );
+    this.emailListDiv.insertBefore(emailElement, next || null);
+    this.emptyStateDiv.style.display = "none";
+    this.emailListDiv.style.display = "block";
+  }
+
+  public removeEmails(emailIds: string[]): void {
+    this.emailListDiv
+      .querySelectorAll<HTMLDivElement>(".email-item")
+      .forEach((element) => {
+        if (emailIds.includes(element.dataset.emailId || "")) {
+          element.remove();
+        }
+      });
+  }
+
   private createEmailElement(email: FollowupEmail): HTMLDivElement {
     const emailDiv = document.createElement("div");
     emailDiv.className = `email-item priority-${email.priority}`;
+    emailDiv.dataset.emailId = email.id;
+    emailDiv.dataset.sentTime = String(email.sentDate.getTime());
 
     const priorityBadge =
       email.priority === "high"
@@ -256,22 +519,15 @@ export class UiService {
         ? "🟡"
         : "🟢";
     const accountBadge = email.accountEmail ? `📧 ${email.accountEmail}` : "";
+    const returnedBadge = email.returnedFromSnooze
+      ? `<span class="returned-badge">⏰ Returned from snooze</span>`
+      : "";
     const llmIndicator = email.llmSummary ? "🤖" : "";
+    const llmUsageTitle = email.llmUsage
+      ? ` title="${this.formatLlmUsage(email.llmUsage)}"`
+      : "";
 
-    // Calculate confidence score (mock)
-    const confidence = Math.min(
-      100,
-      Math.max(
-        0,
-        email.daysWithoutResponse * 10 +
-          (email.priority === "high"
-            ? 30
-            : email.priority === "medium"
-            ? 15
-            : 0) +
-          (email.llmSuggestion ? 20 : 0)
-      )
-    );
+    const priorityScore = this.renderPriorityScore(email);
 
     const toLine = this.formatRecipientsAsEmails(email.recipients).join(", ");
     const summaryHtml = this.renderSummaryHtml(email.summary);
@@ -280,7 +536,8 @@ export class UiService {
             <div class="email-header">
                 <span class="priority-badge">${priorityBadge}</span>
                 <span class="account-badge">${accountBadge}</span>
-                <span class="llm-indicator">${llmIndicator}</span>
+                ${returnedBadge}
+                <span class="llm-indicator"${llmUsageTitle}>${llmIndicator}</span>
             </div>
             <div class="email-subject">${this.escapeHtml(email.subject)}</div>
             <div class="email-metadata">
@@ -291,16 +548,10 @@ export class UiService {
                     <span>📅 ${email.sentDate.toLocaleDateString()}</span>
                 </div>
                 <div class="metadata-item">
-                    <span>⏱️ ${email.daysWithoutResponse} days</span>
-                </div>
-            </div>
-            <div class="confidence-meter">
-                <span>Priority Score:</span>
-                <div class="confidence-bar">
-                    <div class="confidence-fill" style="width: ${confidence}%"></div>
+                    <span>⏱️ ${this.formatWaitingTime(email)}${this.formatExpectedResponse(email)}</span>
                 </div>
-                <span>${confidence}%</span>
             </div>
+            ${priorityScore}
         <div class="email-summary">${summaryHtml}</div>
             ${
               email.llmSuggestion
@@ -310,6 +561,7 @@ export class UiService {
                 : ""
             }
             <div class="email-actions">
+                <button class="action-button" data-email-id="${email.id}" data-action="draft">Draft Follow-up</button>
                 <button class="action-button" data-email-id="${email.id}" data-action="reply">Reply</button>
                 <button class="action-button" data-email-id="${email.id}" data-action="forward">Forward</button>
                 <button class="action-button" data-email-id="${email.id}" data-action="snooze">Snooze</button>
@@ -319,6 +571,7 @@ export class UiService {
                     ? `<button class="action-button" data-email-id="${email.id}" data-action="view-thread">View Thread (${email.threadMessages.length})</button>`
                     : ""
                 }
+                ${this.renderTemplatePicker(email.id)}
             </div>
         `;
 
@@ -335,9 +588,120 @@ export class UiService {
       });
     });
 
+    const templatePicker =
+      emailDiv.querySelector<HTMLSelectElement>(".template-picker");
+    templatePicker?.addEventListener("change", () => {
+      const templateId = templatePicker.value;
+      templatePicker.value = "";
+      if (templateId && this.onTemplateCallback) {
+        this.onTemplateCallback(templateId, email.id);
+      }
+    });
+
     return emailDiv;
   }
 
+  /** Score bar plus the factors behind it, e.g. "Why this is high priority" */
+  private renderPriorityScore(email: FollowupEmail): string {
+    // Emails cached before scoring existed have no score
+    if (email.priorityScore === undefined) return "";
+    const reasons = (email.priorityBreakdown || [])
+      .map(
+        (factor) =>
+          `<li>${this.escapeHtml(factor.reason)} <span class="priority-points">+${factor.points}</span></li>`,
+      )
+      .join("");
+    return `
+            <div class="confidence-meter">
+                <span>Priority Score:</span>
+                <div class="confidence-bar">
+                    <div class="confidence-fill" style="width: ${email.priorityScore}%"></div>
+                </div>
+                <span>${email.priorityScore}</span>
+            </div>
+            ${
+              reasons
+                ? `<details class="priority-reasons"><summary>Why this is ${email.priority} priority</summary><ul>${reasons}</ul></details>`
+                : ""
+            }`;
+  }
+
+  private renderTemplatePicker(emailId: string): string {
+    if (this.emailTemplates.length === 0) return "";
+    const options = this.emailTemplates
+      .map(
+        (template) =>
+          `<option value="${this.escapeHtml(template.id)}">${this.escapeHtml(template.name)}</option>`,
+      )
+      .join("");
+    return `<select class="template-picker" data-email-id="${emailId}" title="Reply with a follow-up template"><option value="">Use template...</option>${options}</select>`;
+  }
+
+  /**
+   * Render streamed AI output into an already displayed email card.
+   * Partial text is shown as plain text; the final text gets the usual formatting.
+   */
+  public updateEmailInsight(update: LlmInsightUpdate): void {
+    const emailDiv = Array.from(
+      this.emailListDiv.querySelectorAll<HTMLDivElement>(".email-item"),
+    ).find((element) => element.dataset.emailId === update.emailId);
+    if (!emailDiv) return;
+
+    const className =
+      update.field === "summary" ? "email-summary" : "llm-suggestion";
+    let target = emailDiv.querySelector<HTMLDivElement>(`.${className}`);
+    if (!target) {
+      target = document.createElement("div");
+      target.className = className;
+      emailDiv
+        .querySelector(".email-actions")
+        ?.insertAdjacentElement("beforebegin", target);
+    }
+
+    target.classList.toggle("streaming", !update.done);
+    if (update.field === "summary") {
+      if (update.done) {
+        target.innerHTML = this.renderSummaryHtml(update.text);
+      } else {
+        target.textContent = update.text;
+      }
+    } else if (update.done && !update.text) {
+      target.remove();
+    } else {
+      target.innerHTML = `<strong>AI Suggestion:</strong> ${this.escapeHtml(update.text)}`;
+    }
+
+    const indicator = emailDiv.querySelector<HTMLElement>(".llm-indicator");
+    if (indicator) {
+      indicator.textContent = "🤖";
+      if (update.usage) indicator.title = this.formatLlmUsage(update.usage);
+    }
+  }
+
+  /** Progress of the background AI enrichment; hidden once it has finished */
+  public showEnrichmentStatus(progress: EnrichmentProgress): void {
+    const finished = progress.done + progress.failed;
+    if (
+      progress.total === 0 ||
+      (finished === progress.total && !progress.paused)
+    ) {
+      this.enrichmentStatusDiv.style.display = "none";
+      return;
+    }
+    const failed = progress.failed > 0 ? `, ${progress.failed} failed` : "";
+    this.enrichmentStatusText.textContent = progress.paused
+      ? `AI insights paused (${finished} of ${progress.total} done${failed})`
+      : `Adding AI insights: ${finished} of ${progress.total}${failed}`;
+    this.toggleEnrichmentButton.textContent = progress.paused
+      ? "Resume"
+      : "Pause";
+    this.enrichmentStatusDiv.style.display = "flex";
+  }
+
+  private formatLlmUsage(usage: LlmUsage): string {
+    return `AI analysis: ${usage.totalTokens} tokens (${usage.promptTokens} prompt, ${usage.completionTokens} completion)`;
+  }
+
   public updateStatistics(
     total: number,
     needingFollowup: number,
@@ -350,6 +714,233 @@ export class UiService {
     this.avgResponseTimeSpan.textContent = avgDays.toString();
   }
 
+  /** Response time tables of the stats dashboard, the most written-to contacts and domains first */
+  public showResponseTimeStats(
+    contacts: ResponseTimeStats[],
+    domains: ResponseTimeStats[],
+  ): void {
+    if (contacts.length === 0) {
+      this.responseTimeStatsDiv.textContent =
+        "Response times appear once the analysis has seen replies to your mail";
+      return;
+    }
+    this.responseTimeStatsDiv.innerHTML = `
+      ${this.renderResponseTimeTable("Contact", contacts)}
+      ${this.renderResponseTimeTable("Domain", domains)}`;
+  }
+
+  private renderResponseTimeTable(
+    label: string,
+    stats: ResponseTimeStats[],
+  ): string {
+    const trendLabels = { faster: "↓ faster", slower: "↑ slower", steady: "→" };
+    const rows = stats
+      .slice(0, 10)
+      .map(
+        (entry) => `<tr>
+          <td>${this.escapeHtml(entry.key)}</td>
+          <td>${entry.replies}/${entry.requests}</td>
+          <td>${Math.round(entry.replyRate * 100)}%</td>
+          <td>${entry.medianHours !== undefined ? `${Math.round(entry.medianHours)} h` : "-"}</td>
+          <td>${entry.trend ? trendLabels[entry.trend] : ""}</td>
+        </tr>`,
+      )
+      .join("");
+    return `<table class="response-time-table">
+        <thead><tr><th>${label}</th><th>Replies</th><th>Rate</th><th>Typical</th><th>Trend</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+  }
+
+  /** Weekly bar charts of the activity history, oldest week first */
+  public showWeeklyActivity(weeks: WeeklyAnalytics[]): void {
+    if (weeks.every((week) => week.analysisRuns === 0)) {
+      this.weeklyActivityDiv.textContent =
+        "Weekly charts appear once the analysis has run";
+      return;
+    }
+    const charts: [string, (week: WeeklyAnalytics) => number][] = [
+      ["Follow-ups found", (week) => week.followupsFound],
+      ["Resolved", (week) => week.resolved],
+      ["Replied", (week) => week.replied],
+      ["Snoozed", (week) => week.snoozed],
+      ["Dismissed", (week) => week.dismissed],
+      ["Median hours to resolve", (week) => week.medianResolutionHours ?? 0],
+    ];
+    this.weeklyActivityDiv.innerHTML = charts
+      .map(([label, valueOf]) => this.renderWeeklyChart(label, weeks, valueOf))
+      .join("");
+  }
+
+  private renderWeeklyChart(
+    label: string,
+    weeks: WeeklyAnalytics[],
+    valueOf: (week: WeeklyAnalytics) => number,
+  ): string {
+    const values = weeks.map((week) => Math.round(valueOf(week)));
+    const max = Math.max(1, ...values);
+    const bars = weeks
+      .map(
+        (week, i) =>
+          `<div class="weekly-chart-bar" style="height: ${(values[i] / max) * 100}%" title="Week of ${week.weekStart}: ${values[i]}"></div>`,
+      )
+      .join("");
+    return `<div class="weekly-chart">
+        <div>${label}: ${values[values.length - 1]} this week</div>
+        <div class="weekly-chart-bars">${bars}</div>
+      </div>`;
+  }
+
+  /** Today's AI usage in the stats dashboard, against the budget when one is set */
+  public updateLlmUsage(usage: LlmDailyUsage, budget: LlmBudgetStatus): void {
+    this.llmTokensTodaySpan.textContent =
+      budget.tokenBudget !== undefined
+        ? `${usage.totalTokens} / ${budget.tokenBudget}`
+        : usage.totalTokens.toString();
+    this.llmCostTodaySpan.textContent =
+      budget.costBudget !== undefined
+        ? `${usage.cost.toFixed(2)} / ${budget.costBudget.toFixed(2)}`
+        : usage.cost.toFixed(2);
+
+    this.llmTokensTodaySpan.title = Object.entries(usage.byOperation)
+      .map(
+        ([operation, totals]) =>
+          `${operation}: ${totals!.totalTokens} tokens, ${totals!.calls} call(s)`,
+      )
+      .join("\n");
+    this.llmCostTodaySpan.title = Object.entries(usage.byModel)
+      .map(([model, totals]) => `${model}: ${totals.cost.toFixed(4)}`)
+      .join("\n");
+  }
+
+  /** Fill the template picker, keeping the current selection if there is one */
+  public populatePromptTemplates(templates: ResolvedPromptTemplate[]): void {
+    const selected = this.promptTemplateSelect.value;
+    this.promptTemplateSelect.innerHTML = "";
+    templates.forEach((template) => {
+      const option = document.createElement("option");
+      option.value = template.id;
+      option.textContent = template.isCustomized
+        ? `${template.name} (customized)`
+        : template.name;
+      this.promptTemplateSelect.appendChild(option);
+    });
+    if (templates.some((template) => template.id === selected)) {
+      this.promptTemplateSelect.value = selected;
+    }
+  }
+
+  public showPromptTemplate(template: ResolvedPromptTemplate): void {
+    const variables = template.variables.map((name) => `{${name}}`).join(", ");
+    let info = `${template.description}. Variables: ${variables}`;
+    if (template.isOutdated) {
+      info += ". The default has changed since this template was customized.";
+    }
+    this.promptTemplateInfo.textContent = info;
+    this.promptTemplateEditor.value = template.template;
+    this.promptTemplatePreview.style.display = "none";
+  }
+
+  /** Templates for the card pickers and the settings library */
+  public populateEmailTemplates(
+    templates: EmailTemplate[],
+    selectedId?: string,
+  ): void {
+    this.emailTemplates = templates;
+    const selected =
+      selectedId !== undefined ? selectedId : this.emailTemplateSelect.value;
+    this.emailTemplateSelect.innerHTML = "";
+    const newOption = document.createElement("option");
+    newOption.value = "";
+    newOption.textContent = "New template...";
+    this.emailTemplateSelect.appendChild(newOption);
+    templates.forEach((template) => {
+      const option = document.createElement("option");
+      option.value = template.id;
+      option.textContent = template.name;
+      this.emailTemplateSelect.appendChild(option);
+    });
+    this.emailTemplateSelect.value = templates.some((t) => t.id === selected)
+      ? selected
+      : "";
+    this.showEmailTemplate(templates.find((t) => t.id === selected));
+  }
+
+  public showEmailTemplate(template?: EmailTemplate): void {
+    const variables = EMAIL_TEMPLATE_VARIABLES.map((name) => `{${name}}`).join(
+      ", ",
+    );
+    this.emailTemplateInfo.textContent = `Variables: ${variables}`;
+    this.emailTemplateNameInput.value = template ? template.name : "";
+    this.emailTemplateBodyInput.value = template ? template.body : "";
+    this.deleteEmailTemplateButton.disabled = !template;
+  }
+
+  public showWorkingCalendar(calendar: WorkingCalendar): void {
+    this.getWorkDayCheckboxes().forEach((checkbox) => {
+      checkbox.checked = calendar.workDays.includes(
+        Number(checkbox.dataset.workDay),
+      );
+    });
+    this.workStartInput.value = calendar.workStart;
+    this.workEndInput.value = calendar.workEnd;
+    this.workTimeZoneInput.value = calendar.timeZone || "";
+    this.holidaysInput.value = calendar.holidays.join("\n");
+  }
+
+  public getSelectedWorkDays(): number[] {
+    return this.getWorkDayCheckboxes()
+      .filter((checkbox) => checkbox.checked)
+      .map((checkbox) => Number(checkbox.dataset.workDay));
+  }
+
+  private getWorkDayCheckboxes(): HTMLInputElement[] {
+    return Array.from(
+      this.workDaysContainer.querySelectorAll<HTMLInputElement>(
+        "input[data-work-day]",
+      ),
+    );
+  }
+
+  private formatExpectedResponse(email: FollowupEmail): string {
+    if (email.expectedResponseHours === undefined) {
+      return "";
+    }
+    const hours = Math.max(1, Math.round(email.expectedResponseHours));
+    return ` (usually answered within ${hours} business ${hours === 1 ? "hour" : "hours"})`;
+  }
+
+  // Business hours until the first full business day, e.g. "5 business hours"
+  private formatWaitingTime(email: FollowupEmail): string {
+    const days = email.daysWithoutResponse;
+    const hours = email.businessHoursWithoutResponse;
+    if (days === 0 && hours !== undefined) {
+      return `${hours} business ${hours === 1 ? "hour" : "hours"}`;
+    }
+    return `${days} business ${days === 1 ? "day" : "days"}`;
+  }
+
+  /** Offer `content` as a file download */
+  public downloadFile(
+    fileName: string,
+    content: string,
+    type = "application/json",
+  ): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  public showPromptPreview(text: string): void {
+    this.promptTemplatePreview.textContent = text;
+    this.promptTemplatePreview.style.display = "block";
+  }
+
   public toggleStatsDashboard(show: boolean): void {
     if (show) {
       this.statsDashboard.classList.add("show");
@@ -360,6 +951,91 @@ export class UiService {
     }
   }
 
+  /** Notification center entries and the unread badge on its button */
+  public showNotifications(
+    notifications: FollowupNotification[],
+    unreadCount: number,
+  ): void {
+    this.notificationBadge.textContent = unreadCount ? String(unreadCount) : "";
+    if (unreadCount) {
+      this.notificationBadge.classList.add("show");
+    } else {
+      this.notificationBadge.classList.remove("show");
+    }
+
+    this.notificationList.innerHTML = "";
+    if (notifications.length === 0) {
+      this.notificationList.textContent = "No notifications yet";
+      return;
+    }
+    notifications.forEach((notification) => {
+      const item = document.createElement("div");
+      item.className = `notification-item${notification.read ? "" : " unread"}`;
+      const when = new Date(notification.createdAt).toLocaleString();
+      const quiet = notification.silent ? " (quiet hours)" : "";
+      const text =
+        notification.kind === "overdue"
+          ? `${notification.subject} - ${notification.priority} priority, ${notification.daysWithoutResponse} business days`
+          : NotificationService.describe(notification);
+      item.textContent = `${text} - ${when}${quiet}`;
+      item.addEventListener("click", () =>
+        this.onActionCallback?.("view-thread", notification.emailId),
+      );
+      this.notificationList.appendChild(item);
+    });
+  }
+
+  public toggleNotificationCenter(show: boolean): void {
+    if (show) {
+      this.notificationCenter.classList.add("show");
+    } else {
+      this.notificationCenter.classList.remove("show");
+    }
+  }
+
+  /** Resolved follow-ups, those found by the last check highlighted */
+  public showResolvedHistory(
+    entries: ResolvedFollowup[],
+    lastCheckedAt?: Date,
+  ): void {
+    this.resolvedLastCheck.textContent = lastCheckedAt
+      ? `Last checked ${lastCheckedAt.toLocaleString()}`
+      : "Not checked yet";
+    this.resolvedList.innerHTML = "";
+    if (entries.length === 0) {
+      this.resolvedList.textContent = "No resolved follow-ups yet";
+      return;
+    }
+    entries.forEach((entry) => {
+      const isNew =
+        !!lastCheckedAt &&
+        new Date(entry.resolvedAt).getTime() >= lastCheckedAt.getTime();
+      const item = document.createElement("div");
+      item.className = `notification-item${isNew ? " unread" : ""}`;
+      item.textContent = `${entry.subject} - ${entry.responder} replied after ${this.formatResponseTime(entry.responseHours)} - ${new Date(entry.respondedAt).toLocaleString()}`;
+      this.resolvedList.appendChild(item);
+    });
+  }
+
+  public toggleResolvedHistory(show: boolean): void {
+    if (show) {
+      this.resolvedHistory.classList.add("show");
+    } else {
+      this.resolvedHistory.classList.remove("show");
+    }
+  }
+
+  private formatResponseTime(hours: number): string {
+    if (hours < 1) {
+      return "less than an hour";
+    }
+    if (hours < 48) {
+      const rounded = Math.round(hours);
+      return `${rounded} hour${rounded === 1 ? "" : "s"}`;
+    }
+    return `${Math.round(hours / 24)} days`;
+  }
+
   public toggleAdvancedFilters(): void {
     this.advancedFilters.classList.toggle("show");
     const isShown = this.advancedFilters.classList.contains("show");
@@ -449,12 +1125,118 @@ export class UiService {
     this.threadModal.style.display = "none";
   }
 
+  /** Offer the AI drafts; picking one copies it into the editable body */
+  public showDraftModal(suggestions: string[]): void {
+    this.draftSuggestionsDiv.innerHTML = "";
+    suggestions.forEach((suggestion, index) => {
+      const label = document.createElement("label");
+      const radio = document.createElement("input");
+      radio.type = "radio";
+      radio.name = "draftSuggestion";
+      radio.checked = index === 0;
+      radio.addEventListener("change", () => {
+        this.draftBodyInput.value = suggestion;
+      });
+      label.appendChild(radio);
+      label.appendChild(document.createTextNode(` ${suggestion}`));
+      this.draftSuggestionsDiv.appendChild(label);
+    });
+    if (suggestions.length === 0) {
+      this.draftSuggestionsDiv.textContent =
+        "No AI suggestions for this email. Write your follow-up below.";
+    }
+    this.draftBodyInput.value = suggestions[0] || "";
+    this.draftReplyAllCheckbox.checked = true;
+    this.draftModal.style.display = "block";
+  }
+
+  public hideDraftModal(): void {
+    this.draftModal.style.display = "none";
+  }
+
+  public populateModelOptions(models: string[]): void {
+    this.llmModelOptions.innerHTML = "";
+    models.forEach((model) => {
+      const option = document.createElement("option");
+      option.value = model;
+      this.llmModelOptions.appendChild(option);
+    });
+  }
+
   public setAiStatus(type: "success" | "warning" | "error", message: string): void {
     this.aiStatusDiv.style.display = "block";
     this.aiStatusDiv.className = `ai-status ${type}`;
     this.aiStatusText.textContent = message;
   }
 
+  public updateMailSourceStatus(statuses: MailSourceStatus[]): void {
+    const ews = statuses.find((status) => status.kind === "ews");
+    const graph = statuses.find((status) => status.kind === "graph");
+    this.setApiStatusItem(
+      this.ewsStatusIcon,
+      this.ewsStatusText,
+      "EWS (Exchange Web Services)",
+      ews,
+    );
+    this.setApiStatusItem(
+      this.graphStatusIcon,
+      this.graphStatusText,
+      "Microsoft Graph API",
+      graph,
+    );
+
+    const replay = statuses.find((status) => status.kind === "replay");
+    if (replay?.active) {
+      this.apiStatusBanner.style.display = "block";
+      this.apiStatusBanner.className = "api-status-banner success";
+      this.apiStatusTitle.textContent = "🧪 Offline Replay";
+      this.apiStatusMessage.textContent =
+        "Emails are read from a recorded mailbox snapshot, not from Outlook.";
+      return;
+    }
+
+    // Banner is only relevant when the preferred EWS path is not in use
+    if (ews?.active) {
+      this.apiStatusBanner.style.display = "none";
+      return;
+    }
+
+    this.apiStatusBanner.style.display = "block";
+    if (graph?.active) {
+      this.apiStatusBanner.className = "api-status-banner";
+      this.apiStatusTitle.textContent = "⚠️ Using Microsoft Graph";
+      this.apiStatusMessage.textContent =
+        "EWS is not available for this mailbox. Emails are read through Microsoft Graph instead.";
+    } else {
+      this.apiStatusBanner.className = "api-status-banner error";
+      this.apiStatusTitle.textContent = "⚠️ Limited Email Access";
+      this.apiStatusMessage.textContent =
+        "Your organization's policies may be restricting bulk email access. Alternative modes are available below.";
+    }
+  }
+
+  public toggleApiStatusDetails(): void {
+    const show = this.apiStatusDetails.style.display === "none";
+    this.apiStatusDetails.style.display = show ? "block" : "none";
+    this.toggleApiDetailsButton.textContent = show
+      ? "Hide Details"
+      : "Show Details";
+  }
+
+  private setApiStatusItem(
+    icon: HTMLSpanElement,
+    text: HTMLSpanElement,
+    label: string,
+    status?: MailSourceStatus,
+  ): void {
+    icon.textContent = status?.available ? "✅" : "❌";
+    if (status?.active) {
+      text.textContent = `${label}: In use`;
+    } else {
+      text.textContent = `${label}: ${status?.available ? "Available" : "Not available"}`;
+    }
+  }
+
   // Helper methods
   private escapeHtml(text: string): string {
     const div = document.createElement("div");
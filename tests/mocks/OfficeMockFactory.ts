@@ -85,7 +85,11 @@ export class OfficeMockFactory {
         roamingSettings: {
           get: vi.fn(),
           set: vi.fn(),
-          saveAsync: vi.fn(),
+          saveAsync: vi.fn((callback?: Function) => {
+            if (callback) {
+              callback({ status: "succeeded" });
+            }
+          }),
         },
       },
       AsyncResultStatus: {
@@ -0,0 +1,157 @@
+/**
+ * Local Server-Sent Events stub for streaming LLM tests.
+ *
+ * Serves a scripted chat completion stream over real HTTP and exposes a
+ * fetch-compatible function (the global fetch is mocked in tests/setup.ts).
+ */
+import http from "http";
+import { AddressInfo } from "net";
+
+export interface SseStubRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export class SseStubServer {
+  public requests: SseStubRequest[] = [];
+  private server?: http.Server;
+  private events: string[] = [];
+  private status = 200;
+  private delayMs = 0;
+  private format: "sse" | "ndjson" = "sse";
+
+  /**
+   * Script the next responses as SSE `data:` payloads, or as raw lines of
+   * newline-delimited JSON (Ollama streaming)
+   */
+  public respondWith(
+    events: string[],
+    options: { delayMs?: number; format?: "sse" | "ndjson" } = {},
+  ) {
+    this.events = events;
+    this.status = 200;
+    this.delayMs = options.delayMs ?? 0;
+    this.format = options.format ?? "sse";
+  }
+
+  public respondWithError(status: number, message: string) {
+    this.events = [message];
+    this.status = status;
+  }
+
+  /** Chat completion chunks for the given deltas, followed by [DONE] */
+  public static chatChunks(deltas: string[], model = "stub-model"): string[] {
+    return [
+      ...deltas.map((content) =>
+        JSON.stringify({ model, choices: [{ index: 0, delta: { content } }] }),
+      ),
+      JSON.stringify({
+        model,
+        choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      }),
+      "[DONE]",
+    ];
+  }
+
+  public async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        this.requests.push({
+          url: req.url || "",
+          headers: req.headers,
+          body: body ? JSON.parse(body) : undefined,
+        });
+
+        if (this.status !== 200) {
+          res.writeHead(this.status, { "Content-Type": "text/plain" });
+          res.end(this.events[0]);
+          return;
+        }
+
+        res.writeHead(200, {
+          "Content-Type":
+            this.format === "sse"
+              ? "text/event-stream"
+              : "application/x-ndjson",
+          "Cache-Control": "no-cache",
+        });
+        for (const event of this.events) {
+          res.write(
+            this.format === "sse" ? `data: ${event}\n\n` : `${event}\n`,
+          );
+          if (this.delayMs) {
+            await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+          }
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server) return;
+    // The client agent keeps connections alive, which would hold close() open
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  /**
+   * Minimal fetch over node:http that exposes the response body as a
+   * ReadableStream, so chunks arrive as the server writes them.
+   */
+  public fetch = (url: string, init: RequestInit = {}): Promise<any> =>
+    new Promise((resolve, reject) => {
+      const req = http.request(
+        url,
+        {
+          method: init.method || "GET",
+          headers: init.headers as http.OutgoingHttpHeaders,
+        },
+        (res) => {
+          const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+              res.on("data", (chunk: Buffer) =>
+                controller.enqueue(new Uint8Array(chunk)),
+              );
+              res.on("end", () => controller.close());
+              res.on("error", (error) => controller.error(error));
+            },
+          });
+          const ok =
+            (res.statusCode || 0) >= 200 && (res.statusCode || 0) < 300;
+          resolve({
+            ok,
+            status: res.statusCode,
+            statusText: res.statusMessage,
+            body,
+            text: async () => {
+              const reader = body.getReader();
+              const decoder = new TextDecoder();
+              let text = "";
+              for (;;) {
+                const { done, value } = await reader.read();
+                if (done) return text;
+                text += decoder.decode(value, { stream: true });
+              }
+            },
+          });
+        },
+      );
+      req.on("error", reject);
+      init.signal?.addEventListener("abort", () =>
+        req.destroy(new Error("aborted")),
+      );
+      if (init.body) req.write(init.body);
+      req.end();
+    });
+}
@@ -0,0 +1,102 @@
+import { AnalyticsService } from "../../src/services/AnalyticsService";
+import { FollowupEmail } from "../../src/models/FollowupEmail";
+import { ResolvedFollowup } from "../../src/models/ResolvedFollowup";
+
+describe("AnalyticsService", () => {
+  const followup = (id: string): FollowupEmail =>
+    ({ id, subject: `Subject ${id}`, priority: "high" }) as FollowupEmail;
+
+  const resolved = (
+    emailId: string,
+    resolvedAt: string,
+    responseHours: number,
+  ): ResolvedFollowup => ({
+    emailId,
+    subject: `Subject ${emailId}`,
+    recipients: ["client@example.com"],
+    sentDate: "2025-03-03T09:00:00.000Z",
+    responder: "client@example.com",
+    respondedAt: resolvedAt,
+    responseHours,
+    businessHours: responseHours,
+    resolvedAt,
+  });
+
+  it("should summarize activity per week", async () => {
+    const analytics = new AnalyticsService(false);
+    // Wednesday of the previous week and Tuesday of the current week
+    const lastWeek = new Date(2025, 2, 5, 10);
+    const thisWeek = new Date(2025, 2, 11, 10);
+
+    await analytics.recordAnalysisRun(
+      { emailsAnalyzed: 40, followupsFound: 2, durationMs: 1200 },
+      lastWeek,
+    );
+    await analytics.recordFollowupsFound(
+      [followup("a"), followup("b")],
+      lastWeek,
+    );
+    await analytics.recordAction(["a"], "snoozed", lastWeek);
+    await analytics.recordAction(["b"], "replied", thisWeek);
+    await analytics.recordResolved([
+      resolved("b", thisWeek.toISOString(), 10),
+      resolved("c", thisWeek.toISOString(), 30),
+    ]);
+
+    const weeks = await analytics.getWeeklySummary(2, thisWeek);
+
+    expect(weeks).toEqual([
+      {
+        weekStart: "2025-03-03",
+        analysisRuns: 1,
+        followupsFound: 2,
+        replied: 0,
+        snoozed: 1,
+        dismissed: 0,
+        resolved: 0,
+        medianResolutionHours: undefined,
+      },
+      {
+        weekStart: "2025-03-10",
+        analysisRuns: 0,
+        followupsFound: 0,
+        replied: 1,
+        snoozed: 0,
+        dismissed: 0,
+        resolved: 2,
+        medianResolutionHours: 20,
+      },
+    ]);
+  });
+
+  it("should count each follow-up as found only once", async () => {
+    const analytics = new AnalyticsService(false);
+
+    await analytics.recordFollowupsFound([followup("a")]);
+    await analytics.recordFollowupsFound([followup("a"), followup("b")]);
+
+    const found = (await analytics.getRecords()).filter(
+      (record) => record.type === "followup_found",
+    );
+    expect(found.map((record) => record.emailId)).toEqual(["a", "b"]);
+  });
+
+  it("should export the history as JSON and CSV", async () => {
+    const analytics = new AnalyticsService(false);
+    const now = new Date("2025-03-11T10:00:00Z");
+    await analytics.recordAction(['id,with"comma'], "dismissed", now);
+
+    expect(JSON.parse(await analytics.exportJson())).toEqual([
+      {
+        type: "action",
+        timestamp: "2025-03-11T10:00:00.000Z",
+        emailId: 'id,with"comma',
+        action: "dismissed",
+      },
+    ]);
+    expect((await analytics.exportCsv()).split("\n")).toEqual([
+      "type,timestamp,emailId,emailsAnalyzed,followupsFound,durationMs,priority,action,responseHours",
+      'action,2025-03-11T10:00:00.000Z,"id,with""comma",,,,,dismissed,',
+    ]);
+  });
+});
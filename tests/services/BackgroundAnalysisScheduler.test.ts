@@ -0,0 +1,81 @@
+import { BackgroundAnalysisScheduler } from "../../src/services/BackgroundAnalysisScheduler";
+import { FollowupEmail } from "../../src/models/FollowupEmail";
+
+describe("BackgroundAnalysisScheduler", () => {
+  const email = (
+    id: string,
+    priority: FollowupEmail["priority"],
+  ): FollowupEmail => ({
+    id,
+    conversationId: `conv-${id}`,
+    subject: id,
+    recipients: ["client@example.com"],
+    sentDate: new Date("2025-03-03T09:00:00Z"),
+    body: "",
+    summary: "",
+    priority,
+    daysWithoutResponse: 1,
+    hasAttachments: false,
+    accountEmail: "test@example.com",
+    threadMessages: [],
+    isSnoozed: false,
+    isDismissed: false,
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should report new threads and raised priorities only", async () => {
+    const results = [
+      [email("a", "low"), email("b", "high")],
+      [email("a", "medium"), email("b", "high"), email("c", "low")],
+    ];
+    const analyze = vi.fn(async () => results.shift() || []);
+    const onNewlyOverdue = vi.fn();
+    const scheduler = new BackgroundAnalysisScheduler(analyze, onNewlyOverdue);
+
+    // The first result is only the baseline
+    expect(await scheduler.runNow()).toEqual([]);
+    const reported = await scheduler.runNow();
+
+    expect(reported.map((e) => e.id)).toEqual(["a", "c"]);
+    expect(onNewlyOverdue).toHaveBeenCalledTimes(1);
+  });
+
+  it("should compare against a baseline from a manual analysis", async () => {
+    const scheduler = new BackgroundAnalysisScheduler(
+      async () => [email("a", "high"), email("b", "high")],
+      vi.fn(),
+    );
+    scheduler.setBaseline([email("a", "high")]);
+
+    expect((await scheduler.runNow()).map((e) => e.id)).toEqual(["b"]);
+  });
+
+  it("should run on the interval and skip skipped or failing rounds", async () => {
+    vi.useFakeTimers();
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce([email("a", "high")])
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValueOnce([email("a", "high"), email("b", "high")]);
+    const onNewlyOverdue = vi.fn();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const scheduler = new BackgroundAnalysisScheduler(analyze, onNewlyOverdue);
+
+    scheduler.start(15);
+    await vi.advanceTimersByTimeAsync(4 * 15 * 60 * 1000);
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+
+    expect(analyze).toHaveBeenCalledTimes(4);
+    expect(onNewlyOverdue).toHaveBeenCalledTimes(1);
+    expect(
+      onNewlyOverdue.mock.calls[0][0].map((e: FollowupEmail) => e.id),
+    ).toEqual(["b"]);
+    expect(scheduler.isActive()).toBe(false);
+    warn.mockRestore();
+  });
+});
@@ -261,5 +261,52 @@ describe("ConfigurationService", () => {
         }),
       );
     });
+
+    it("should save the provider and model picked in the settings", async () => {
+      mockRoamingSettings.get.mockReturnValue({ llmProvider: "dial" });
+      mockRoamingSettings.saveAsync.mockImplementation((callback: any) => {
+        callback({ status: "succeeded" });
+      });
+
+      await service.updateLlmSettings(
+        "http://localhost:8080/v1",
+        "",
+        true,
+        true,
+        { llmProvider: "openai-compatible", llmModel: "qwen2.5-7b" },
+      );
+
+      expect(mockRoamingSettings.set).toHaveBeenCalledWith(
+        "followup-suggester-config",
+        expect.objectContaining({
+          llmApiEndpoint: "http://localhost:8080/v1",
+          llmProvider: "openai-compatible",
+          llmModel: "qwen2.5-7b",
+        }),
+      );
+    });
+
+    it("should treat a local Ollama server as configured without an API key", async () => {
+      let stored: any = {};
+      mockRoamingSettings.get.mockImplementation(() => stored);
+      mockRoamingSettings.set.mockImplementation((_key: string, value: any) => {
+        stored = value;
+      });
+      mockRoamingSettings.saveAsync.mockImplementation((callback: any) => {
+        callback({ status: "succeeded" });
+      });
+
+      await service.setupOllama(undefined, "mistral");
+
+      await expect(service.getLlmConfiguration()).resolves.toEqual(
+        expect.objectContaining({
+          provider: "ollama",
+          endpoint: "http://localhost:11434",
+          apiKey: "",
+          model: "mistral",
+          isConfigured: true,
+        }),
+      );
+    });
   });
 });
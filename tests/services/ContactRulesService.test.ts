@@ -0,0 +1,62 @@
+import { ContactRulesService } from "../../src/services/ContactRulesService";
+
+describe("ContactRulesService", () => {
+  it("should match VIP addresses and domains including subdomains", () => {
+    const rules = new ContactRulesService({
+      vipAddresses: ["CEO@Example.com"],
+      vipDomains: ["@bigclient.com"],
+    });
+
+    expect(rules.isVip("Chris <ceo@example.com>")).toBe(true);
+    expect(rules.isVip("dana@bigclient.com")).toBe(true);
+    expect(rules.isVip("eu-sales@emea.bigclient.com")).toBe(true);
+    expect(rules.isVip("someone@notbigclient.com")).toBe(false);
+    expect(
+      rules.findVip(["colleague@example.com", "Dana <dana@bigclient.com>"]),
+    ).toBe("dana@bigclient.com");
+  });
+
+  it("should never track no-reply senders and mailing lists by default", () => {
+    const rules = new ContactRulesService();
+
+    expect(rules.isNeverTracked("No-Reply@github.com")).toBe(true);
+    expect(rules.isNeverTracked("dev@lists.example.org")).toBe(true);
+    expect(rules.isNeverTracked("anna@example.com")).toBe(false);
+  });
+
+  it("should support addresses, domains, local parts and patterns", () => {
+    const rules = new ContactRulesService({
+      neverTrack: [
+        "alerts@example.com",
+        "@newsletters.com",
+        "bounce",
+        "*-digest@*",
+      ],
+    });
+
+    expect(rules.isNeverTracked("alerts@example.com")).toBe(true);
+    expect(rules.isNeverTracked("weekly@newsletters.com")).toBe(true);
+    expect(rules.isNeverTracked("bounce@mail.example.com")).toBe(true);
+    expect(rules.isNeverTracked("team-digest@example.com")).toBe(true);
+    expect(rules.isNeverTracked("bouncer@example.com")).toBe(false);
+    expect(rules.isNeverTracked("no-reply@example.com")).toBe(false);
+  });
+
+  it("should keep tracking mail that has at least one tracked recipient", () => {
+    const rules = new ContactRulesService();
+
+    expect(rules.shouldTrack(["no-reply@example.com"])).toBe(false);
+    expect(
+      rules.shouldTrack(["no-reply@example.com", "anna@example.com"]),
+    ).toBe(true);
+    expect(rules.shouldTrack([])).toBe(true);
+  });
+
+  it("should parse settings lists", () => {
+    expect(
+      ContactRulesService.parseList(
+        "ceo@example.com\n\n cfo@example.com, @vip.com;",
+      ),
+    ).toEqual(["ceo@example.com", "cfo@example.com", "@vip.com"]);
+  });
+});
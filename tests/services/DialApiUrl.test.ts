@@ -61,7 +61,9 @@ describe("DIAL API URL Construction", () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({
-        choices: [{ message: { content: "1. Test suggestion" } }],
+        choices: [
+          { message: { content: '{"suggestions":["Test suggestion"]}' } },
+        ],
       }),
     } as Response);
 
@@ -96,7 +98,9 @@ describe("DIAL API URL Construction", () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({
-        choices: [{ message: { content: "1. Custom suggestion" } }],
+        choices: [
+          { message: { content: '{"suggestions":["Custom suggestion"]}' } },
+        ],
       }),
     } as Response);
 
@@ -124,7 +128,9 @@ describe("DIAL API URL Construction", () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({
-        choices: [{ message: { content: "1. Fallback suggestion" } }],
+        choices: [
+          { message: { content: '{"suggestions":["Fallback suggestion"]}' } },
+        ],
       }),
     } as Response);
 
@@ -148,7 +154,7 @@ describe("DIAL API URL Construction", () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({
-        choices: [{ message: { content: "1. Slash test" } }],
+        choices: [{ message: { content: '{"suggestions":["Slash test"]}' } }],
       }),
     } as Response);
 
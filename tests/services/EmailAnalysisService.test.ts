@@ -1,5 +1,6 @@
 import { EmailAnalysisService } from "../../src/services/EmailAnalysisService";
 import { LlmService } from "../../src/services/LlmService";
+import { LlmUsageService } from "../../src/services/LlmUsageService";
 import { ThreadMessage } from "../../src/models/FollowupEmail";
 
 describe("EmailAnalysisService", () => {
@@ -10,6 +11,7 @@ describe("EmailAnalysisService", () => {
     service = new EmailAnalysisService();
     mockLlmService = {
       analyzeThread: vi.fn(),
+      analyzeFollowup: vi.fn(),
       analyzeSentiment: vi.fn().mockResolvedValue({ sentiment: "neutral" }),
       getAvailableModels: vi.fn(),
       checkModelLimits: vi.fn(),
@@ -18,66 +20,80 @@ describe("EmailAnalysisService", () => {
   });
 
   describe("Priority Calculation", () => {
+    const calculatePriority = (
+      daysWaiting: number,
+      hasThread: boolean,
+      sentiment: string,
+    ) =>
+      (service as any).scorePriority({
+        daysWaiting,
+        threadLength: hasThread ? 2 : 1,
+        sentiment,
+        recipients: ["colleague@example.com"],
+        hasAttachments: false,
+        userEmail: "test@example.com",
+      }).level;
+
     it("should calculate high priority for emails older than 7 days", () => {
-      const priority = (service as any).calculateEnhancedPriority(
-        8,
-        false,
-        "neutral",
-      );
+      const priority = calculatePriority(8, false, "neutral");
       expect(priority).toBe("high");
     });
 
     it("should calculate medium priority for emails 3-6 days old", () => {
-      const priority = (service as any).calculateEnhancedPriority(
-        5,
-        false,
-        "neutral",
-      );
+      const priority = calculatePriority(5, false, "neutral");
       expect(priority).toBe("medium");
     });
 
     it("should calculate low priority for emails less than 3 days old", () => {
-      const priority = (service as any).calculateEnhancedPriority(
-        2,
-        false,
-        "neutral",
-      );
+      const priority = calculatePriority(2, false, "neutral");
       expect(priority).toBe("low");
     });
 
     it("should boost priority for threaded conversations", () => {
-      const lowPriority = (service as any).calculateEnhancedPriority(
-        2,
-        true,
-        "neutral",
-      );
+      const lowPriority = calculatePriority(2, true, "neutral");
       expect(lowPriority).toBe("medium");
 
-      const mediumPriority = (service as any).calculateEnhancedPriority(
-        5,
-        true,
-        "neutral",
-      );
+      const mediumPriority = calculatePriority(5, true, "neutral");
       expect(mediumPriority).toBe("high");
     });
 
     it("should boost priority for urgent sentiment", () => {
-      const urgentPriority = (service as any).calculateEnhancedPriority(
-        2,
-        false,
-        "urgent",
-      );
+      const urgentPriority = calculatePriority(2, false, "urgent");
       expect(urgentPriority).toBe("high");
     });
 
     it("should boost priority for negative sentiment", () => {
-      const negativePriority = (service as any).calculateEnhancedPriority(
-        1,
-        false,
-        "negative",
-      );
+      const negativePriority = calculatePriority(1, false, "negative");
       expect(negativePriority).toBe("medium");
     });
+
+    it("should count attachments of the last message in the priority", async () => {
+      const heuristicService = new EmailAnalysisService();
+      const lastMessage: ThreadMessage = {
+        id: "msg1",
+        subject: "Contract draft",
+        from: "test@example.com",
+        to: ["legal@partner.com"],
+        sentDate: new Date(),
+        body: "Please find the contract draft attached.",
+        isFromCurrentUser: true,
+        hasAttachments: true,
+      };
+
+      const followupEmail = await (
+        heuristicService as any
+      ).createFollowupEmailEnhanced(
+        "conv-attachments",
+        lastMessage,
+        [lastMessage],
+        "test@example.com",
+      );
+
+      expect(followupEmail.hasAttachments).toBe(true);
+      expect(followupEmail.priorityBreakdown).toContainEqual(
+        expect.objectContaining({ factor: "attachments" }),
+      );
+    });
   });
 
   describe("Summary Generation", () => {
@@ -200,11 +216,19 @@ describe("EmailAnalysisService", () => {
   });
 
   describe("LLM Integration", () => {
+    const followupAnalysis = {
+      summary: "AI-generated summary",
+      sentiment: "urgent" as const,
+      urgency: "high" as const,
+      needsFollowup: true,
+      followupReason: "Question unanswered",
+      nextStep: "Call the client",
+      drafts: ["AI suggestion", "Second draft"],
+      usage: { promptTokens: 400, completionTokens: 100, totalTokens: 500 },
+    };
+
     it("should use LLM summary when available", async () => {
-      mockLlmService.analyzeThread.mockResolvedValue("AI-generated summary");
-      mockLlmService.generateFollowupSuggestions = vi
-        .fn()
-        .mockResolvedValue(["AI suggestion"]);
+      mockLlmService.analyzeFollowup.mockResolvedValue(followupAnalysis);
 
       const mockLastMessage: ThreadMessage = {
         id: "msg1",
@@ -228,8 +252,50 @@ describe("EmailAnalysisService", () => {
       expect(followupEmail.llmSummary).toBe("AI-generated summary");
     });
 
+    it("should analyze a follow-up with a single LLM request", async () => {
+      mockLlmService.analyzeFollowup.mockResolvedValue(followupAnalysis);
+      mockLlmService.generateFollowupSuggestions = vi.fn();
+      const mockLastMessage: ThreadMessage = {
+        id: "msg1",
+        subject: "Test Subject",
+        from: "test@example.com",
+        to: ["recipient@example.com"],
+        sentDate: new Date(),
+        body: "Can you send the contract?",
+        isFromCurrentUser: true,
+      };
+
+      const followupEmail = await (service as any).createFollowupEmailEnhanced(
+        "conv-ai-3",
+        mockLastMessage,
+        [mockLastMessage],
+        "test@example.com",
+      );
+
+      expect(mockLlmService.analyzeFollowup).toHaveBeenCalledTimes(1);
+      expect(mockLlmService.analyzeThread).not.toHaveBeenCalled();
+      expect(mockLlmService.analyzeSentiment).not.toHaveBeenCalled();
+      expect(mockLlmService.generateFollowupSuggestions).not.toHaveBeenCalled();
+      expect(followupEmail.sentiment).toBe("urgent");
+      expect(followupEmail.priority).toBe("high");
+      expect(followupEmail.llmSuggestions).toEqual([
+        "AI suggestion",
+        "Second draft",
+      ]);
+      expect(followupEmail.llmNextStep).toBe("Call the client");
+      expect(followupEmail.llmUrgency).toBe("high");
+      expect(followupEmail.llmUsage).toEqual(followupAnalysis.usage);
+      expect(service.getAnalytics().llmUsage).toEqual({
+        analyses: 1,
+        promptTokens: 400,
+        completionTokens: 100,
+        totalTokens: 500,
+        averageTokensPerAnalysis: 500,
+      });
+    });
+
     it("should fallback to basic summary when LLM fails", async () => {
-      mockLlmService.analyzeThread.mockRejectedValue(new Error("API Error"));
+      mockLlmService.analyzeFollowup.mockRejectedValue(new Error("API Error"));
 
       const mockLastMessage: ThreadMessage = {
         id: "msg1",
@@ -254,25 +320,319 @@ describe("EmailAnalysisService", () => {
       expect(followupEmail.llmSuggestion).toBeUndefined();
       expect(followupEmail.llmSummary).toBeUndefined();
     });
-  });
 
-  describe("Thread Analysis and Response Detection (Bug Fixes)", () => {
-    describe("GetConversationItems SOAP request", () => {
-      it("should include proper namespace declarations on the Envelope tag", () => {
-        const req = (service as any).buildGetConversationItemsRequest("ABC123");
-        expect(req).toContain("<soap:Envelope");
-        // Namespaces must be on the same opening tag
-        expect(req).toContain(
-          'xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"',
+    it("should use heuristics once the daily AI budget is exceeded", async () => {
+      localStorage.clear();
+      const ledger = new LlmUsageService({ llmDailyTokenBudget: 500 });
+      ledger.record("followup_analysis", "gpt-4o-mini", followupAnalysis.usage);
+      service.setLlmUsageLedger(ledger);
+      mockLlmService.analyzeFollowup.mockResolvedValue(followupAnalysis);
+
+      const mockLastMessage: ThreadMessage = {
+        id: "msg1",
+        subject: "Test Subject",
+        from: "test@example.com",
+        to: ["recipient@example.com"],
+        sentDate: new Date(),
+        body: "This is urgent, please reply asap.",
+        isFromCurrentUser: true,
+      };
+
+      const followupEmail = await (service as any).createFollowupEmailEnhanced(
+        "conv-ai-4",
+        mockLastMessage,
+        [mockLastMessage],
+        "test@example.com",
+      );
+
+      expect(mockLlmService.analyzeFollowup).not.toHaveBeenCalled();
+      expect(followupEmail.summary).toBe("This is urgent, please reply asap.");
+      expect(followupEmail.sentiment).toBe("urgent");
+      expect(followupEmail.llmSuggestion).toBeUndefined();
+    });
+
+    describe("Streaming", () => {
+      const mockLastMessage: ThreadMessage = {
+        id: "msg1",
+        subject: "Test Subject",
+        from: "test@example.com",
+        to: ["recipient@example.com"],
+        sentDate: new Date("2025-01-25T10:00:00Z"),
+        body: "Did you have a chance to review?",
+        isFromCurrentUser: true,
+      };
+
+      async function* stream<T>(deltas: string[], result: T) {
+        for (const delta of deltas) {
+          yield delta;
+        }
+        return result;
+      }
+
+      it("should make no LLM calls when streaming is enabled", async () => {
+        service.setLlmStreaming(true);
+
+        const followupEmail = await (
+          service as any
+        ).createFollowupEmailEnhanced(
+          "conv-stream-1",
+          mockLastMessage,
+          [mockLastMessage],
+          "test@example.com",
         );
-        expect(req).toContain(
-          'xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages"',
+
+        expect(mockLlmService.analyzeFollowup).not.toHaveBeenCalled();
+        expect(mockLlmService.analyzeSentiment).not.toHaveBeenCalled();
+        expect(followupEmail.summary).toBe("Did you have a chance to review?");
+        expect(followupEmail.llmSummary).toBeUndefined();
+        expect(followupEmail.sentiment).toBe("neutral");
+      });
+
+      const streamedAnalysis = {
+        summary: "Waiting on review",
+        sentiment: "neutral" as const,
+        urgency: "medium" as const,
+        needsFollowup: true,
+        followupReason: "Review pending",
+        nextStep: "Ping the reviewer",
+        drafts: ["Ping", "Call"],
+        usage: { promptTokens: 300, completionTokens: 80, totalTokens: 380 },
+      };
+
+      it("should report accumulated text and update the email", async () => {
+        mockLlmService.streamFollowupAnalysis = vi
+          .fn()
+          .mockReturnValue(stream(["Waiting ", "on review"], streamedAnalysis));
+        const followupEmail = await (
+          service as any
+        ).createFollowupEmailEnhanced(
+          "conv-stream-2",
+          mockLastMessage,
+          [mockLastMessage],
+          "test@example.com",
         );
-        expect(req).toContain(
-          'xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types"',
+        const updates: any[] = [];
+
+        await service.streamLlmInsights(followupEmail, (update) =>
+          updates.push(update),
         );
+
+        expect(updates.map((u) => [u.field, u.text, u.done])).toEqual([
+          ["summary", "Waiting ", false],
+          ["summary", "Waiting on review", false],
+          ["summary", "Waiting on review", true],
+          ["suggestion", "Ping", true],
+        ]);
+        expect(updates[3].usage).toEqual(streamedAnalysis.usage);
+        expect(mockLlmService.streamFollowupAnalysis).toHaveBeenCalledTimes(1);
+        expect(followupEmail.llmSummary).toBe("Waiting on review");
+        expect(followupEmail.summary).toBe("Waiting on review");
+        expect(followupEmail.llmSuggestion).toBe("Ping");
+        expect(followupEmail.llmSuggestions).toEqual(["Ping", "Call"]);
+        expect(followupEmail.llmUsage).toEqual(streamedAnalysis.usage);
+      });
+
+      it("should skip parts disabled in the configuration", async () => {
+        mockLlmService.streamFollowupAnalysis = vi
+          .fn()
+          .mockReturnValue(stream(["Waiting"], streamedAnalysis));
+        service.setConfiguration({
+          enableLlmSummary: false,
+          enableLlmSuggestions: true,
+        } as any);
+        const followupEmail = await (
+          service as any
+        ).createFollowupEmailEnhanced(
+          "conv-stream-3",
+          mockLastMessage,
+          [mockLastMessage],
+          "test@example.com",
+        );
+
+        const updates: any[] = [];
+
+        await service.streamLlmInsights(followupEmail, (update) =>
+          updates.push(update),
+        );
+
+        expect(updates.map((u) => u.field)).toEqual(["suggestion"]);
+        expect(followupEmail.llmSummary).toBeUndefined();
+        expect(followupEmail.llmSuggestion).toBe("Ping");
+      });
+
+      it("should not call the LLM when summary and suggestions are disabled", async () => {
+        mockLlmService.streamFollowupAnalysis = vi.fn();
+        service.setConfiguration({
+          enableLlmSummary: false,
+          enableLlmSuggestions: false,
+        } as any);
+        const followupEmail = await (
+          service as any
+        ).createFollowupEmailEnhanced(
+          "conv-stream-4",
+          mockLastMessage,
+          [mockLastMessage],
+          "test@example.com",
+        );
+
+        await service.streamLlmInsights(followupEmail, () => {});
+
+        expect(mockLlmService.streamFollowupAnalysis).not.toHaveBeenCalled();
       });
+
+      it("should keep the AI results in the cached analysis", async () => {
+        service.setLlmStreaming(true);
+        mockLlmService.streamFollowupAnalysis = vi
+          .fn()
+          .mockReturnValue(stream(["Waiting on review"], streamedAnalysis));
+        vi.spyOn(
+          service as any,
+          "getConversationItemsConversationCached",
+        ).mockResolvedValue([mockLastMessage]);
+        const create = vi.spyOn(service as any, "createFollowupEmailEnhanced");
+        const analyze = () =>
+          (service as any).processConversationWithCaching(
+            "conv-stream-5",
+            [{ id: mockLastMessage.id }],
+            "test@example.com",
+            [],
+          );
+
+        await service.streamLlmInsights(await analyze(), () => {});
+        const cached = await analyze();
+
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(cached.llmSummary).toBe("Waiting on review");
+        expect(cached.summary).toBe("Waiting on review");
+        expect(cached.llmSuggestions).toEqual(["Ping", "Call"]);
+        expect(cached.llmNextStep).toBe("Ping the reviewer");
+      });
+    });
+  });
+
+  describe("Progress and Cancellation", () => {
+    const emails = [
+      { id: "a1", conversationId: "conv-a", dateTimeSent: "2025-03-03" },
+      { id: "b1", conversationId: "conv-b", dateTimeSent: "2025-03-04" },
+    ];
+    const followup = (id: string) => ({
+      id,
+      subject: id,
+      priority: "low",
+      sentDate: new Date("2025-03-03T10:00:00Z"),
+      conversationId: `conv-${id}`,
+      recipients: ["client@example.com"],
+      threadMessages: [],
+      isSnoozed: false,
+      isDismissed: false,
+    });
+
+    beforeEach(() => {
+      service.setMailSource({
+        kind: "replay",
+        isAvailable: () => true,
+        getCurrentUserEmail: () => "user@example.com",
+      } as any);
+      vi.spyOn(service as any, "getRecentEmailsSynced").mockResolvedValue(
+        emails,
+      );
+    });
+
+    it("should report each phase and conversation", async () => {
+      vi.spyOn(
+        service as any,
+        "processConversationWithCaching",
+      ).mockImplementation(async (...args: any[]) =>
+        followup(String(args[0]).replace("conv-", "")),
+      );
+      const progress: any[] = [];
+
+      await service.analyzeEmails(25, 30, [], (update) =>
+        progress.push(update),
+      );
+
+      expect(progress.map((update) => update.phase)).toEqual([
+        "fetch",
+        "group",
+        "analyze",
+        "analyze",
+        "analyze",
+      ]);
+      expect(progress[1]).toMatchObject({
+        emailCount: 2,
+        conversationCount: 2,
+      });
+      expect(progress[4]).toMatchObject({
+        conversationsDone: 2,
+        conversationCount: 2,
+        etaMs: 0,
+      });
+    });
+
+    it("should return the follow-ups found before cancelling", async () => {
+      const process = vi
+        .spyOn(service as any, "processConversationWithCaching")
+        .mockImplementation(async (...args: any[]) => {
+          service.cancelAnalysis();
+          return followup(String(args[0]).replace("conv-", ""));
+        });
+
+      const result = await service.analyzeEmails(25, 30, []);
+
+      expect(process).toHaveBeenCalledTimes(1);
+      expect(result.map((email) => email.id)).toEqual(["a"]);
+    });
+
+    it("should stream follow-ups as conversations finish, deduped", async () => {
+      vi.spyOn(
+        service as any,
+        "processConversationWithCaching",
+      ).mockImplementation(async (...args: any[]) => ({
+        ...followup(String(args[0]).replace("conv-", "")),
+        // Both conversations turn out to be the same thread, b is newer
+        conversationId: "conv-shared",
+        sentDate: new Date(
+          args[0] === "conv-a"
+            ? "2025-03-03T10:00:00Z"
+            : "2025-03-04T10:00:00Z",
+        ),
+      }));
+      const updates: any[] = [];
+
+      const stream = service.streamFollowups(25, 30, []);
+      let next = await stream.next();
+      while (!next.done) {
+        updates.push(next.value);
+        next = await stream.next();
+      }
+
+      expect(
+        updates.map((update) => [update.email.id, update.removedIds]),
+      ).toEqual([
+        ["a", []],
+        ["b", ["a"]],
+      ]);
+      expect(next.value.map((email) => email.id)).toEqual(["b"]);
+    });
+
+    it("should not analyze conversations when cancelled while fetching", async () => {
+      vi.spyOn(service as any, "getRecentEmailsSynced").mockImplementation(
+        async () => {
+          service.cancelAnalysis();
+          return emails;
+        },
+      );
+      const process = vi.spyOn(
+        service as any,
+        "processConversationWithCaching",
+      );
+
+      expect(await service.analyzeEmails(25, 30, [])).toEqual([]);
+      expect(process).not.toHaveBeenCalled();
     });
+  });
+
+  describe("Thread Analysis and Response Detection (Bug Fixes)", () => {
     describe("getLastMessageInThread", () => {
       it("should return the chronologically latest message", () => {
         const messages: ThreadMessage[] = [
@@ -483,81 +843,6 @@ describe("EmailAnalysisService", () => {
       });
     });
 
-    describe("parseMessageElement - Case-insensitive email comparison", () => {
-      beforeEach(() => {
-        // Mock Office context for these tests
-        (global as any).Office = {
-          context: {
-            mailbox: {
-              userProfile: {
-                emailAddress: "User@Example.com", // Mixed case to test normalization
-              },
-            },
-          },
-        };
-      });
-
-      it("should correctly identify current user messages with case variations", () => {
-        const mockElement = document.createElement("div");
-        mockElement.innerHTML = `
-          <t:ItemId Id="test-id" />
-          <t:Subject>Test Subject</t:Subject>
-          <t:DateTimeSent>2025-01-20T10:00:00Z</t:DateTimeSent>
-          <t:From>
-            <t:Mailbox>
-              <t:EmailAddress>user@example.com</t:EmailAddress>
-            </t:Mailbox>
-          </t:From>
-          <t:ToRecipients>
-            <t:Mailbox>
-              <t:EmailAddress>recipient@example.com</t:EmailAddress>
-            </t:Mailbox>
-          </t:ToRecipients>
-          <t:Body>Test body</t:Body>
-        `;
-
-        const currentUserEmail = "User@Example.com";
-        const message = (service as any).parseMessageElement(
-          mockElement,
-          currentUserEmail,
-        );
-
-        expect(message).not.toBeNull();
-        expect(message.isFromCurrentUser).toBe(true); // Should be true despite case difference
-        expect(message.from).toBe("user@example.com");
-      });
-
-      it("should correctly identify external messages", () => {
-        const mockElement = document.createElement("div");
-        mockElement.innerHTML = `
-          <t:ItemId Id="test-id" />
-          <t:Subject>Test Subject</t:Subject>
-          <t:DateTimeSent>2025-01-20T10:00:00Z</t:DateTimeSent>
-          <t:From>
-            <t:Mailbox>
-              <t:EmailAddress>OTHER@EXAMPLE.COM</t:EmailAddress>
-            </t:Mailbox>
-          </t:From>
-          <t:ToRecipients>
-            <t:Mailbox>
-              <t:EmailAddress>user@example.com</t:EmailAddress>
-            </t:Mailbox>
-          </t:ToRecipients>
-          <t:Body>Test body</t:Body>
-        `;
-
-        const currentUserEmail = "user@example.com";
-        const message = (service as any).parseMessageElement(
-          mockElement,
-          currentUserEmail,
-        );
-
-        expect(message).not.toBeNull();
-        expect(message.isFromCurrentUser).toBe(false);
-        expect(message.from).toBe("OTHER@EXAMPLE.COM");
-      });
-    });
-
     describe("Conversation Processing Integration Tests", () => {
       beforeEach(() => {
         // Mock Office context
@@ -671,6 +956,33 @@ describe("EmailAnalysisService", () => {
         expect(result.id).toBe("msg2");
       });
 
+      it("should skip follow-ups addressed only to never-track contacts", async () => {
+        const mockThreadMessages: ThreadMessage[] = [
+          {
+            id: "msg1",
+            subject: "Unsubscribe",
+            from: "user@example.com",
+            to: ["no-reply@vendor.com", "announce@lists.example.org"],
+            sentDate: new Date("2025-01-22T15:00:00Z"),
+            body: "Please remove me from this list",
+            isFromCurrentUser: true,
+          },
+        ];
+        vi.spyOn(
+          service as any,
+          "getConversationThreadCached",
+        ).mockResolvedValue(mockThreadMessages);
+
+        const result = await (service as any).processConversationWithCaching(
+          "conv1",
+          [{ id: "msg1" }],
+          "user@example.com",
+          [],
+        );
+
+        expect(result).toBeNull();
+      });
+
       it("should handle conversations with mixed case email addresses", async () => {
         const mockThreadMessages: ThreadMessage[] = [
           {
@@ -849,6 +1161,49 @@ describe("EmailAnalysisService", () => {
         );
         expect(result).toBeNull();
       });
+
+      it("should keep the cached analysis when the returned follow-up is changed", async () => {
+        const thread: ThreadMessage[] = [
+          {
+            id: "d1",
+            subject: "Proposal",
+            from: "user@example.com",
+            to: ["client@example.com"],
+            sentDate: new Date("2025-01-20T10:00:00Z"),
+            body: "Any thoughts on the proposal?",
+            isFromCurrentUser: true,
+          },
+        ];
+        vi.spyOn(
+          service as any,
+          "getConversationThreadCached",
+        ).mockResolvedValue(thread);
+        const create = vi.spyOn(service as any, "createFollowupEmailEnhanced");
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        const first = await (service as any).processConversationWithCaching(
+          "conv-d",
+          [{ id: "d1" }],
+          "user@example.com",
+          [],
+        );
+        first.returnedFromSnooze = true;
+        first.llmSummary = "Waiting on the client";
+        const second = await (service as any).processConversationWithCaching(
+          "conv-d",
+          [{ id: "d1" }],
+          "user@example.com",
+          [],
+        );
+
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(second).not.toBe(first);
+        expect(second.returnedFromSnooze).toBeUndefined();
+        expect(warn).not.toHaveBeenCalledWith(
+          expect.stringContaining("Cache integrity check failed"),
+        );
+        warn.mockRestore();
+      });
     });
 
     describe("Dedupe Followup Emails", () => {
@@ -1066,226 +1421,6 @@ describe("EmailAnalysisService", () => {
         };
       });
 
-      it("should build deep traversal request for root folder (msgfolderroot)", async () => {
-        const spy = vi.spyOn(service as any, "buildSearchConversationRequest");
-        // Force search across folders
-        vi.spyOn(
-          service as any,
-          "searchConversationInFolder",
-        ).mockImplementation(async (...args: any[]) => {
-          const conv = args[0];
-          const folder = args[1];
-          (service as any).buildSearchConversationRequest(
-            conv,
-            folder,
-            folder === "msgfolderroot" ? "Deep" : "Shallow",
-          );
-          return [];
-        });
-        await (service as any).searchConversationAcrossFolders("conv-deep");
-        const deepCall = spy.mock.calls.find((c) => c[1] === "msgfolderroot");
-        expect(deepCall).toBeDefined();
-        if (deepCall) {
-          expect(deepCall[2]).toBe("Deep");
-        }
-        spy.mockRestore();
-      });
-
-      it("should include archive and root folders in folder scan ordering", async () => {
-        const foldersEncountered: string[] = [];
-        vi.spyOn(
-          service as any,
-          "searchConversationInFolder",
-        ).mockImplementation(async (...args: any[]) => {
-          const folder = args[1];
-          foldersEncountered.push(folder);
-          return [];
-        });
-        await (service as any).searchConversationAcrossFolders("conv-folders");
-        [
-          "sentitems",
-          "inbox",
-          "drafts",
-          "deleteditems",
-          "archive",
-          "msgfolderroot",
-        ].forEach((f) => expect(foldersEncountered).toContain(f));
-      });
-
-      it("should search conversation across multiple folders", async () => {
-        // Mock the searchConversationAcrossFolders method
-        const mockSearchResults: ThreadMessage[] = [
-          {
-            id: "msg1",
-            subject: "Original Email",
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"),
-            body: "Original message",
-            isFromCurrentUser: true,
-          },
-          {
-            id: "msg2",
-            subject: "Re: Original Email",
-            from: "client@example.com",
-            to: ["user@example.com"],
-            sentDate: new Date("2025-01-22T15:00:00Z"),
-            body: "Response message",
-            isFromCurrentUser: false,
-          },
-        ];
-
-        vi.spyOn(
-          service as any,
-          "searchConversationAcrossFolders",
-        ).mockResolvedValue(mockSearchResults);
-
-        vi.spyOn(service as any, "parseConversationIdResponse").mockReturnValue(
-          "conv-123",
-        );
-
-        const result = await (service as any).searchConversationAcrossFolders(
-          "conv-123",
-        );
-
-        expect(result).toHaveLength(2);
-        expect(result[0].isFromCurrentUser).toBe(true);
-        expect(result[1].isFromCurrentUser).toBe(false);
-      });
-
-      it("should remove duplicate messages from search results", () => {
-        const duplicateMessages: ThreadMessage[] = [
-          {
-            id: "msg1",
-            subject: "Test Email",
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"),
-            body: "Test message",
-            isFromCurrentUser: true,
-          },
-          {
-            id: "msg1", // Same ID - should be deduplicated
-            subject: "Test Email",
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"),
-            body: "Test message",
-            isFromCurrentUser: true,
-          },
-          {
-            id: "msg2",
-            subject: "Different Email",
-            from: "client@example.com",
-            to: ["user@example.com"],
-            sentDate: new Date("2025-01-21T10:00:00Z"),
-            body: "Different message",
-            isFromCurrentUser: false,
-          },
-        ];
-
-        const uniqueMessages = (service as any).removeDuplicateMessages(
-          duplicateMessages,
-        );
-
-        expect(uniqueMessages).toHaveLength(2);
-        expect(uniqueMessages[0].id).toBe("msg1");
-        expect(uniqueMessages[1].id).toBe("msg2");
-      });
-
-      it("should handle messages without IDs using content-based deduplication", () => {
-        const messagesWithoutIds: ThreadMessage[] = [
-          {
-            id: "",
-            subject: "Test Email",
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"),
-            body: "Test message",
-            isFromCurrentUser: true,
-          },
-          {
-            id: "",
-            subject: "Test Email", // Same content - should be deduplicated
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"),
-            body: "Test message",
-            isFromCurrentUser: true,
-          },
-        ];
-
-        const uniqueMessages = (service as any).removeDuplicateMessages(
-          messagesWithoutIds,
-        );
-
-        expect(uniqueMessages).toHaveLength(1);
-      });
-
-      it("should sort messages chronologically", async () => {
-        const unsortedMessages: ThreadMessage[] = [
-          {
-            id: "msg2",
-            subject: "Second Email",
-            from: "client@example.com",
-            to: ["user@example.com"],
-            sentDate: new Date("2025-01-22T15:00:00Z"), // Later date: 1737558000000
-            body: "Second message",
-            isFromCurrentUser: false,
-          },
-          {
-            id: "msg1",
-            subject: "First Email",
-            from: "user@example.com",
-            to: ["client@example.com"],
-            sentDate: new Date("2025-01-20T10:00:00Z"), // Earlier date: 1737367200000
-            body: "First message",
-            isFromCurrentUser: true,
-          },
-        ];
-
-        // Mock the individual folder searches to return messages in different orders
-        const mockSearchConversationInFolder = vi
-          .spyOn(service as any, "searchConversationInFolder")
-          .mockImplementation(async (...args: any[]) => {
-            const [, folderId] = args;
-            if (folderId === "sentitems") {
-              return [unsortedMessages[1]]; // Return msg1 from sent items
-            } else if (folderId === "inbox") {
-              return [unsortedMessages[0]]; // Return msg2 from inbox
-            }
-            return [];
-          });
-
-        // Mock the removeDuplicateMessages to return the messages as-is (no duplicates in this test)
-        const mockRemoveDuplicateMessages = vi
-          .spyOn(service as any, "removeDuplicateMessages")
-          .mockImplementation((...args: any[]) => {
-            const [messages] = args;
-            return messages;
-          });
-
-        const result = await (service as any).searchConversationAcrossFolders(
-          "conv-123",
-        );
-
-        // Verify the result is sorted chronologically (earliest first)
-        expect(result).toHaveLength(2);
-        expect(result[0].sentDate.getTime()).toBeLessThan(
-          result[1].sentDate.getTime(),
-        );
-        expect(result[0].id).toBe("msg1"); // Earlier message first (2025-01-20)
-        expect(result[1].id).toBe("msg2"); // Later message second (2025-01-22)
-
-        // Additional verification with actual timestamps
-        expect(result[0].sentDate.getTime()).toBe(1737367200000); // 2025-01-20T10:00:00Z
-        expect(result[1].sentDate.getTime()).toBe(1737558000000); // 2025-01-22T15:00:00Z
-
-        // Restore the original implementations
-        mockSearchConversationInFolder.mockRestore();
-        mockRemoveDuplicateMessages.mockRestore();
-      });
-
       it("should build an artificial thread from recent emails when only single message is available", async () => {
         // Set up Office context for current user
         (global as any).Office = {
@@ -1347,14 +1482,14 @@ describe("EmailAnalysisService", () => {
     });
 
     describe("ConversationId-first Retrieval Path", () => {
-      let ewsSpy: jest.SpyInstance;
+      let mailSourceSpy: jest.SpyInstance;
       beforeEach(() => {
-        ewsSpy = vi
-          .spyOn(service as any, "isEwsAvailable")
-          .mockReturnValue(true);
+        mailSourceSpy = vi
+          .spyOn(service as any, "getMailSource")
+          .mockReturnValue({ isAvailable: () => true });
       });
       afterEach(() => {
-        ewsSpy.mockRestore();
+        mailSourceSpy.mockRestore();
       });
 
       it("should use GetConversationItems path and skip folder/item fallbacks", async () => {
@@ -1766,71 +1901,155 @@ describe("EmailAnalysisService", () => {
         expect(suppressed).toBe(true);
       });
     });
+  });
 
-    describe("parseGetConversationItemsResponse", () => {
-      beforeEach(() => {
-        // Ensure current user email matches the XML for deterministic assertions
-        (global as any).Office = {
-          context: {
-            mailbox: {
-              userProfile: {
-                emailAddress: "test@example.com",
-              },
-            },
-          },
-        };
+  describe("Reply Check", () => {
+    const message = (
+      id: string,
+      isFromCurrentUser: boolean,
+      sentDate: string,
+    ): ThreadMessage => ({
+      id,
+      subject: "Proposal",
+      from: isFromCurrentUser ? "test@example.com" : "client@example.com",
+      to: [isFromCurrentUser ? "client@example.com" : "test@example.com"],
+      sentDate: new Date(sentDate),
+      body: "",
+      isFromCurrentUser,
+    });
+    const followup = (id: string, conversationId: string, sentDate: string) =>
+      ({
+        id,
+        conversationId,
+        subject: "Proposal",
+        recipients: ["client@example.com"],
+        sentDate: new Date(sentDate),
+      }) as any;
+
+    it("should refetch threads past the cache and close answered follow-ups", async () => {
+      const threads: Record<string, ThreadMessage[]> = {
+        "conv-a": [message("a1", true, "2025-03-03T09:00:00Z")],
+        "conv-b": [message("b1", true, "2025-03-03T09:00:00Z")],
+      };
+      const getConversation = vi.fn(async (id: string) => threads[id]);
+      service.setMailSource({
+        isAvailable: () => true,
+        getConversation,
+      } as any);
+      // Cache the thread as it was at analysis time
+      await (service as any).getConversationItemsConversationCached("conv-a");
+      threads["conv-a"] = [
+        ...threads["conv-a"],
+        message("a2", false, "2025-03-04T15:00:00Z"),
+      ];
+      await (service as any).followupState.dismiss(["a1"]);
+
+      const result = await service.checkForReplies(
+        [
+          followup("a1", "conv-a", "2025-03-03T09:00:00Z"),
+          followup("b1", "conv-b", "2025-03-03T09:00:00Z"),
+        ],
+        new Date("2025-03-05T08:00:00Z"),
+      );
+
+      expect(result.remaining.map((email) => email.id)).toEqual(["b1"]);
+      expect(result.resolved).toEqual([
+        expect.objectContaining({
+          emailId: "a1",
+          responder: "client@example.com",
+          respondedAt: "2025-03-04T15:00:00.000Z",
+          responseHours: 30,
+          resolvedAt: "2025-03-05T08:00:00.000Z",
+        }),
+      ]);
+      expect(getConversation).toHaveBeenCalledTimes(3);
+      expect((service as any).followupState.isDismissed("a1")).toBe(false);
+    });
+
+    it("should keep follow-ups whose thread cannot be fetched", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(service as any, "fetchThreadFresh").mockRejectedValue(
+        new Error("Network error"),
+      );
+      const email = followup("a1", "conv-a", "2025-03-03T09:00:00Z");
+
+      const result = await service.checkForReplies([email]);
+
+      expect(result).toEqual({ resolved: [], remaining: [email] });
+    });
+  });
+
+  describe("Usual Response Time", () => {
+    const message = (
+      id: string,
+      isFromCurrentUser: boolean,
+      sentDate: string,
+    ): ThreadMessage => ({
+      id,
+      subject: "Proposal",
+      from: isFromCurrentUser ? "test@example.com" : "anna@client.com",
+      to: [isFromCurrentUser ? "anna@client.com" : "test@example.com"],
+      sentDate: new Date(sentDate),
+      body: "",
+      isFromCurrentUser,
+    });
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.useFakeTimers({ toFake: ["Date"] });
+      // Wednesday afternoon
+      vi.setSystemTime(new Date("2025-03-12T15:00:00Z"));
+      vi.spyOn(service as any, "getMailSource").mockReturnValue({
+        isAvailable: () => true,
       });
-      it("should parse messages and sort chronologically by received or sent date", () => {
-        const xml = `<?xml version="1.0" encoding="utf-8"?>
-<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
-  <s:Body>
-    <m:GetConversationItemsResponse>
-      <m:ResponseMessages>
-        <m:GetConversationItemsResponseMessage ResponseClass="Success">
-          <m:ResponseCode>NoError</m:ResponseCode>
-          <m:ConversationNodes>
-            <t:ConversationNode>
-              <t:Items>
-                <t:Message>
-                  <t:ItemId Id="id-1" />
-                  <t:Subject>Subj 1</t:Subject>
-                  <t:DateTimeSent>2025-01-20T10:00:00Z</t:DateTimeSent>
-                  <t:DateTimeReceived>2025-01-20T10:05:00Z</t:DateTimeReceived>
-                  <t:From><t:Mailbox><t:EmailAddress>other@example.com</t:EmailAddress></t:Mailbox></t:From>
-                  <t:ToRecipients><t:Mailbox><t:EmailAddress>test@example.com</t:EmailAddress></t:Mailbox></t:ToRecipients>
-                  <t:Body>Body 1</t:Body>
-                </t:Message>
-              </t:Items>
-            </t:ConversationNode>
-            <t:ConversationNode>
-              <t:Items>
-                <t:Message>
-                  <t:ItemId Id="id-2" />
-                  <t:Subject>Subj 2</t:Subject>
-                  <t:DateTimeSent>2025-01-21T12:00:00Z</t:DateTimeSent>
-                  <t:DateTimeReceived>2025-01-21T12:02:00Z</t:DateTimeReceived>
-                  <t:From><t:Mailbox><t:EmailAddress>test@example.com</t:EmailAddress></t:Mailbox></t:From>
-                  <t:ToRecipients><t:Mailbox><t:EmailAddress>other@example.com</t:EmailAddress></t:Mailbox></t:ToRecipients>
-                  <t:Body>Body 2</t:Body>
-                </t:Message>
-              </t:Items>
-            </t:ConversationNode>
-          </m:ConversationNodes>
-        </m:GetConversationItemsResponseMessage>
-      </m:ResponseMessages>
-    </m:GetConversationItemsResponse>
-  </s:Body>
-</s:Envelope>`;
-
-        const parsed = (service as any).parseGetConversationItemsResponse(
-          xml,
-        ) as ThreadMessage[];
-        expect(parsed.length).toBe(2);
-        // Sorted chronologically by receivedDate/sentDate ascending
-        expect(parsed[0].id).toBe("id-1");
-        expect(parsed[1].id).toBe("id-2");
-        expect(parsed[0].isFromCurrentUser).toBe(false);
-        expect(parsed[1].isFromCurrentUser).toBe(true);
+      vi.spyOn(service as any, "createFollowupEmailEnhanced").mockResolvedValue(
+        { id: "waiting" },
+      );
+      // Anna usually answers after a full working day
+      ["03", "04", "05"].forEach((day) =>
+        (service as any).responseAnalytics.recordThread([
+          message(`sent-${day}`, true, `2025-03-${day}T09:00:00Z`),
+          message(`reply-${day}`, false, `2025-03-${day}T17:00:00Z`),
+        ]),
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const analyze = (sentDate: string) => {
+      vi.spyOn(
+        service as any,
+        "getConversationItemsConversationCached",
+      ).mockResolvedValue([message("waiting", true, sentDate)]);
+      return (service as any).processConversationWithCaching(
+        `conv-${sentDate}`,
+        [{ id: "waiting" }],
+        "test@example.com",
+        [],
+      );
+    };
+
+    it("should not flag threads within the contact's usual response time", async () => {
+      service.setConfiguration({
+        workingCalendar: { timeZone: "UTC" },
+      } as any);
+
+      expect(await analyze("2025-03-12T10:00:00Z")).toBeNull();
+      expect(await analyze("2025-03-11T10:00:00Z")).toEqual({
+        id: "waiting",
+      });
+    });
+
+    it("should flag right away when adaptive timing is off", async () => {
+      service.setConfiguration({
+        workingCalendar: { timeZone: "UTC" },
+        adaptiveFollowupTiming: false,
+      } as any);
+
+      expect(await analyze("2025-03-12T10:00:00Z")).toEqual({
+        id: "waiting",
       });
     });
   });
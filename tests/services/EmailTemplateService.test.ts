@@ -0,0 +1,117 @@
+import { EmailTemplateService } from "../../src/services/EmailTemplateService";
+import { DEFAULT_EMAIL_TEMPLATES } from "../../src/services/EmailTemplates";
+import { FollowupEmail } from "../../src/models/FollowupEmail";
+
+describe("EmailTemplateService", () => {
+  const createEmail = (
+    overrides: Partial<FollowupEmail> = {},
+  ): FollowupEmail => ({
+    id: "msg-1",
+    subject: "RE: Q3 budget",
+    recipients: ["Anna Smith <anna@example.com>"],
+    sentDate: new Date(2025, 2, 3, 9),
+    body: "Could you confirm the budget?",
+    summary: "",
+    priority: "medium",
+    daysWithoutResponse: 4,
+    hasAttachments: false,
+    accountEmail: "test@example.com",
+    threadMessages: [],
+    isSnoozed: false,
+    isDismissed: false,
+    ...overrides,
+  });
+
+  it("should fill the placeholders from the email", () => {
+    const templates = new EmailTemplateService([
+      {
+        id: "nudge",
+        name: "Nudge",
+        body: "Hi {firstName}, about {subject} ({sentDate}, {daysWaiting} days). {signature}",
+      },
+    ]);
+    const sentDate = new Date(2025, 2, 3).toLocaleDateString(undefined, {
+      month: "long",
+      day: "numeric",
+    });
+
+    expect(templates.render("nudge", createEmail())).toBe(
+      `Hi Anna, about Q3 budget (${sentDate}, 4 days). {signature}`,
+    );
+  });
+
+  it("should derive a first name from the recipients", () => {
+    const templates = new EmailTemplateService([
+      { id: "hi", name: "Hi", body: "Hi {firstName}" },
+    ]);
+    const render = (recipients: string[]) =>
+      templates.render("hi", createEmail({ recipients }));
+
+    expect(render(['"Smith, Anna" <anna@example.com>'])).toBe("Hi Anna");
+    expect(render(["anna.smith@example.com"])).toBe("Hi Anna");
+    expect(render(["a1234@example.com"])).toBe("Hi there");
+    expect(render(["anna@example.com", "bob@example.com"])).toBe("Hi all");
+  });
+
+  it("should validate, add and remove templates", () => {
+    const templates = new EmailTemplateService();
+
+    expect(() =>
+      templates.save({ name: "Bad", body: "Hi {firstname}" }),
+    ).toThrow("Unknown variable {firstname}");
+    expect(() => templates.save({ name: " ", body: "Hi" })).toThrow(
+      "Template name must not be empty",
+    );
+
+    const saved = templates.save({
+      name: "Gentle nudge",
+      body: "Hi {firstName}",
+    });
+    expect(saved.id).toBe("gentle-nudge-2");
+    expect(templates.list()).toHaveLength(DEFAULT_EMAIL_TEMPLATES.length + 1);
+
+    templates.remove(saved.id);
+    expect(templates.get(saved.id)).toBeUndefined();
+  });
+
+  it("should round-trip a template pack, replacing templates with the same name", () => {
+    const source = new EmailTemplateService([
+      { id: "nudge", name: "Nudge", body: "Hi {firstName}, any news?" },
+      { id: "thanks", name: "Thanks", body: "Thanks {firstName}!" },
+    ]);
+    const target = new EmailTemplateService([
+      { id: "my-nudge", name: "nudge", body: "Old text" },
+    ]);
+
+    const result = target.importPack(source.exportPack());
+
+    expect(result).toEqual({ added: 1, updated: 1 });
+    expect(target.list()).toEqual([
+      { id: "my-nudge", name: "Nudge", body: "Hi {firstName}, any news?" },
+      { id: "thanks", name: "Thanks", body: "Thanks {firstName}!" },
+    ]);
+  });
+
+  it("should reject invalid packs without importing anything", () => {
+    const templates = new EmailTemplateService([]);
+    const pack = JSON.stringify({
+      type: "followup-suggester-templates",
+      version: 1,
+      templates: [
+        { id: "ok", name: "Ok", body: "Hi {firstName}" },
+        { id: "bad", name: "Bad", body: "Hi {nickname}" },
+      ],
+    });
+
+    expect(() => templates.importPack("not json")).toThrow(
+      "Invalid template pack",
+    );
+    expect(() => templates.importPack(JSON.stringify([]))).toThrow(
+      "not a follow-up template export",
+    );
+    expect(() => templates.importPack(pack)).toThrow(
+      "template 2: Unknown variable {nickname}",
+    );
+    expect(templates.list()).toEqual([]);
+  });
+});
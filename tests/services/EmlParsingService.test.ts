@@ -0,0 +1,171 @@
+import { EmlParsingService } from "../../src/services/EmlParsingService";
+
+const eml = (headers: string[], body: string) =>
+  [...headers, "", body].join("\r\n");
+
+describe("EmlParsingService", () => {
+  let service: EmlParsingService;
+
+  beforeEach(() => {
+    service = new EmlParsingService();
+  });
+
+  it("should parse headers, addresses and a plain text body", () => {
+    const message = service.parse(
+      eml(
+        [
+          "Message-ID: <abc@example.com>",
+          "Date: Mon, 3 Mar 2025 09:00:00 +0100",
+          'From: "Doe, John" <john@example.com>',
+          "To: Jane <jane@example.com>, bob@example.com",
+          "Cc: carol@example.com",
+          "Subject: Status",
+          "  report",
+        ],
+        "Hello there",
+      ),
+    );
+
+    expect(message).toEqual({
+      id: "abc@example.com",
+      subject: "Status report",
+      from: "john@example.com",
+      to: ["jane@example.com", "bob@example.com"],
+      cc: ["carol@example.com"],
+      sentDateTime: "2025-03-03T08:00:00.000Z",
+      body: "Hello there",
+    });
+  });
+
+  it("should decode encoded-word subjects", () => {
+    const message = service.parse(
+      eml(
+        [
+          "Date: Mon, 3 Mar 2025 09:00:00 +0000",
+          "From: a@example.com",
+          "Subject: =?UTF-8?B?Q2Fmw6k=?= =?iso-8859-1?Q?_m=E9nu?=",
+        ],
+        "",
+      ),
+    );
+
+    expect(message?.subject).toBe("Café ménu");
+  });
+
+  it("should prefer the text part of multipart messages", () => {
+    const message = service.parse(
+      eml(
+        [
+          "Date: Mon, 3 Mar 2025 09:00:00 +0000",
+          "From: a@example.com",
+          'Content-Type: multipart/mixed; boundary="outer"',
+        ],
+        [
+          "--outer",
+          'Content-Type: multipart/alternative; boundary="inner"',
+          "",
+          "--inner",
+          "Content-Type: text/html",
+          "",
+          "<p>Html &amp; more</p>",
+          "--inner",
+          "Content-Type: text/plain; charset=utf-8",
+          "Content-Transfer-Encoding: base64",
+          "",
+          btoa("Plain text body"),
+          "--inner--",
+          "--outer",
+          "Content-Type: text/plain",
+          "Content-Disposition: attachment; filename=notes.txt",
+          "",
+          "attachment text",
+          "--outer--",
+        ].join("\r\n"),
+      ),
+    );
+
+    expect(message?.body).toBe("Plain text body");
+  });
+
+  it("should fall back to stripped html and decode quoted-printable", () => {
+    const message = service.parse(
+      eml(
+        [
+          "Date: Mon, 3 Mar 2025 09:00:00 +0000",
+          "From: a@example.com",
+          "Content-Type: text/html; charset=utf-8",
+          "Content-Transfer-Encoding: quoted-printable",
+        ],
+        "<div>Caf=C3=A9 &amp; cake</div><br>See you=\r\n soon",
+      ),
+    );
+
+    expect(message?.body).toBe("Café & cake\n\nSee you soon");
+  });
+
+  it("should skip messages without a valid date", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      service.parse(eml(["From: a@example.com"], "No date"), "nodate.eml"),
+    ).toBeNull();
+  });
+
+  it("should group replies under the thread root", () => {
+    const messages = service.parseFiles([
+      {
+        name: "1.eml",
+        content: eml(
+          [
+            "Message-ID: <root@x>",
+            "Date: Mon, 3 Mar 2025 09:00:00 +0000",
+            "From: a@example.com",
+          ],
+          "root",
+        ),
+      },
+      {
+        name: "2.eml",
+        content: eml(
+          [
+            "Message-ID: <reply@x>",
+            "In-Reply-To: <root@x>",
+            "Date: Mon, 3 Mar 2025 10:00:00 +0000",
+            "From: b@example.com",
+          ],
+          "reply",
+        ),
+      },
+      {
+        name: "3.eml",
+        content: eml(
+          [
+            "Message-ID: <reply2@x>",
+            "In-Reply-To: <reply@x>",
+            "Date: Mon, 3 Mar 2025 11:00:00 +0000",
+            "From: a@example.com",
+          ],
+          "reply to reply",
+        ),
+      },
+      {
+        name: "4.eml",
+        content: eml(
+          [
+            "Date: Mon, 3 Mar 2025 12:00:00 +0000",
+            "From: a@example.com",
+            "References: <other-root@x> <other-reply@x>",
+          ],
+          "no message id",
+        ),
+      },
+    ]);
+
+    expect(messages.map((m) => [m.id, m.conversationId])).toEqual([
+      ["root@x", "root@x"],
+      ["reply@x", "root@x"],
+      ["reply2@x", "root@x"],
+      ["4.eml", "other-root@x"],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { FollowupDraftService } from "../../src/services/FollowupDraftService";
+import { FollowupEmail, ThreadMessage } from "../../src/models/FollowupEmail";
+
+describe("FollowupDraftService", () => {
+  const message = (overrides: Partial<ThreadMessage>): ThreadMessage => ({
+    id: "msg-1",
+    subject: "Q3 budget",
+    from: "test@example.com",
+    to: ["Anna <anna@example.com>"],
+    sentDate: new Date(2025, 2, 3, 9),
+    body: "Could you confirm the budget?",
+    isFromCurrentUser: true,
+    ...overrides,
+  });
+
+  const createEmail = (threadMessages: ThreadMessage[]): FollowupEmail => ({
+    id: "msg-2",
+    subject: "RE: Q3 budget",
+    recipients: ["anna@example.com"],
+    sentDate: new Date(2025, 2, 5, 9),
+    body: "Any update?",
+    summary: "",
+    priority: "medium",
+    daysWithoutResponse: 3,
+    hasAttachments: false,
+    accountEmail: "test@example.com",
+    threadMessages,
+    isSnoozed: false,
+    isDismissed: false,
+  });
+
+  let mailbox: any;
+
+  beforeEach(() => {
+    mailbox = (global as any).Office.context.mailbox;
+    mailbox.displayNewMessageForm = vi.fn();
+    mailbox.item = undefined;
+  });
+
+  it("should address the recipients of the user's own last message", () => {
+    const email = createEmail([
+      message({
+        id: "msg-1",
+        from: "Anna <anna@example.com>",
+        to: ["test@example.com", "bob@example.com"],
+        isFromCurrentUser: false,
+      }),
+      message({
+        id: "msg-2",
+        subject: "RE: Q3 budget",
+        to: ["Anna <anna@example.com>", "bob@example.com", "TEST@example.com"],
+        sentDate: new Date(2025, 2, 5, 9),
+        body: "Any update?",
+      }),
+    ]);
+
+    const draft = new FollowupDraftService().buildReply(
+      email,
+      "Hi Anna,\nJust checking in <3",
+    );
+
+    expect(draft.toRecipients).toEqual(["anna@example.com", "bob@example.com"]);
+    expect(draft.subject).toBe("RE: Q3 budget");
+    expect(draft.htmlBody).toMatch(/^Hi Anna,<br>Just checking in &lt;3/);
+    // Newest message is quoted first
+    expect(draft.htmlBody.indexOf("Any update?")).toBeLessThan(
+      draft.htmlBody.indexOf("Could you confirm the budget?"),
+    );
+  });
+
+  it("should reply to the sender only unless replying to all", () => {
+    const email = createEmail([
+      message({
+        from: "anna@example.com",
+        to: ["test@example.com", "bob@example.com"],
+        isFromCurrentUser: false,
+      }),
+    ]);
+    const drafts = new FollowupDraftService();
+
+    expect(drafts.buildReply(email, "", "reply").toRecipients).toEqual([
+      "anna@example.com",
+    ]);
+    expect(drafts.buildReply(email, "", "replyAll").toRecipients).toEqual([
+      "anna@example.com",
+      "bob@example.com",
+    ]);
+  });
+
+  it("should replace existing reply and forward prefixes", () => {
+    expect(FollowupDraftService.prefixSubject("RE", "Re: RE: Budget")).toBe(
+      "RE: Budget",
+    );
+    expect(FollowupDraftService.prefixSubject("FW", "AW: Fwd: Budget")).toBe(
+      "FW: Budget",
+    );
+    expect(FollowupDraftService.prefixSubject("RE", "Reorg plan")).toBe(
+      "RE: Reorg plan",
+    );
+  });
+
+  it("should use Outlook's reply form when the follow-up is the open item", () => {
+    const email = createEmail([message({ id: "msg-2" })]);
+    mailbox.item = {
+      itemId: "msg-2",
+      displayReplyForm: vi.fn(),
+      displayReplyAllForm: vi.fn(),
+    };
+    const drafts = new FollowupDraftService();
+
+    drafts.openReply(email, "Following up", "replyAll");
+    drafts.openReply(email, "Following up", "reply");
+
+    expect(mailbox.item.displayReplyAllForm).toHaveBeenCalledWith({
+      htmlBody: "Following up",
+    });
+    expect(mailbox.item.displayReplyForm).toHaveBeenCalledTimes(1);
+    expect(mailbox.displayNewMessageForm).not.toHaveBeenCalled();
+  });
+
+  it("should open a prefilled message for other follow-ups and forwards", () => {
+    const email = createEmail([message({ id: "msg-2" })]);
+    mailbox.item = {
+      itemId: "another-item",
+      displayReplyForm: vi.fn(),
+      displayReplyAllForm: vi.fn(),
+    };
+    const drafts = new FollowupDraftService();
+
+    drafts.openReply(email, "Following up");
+    drafts.openForward(email);
+
+    expect(mailbox.displayNewMessageForm).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        toRecipients: ["anna@example.com"],
+        subject: "RE: Q3 budget",
+      }),
+    );
+    expect(mailbox.displayNewMessageForm).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ toRecipients: [], subject: "FW: Q3 budget" }),
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { FollowupStateService } from "../../src/services/FollowupStateService";
+import { EmailAnalysisService } from "../../src/services/EmailAnalysisService";
+
+describe("FollowupStateService", () => {
+  let roamingStore: Record<string, any>;
+  let mockRoamingSettings: any;
+
+  beforeEach(() => {
+    roamingStore = {};
+    mockRoamingSettings = {
+      get: vi.fn((key: string) => roamingStore[key]),
+      set: vi.fn((key: string, value: any) => {
+        roamingStore[key] = JSON.parse(JSON.stringify(value));
+      }),
+      saveAsync: vi.fn((callback: any) => callback({ status: "succeeded" })),
+    };
+    (global as any).Office.context.roamingSettings = mockRoamingSettings;
+    localStorage.clear();
+  });
+
+  describe("Snooze", () => {
+    it("should persist snoozes to roaming settings", async () => {
+      const service = new FollowupStateService();
+      const until = new Date(Date.now() + 60 * 60 * 1000);
+
+      await service.snooze(["email1"], until);
+
+      expect(mockRoamingSettings.saveAsync).toHaveBeenCalled();
+      expect(
+        roamingStore["followup-suggester-state"].snoozed.email1.until,
+      ).toBe(until.toISOString());
+    });
+
+    it("should restore snoozes in a new session", async () => {
+      const until = new Date(Date.now() + 60 * 60 * 1000);
+      await new FollowupStateService().snooze(["email1"], until);
+
+      const restored = new FollowupStateService();
+
+      expect(restored.isSnoozed("email1")).toBe(true);
+      expect(restored.getSnoozeUntil("email1")?.toISOString()).toBe(
+        until.toISOString(),
+      );
+    });
+
+    it("should expire snoozes by date", async () => {
+      const service = new FollowupStateService();
+      const until = new Date(Date.now() + 60 * 1000);
+      await service.snooze(["email1"], until);
+
+      expect(service.isSnoozed("email1")).toBe(true);
+      expect(service.isSnoozed("email1", new Date(until.getTime() + 1))).toBe(
+        false,
+      );
+      expect(service.getSnoozeUntil("email1")).toBeUndefined();
+    });
+
+    it("should prune expired snoozes on reload", async () => {
+      const service = new FollowupStateService();
+      await service.snooze(["expired"], new Date(Date.now() - 1000));
+      await service.snooze(["active"], new Date(Date.now() + 60 * 1000));
+
+      service.reload();
+
+      expect(Array.from(service.getSnoozedEmails().keys())).toEqual(["active"]);
+    });
+
+    it("should unsnooze emails", async () => {
+      const service = new FollowupStateService();
+      await service.snooze(["email1"], new Date(Date.now() + 60 * 1000));
+
+      await service.unsnooze("email1");
+
+      expect(service.isSnoozed("email1")).toBe(false);
+    });
+  });
+
+  describe("Returned from snooze", () => {
+    it("should mark expired snoozes as returned until snoozed again", async () => {
+      const service = new FollowupStateService();
+      await service.snooze(["email1"], new Date(Date.now() - 1000));
+
+      service.reload();
+
+      expect(service.isReturned("email1")).toBe(true);
+      expect(service.getUncheckedReturns()).toEqual(["email1"]);
+
+      await service.markReturnChecked(["email1"]);
+      expect(new FollowupStateService().getUncheckedReturns()).toEqual([]);
+      expect(new FollowupStateService().isReturned("email1")).toBe(true);
+
+      await service.snooze(["email1"], new Date(Date.now() + 60 * 1000));
+      expect(service.isReturned("email1")).toBe(false);
+    });
+
+    it("should report the next snooze expiry", async () => {
+      const service = new FollowupStateService();
+      const soon = new Date(Date.now() + 60 * 1000);
+      await service.snooze(["later"], new Date(Date.now() + 60 * 60 * 1000));
+      await service.snooze(["soon"], soon);
+
+      expect(service.getNextSnoozeExpiry()?.toISOString()).toBe(
+        soon.toISOString(),
+      );
+    });
+  });
+
+  describe("Dismiss", () => {
+    it("should persist dismissals and clear pending snoozes", async () => {
+      const service = new FollowupStateService();
+      await service.snooze(["email1"], new Date(Date.now() + 60 * 1000));
+
+      await service.dismiss(["email1"]);
+
+      const restored = new FollowupStateService();
+      expect(restored.isDismissed("email1")).toBe(true);
+      expect(restored.isSnoozed("email1")).toBe(false);
+    });
+
+    it("should keep dismissed history bounded", async () => {
+      const service = new FollowupStateService();
+      const ids = Array.from({ length: 510 }, (_, i) => `email${i}`);
+
+      await service.dismiss(ids);
+
+      const dismissed = roamingStore["followup-suggester-state"].dismissed;
+      expect(Object.keys(dismissed)).toHaveLength(500);
+    });
+  });
+
+  describe("Storage fallback", () => {
+    it("should fall back to localStorage when roaming settings are unavailable", async () => {
+      (global as any).Office.context.roamingSettings = undefined;
+      const service = new FollowupStateService();
+
+      await service.dismiss(["email1"]);
+
+      expect(localStorage.getItem("followup-suggester-state")).toContain(
+        "email1",
+      );
+      expect(new FollowupStateService().isDismissed("email1")).toBe(true);
+    });
+
+    it("should keep the localStorage copy when saving to roaming settings fails", async () => {
+      mockRoamingSettings.saveAsync.mockImplementation((callback: any) =>
+        callback({ status: "failed", error: { message: "Network error" } }),
+      );
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const service = new FollowupStateService();
+
+      await expect(service.dismiss(["email1"])).resolves.toBeUndefined();
+
+      expect(localStorage.getItem("followup-suggester-state")).toContain(
+        "email1",
+      );
+    });
+
+    it("should prefer the most recently written copy", async () => {
+      await new FollowupStateService().dismiss(["roaming"]);
+      localStorage.setItem(
+        "followup-suggester-state",
+        JSON.stringify({
+          version: 1,
+          snoozed: {},
+          dismissed: { newer: new Date().toISOString() },
+          updatedAt: new Date(Date.now() + 1000).toISOString(),
+        }),
+      );
+
+      const service = new FollowupStateService();
+
+      expect(service.isDismissed("newer")).toBe(true);
+      expect(service.isDismissed("roaming")).toBe(false);
+    });
+  });
+
+  describe("Shared state between surfaces", () => {
+    it("should expose ribbon command snoozes to the task pane after reload", async () => {
+      const taskpaneService = new EmailAnalysisService();
+      const commandsService = new EmailAnalysisService();
+      // Task pane reads state before the ribbon command runs
+      expect((taskpaneService as any).isEmailSnoozed("item1")).toBe(false);
+
+      await commandsService.snoozeEmail("item1", 24 * 60);
+      (taskpaneService as any).followupState.reload();
+
+      expect((taskpaneService as any).isEmailSnoozed("item1")).toBe(true);
+    });
+
+    it("should close snoozed threads that got a reply and resurface the rest", async () => {
+      const service = new EmailAnalysisService();
+      const message = (id: string, isFromCurrentUser: boolean) => ({
+        id,
+        subject: `Subject ${id}`,
+        isFromCurrentUser,
+      });
+      const threads: Record<string, any[]> = {
+        waiting: [message("waiting", true)],
+        answered: [message("answered", true), message("reply", false)],
+      };
+      service.setMailSource({
+        getThreadForItem: vi.fn(async (id: string) => threads[id]),
+      } as any);
+      const past = new Date(Date.now() - 1000);
+      await service.snoozeEmailUntil("waiting", past);
+      await service.snoozeEmailUntil("answered", past);
+
+      const expiries = await service.resolveExpiredSnoozes();
+
+      expect(expiries).toEqual([
+        { emailId: "waiting", subject: "Subject waiting", status: "returned" },
+        { emailId: "answered", subject: "Subject answered", status: "replied" },
+      ]);
+      const state = (service as any).followupState;
+      expect(state.isReturned("waiting")).toBe(true);
+      expect(state.isReturned("answered")).toBe(false);
+      // Each expiry is reported once
+      expect(await service.resolveExpiredSnoozes()).toEqual([]);
+    });
+
+    it("should match Graph REST ids with the EWS ids of ribbon commands", async () => {
+      const mailbox = (global as any).Office.context.mailbox;
+      mailbox.convertToEwsId = vi.fn((id: string) =>
+        id.replace(/-/g, "/").replace(/_/g, "+"),
+      );
+      try {
+        const commandsService = new FollowupStateService();
+        await commandsService.snooze(
+          ["AAMk/item+1"],
+          new Date(Date.now() + 60 * 60 * 1000),
+        );
+        await commandsService.dismiss(["AAMk/item+2"]);
+
+        const taskpaneService = new FollowupStateService();
+        expect(taskpaneService.isSnoozed("AAMk-item_1")).toBe(true);
+        expect(taskpaneService.isDismissed("AAMk-item_2")).toBe(true);
+
+        await taskpaneService.unsnooze("AAMk-item_1");
+        expect(taskpaneService.isSnoozed("AAMk/item+1")).toBe(false);
+      } finally {
+        delete mailbox.convertToEwsId;
+      }
+    });
+  });
+});
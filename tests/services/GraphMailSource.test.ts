@@ -0,0 +1,320 @@
+import { GraphMailSource } from "../../src/services/GraphMailSource";
+import { EmailAnalysisService } from "../../src/services/EmailAnalysisService";
+import { selectMailSource } from "../../src/services/MailSource";
+import sentItems from "../fixtures/graph/sent-items.json";
+import conversationPage1 from "../fixtures/graph/conversation-page1.json";
+import conversationPage2 from "../fixtures/graph/conversation-page2.json";
+import message from "../fixtures/graph/message.json";
+import unauthorized from "../fixtures/graph/error-unauthorized.json";
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? "OK" : "Unauthorized",
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+describe("GraphMailSource", () => {
+  let source: GraphMailSource;
+  let mockFetch: vi.MockedFunction<typeof fetch>;
+  let tokenProvider: vi.Mock;
+
+  beforeEach(() => {
+    mockFetch = fetch as vi.MockedFunction<typeof fetch>;
+    mockFetch.mockReset();
+    tokenProvider = vi.fn().mockResolvedValue("graph-token");
+    source = new GraphMailSource(tokenProvider);
+  });
+
+  describe("listSentItems", () => {
+    it("should map Graph messages to parsed emails", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(sentItems) as any);
+
+      const emails = await source.listSentItems(
+        25,
+        new Date("2025-01-15T00:00:00Z"),
+      );
+
+      expect(emails).toHaveLength(2);
+      expect(emails[1]).toEqual({
+        id: "AAMkAGsent1",
+        subject: "Project update",
+        dateTimeSent: "2025-01-20T10:00:00Z",
+        conversationId: "AAQkAGconvA",
+        body: { content: "Could you review the project update by Friday?" },
+        from: { emailAddress: { address: "test@example.com" } },
+        toRecipients: [{ emailAddress: { address: "client@example.com" } }],
+        ccRecipients: [{ emailAddress: { address: "manager@example.com" } }],
+        hasAttachments: false,
+      });
+      expect(emails[0].hasAttachments).toBe(true);
+    });
+
+    it("should query the sent items folder with a date filter and text bodies", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(sentItems) as any);
+
+      await source.listSentItems(25, new Date("2025-01-15T00:00:00Z"));
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const decodedUrl = decodeURIComponent(url);
+      expect(url).toContain(
+        "https://graph.microsoft.com/v1.0/me/mailFolders/sentitems/messages",
+      );
+      expect(decodedUrl).toContain(
+        "$filter=sentDateTime gt 2025-01-15T00:00:00.000Z",
+      );
+      expect(decodedUrl).toContain("$top=25");
+      expect((init.headers as any).Authorization).toBe("Bearer graph-token");
+      expect((init.headers as any).Prefer).toBe(
+        'outlook.body-content-type="text"',
+      );
+    });
+  });
+
+  describe("getConversation", () => {
+    it("should follow next links and sort messages chronologically", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(conversationPage1) as any)
+        .mockResolvedValueOnce(jsonResponse(conversationPage2) as any);
+
+      const thread = await source.getConversation("AAQkAGconvA");
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        conversationPage1["@odata.nextLink"],
+      );
+      expect(thread.map((m) => m.id)).toEqual([
+        "AAMkAGsent1",
+        "AAMkAGreply1",
+        "AAMkAGfollowup1",
+      ]);
+    });
+
+    it("should flag messages from the current user case-insensitively", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(conversationPage1) as any)
+        .mockResolvedValueOnce(jsonResponse(conversationPage2) as any);
+
+      const thread = await source.getConversation("AAQkAGconvA");
+
+      expect(thread[0].isFromCurrentUser).toBe(true);
+      expect(thread[1].isFromCurrentUser).toBe(false);
+      expect(thread[1].from).toBe("Client@Example.com");
+      expect(thread[1].body).toBe("Thanks, I will take a look.");
+      expect(thread[1].receivedDate?.toISOString()).toBe(
+        "2025-01-21T08:15:04.000Z",
+      );
+    });
+
+    it("should escape quotes in the conversation filter", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ value: [] }) as any);
+
+      await source.getConversation("conv'id");
+
+      expect(
+        decodeURIComponent(mockFetch.mock.calls[0][0] as string),
+      ).toContain("conversationId eq 'conv''id'");
+    });
+  });
+
+  describe("getThreadForItem", () => {
+    it("should fetch the item's conversation", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(message) as any)
+        .mockResolvedValueOnce(jsonResponse(conversationPage2) as any);
+
+      const thread = await source.getThreadForItem("AAMkAGsent2");
+
+      expect(mockFetch.mock.calls[0][0]).toContain("/me/messages/AAMkAGsent2?");
+      expect(thread).toHaveLength(2);
+    });
+
+    it("should fall back to the single message when the conversation fetch fails", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(message) as any)
+        .mockRejectedValueOnce(new Error("Network error"));
+
+      const thread = await source.getThreadForItem("AAMkAGsent2");
+
+      expect(thread).toHaveLength(1);
+      expect(thread[0].id).toBe("AAMkAGsent2");
+      expect(thread[0].to).toEqual(["legal@partner.com"]);
+      expect(thread[0].isFromCurrentUser).toBe(true);
+    });
+  });
+
+  describe("resolveConversationId", () => {
+    it("should return the conversation id of an item", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(message) as any);
+
+      await expect(source.resolveConversationId("AAMkAGsent2")).resolves.toBe(
+        "AAQkAGconvB",
+      );
+    });
+  });
+
+  describe("Error handling", () => {
+    it("should surface Graph error responses", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(unauthorized, 401) as any);
+
+      await expect(
+        source.listInboxItems(10, new Date("2025-01-15T00:00:00Z")),
+      ).rejects.toThrow("Graph request failed: 401");
+    });
+
+    it("should not be available without Office SSO or a token provider", async () => {
+      const unavailable = new GraphMailSource();
+
+      expect(unavailable.isAvailable()).toBe(false);
+      await expect(unavailable.getConversation("conv")).rejects.toThrow(
+        "Microsoft Graph is not available",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Automatic selection", () => {
+    let originalOffice: any;
+
+    beforeEach(() => {
+      originalOffice = (global as any).Office;
+    });
+
+    afterEach(() => {
+      (global as any).Office = originalOffice;
+    });
+
+    it("should prefer the first available source", () => {
+      const unavailable = new GraphMailSource();
+
+      expect(selectMailSource([unavailable, source])).toBe(source);
+      expect(selectMailSource([unavailable])).toBe(unavailable);
+    });
+
+    it("should use EWS when makeEwsRequestAsync is available", () => {
+      const service = new EmailAnalysisService();
+
+      const active = service.getMailSourceStatus().find((s) => s.active);
+
+      expect(active?.kind).toBe("ews");
+    });
+
+    it("should fall back to Graph when EWS is blocked", () => {
+      (global as any).Office = {
+        ...originalOffice,
+        context: {
+          mailbox: { userProfile: { emailAddress: "test@example.com" } },
+        },
+        auth: { getAccessToken: vi.fn().mockResolvedValue("sso-token") },
+      };
+      const service = new EmailAnalysisService();
+
+      expect(service.getMailSourceStatus()).toEqual([
+        { kind: "ews", available: false, active: false },
+        { kind: "graph", available: true, active: true },
+      ]);
+    });
+
+    it("should switch to Graph when EWS is present but failing", async () => {
+      const makeEwsRequestAsync = vi.fn((_request: string, callback: any) =>
+        callback({
+          status: "failed",
+          error: { message: "EWS is disabled for this organization" },
+        }),
+      );
+      (global as any).Office = {
+        ...originalOffice,
+        context: {
+          mailbox: {
+            userProfile: { emailAddress: "test@example.com" },
+            makeEwsRequestAsync,
+          },
+        },
+        auth: { getAccessToken: vi.fn().mockResolvedValue("sso-token") },
+      };
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const service = new EmailAnalysisService();
+      expect(service.getMailSourceStatus().find((s) => s.active)?.kind).toBe(
+        "ews",
+      );
+
+      await service.detectMailSource();
+      await service.detectMailSource();
+
+      expect(service.getMailSourceStatus()).toEqual([
+        { kind: "ews", available: false, active: false },
+        { kind: "graph", available: true, active: true },
+      ]);
+      expect(makeEwsRequestAsync).toHaveBeenCalledTimes(1);
+      expect(makeEwsRequestAsync.mock.calls[0][0]).toContain("<m:GetFolder>");
+      warn.mockRestore();
+    });
+
+    it("should keep EWS when it answers the probe", async () => {
+      (global as any).Office = {
+        ...originalOffice,
+        context: {
+          mailbox: {
+            userProfile: { emailAddress: "test@example.com" },
+            makeEwsRequestAsync: vi.fn((_request: string, callback: any) =>
+              callback({ status: "succeeded", value: "<soap:Envelope />" }),
+            ),
+          },
+        },
+        auth: { getAccessToken: vi.fn().mockResolvedValue("sso-token") },
+      };
+      const service = new EmailAnalysisService();
+
+      await service.detectMailSource();
+
+      const active = service.getMailSourceStatus().find((s) => s.active);
+      expect(active?.kind).toBe("ews");
+    });
+
+    it("should analyze emails through Graph when EWS is blocked", async () => {
+      (global as any).Office = {
+        ...originalOffice,
+        context: {
+          mailbox: {
+            userProfile: { emailAddress: "test@example.com" },
+          },
+          roamingSettings: originalOffice.context.roamingSettings,
+        },
+        auth: { getAccessToken: vi.fn().mockResolvedValue("sso-token") },
+      };
+      mockFetch.mockImplementation(async (url: any) => {
+        const decoded = decodeURIComponent(url as string);
+        if (decoded.includes("/mailFolders/sentitems/")) {
+          return jsonResponse(sentItems) as any;
+        }
+        if (decoded.includes("conversationId eq 'AAQkAGconvA'")) {
+          return jsonResponse({
+            value: [...conversationPage1.value, ...conversationPage2.value],
+          }) as any;
+        }
+        if (decoded.includes("conversationId eq 'AAQkAGconvB'")) {
+          return jsonResponse({ value: [message] }) as any;
+        }
+        return jsonResponse({ value: [] }) as any;
+      });
+      const service = new EmailAnalysisService();
+
+      const followups = await service.analyzeEmails(25, 36500, []);
+
+      expect(followups.map((f) => f.id).sort()).toEqual([
+        "AAMkAGfollowup1",
+        "AAMkAGsent2",
+      ]);
+      expect(
+        mockFetch.mock.calls.every(
+          (call) =>
+            (call[1] as RequestInit).headers &&
+            ((call[1] as RequestInit).headers as any).Authorization ===
+              "Bearer sso-token",
+        ),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { FollowupEmail } from "../../src/models/FollowupEmail";
+import {
+  EnrichmentProgress,
+  LlmEnrichmentQueue,
+} from "../../src/services/LlmEnrichmentQueue";
+
+const followup = (id: string): FollowupEmail =>
+  ({ id, subject: `Subject ${id}` }) as FollowupEmail;
+
+// An enrich function whose calls finish when the test says so
+const controllable = () => {
+  const calls: {
+    id: string;
+    signal: AbortSignal;
+    finish: () => void;
+    fail: (error: Error) => void;
+  }[] = [];
+  const enrich = vi.fn(
+    (email: FollowupEmail, signal: AbortSignal) =>
+      new Promise<void>((resolve, reject) => {
+        calls.push({
+          id: email.id,
+          signal,
+          finish: () => {
+            email.llmSummary = `Summary ${email.id}`;
+            resolve();
+          },
+          fail: reject,
+        });
+        signal.addEventListener("abort", () => reject(new Error("aborted")));
+      }),
+  );
+  return { calls, enrich };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("LlmEnrichmentQueue", () => {
+  it("should run no more requests at once than the concurrency limit", async () => {
+    const { calls, enrich } = controllable();
+    const queue = new LlmEnrichmentQueue(enrich, { concurrency: 2 });
+
+    queue.enqueue(["a", "b", "c"].map(followup));
+    expect(calls.map((call) => call.id)).toEqual(["a", "b"]);
+
+    calls[0].finish();
+    await flush();
+    expect(calls.map((call) => call.id)).toEqual(["a", "b", "c"]);
+
+    calls[1].finish();
+    calls[2].finish();
+    await queue.whenIdle();
+    expect(queue.getProgress()).toEqual({
+      done: 3,
+      failed: 0,
+      total: 3,
+      paused: false,
+    });
+  });
+
+  it("should skip follow-ups that are queued or already enriched", () => {
+    const { enrich } = controllable();
+    const queue = new LlmEnrichmentQueue(enrich, { concurrency: 1 });
+    const enriched = { ...followup("b"), llmSummary: "Done before" };
+
+    queue.enqueue([followup("a"), enriched, followup("c")]);
+    queue.enqueue([followup("a"), followup("c")]);
+
+    expect(enrich).toHaveBeenCalledTimes(1);
+    expect(queue.getProgress().total).toBe(2);
+  });
+
+  it("should requeue interrupted requests when paused and run them on resume", async () => {
+    const { calls, enrich } = controllable();
+    const progress: EnrichmentProgress[] = [];
+    const queue = new LlmEnrichmentQueue(enrich, {
+      concurrency: 1,
+      onProgress: (update) => progress.push(update),
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    queue.enqueue(["a", "b"].map(followup));
+    queue.pause();
+    await queue.whenIdle();
+
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(queue.getProgress()).toEqual({
+      done: 0,
+      failed: 0,
+      total: 2,
+      paused: true,
+    });
+    expect(progress[progress.length - 1].paused).toBe(true);
+
+    queue.resume();
+    expect(calls.map((call) => call.id)).toEqual(["a", "a"]);
+    calls[1].finish();
+    await flush();
+    calls[2].finish();
+    await queue.whenIdle();
+
+    expect(queue.getProgress().done).toBe(2);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should count failures and carry on with the rest", async () => {
+    const { calls, enrich } = controllable();
+    const queue = new LlmEnrichmentQueue(enrich, { concurrency: 1 });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    queue.enqueue(["a", "b"].map(followup));
+    calls[0].fail(new Error("Model overloaded"));
+    await flush();
+    calls[1].finish();
+    await queue.whenIdle();
+
+    expect(queue.getProgress()).toMatchObject({ done: 1, failed: 1 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("should continue queued and running follow-ups on newer copies", async () => {
+    const { calls, enrich } = controllable();
+    const queue = new LlmEnrichmentQueue(enrich, { concurrency: 1 });
+    const refreshed = ["a", "b"].map(followup);
+
+    queue.enqueue(["a", "b"].map(followup));
+    queue.replace(refreshed);
+    expect(calls[0].signal.aborted).toBe(true);
+
+    calls[1].finish();
+    await flush();
+    calls[2].finish();
+    await queue.whenIdle();
+
+    expect(calls.map((call) => call.id)).toEqual(["a", "a", "b"]);
+    expect(refreshed.map((email) => email.llmSummary)).toEqual([
+      "Summary a",
+      "Summary b",
+    ]);
+    expect(queue.getProgress()).toMatchObject({ done: 2, total: 2 });
+  });
+
+  it("should drop removed and cleared follow-ups without counting them", async () => {
+    const { calls, enrich } = controllable();
+    const queue = new LlmEnrichmentQueue(enrich, { concurrency: 1 });
+
+    queue.enqueue(["a", "b", "c"].map(followup));
+    queue.remove(["a", "b"]);
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls.map((call) => call.id)).toEqual(["a", "c"]);
+
+    queue.clear();
+    await queue.whenIdle();
+    expect(calls[1].signal.aborted).toBe(true);
+    expect(queue.getProgress()).toEqual({
+      done: 0,
+      failed: 0,
+      total: 0,
+      paused: false,
+    });
+  });
+});
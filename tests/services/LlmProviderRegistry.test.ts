@@ -0,0 +1,101 @@
+import { LlmProviderRegistry } from "../../src/services/LlmProviderRegistry";
+import { AnthropicAdapter } from "../../src/services/LlmProviderAdapters";
+import { LlmService } from "../../src/services/LlmService";
+import { Configuration } from "../../src/models/Configuration";
+import { RetryService } from "../../src/services/RetryService";
+
+describe("LlmProviderRegistry", () => {
+  let registry: LlmProviderRegistry;
+
+  const config = (overrides: Partial<Configuration>): Configuration =>
+    ({
+      emailCount: 10,
+      daysBack: 7,
+      lastAnalysisDate: new Date(),
+      snoozeOptions: [],
+      enableLlmSummary: true,
+      enableLlmSuggestions: true,
+      selectedAccounts: [],
+      showSnoozedEmails: false,
+      showDismissedEmails: false,
+      ...overrides,
+    }) as Configuration;
+
+  beforeEach(() => {
+    registry = LlmProviderRegistry.createDefault();
+  });
+
+  it("should detect providers from the endpoint", () => {
+    expect(registry.detect("https://ai-proxy.lab.epam.com").id).toBe("dial");
+    expect(registry.detect("https://res.openai.azure.com").id).toBe("azure");
+    expect(registry.detect("https://api.anthropic.com").id).toBe("anthropic");
+    expect(registry.detect("http://localhost:11434").id).toBe("ollama");
+    expect(registry.detect("https://api.openai.com").id).toBe("openai");
+  });
+
+  it("should prefer the configured provider over detection", () => {
+    const adapter = registry.resolve(
+      config({
+        llmProvider: "openai-compatible",
+        llmApiEndpoint: "http://localhost:11434",
+      }),
+    );
+    expect(adapter.id).toBe("openai-compatible");
+  });
+
+  it("should fall back to detection for unregistered providers", () => {
+    const adapter = registry.resolve(
+      config({
+        llmProvider: "retired" as any,
+        llmApiEndpoint: "https://api.anthropic.com",
+      }),
+    );
+    expect(adapter.id).toBe("anthropic");
+  });
+
+  it("should throw for unknown providers", () => {
+    expect(() => registry.get("retired" as any)).toThrow(
+      "Unknown LLM provider: retired",
+    );
+  });
+
+  it("should let a registered adapter replace a built-in one", async () => {
+    class ProxiedAnthropicAdapter extends AnthropicAdapter {
+      public buildChatRequest(
+        ...args: Parameters<AnthropicAdapter["buildChatRequest"]>
+      ) {
+        const request = super.buildChatRequest(...args);
+        return { ...request, url: "https://llm-gateway.internal/anthropic" };
+      }
+    }
+    registry.register(new ProxiedAnthropicAdapter());
+    expect(registry.list().filter((a) => a.id === "anthropic")).toHaveLength(1);
+
+    const mockFetch = fetch as vi.MockedFunction<typeof fetch>;
+    mockFetch.mockClear();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        content: [{ type: "text", text: "OK" }],
+        stop_reason: "end_turn",
+      }),
+    } as Response);
+    const retryService = {
+      executeWithRetry: vi.fn().mockImplementation((operation) => operation()),
+    } as unknown as RetryService;
+    const service = new LlmService(
+      config({
+        llmProvider: "anthropic",
+        llmApiEndpoint: "https://api.anthropic.com",
+        llmApiKey: "sk-ant-test",
+      }),
+      retryService,
+      registry,
+    );
+
+    await expect(service.summarizeEmail("Hello")).resolves.toBe("OK");
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "https://llm-gateway.internal/anthropic",
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import { LlmService } from "../../src/services/LlmService";
 import { Configuration } from "../../src/models/Configuration";
 import { RetryService } from "../../src/services/RetryService";
+import { LlmUsageService } from "../../src/services/LlmUsageService";
+import { SseStubServer } from "../mocks/SseStubServer";
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -52,9 +54,13 @@ describe("LlmService", () => {
 
   describe("generateFollowupSuggestions", () => {
     it("should generate followup suggestions successfully", async () => {
-      const mockResponse = `1. Thank you for your email. I'll review this and get back to you.
-2. I appreciate your patience while I look into this matter.
-3. Let me follow up with the team and provide an update soon.`;
+      const mockResponse = JSON.stringify({
+        suggestions: [
+          "Thank you for your email. I'll review this and get back to you.",
+          "I appreciate your patience while I look into this matter.",
+          "Let me follow up with the team and provide an update soon.",
+        ],
+      });
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -98,7 +104,7 @@ describe("LlmService", () => {
     });
 
     it("should include context in prompt when provided", async () => {
-      const mockResponse = "1. Contextual response";
+      const mockResponse = '{"suggestions":["Contextual response"]}';
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -182,6 +188,33 @@ describe("LlmService", () => {
         "This email discusses project updates and timelines.",
       );
     });
+
+    it("should use the prompt template override from the configuration", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "Résumé" } }] }),
+      } as Response);
+      const customized = new LlmService(
+        {
+          ...mockConfiguration,
+          promptTemplates: {
+            summary: {
+              template: "Résumez en français : {email}",
+              baseVersion: 1,
+              updatedAt: "2025-01-01T00:00:00.000Z",
+            },
+          },
+        },
+        mockRetryService,
+      );
+
+      await customized.summarizeEmail("Project update");
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(body.messages[0].content).toBe(
+        "Résumez en français : Project update",
+      );
+    });
   });
 
   describe("analyzeThread", () => {
@@ -244,7 +277,7 @@ describe("LlmService", () => {
         json: async () => ({
           choices: [
             {
-              message: { content: "positive" },
+              message: { content: '{"sentiment":"positive"}' },
             },
           ],
         }),
@@ -261,7 +294,7 @@ describe("LlmService", () => {
         json: async () => ({
           choices: [
             {
-              message: { content: "urgent" },
+              message: { content: '{"sentiment":"urgent"}' },
             },
           ],
         }),
@@ -281,12 +314,327 @@ describe("LlmService", () => {
     });
   });
 
+  describe("Structured output", () => {
+    const chatResponse = (content: string) =>
+      ({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content } }] }),
+      }) as Response;
+
+    const sentBody = (call: number) =>
+      JSON.parse(mockFetch.mock.calls[call][1]!.body as string);
+
+    it("should parse follow-up need wrapped in markdown fences", async () => {
+      mockFetch.mockResolvedValueOnce(
+        chatResponse(
+          '```json\n{"needs_followup": false, "reason": "Closing email"}\n```',
+        ),
+      );
+
+      const result = await service.analyzeFollowupNeed("Thanks, all done!");
+
+      expect(result).toEqual({ needsFollowup: false, reason: "Closing email" });
+      expect(sentBody(0).response_format).toEqual({ type: "json_object" });
+      expect(sentBody(0).messages[0].content).toContain('"needs_followup"');
+    });
+
+    it("should ask the model to repair an invalid response once", async () => {
+      mockFetch
+        .mockResolvedValueOnce(chatResponse('{"sentiment": "annoyed"}'))
+        .mockResolvedValueOnce(chatResponse('{"sentiment": "negative"}'));
+
+      const result = await service.analyzeSentiment("This is unacceptable.");
+
+      expect(result.sentiment).toBe("negative");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const repairPrompt = sentBody(1).messages[0].content;
+      expect(repairPrompt).toContain('{"sentiment": "annoyed"}');
+      expect(repairPrompt).toContain(
+        "$.sentiment must be one of positive, neutral, negative, urgent",
+      );
+    });
+
+    it("should fail when the repaired response is still invalid", async () => {
+      mockFetch
+        .mockResolvedValueOnce(chatResponse("1. Ping the client"))
+        .mockResolvedValueOnce(chatResponse('{"suggestions": []}'));
+
+      await expect(
+        service.generateFollowupSuggestions("Any update?"),
+      ).rejects.toThrow(
+        "Failed to generate followup suggestions: Invalid followup_suggestions response: $.suggestions must have at least 1 item(s)",
+      );
+    });
+
+    it("should use provider-native JSON modes", async () => {
+      const withProvider = (overrides: Partial<Configuration>) =>
+        new LlmService(
+          { ...mockConfiguration, ...overrides },
+          mockRetryService,
+        );
+      mockFetch
+        .mockResolvedValueOnce(chatResponse('{"sentiment": "neutral"}'))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            message: { content: '{"sentiment": "neutral"}' },
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            content: [{ type: "text", text: '{"sentiment": "neutral"}' }],
+          }),
+        } as Response);
+
+      await withProvider({
+        llmProvider: "openai",
+        llmApiEndpoint: "https://api.openai.com",
+      }).analyzeSentiment("Hi");
+      await withProvider({
+        llmProvider: "ollama",
+        llmApiEndpoint: "http://localhost:11434",
+      }).analyzeSentiment("Hi");
+      await withProvider({
+        llmProvider: "anthropic",
+        llmApiEndpoint: "https://api.anthropic.com",
+      }).analyzeSentiment("Hi");
+
+      expect(sentBody(0).response_format).toEqual({
+        type: "json_schema",
+        json_schema: expect.objectContaining({
+          name: "sentiment",
+          schema: expect.objectContaining({ required: ["sentiment"] }),
+        }),
+      });
+      expect(sentBody(1).format).toEqual(
+        expect.objectContaining({ required: ["sentiment"] }),
+      );
+      expect(sentBody(2).response_format).toBeUndefined();
+      expect(sentBody(2).messages[0].content).toContain("JSON schema");
+    });
+  });
+
+  describe("Follow-up analysis", () => {
+    const analysis = {
+      summary: " Budget approval is pending. ",
+      sentiment: "urgent",
+      urgency: "high",
+      needs_followup: true,
+      followup_reason: "Question unanswered",
+      next_step: "Ask Anna to confirm the budget",
+      drafts: ["Could you confirm the budget by Friday?", "Any update?"],
+    };
+
+    const chatResponse = (content: string, usage?: any) =>
+      ({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content } }], usage }),
+      }) as Response;
+
+    it("should return every field and the token usage from one call", async () => {
+      mockFetch.mockResolvedValueOnce(
+        chatResponse(JSON.stringify(analysis), {
+          prompt_tokens: 420,
+          completion_tokens: 180,
+          total_tokens: 600,
+        }),
+      );
+
+      const result = await service.analyzeFollowup({
+        emails: [{ subject: "Budget", body: "Can you approve?" }],
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        summary: "Budget approval is pending.",
+        sentiment: "urgent",
+        urgency: "high",
+        needsFollowup: true,
+        followupReason: "Question unanswered",
+        nextStep: "Ask Anna to confirm the budget",
+        drafts: ["Could you confirm the budget by Friday?", "Any update?"],
+        usage: { promptTokens: 420, completionTokens: 180, totalTokens: 600 },
+      });
+      const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(body.messages[0].content).toContain("Can you approve?");
+      expect(body.max_tokens).toBe(1000);
+    });
+
+    it("should include the repair request in the usage", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          chatResponse('{"summary": "Pending"}', {
+            prompt_tokens: 400,
+            completion_tokens: 10,
+            total_tokens: 410,
+          }),
+        )
+        .mockResolvedValueOnce(
+          chatResponse(JSON.stringify(analysis), {
+            prompt_tokens: 500,
+            completion_tokens: 150,
+            total_tokens: 650,
+          }),
+        );
+
+      const result = await service.analyzeFollowup({ emails: [] });
+
+      expect(result.usage).toEqual({
+        promptTokens: 900,
+        completionTokens: 160,
+        totalTokens: 1060,
+      });
+    });
+
+    it("should stream the summary and report usage sent at the end", async () => {
+      const server = new SseStubServer();
+      const baseUrl = await server.start();
+      mockFetch.mockImplementation(server.fetch as any);
+      const json = JSON.stringify(analysis);
+      server.respondWith([
+        ...SseStubServer.chatChunks([
+          json.slice(0, 20),
+          json.slice(20, 40),
+          json.slice(40),
+        ]).slice(0, -1),
+        JSON.stringify({
+          choices: [],
+          usage: {
+            prompt_tokens: 420,
+            completion_tokens: 180,
+            total_tokens: 600,
+          },
+        }),
+        "[DONE]",
+      ]);
+      const streaming = new LlmService(
+        {
+          ...mockConfiguration,
+          llmProvider: "openai",
+          llmApiEndpoint: baseUrl,
+        },
+        mockRetryService,
+      );
+
+      try {
+        const stream = streaming.streamFollowupAnalysis({ emails: [] });
+        const deltas: string[] = [];
+        let next = await stream.next();
+        while (!next.done) {
+          deltas.push(next.value);
+          next = await stream.next();
+        }
+
+        expect(deltas.join("")).toBe(" Budget approval is pending. ");
+        expect(next.value.drafts).toHaveLength(2);
+        expect(next.value.usage).toEqual({
+          promptTokens: 420,
+          completionTokens: 180,
+          totalTokens: 600,
+        });
+        expect(server.requests[0].body.stream_options).toEqual({
+          include_usage: true,
+        });
+      } finally {
+        await server.stop();
+      }
+    });
+  });
+
+  describe("Usage ledger", () => {
+    let ledger: LlmUsageService;
+
+    const chatResponse = (content: string, usage?: any) =>
+      ({
+        ok: true,
+        json: async () => ({
+          model: "gpt-35-turbo-0125",
+          choices: [{ message: { content } }],
+          usage,
+        }),
+      }) as Response;
+
+    beforeEach(() => {
+      localStorage.clear();
+      ledger = new LlmUsageService();
+      service.setUsageLedger(ledger);
+    });
+
+    it("should record usage per operation and response model", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          chatResponse("A short summary.", {
+            prompt_tokens: 120,
+            completion_tokens: 30,
+            total_tokens: 150,
+          }),
+        )
+        .mockResolvedValueOnce(
+          chatResponse('{"sentiment": "positive"}', {
+            prompt_tokens: 80,
+            completion_tokens: 5,
+            total_tokens: 85,
+          }),
+        );
+
+      await service.summarizeEmail("Thanks for the update");
+      await service.analyzeSentiment("Thanks for the update");
+
+      const today = ledger.getDailyUsage();
+      expect(today.totalTokens).toBe(235);
+      expect(today.byOperation.summary).toMatchObject({
+        calls: 1,
+        promptTokens: 120,
+        completionTokens: 30,
+      });
+      expect(today.byOperation.sentiment!.totalTokens).toBe(85);
+      expect(Object.keys(today.byModel)).toEqual(["gpt-35-turbo-0125"]);
+    });
+
+    it("should estimate usage when the provider reports none", async () => {
+      mockFetch.mockResolvedValueOnce(chatResponse("12345678"));
+
+      await service.analyzeTone("Hello");
+
+      const tone = ledger.getDailyUsage().byOperation.tone!;
+      expect(tone.completionTokens).toBe(2);
+      expect(tone.promptTokens).toBeGreaterThan(0);
+    });
+
+    it("should refuse calls once the daily budget is exceeded, except health checks", async () => {
+      ledger.configure({ llmDailyTokenBudget: 100 });
+      ledger.record("summary", "gpt-35-turbo", {
+        promptTokens: 90,
+        completionTokens: 10,
+        totalTokens: 100,
+      });
+
+      await expect(service.summarizeEmail("Hello")).rejects.toThrow(
+        "Daily LLM budget exceeded",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      mockFetch.mockResolvedValueOnce(
+        chatResponse("OK", {
+          prompt_tokens: 10,
+          completion_tokens: 1,
+          total_tokens: 11,
+        }),
+      );
+      await expect(service.healthCheck()).resolves.toBe(true);
+      expect(ledger.getDailyUsage().byOperation.health_check!.calls).toBe(1);
+    });
+  });
+
   describe("API Configuration", () => {
     it("should use DIAL API for EPAM endpoints", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({
-          choices: [{ message: { content: "1. Test suggestion" } }],
+          choices: [
+            { message: { content: '{"suggestions":["Test suggestion"]}' } },
+          ],
         }),
       } as Response);
 
@@ -319,7 +667,9 @@ describe("LlmService", () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({
-          choices: [{ message: { content: "1. Test suggestion" } }],
+          choices: [
+            { message: { content: '{"suggestions":["Test suggestion"]}' } },
+          ],
         }),
       } as Response);
 
@@ -352,7 +702,7 @@ describe("LlmService", () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({
-          choices: [{ message: { content: "1. Test" } }],
+          choices: [{ message: { content: '{"suggestions":["Test"]}' } }],
         }),
       } as Response);
 
@@ -370,4 +720,562 @@ describe("LlmService", () => {
       );
     });
   });
+
+  describe("Streaming", () => {
+    let server: SseStubServer;
+    let streamingService: LlmService;
+
+    const collect = async <T>(
+      stream: AsyncGenerator<string, T>,
+    ): Promise<{ deltas: string[]; result: T }> => {
+      const deltas: string[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        deltas.push(next.value);
+        next = await stream.next();
+      }
+      return { deltas, result: next.value };
+    };
+
+    beforeEach(async () => {
+      server = new SseStubServer();
+      const baseUrl = await server.start();
+      mockFetch.mockImplementation(server.fetch as any);
+      streamingService = new LlmService(
+        {
+          ...mockConfiguration,
+          llmProvider: "openai",
+          llmApiEndpoint: baseUrl,
+        },
+        mockRetryService,
+      );
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("should yield token deltas and return the assembled response", async () => {
+      server.respondWith(SseStubServer.chatChunks(["Hel", "lo", " world"]), {
+        delayMs: 5,
+      });
+
+      const { deltas, result } = await collect(
+        streamingService.streamCompletion("Say hello"),
+      );
+
+      expect(deltas).toEqual(["Hel", "lo", " world"]);
+      expect(result).toEqual({
+        content: "Hello world",
+        model: "stub-model",
+        finishReason: "stop",
+      });
+      expect(server.requests[0].url).toBe("/v1/chat/completions");
+      expect(server.requests[0].body.stream).toBe(true);
+    });
+
+    it("should send stream: true to DIAL deployments", async () => {
+      const dialService = new LlmService(
+        {
+          ...mockConfiguration,
+          llmApiEndpoint: (streamingService as any).configuration
+            .llmApiEndpoint,
+        },
+        mockRetryService,
+      );
+      server.respondWith(SseStubServer.chatChunks(["OK"]));
+
+      await collect(dialService.streamCompletion("Ping"));
+
+      expect(server.requests[0].url).toBe(
+        "/openai/deployments/gpt-35-turbo/chat/completions?api-version=2024-02-01",
+      );
+      expect(server.requests[0].headers["api-key"]).toBe("test-api-key");
+      expect(server.requests[0].body).toEqual(
+        expect.objectContaining({ stream: true, model: "gpt-35-turbo" }),
+      );
+    });
+
+    it("should skip chunks without choices", async () => {
+      server.respondWith([
+        JSON.stringify({ choices: [], prompt_filter_results: [] }),
+        ...SseStubServer.chatChunks(["Done"]),
+      ]);
+
+      const { deltas } = await collect(streamingService.streamCompletion("x"));
+
+      expect(deltas).toEqual(["Done"]);
+    });
+
+    it("should stream the first suggestion out of the JSON response", async () => {
+      server.respondWith(
+        SseStubServer.chatChunks([
+          '{"suggestions": ["Ping the ',
+          'client \\"today',
+          '\\"", "Wait"]}',
+        ]),
+      );
+
+      const { deltas, result } = await collect(
+        streamingService.streamFollowupSuggestions("Any update?"),
+      );
+
+      expect(deltas).toEqual(["Ping the ", 'client "today', '"']);
+      expect(result).toEqual(['Ping the client "today"', "Wait"]);
+      expect(server.requests[0].body.response_format).toEqual(
+        expect.objectContaining({ type: "json_schema" }),
+      );
+    });
+
+    it("should surface HTTP errors before any delta", async () => {
+      server.respondWithError(401, "invalid key");
+
+      await expect(
+        collect(streamingService.streamThreadAnalysis({ emails: [] })),
+      ).rejects.toThrow(
+        "Failed to analyze thread: OpenAI API request failed: 401 Unauthorized - invalid key",
+      );
+      expect(mockRetryService.executeWithRetry).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.any(Object),
+        "llm-stream",
+      );
+    });
+
+    it("should surface error events sent mid-stream", async () => {
+      server.respondWith([
+        ...SseStubServer.chatChunks(["partial"]).slice(0, 1),
+        JSON.stringify({ error: { message: "rate limited" } }),
+      ]);
+
+      await expect(
+        collect(streamingService.streamCompletion("x")),
+      ).rejects.toThrow("OpenAI API stream failed: rate limited");
+    });
+  });
+
+  describe("Local providers", () => {
+    const localConfig = (overrides: Partial<Configuration>): Configuration => ({
+      ...mockConfiguration,
+      llmApiKey: "",
+      llmDeploymentName: undefined,
+      llmApiVersion: undefined,
+      ...overrides,
+    });
+
+    const jsonResponse = (body: any, status = 200) =>
+      ({
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: status === 200 ? "OK" : "Not Found",
+        json: async () => body,
+        text: async () => JSON.stringify(body),
+      }) as Response;
+
+    it("should not require an API key for local providers", () => {
+      expect(
+        LlmService.requiresApiKey(localConfig({ llmProvider: "ollama" })),
+      ).toBe(false);
+      expect(
+        LlmService.requiresApiKey(
+          localConfig({ llmProvider: "openai-compatible" }),
+        ),
+      ).toBe(false);
+      expect(
+        LlmService.requiresApiKey(
+          localConfig({
+            llmProvider: undefined,
+            llmApiEndpoint: "http://localhost:11434",
+          }),
+        ),
+      ).toBe(false);
+      expect(LlmService.requiresApiKey(mockConfiguration)).toBe(true);
+    });
+
+    it("should call Ollama's /api/chat without credentials", async () => {
+      const ollama = new LlmService(
+        localConfig({
+          llmProvider: "ollama",
+          llmApiEndpoint: "http://localhost:11434/",
+          llmModel: "llama3.1",
+        }),
+        mockRetryService,
+      );
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          model: "llama3.1",
+          message: { role: "assistant", content: "Neutral" },
+          done_reason: "stop",
+          prompt_eval_count: 20,
+          eval_count: 2,
+        }),
+      );
+
+      const summary = await ollama.summarizeEmail("Hello");
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const body = JSON.parse(init.body as string);
+      expect(summary).toBe("Neutral");
+      expect(url).toBe("http://localhost:11434/api/chat");
+      expect(init.headers).toEqual({ "Content-Type": "application/json" });
+      expect(body.stream).toBe(false);
+      expect(body.model).toBe("llama3.1");
+      expect(body.options.num_predict).toBe(500);
+    });
+
+    it("should call /v1/chat/completions on OpenAI-compatible servers", async () => {
+      const local = new LlmService(
+        localConfig({
+          llmProvider: "openai-compatible",
+          llmApiEndpoint: "http://localhost:8080/v1",
+          llmModel: "",
+        }),
+        mockRetryService,
+      );
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          choices: [{ message: { content: '{"suggestions":["Ping"]}' } }],
+        }),
+      );
+
+      await local.generateFollowupSuggestions("Test");
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("http://localhost:8080/v1/chat/completions");
+      expect((init.headers as any).Authorization).toBeUndefined();
+    });
+
+    it("should stream Ollama NDJSON responses", async () => {
+      const server = new SseStubServer();
+      const baseUrl = await server.start();
+      mockFetch.mockImplementation(server.fetch as any);
+      server.respondWith(
+        [
+          JSON.stringify({ model: "llama3.1", message: { content: "Hi" } }),
+          JSON.stringify({ model: "llama3.1", message: { content: " there" } }),
+          JSON.stringify({
+            model: "llama3.1",
+            message: { content: "" },
+            done: true,
+            done_reason: "stop",
+          }),
+        ],
+        { format: "ndjson" },
+      );
+      const ollama = new LlmService(
+        localConfig({ llmProvider: "ollama", llmApiEndpoint: baseUrl }),
+        mockRetryService,
+      );
+
+      try {
+        const stream = ollama.streamCompletion("Say hi");
+        const deltas: string[] = [];
+        let next = await stream.next();
+        while (!next.done) {
+          deltas.push(next.value);
+          next = await stream.next();
+        }
+
+        expect(deltas).toEqual(["Hi", " there"]);
+        expect(next.value).toEqual({
+          content: "Hi there",
+          model: "llama3.1",
+          finishReason: "stop",
+        });
+        expect(server.requests[0].url).toBe("/api/chat");
+        expect(server.requests[0].body.stream).toBe(true);
+      } finally {
+        await server.stop();
+      }
+    });
+
+    describe("Model discovery", () => {
+      it("should list Ollama models from /api/tags", async () => {
+        const ollama = new LlmService(
+          localConfig({
+            llmProvider: "ollama",
+            llmApiEndpoint: "http://gpu-box:11434",
+          }),
+          mockRetryService,
+        );
+        mockFetch.mockResolvedValueOnce(
+          jsonResponse({
+            models: [{ name: "llama3.1:latest" }, { name: "mistral:7b" }],
+          }),
+        );
+
+        await expect(ollama.listModels()).resolves.toEqual([
+          "llama3.1:latest",
+          "mistral:7b",
+        ]);
+        expect(mockFetch.mock.calls[0][0]).toBe(
+          "http://gpu-box:11434/api/tags",
+        );
+      });
+
+      it("should list OpenAI-compatible models from /v1/models", async () => {
+        const local = new LlmService(
+          localConfig({
+            llmProvider: "openai-compatible",
+            llmApiEndpoint: "http://localhost:8080/v1/chat/completions",
+          }),
+          mockRetryService,
+        );
+        mockFetch.mockResolvedValueOnce(
+          jsonResponse({ data: [{ id: "qwen2.5-7b-instruct" }] }),
+        );
+
+        await expect(local.listModels()).resolves.toEqual([
+          "qwen2.5-7b-instruct",
+        ]);
+        expect(mockFetch.mock.calls[0][0]).toBe(
+          "http://localhost:8080/v1/models",
+        );
+      });
+
+      it("should reject discovery for hosted deployment providers", async () => {
+        await expect(service.listModels()).rejects.toThrow(
+          "Model discovery is not supported for provider dial",
+        );
+      });
+    });
+
+    describe("Health checks", () => {
+      it("should check that the Ollama model is pulled", async () => {
+        const ollama = new LlmService(
+          localConfig({
+            llmProvider: "ollama",
+            llmApiEndpoint: "http://localhost:11434",
+            llmModel: "llama3.1",
+          }),
+          mockRetryService,
+        );
+        mockFetch
+          .mockResolvedValueOnce(
+            jsonResponse({ models: [{ name: "llama3.1:latest" }] }),
+          )
+          .mockResolvedValueOnce(jsonResponse({ models: [] }));
+
+        await expect(ollama.healthCheck()).resolves.toBe(true);
+        await expect(ollama.healthCheck()).resolves.toBe(false);
+        expect(mockRetryService.executeWithRetry).not.toHaveBeenCalled();
+      });
+
+      it("should fall back to the model list when /health is missing", async () => {
+        const local = new LlmService(
+          localConfig({
+            llmProvider: "openai-compatible",
+            llmApiEndpoint: "http://localhost:8000",
+          }),
+          mockRetryService,
+        );
+        mockFetch
+          .mockResolvedValueOnce(jsonResponse({}, 404))
+          .mockResolvedValueOnce(jsonResponse({ data: [{ id: "m" }] }));
+
+        await expect(local.healthCheck()).resolves.toBe(true);
+        expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+          "http://localhost:8000/health",
+          "http://localhost:8000/v1/models",
+        ]);
+      });
+
+      it("should report unreachable local servers as unhealthy", async () => {
+        const local = new LlmService(
+          localConfig({
+            llmProvider: "openai-compatible",
+            llmApiEndpoint: "http://localhost:8080",
+          }),
+          mockRetryService,
+        );
+        mockFetch.mockRejectedValue(new Error("ECONNREFUSED"));
+
+        await expect(local.healthCheck()).resolves.toBe(false);
+      });
+    });
+  });
+
+  describe("Anthropic provider", () => {
+    const anthropicConfig: Partial<Configuration> = {
+      llmProvider: "anthropic",
+      llmApiEndpoint: "https://api.anthropic.com",
+      llmApiKey: "sk-ant-test",
+      llmModel: "claude-haiku-4-5",
+      llmDeploymentName: undefined,
+      llmApiVersion: undefined,
+    };
+
+    const messageResponse = (overrides: any = {}) =>
+      ({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({
+          id: "msg_1",
+          type: "message",
+          role: "assistant",
+          model: "claude-haiku-4-5",
+          content: [{ type: "text", text: "Short summary." }],
+          stop_reason: "end_turn",
+          usage: { input_tokens: 12, output_tokens: 4 },
+          ...overrides,
+        }),
+      }) as Response;
+
+    beforeEach(() => {
+      service = new LlmService(
+        { ...mockConfiguration, ...anthropicConfig },
+        mockRetryService,
+      );
+    });
+
+    it("should call the Messages API with Anthropic headers", async () => {
+      mockFetch.mockResolvedValueOnce(messageResponse());
+
+      const summary = await service.summarizeEmail("Hello");
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const body = JSON.parse(init.body as string);
+      expect(summary).toBe("Short summary.");
+      expect(url).toBe("https://api.anthropic.com/v1/messages");
+      expect(init.headers).toEqual({
+        "Content-Type": "application/json",
+        "x-api-key": "sk-ant-test",
+        "anthropic-version": "2023-06-01",
+        "anthropic-dangerous-direct-browser-access": "true",
+      });
+      expect(body.model).toBe("claude-haiku-4-5");
+      expect(body.max_tokens).toBe(500);
+      expect(body.messages).toEqual([
+        { role: "user", content: expect.stringContaining("Hello") },
+      ]);
+      expect(body.system).toBeUndefined();
+      expect(body.frequency_penalty).toBeUndefined();
+    });
+
+    it("should send system prompts as the top-level system field", async () => {
+      mockFetch.mockResolvedValueOnce(messageResponse());
+
+      await service.analyzeTone("Hello", {
+        systemPrompt: "You are an email assistant.",
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(body.system).toBe("You are an email assistant.");
+      expect(body.messages.map((m: any) => m.role)).toEqual(["user"]);
+    });
+
+    it("should map usage and stop reasons onto LlmResponse", async () => {
+      const server = new SseStubServer();
+      const baseUrl = await server.start();
+      mockFetch.mockImplementation(server.fetch as any);
+      server.respondWith([
+        JSON.stringify({
+          type: "message_start",
+          message: { model: "claude-haiku-4-5", content: [] },
+        }),
+        JSON.stringify({ type: "ping" }),
+        JSON.stringify({
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text: "Hi" },
+        }),
+        JSON.stringify({
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text: " there" },
+        }),
+        JSON.stringify({
+          type: "message_delta",
+          delta: { stop_reason: "max_tokens" },
+        }),
+        JSON.stringify({ type: "message_stop" }),
+      ]);
+      const streaming = new LlmService(
+        { ...mockConfiguration, ...anthropicConfig, llmApiEndpoint: baseUrl },
+        mockRetryService,
+      );
+
+      try {
+        const stream = streaming.streamCompletion("Say hi");
+        const deltas: string[] = [];
+        let next = await stream.next();
+        while (!next.done) {
+          deltas.push(next.value);
+          next = await stream.next();
+        }
+
+        expect(deltas).toEqual(["Hi", " there"]);
+        expect(next.value).toEqual({
+          content: "Hi there",
+          model: "claude-haiku-4-5",
+          finishReason: "length",
+        });
+        expect(server.requests[0].url).toBe("/v1/messages");
+        expect(server.requests[0].headers["x-api-key"]).toBe("sk-ant-test");
+        expect(server.requests[0].body.stream).toBe(true);
+      } finally {
+        await server.stop();
+      }
+    });
+
+    it("should report error events from the stream", async () => {
+      const server = new SseStubServer();
+      const baseUrl = await server.start();
+      mockFetch.mockImplementation(server.fetch as any);
+      server.respondWith([
+        JSON.stringify({
+          type: "error",
+          error: { type: "overloaded_error", message: "Overloaded" },
+        }),
+      ]);
+      const streaming = new LlmService(
+        { ...mockConfiguration, ...anthropicConfig, llmApiEndpoint: baseUrl },
+        mockRetryService,
+      );
+
+      try {
+        const stream = streaming.streamCompletion("Say hi");
+        await expect(stream.next()).rejects.toThrow(
+          "Anthropic API stream failed: Overloaded",
+        );
+      } finally {
+        await server.stop();
+      }
+    });
+
+    it("should be auto-detected from the endpoint", async () => {
+      const detected = new LlmService(
+        {
+          ...mockConfiguration,
+          ...anthropicConfig,
+          llmProvider: undefined,
+          llmApiEndpoint: "https://api.anthropic.com/v1/messages",
+        },
+        mockRetryService,
+      );
+      mockFetch.mockResolvedValueOnce(messageResponse());
+
+      await detected.summarizeEmail("Hello");
+
+      const [url] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("https://api.anthropic.com/v1/messages");
+    });
+
+    it("should list models from /v1/models", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: [{ id: "claude-sonnet-4-5" }, { id: "claude-haiku-4-5" }],
+        }),
+      } as Response);
+
+      const models = await service.listModels();
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(models).toEqual(["claude-sonnet-4-5", "claude-haiku-4-5"]);
+      expect(url).toBe("https://api.anthropic.com/v1/models");
+      expect((init.headers as any)["x-api-key"]).toBe("sk-ant-test");
+    });
+  });
 });
@@ -0,0 +1,133 @@
+import { LlmUsageService } from "../../src/services/LlmUsageService";
+
+describe("LlmUsageService", () => {
+  const usage = (promptTokens: number, completionTokens: number) => ({
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should total usage per operation and model for the day", () => {
+    const ledger = new LlmUsageService();
+    const now = new Date(2025, 2, 10, 9);
+
+    ledger.record("summary", "gpt-4o-mini", usage(100, 20), now);
+    ledger.record("summary", "gpt-4o-mini", usage(300, 80), now);
+    ledger.record("sentiment", "claude-haiku-4-5", usage(50, 5), now);
+    ledger.record(
+      "summary",
+      "gpt-4o-mini",
+      usage(999, 1),
+      new Date(2025, 2, 9),
+    );
+
+    const today = ledger.getDailyUsage(now);
+    expect(today.day).toBe("2025-03-10");
+    expect(today.calls).toBe(3);
+    expect(today.totalTokens).toBe(555);
+    expect(today.byOperation.summary).toMatchObject({
+      calls: 2,
+      promptTokens: 400,
+      completionTokens: 100,
+    });
+    expect(today.byModel["claude-haiku-4-5"].totalTokens).toBe(55);
+  });
+
+  it("should price usage per model, matching dated model versions by prefix", () => {
+    const ledger = new LlmUsageService({
+      llmPricing: [
+        { model: "gpt-4o", promptPerMillion: 2.5, completionPerMillion: 10 },
+        {
+          model: "gpt-4o-mini",
+          promptPerMillion: 0.15,
+          completionPerMillion: 0.6,
+        },
+      ],
+    });
+
+    expect(
+      ledger.calculateCost("gpt-4o-mini-2024-07-18", usage(1000000, 1000000)),
+    ).toBeCloseTo(0.75);
+    expect(ledger.calculateCost("gpt-4o", usage(1000, 1000))).toBeCloseTo(
+      0.0125,
+    );
+    expect(ledger.calculateCost("llama3.1", usage(1000, 1000))).toBe(0);
+  });
+
+  it("should report the budget as exceeded once today's tokens or cost reach it", () => {
+    const now = new Date(2025, 2, 10, 9);
+    const ledger = new LlmUsageService({ llmDailyTokenBudget: 1000 });
+
+    ledger.record("followup_analysis", "gpt-4o-mini", usage(600, 300), now);
+    expect(ledger.isBudgetExceeded(now)).toBe(false);
+
+    ledger.record("followup_analysis", "gpt-4o-mini", usage(80, 20), now);
+    expect(ledger.getBudgetStatus(now)).toMatchObject({
+      exceeded: true,
+      tokensUsed: 1000,
+      tokenBudget: 1000,
+    });
+    // The budget resets with the day
+    expect(ledger.isBudgetExceeded(new Date(2025, 2, 11, 9))).toBe(false);
+
+    ledger.configure({
+      llmDailyCostBudget: 0.5,
+      llmPricing: [
+        { model: "gpt-4o", promptPerMillion: 250, completionPerMillion: 1000 },
+      ],
+    });
+    expect(ledger.isBudgetExceeded(now)).toBe(false);
+    ledger.record("summary", "gpt-4o", usage(1000, 300), now);
+    expect(ledger.isBudgetExceeded(now)).toBe(true);
+  });
+
+  it("should persist the ledger and drop days past the retention window", () => {
+    new LlmUsageService().record(
+      "health_check",
+      "gpt-4o-mini",
+      usage(10, 1),
+      new Date(2025, 0, 1),
+    );
+    const restored = new LlmUsageService();
+    expect(restored.getDailyUsage(new Date(2025, 0, 1)).calls).toBe(1);
+
+    restored.record(
+      "summary",
+      "gpt-4o-mini",
+      usage(10, 1),
+      new Date(2025, 2, 1),
+    );
+    expect(
+      new LlmUsageService().getDailyUsage(new Date(2025, 0, 1)).calls,
+    ).toBe(0);
+  });
+
+  it("should parse and format the settings price list", () => {
+    const pricing = LlmUsageService.parsePricing(
+      "# per 1M tokens\ngpt-4o-mini = 0.15 / 0.6\n\nclaude-haiku-4-5=1/5",
+    );
+
+    expect(pricing).toEqual([
+      {
+        model: "gpt-4o-mini",
+        promptPerMillion: 0.15,
+        completionPerMillion: 0.6,
+      },
+      {
+        model: "claude-haiku-4-5",
+        promptPerMillion: 1,
+        completionPerMillion: 5,
+      },
+    ]);
+    expect(LlmUsageService.formatPricing(pricing)).toBe(
+      "gpt-4o-mini = 0.15 / 0.6\nclaude-haiku-4-5 = 1 / 5",
+    );
+    expect(() => LlmUsageService.parsePricing("gpt-4o-mini 0.15")).toThrow(
+      "Invalid price on line 1",
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { FolderChanges, MailSource } from "../../src/services/MailSource";
+import { MailboxSyncService } from "../../src/services/MailboxSyncService";
+import { ParsedEmail } from "../../src/services/XmlParsingService";
+
+const email = (id: string, conversationId: string): ParsedEmail => ({
+  id,
+  subject: `Subject ${id}`,
+  dateTimeSent: "2025-03-10T10:00:00Z",
+  conversationId,
+  body: { content: "" },
+  from: { emailAddress: { address: "me@example.com" } },
+  toRecipients: [{ emailAddress: { address: "you@example.com" } }],
+});
+
+const noChanges = (syncState: string): FolderChanges => ({
+  syncState,
+  changed: [],
+  deletedIds: [],
+  complete: true,
+});
+
+describe("MailboxSyncService", () => {
+  const cutoff = new Date("2025-03-01T00:00:00Z");
+
+  const createSource = (syncFolder?: MailSource["syncFolder"]): MailSource =>
+    ({
+      kind: "ews",
+      isAvailable: () => true,
+      getCurrentUserEmail: () => "me@example.com",
+      syncFolder,
+    }) as unknown as MailSource;
+
+  it("should report only the conversations changed since the last sync", async () => {
+    const syncFolder = vi.fn(
+      async (folder: string, syncState?: string): Promise<FolderChanges> => {
+        if (folder === "inbox") {
+          return noChanges("inbox-1");
+        }
+        if (!syncState) {
+          return {
+            syncState: "sent-1",
+            changed: [email("a1", "conv-a"), email("b1", "conv-b")],
+            deletedIds: [],
+            complete: true,
+          };
+        }
+        return {
+          syncState: "sent-2",
+          changed: [email("b2", "conv-b")],
+          deletedIds: [],
+          complete: true,
+        };
+      },
+    );
+    const service = new MailboxSyncService(false);
+    const source = createSource(syncFolder);
+
+    const first = await service.sync(source, "me@example.com", cutoff);
+    const second = await service.sync(source, "me@example.com", cutoff);
+
+    expect(first?.initial).toBe(true);
+    expect(second?.initial).toBe(false);
+    expect(second?.changedConversationIds).toEqual(["conv-b"]);
+    expect(second?.changedItemIds).toEqual(["b2"]);
+    expect(second?.emails.map((item) => item.id).sort()).toEqual([
+      "a1",
+      "b1",
+      "b2",
+    ]);
+    expect(syncFolder).toHaveBeenLastCalledWith("inbox", "inbox-1", cutoff);
+  });
+
+  it("should drop deleted items and follow pages until complete", async () => {
+    const pages: FolderChanges[] = [
+      {
+        syncState: "sent-1",
+        changed: [email("a1", "conv-a")],
+        deletedIds: [],
+        complete: false,
+      },
+      {
+        syncState: "sent-2",
+        changed: [email("b1", "conv-b")],
+        deletedIds: [],
+        complete: true,
+      },
+      {
+        syncState: "sent-3",
+        changed: [],
+        deletedIds: ["a1", "unknown"],
+        complete: true,
+      },
+    ];
+    const service = new MailboxSyncService(false);
+    const source = createSource(async (folder) =>
+      folder === "inbox" ? noChanges("inbox-1") : pages.shift()!,
+    );
+
+    const first = await service.sync(source, "me@example.com", cutoff);
+    const second = await service.sync(source, "me@example.com", cutoff);
+
+    expect(first?.emails.map((item) => item.id).sort()).toEqual(["a1", "b1"]);
+    expect(second?.emails.map((item) => item.id)).toEqual(["b1"]);
+    expect(second?.changedConversationIds).toEqual(["conv-a"]);
+  });
+
+  it("should start over when the sync state is rejected", async () => {
+    const syncFolder = vi.fn(async (folder: string, syncState?: string) =>
+      noChanges(`${folder}-1`),
+    );
+    const service = new MailboxSyncService(false);
+    const source = createSource(syncFolder);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await service.sync(source, "me@example.com", cutoff);
+    syncFolder.mockRejectedValueOnce(new Error("ErrorInvalidSyncStateData"));
+    const failed = await service.sync(source, "me@example.com", cutoff);
+    const retried = await service.sync(source, "me@example.com", cutoff);
+
+    expect(failed).toBeNull();
+    expect(retried?.initial).toBe(true);
+    expect(syncFolder.mock.calls.map((call) => call[1])).toContain(undefined);
+    warn.mockRestore();
+  });
+
+  it("should return null for sources without incremental sync", async () => {
+    const service = new MailboxSyncService(false);
+
+    expect(
+      await service.sync(createSource(), "me@example.com", cutoff),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { NotificationService } from "../../src/services/NotificationService";
+import { FollowupEmail } from "../../src/models/FollowupEmail";
+
+describe("NotificationService", () => {
+  const email = (overrides: Partial<FollowupEmail> = {}): FollowupEmail => ({
+    id: "msg-1",
+    subject: "Contract",
+    recipients: ["client@example.com"],
+    sentDate: new Date("2025-03-03T09:00:00Z"),
+    body: "Can you sign?",
+    summary: "Contract",
+    priority: "high",
+    daysWithoutResponse: 5,
+    hasAttachments: false,
+    accountEmail: "test@example.com",
+    threadMessages: [],
+    isSnoozed: false,
+    isDismissed: false,
+    ...overrides,
+  });
+
+  let replaceAsync: ReturnType<typeof vi.fn>;
+  let originalItem: any;
+  let originalEnums: any;
+
+  beforeEach(() => {
+    localStorage.clear();
+    const office = (global as any).Office;
+    originalItem = office.context.mailbox.item;
+    originalEnums = office.MailboxEnums;
+    replaceAsync = vi.fn((_key, _message, callback) =>
+      callback({ status: "succeeded" }),
+    );
+    office.context.mailbox.item = { notificationMessages: { replaceAsync } };
+    office.MailboxEnums = {
+      ...originalEnums,
+      ItemNotificationMessageType: {
+        InformationalMessage: "informationalMessage",
+      },
+    };
+  });
+
+  afterEach(() => {
+    const office = (global as any).Office;
+    office.context.mailbox.item = originalItem;
+    office.MailboxEnums = originalEnums;
+  });
+
+  it("should notify follow-ups at or above the minimum priority", async () => {
+    const notifications = new NotificationService({ minPriority: "medium" });
+
+    const added = await notifications.notify(
+      [
+        email({ id: "high", priority: "high" }),
+        email({ id: "medium", priority: "medium" }),
+        email({ id: "low", priority: "low" }),
+        email({ id: "snoozed", priority: "high", isSnoozed: true }),
+      ],
+      new Date(2025, 2, 10, 12, 0),
+    );
+
+    expect(added.map((entry) => entry.emailId)).toEqual(["high", "medium"]);
+    expect(replaceAsync).toHaveBeenCalledWith(
+      "followupSuggesterOverdue",
+      expect.objectContaining({
+        type: "informationalMessage",
+        message: '2 follow-ups are now overdue, including "Contract"',
+      }),
+      expect.any(Function),
+    );
+    expect(notifications.getUnreadCount()).toBe(2);
+  });
+
+  it("should only fill the notification center during quiet hours", async () => {
+    const notifications = new NotificationService({
+      quietHoursStart: "20:00",
+      quietHoursEnd: "07:00",
+    });
+
+    expect(notifications.isQuietHours(new Date(2025, 2, 10, 6, 59))).toBe(true);
+    expect(notifications.isQuietHours(new Date(2025, 2, 10, 7, 0))).toBe(false);
+
+    const added = await notifications.notify(
+      [email()],
+      new Date(2025, 2, 10, 22, 30),
+    );
+
+    expect(added[0].silent).toBe(true);
+    expect(replaceAsync).not.toHaveBeenCalled();
+    expect(notifications.getHistory()).toHaveLength(1);
+  });
+
+  it("should keep the history across instances until cleared", async () => {
+    await new NotificationService().notify([email()]);
+
+    const reloaded = new NotificationService();
+    expect(reloaded.getHistory()[0]).toEqual(
+      expect.objectContaining({ emailId: "msg-1", read: false }),
+    );
+
+    reloaded.markAllRead();
+    expect(new NotificationService().getUnreadCount()).toBe(0);
+
+    reloaded.clear();
+    expect(new NotificationService().getHistory()).toEqual([]);
+  });
+
+  it("should not notify when notifications are turned off", async () => {
+    const added = await new NotificationService({ enabled: false }).notify([
+      email(),
+    ]);
+
+    expect(added).toEqual([]);
+    expect(replaceAsync).not.toHaveBeenCalled();
+  });
+
+  it("should report expired snoozes even with notifications turned off", async () => {
+    const notifications = new NotificationService({ enabled: false });
+
+    const added = await notifications.notifySnoozeExpiries([
+      { emailId: "msg-2", subject: "Invoice", status: "replied" },
+    ]);
+
+    expect(added[0]).toEqual(
+      expect.objectContaining({ kind: "replied", emailId: "msg-2" }),
+    );
+    expect(replaceAsync).toHaveBeenCalledWith(
+      "followupSuggesterOverdue",
+      expect.objectContaining({
+        message: '"Invoice" got a reply while snoozed and was closed',
+      }),
+      expect.any(Function),
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { PriorityScoringService } from "../../src/services/PriorityScoringService";
+import { PriorityInput } from "../../src/models/PriorityScore";
+
+describe("PriorityScoringService", () => {
+  const input = (overrides: Partial<PriorityInput> = {}): PriorityInput => ({
+    daysWaiting: 0,
+    threadLength: 1,
+    sentiment: "neutral",
+    recipients: ["colleague@example.com"],
+    hasAttachments: false,
+    userEmail: "test@example.com",
+    ...overrides,
+  });
+
+  it("should explain the score with its contributing factors", () => {
+    const scoring = new PriorityScoringService({
+      contactRules: {
+        vipAddresses: [],
+        vipDomains: ["bigclient.com"],
+        neverTrack: [],
+      },
+    });
+
+    const result = scoring.score(
+      input({
+        daysWaiting: 3,
+        recipients: ["Dana <dana@bigclient.com>"],
+        hasAttachments: true,
+      }),
+    );
+
+    expect(result.breakdown).toEqual([
+      {
+        factor: "daysWaiting",
+        points: 25,
+        reason: "Waiting 3 business days for a response",
+      },
+      {
+        factor: "recipientImportance",
+        points: 25,
+        reason: "VIP contact: dana@bigclient.com",
+      },
+      { factor: "attachments", points: 5, reason: "Has attachments" },
+      {
+        factor: "externalDomain",
+        points: 5,
+        reason: "External recipient: dana@bigclient.com",
+      },
+    ]);
+    expect(result.score).toBe(60);
+    expect(result.level).toBe("high");
+  });
+
+  it("should follow the configured day thresholds", () => {
+    const scoring = new PriorityScoringService({
+      priorityThresholds: { high: 14, medium: 5, low: 2 },
+    });
+
+    expect(scoring.score(input({ daysWaiting: 2 })).score).toBe(0);
+    expect(scoring.score(input({ daysWaiting: 4 })).level).toBe("low");
+    expect(scoring.score(input({ daysWaiting: 5 })).level).toBe("medium");
+    expect(scoring.score(input({ daysWaiting: 10 })).level).toBe("medium");
+    expect(scoring.score(input({ daysWaiting: 14 })).level).toBe("high");
+  });
+
+  it("should apply configured weights and ignore disabled factors", () => {
+    const scoring = new PriorityScoringService({
+      priorityWeights: { sentiment: 0, externalDomain: 30 },
+    });
+
+    const result = scoring.score(
+      input({ sentiment: "urgent", recipients: ["partner@other.org"] }),
+    );
+
+    expect(result.breakdown.map((factor) => factor.factor)).toEqual([
+      "externalDomain",
+    ]);
+    expect(result.level).toBe("medium");
+    expect(scoring.getWeights().daysWaiting).toBe(50);
+  });
+
+  it("should cap the score at 100", () => {
+    const result = new PriorityScoringService().score(
+      input({ daysWaiting: 30, threadLength: 6, sentiment: "urgent" }),
+    );
+
+    expect(result.score).toBe(100);
+    expect(result.level).toBe("high");
+  });
+});
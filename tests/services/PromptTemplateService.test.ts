@@ -0,0 +1,90 @@
+import { PromptTemplateService } from "../../src/services/PromptTemplateService";
+import { DEFAULT_PROMPT_TEMPLATES } from "../../src/services/PromptTemplates";
+
+describe("PromptTemplateService", () => {
+  it("should render the shipped default with its variables", () => {
+    const prompts = new PromptTemplateService();
+
+    const prompt = prompts.render("followup_analysis", {
+      thread: "Email 1:\nBudget\nCan you approve?\n---",
+      recipient: "anna@example.com",
+      daysWithoutResponse: 4,
+      context: "User email: sam@example.com",
+    });
+
+    expect(prompt).toContain("Can you approve?");
+    expect(prompt).toContain("Recipients: anna@example.com");
+    expect(prompt).toContain("Days without a response: 4");
+    expect(prompt).toContain("Additional context: User email: sam@example.com");
+    expect(prompt).not.toMatch(/\{\w+\}/);
+  });
+
+  it("should drop lines whose variables are all empty", () => {
+    const prompts = new PromptTemplateService();
+
+    const prompt = prompts.render("thread_analysis", {
+      thread: "Email 1:\nHello\n---",
+    });
+
+    expect(prompt).not.toContain("Additional context");
+    expect(prompt).not.toContain("\n\n\n");
+    expect(prompt).toContain(
+      "Email 1:\nHello\n---\n\nProvide a brief analysis",
+    );
+  });
+
+  it("should prefer overrides and reset to the default", () => {
+    const prompts = new PromptTemplateService();
+    prompts.setOverride("summary", "Résumez en français : {email}");
+
+    expect(prompts.render("summary", { email: "Hello" })).toBe(
+      "Résumez en français : Hello",
+    );
+    expect(prompts.get("summary").isCustomized).toBe(true);
+
+    prompts.reset("summary");
+    expect(prompts.get("summary")).toMatchObject({
+      template: DEFAULT_PROMPT_TEMPLATES.summary.template,
+      isCustomized: false,
+    });
+  });
+
+  it("should flag overrides written against an older default", () => {
+    const prompts = new PromptTemplateService({
+      tone: {
+        template: "Describe the tone of {email}",
+        baseVersion: DEFAULT_PROMPT_TEMPLATES.tone.version - 1,
+        updatedAt: "2025-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(prompts.get("tone")).toMatchObject({
+      isCustomized: true,
+      isOutdated: true,
+    });
+    expect(prompts.get("summary").isOutdated).toBe(false);
+  });
+
+  it("should reject unknown variables and empty templates", () => {
+    const prompts = new PromptTemplateService();
+
+    expect(prompts.validate("summary", "Summarize {emial}")).toEqual([
+      "Unknown variable {emial}, available: {email}",
+    ]);
+    expect(() => prompts.setOverride("summary", "  ")).toThrow(
+      "Template must not be empty",
+    );
+    expect(prompts.get("summary").isCustomized).toBe(false);
+  });
+
+  it("should preview a draft with sample values", () => {
+    const prompts = new PromptTemplateService();
+
+    const preview = prompts.preview(
+      "followup_analysis",
+      "Follow up with {recipient} after {daysWithoutResponse} days",
+    );
+
+    expect(preview).toBe("Follow up with anna@example.com after 4 days");
+  });
+});
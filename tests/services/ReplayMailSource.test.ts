@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import { ReplayMailSource } from "../../src/services/ReplayMailSource";
+import { EmailAnalysisService } from "../../src/services/EmailAnalysisService";
+import { MailboxSnapshot } from "../../src/models/MailboxSnapshot";
+import { Configuration } from "../../src/models/Configuration";
+
+const SCENARIO_DIR = path.join(__dirname, "../fixtures/replay");
+
+const snapshot: MailboxSnapshot = {
+  userEmail: "test@example.com",
+  capturedAt: "2025-03-10T12:00:00Z",
+  messages: [
+    {
+      id: "sent-1",
+      conversationId: "conv-1",
+      subject: "Proposal",
+      from: "test@example.com",
+      to: ["client@example.com"],
+      sentDateTime: "2025-03-03T09:00:00Z",
+      body: "Here is the proposal.",
+    },
+    {
+      id: "reply-1",
+      conversationId: "conv-1",
+      subject: "RE: Proposal",
+      from: "Client@Example.com",
+      to: ["test@example.com"],
+      sentDateTime: "2025-03-04T14:00:00Z",
+      receivedDateTime: "2025-03-04T14:00:03Z",
+      body: "Looks good.",
+    },
+    {
+      id: "sent-2",
+      subject: "Old note",
+      from: "TEST@example.com",
+      to: ["someone@example.com"],
+      sentDateTime: "2025-01-01T09:00:00Z",
+      body: "Old",
+    },
+  ],
+};
+
+const loadScenario = (name: string): ReplayMailSource => {
+  const dir = path.join(SCENARIO_DIR, name);
+  const snapshotFile = path.join(dir, "mailbox.json");
+  if (fs.existsSync(snapshotFile)) {
+    return ReplayMailSource.fromJson(fs.readFileSync(snapshotFile, "utf-8"));
+  }
+  const emlFiles = fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".eml"))
+    .map((file) => ({
+      name: file,
+      content: fs.readFileSync(path.join(dir, file), "utf-8"),
+    }));
+  return ReplayMailSource.fromEmlFiles(emlFiles);
+};
+
+describe("ReplayMailSource", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+
+  describe("Folder listings", () => {
+    it("should infer folders from the sender and apply the cutoff", async () => {
+      const source = new ReplayMailSource(snapshot, now);
+
+      const sent = await source.listSentItems(
+        10,
+        new Date("2025-02-01T00:00:00Z"),
+      );
+      const inbox = await source.listInboxItems(
+        10,
+        new Date("2025-02-01T00:00:00Z"),
+      );
+
+      expect(sent.map((e) => e.id)).toEqual(["sent-1"]);
+      expect(inbox.map((e) => e.id)).toEqual(["reply-1"]);
+      expect(sent[0].toRecipients).toEqual([
+        { emailAddress: { address: "client@example.com" } },
+      ]);
+    });
+
+    it("should return the newest items first, limited to the count", async () => {
+      const source = new ReplayMailSource(snapshot, now);
+
+      const sent = await source.listSentItems(1, new Date(0));
+
+      expect(sent.map((e) => e.id)).toEqual(["sent-1"]);
+    });
+
+    it("should shift dates so the snapshot looks captured now", async () => {
+      const source = new ReplayMailSource(
+        snapshot,
+        new Date("2025-03-20T12:00:00Z"),
+      );
+
+      const sent = await source.listSentItems(1, new Date(0));
+
+      expect(sent[0].dateTimeSent).toBe("2025-03-13T09:00:00.000Z");
+    });
+  });
+
+  describe("Conversations", () => {
+    it("should return conversation messages in chronological order", async () => {
+      const source = new ReplayMailSource(snapshot, now);
+
+      const thread = await source.getConversation("conv-1");
+
+      expect(thread.map((m) => m.id)).toEqual(["sent-1", "reply-1"]);
+      expect(thread[0].isFromCurrentUser).toBe(true);
+      expect(thread[1].isFromCurrentUser).toBe(false);
+      expect(thread[1].receivedDate?.toISOString()).toBe(
+        "2025-03-04T14:00:03.000Z",
+      );
+    });
+
+    it("should use the message id when no conversation id is recorded", async () => {
+      const source = new ReplayMailSource(snapshot, now);
+
+      await expect(source.resolveConversationId("sent-2")).resolves.toBe(
+        "sent-2",
+      );
+      expect((await source.getThreadForItem("sent-2")).length).toBe(1);
+    });
+
+    it("should reject unknown items", async () => {
+      const source = new ReplayMailSource(snapshot, now);
+
+      await expect(source.getThreadForItem("missing")).rejects.toThrow(
+        "Item missing not found in mailbox snapshot",
+      );
+      await expect(source.resolveConversationId("missing")).resolves.toBe(
+        null,
+      );
+    });
+  });
+
+  describe("Loading", () => {
+    it("should validate snapshot JSON", () => {
+      expect(() => ReplayMailSource.fromJson({ messages: [] })).toThrow(
+        "Invalid mailbox snapshot: userEmail is required",
+      );
+      expect(() =>
+        ReplayMailSource.fromJson({
+          userEmail: "test@example.com",
+          messages: [{ id: "x" }],
+        }),
+      ).toThrow("message 0 needs id, from and sentDateTime");
+    });
+
+    it("should infer the mailbox owner from .eml files", () => {
+      const source = loadScenario("eml-thread");
+
+      expect(source.getCurrentUserEmail()).toBe("test@example.com");
+    });
+  });
+
+  describe("Analysis without Outlook", () => {
+    let originalOffice: any;
+
+    beforeEach(() => {
+      originalOffice = (global as any).Office;
+      localStorage.clear();
+    });
+
+    afterEach(() => {
+      (global as any).Office = originalOffice;
+      vi.useRealTimers();
+    });
+
+    it("should still require Outlook when no replay source is set", async () => {
+      (global as any).Office = undefined;
+      const service = new EmailAnalysisService();
+
+      await expect(service.analyzeEmails(25, 30, [])).rejects.toThrow(
+        "Office.context.mailbox is not available",
+      );
+    });
+
+    it("should report the replay source as active", () => {
+      const service = new EmailAnalysisService();
+      service.setMailSource(new ReplayMailSource(snapshot, now));
+
+      expect(service.getMailSourceStatus()).toContainEqual({
+        kind: "replay",
+        available: true,
+        active: true,
+      });
+    });
+
+    // Each fixture folder holds a mailbox (mailbox.json or *.eml) and the follow-ups it should produce
+    const scenarios = fs
+      .readdirSync(SCENARIO_DIR)
+      .filter((name) =>
+        fs.existsSync(path.join(SCENARIO_DIR, name, "expected.json")),
+      );
+
+    it.each(scenarios)("should replay the %s scenario", async (scenario) => {
+      (global as any).Office = undefined;
+      // Business days depend on the weekday, so replay at the capture time (a Monday)
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-03-10T12:00:00Z"));
+      const expected = JSON.parse(
+        fs.readFileSync(
+          path.join(SCENARIO_DIR, scenario, "expected.json"),
+          "utf-8",
+        ),
+      );
+      const service = new EmailAnalysisService(
+        undefined,
+        undefined,
+        loadScenario(scenario),
+      );
+
+      service.setConfiguration({
+        workingCalendar: {
+          workDays: [1, 2, 3, 4, 5],
+          workStart: "09:00",
+          workEnd: "17:00",
+          timeZone: "UTC",
+          holidays: [],
+        },
+      } as Configuration);
+
+      const followups = await service.analyzeEmails(25, 36500, []);
+
+      expect(
+        followups
+          .map((followup) => ({
+            id: followup.id,
+            priority: followup.priority,
+            daysWithoutResponse: followup.daysWithoutResponse,
+          }))
+          .sort((a, b) => a.id.localeCompare(b.id)),
+      ).toEqual(
+        expected.followups
+          .sort((a: any, b: any) => a.id.localeCompare(b.id))
+          .map((followup: any) => expect.objectContaining(followup)),
+      );
+    });
+  });
+});
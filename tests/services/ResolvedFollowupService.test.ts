@@ -0,0 +1,58 @@
+import { ResolvedFollowupService } from "../../src/services/ResolvedFollowupService";
+import { ResolvedFollowup } from "../../src/models/ResolvedFollowup";
+
+describe("ResolvedFollowupService", () => {
+  const entry = (emailId: string, resolvedAt: string): ResolvedFollowup => ({
+    emailId,
+    subject: `Subject ${emailId}`,
+    recipients: ["client@example.com"],
+    sentDate: "2025-03-03T09:00:00.000Z",
+    responder: "client@example.com",
+    respondedAt: "2025-03-04T09:00:00.000Z",
+    responseHours: 24,
+    businessHours: 8,
+    resolvedAt,
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should keep the history newest first across instances", () => {
+    const first = new Date("2025-03-04T10:00:00Z");
+    const second = new Date("2025-03-05T10:00:00Z");
+    new ResolvedFollowupService().record(
+      [entry("a", first.toISOString())],
+      first,
+    );
+    new ResolvedFollowupService().record(
+      [entry("b", second.toISOString())],
+      second,
+    );
+
+    const history = new ResolvedFollowupService();
+
+    expect(history.getHistory().map((item) => item.emailId)).toEqual([
+      "b",
+      "a",
+    ]);
+    expect(history.getLastCheckedAt()).toEqual(second);
+    expect(history.getResolvedSince(first).map((item) => item.emailId)).toEqual(
+      ["b"],
+    );
+  });
+
+  it("should list a thread only once and remember the check after clearing", () => {
+    const checkedAt = new Date("2025-03-05T10:00:00Z");
+    const history = new ResolvedFollowupService();
+    history.record([entry("a", "2025-03-04T10:00:00.000Z")]);
+    history.record([entry("a", checkedAt.toISOString())], checkedAt);
+
+    expect(history.getHistory()).toHaveLength(1);
+
+    history.clear();
+
+    expect(new ResolvedFollowupService().getHistory()).toEqual([]);
+    expect(new ResolvedFollowupService().getLastCheckedAt()).toEqual(checkedAt);
+  });
+});
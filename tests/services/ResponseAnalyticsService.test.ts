@@ -0,0 +1,118 @@
+import { ResponseAnalyticsService } from "../../src/services/ResponseAnalyticsService";
+import { WorkingCalendarService } from "../../src/services/WorkingCalendarService";
+import { ThreadMessage } from "../../src/models/FollowupEmail";
+
+describe("ResponseAnalyticsService", () => {
+  const now = new Date("2025-03-28T12:00:00Z");
+  let counter = 0;
+  const sent = (to: string[], sentDate: string): ThreadMessage => ({
+    id: `m${++counter}`,
+    subject: "Question",
+    from: "Test User <test@example.com>",
+    to,
+    sentDate: new Date(sentDate),
+    body: "",
+    isFromCurrentUser: true,
+  });
+  const reply = (from: string, sentDate: string): ThreadMessage => ({
+    id: `m${++counter}`,
+    subject: "Re: Question",
+    from,
+    to: ["test@example.com"],
+    sentDate: new Date(sentDate),
+    body: "",
+    isFromCurrentUser: false,
+  });
+  const analytics = () =>
+    new ResponseAnalyticsService(
+      new WorkingCalendarService({ timeZone: "UTC" }),
+    );
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should pair messages with the first response of each recipient", () => {
+    const service = analytics();
+    service.recordThread([
+      sent(
+        ["Anna <anna@client.com>", "bob@client.com"],
+        "2025-03-03T09:00:00Z",
+      ),
+      // A reminder before Anna's response is not a new request
+      sent(["anna@client.com"], "2025-03-04T09:00:00Z"),
+      reply("Anna <anna@client.com>", "2025-03-04T13:00:00Z"),
+    ]);
+    // Too recent to count as missed
+    service.recordThread([sent(["bob@client.com"], "2025-03-25T09:00:00Z")]);
+
+    const stats = service.getContactStats(now);
+
+    expect(stats).toEqual([
+      expect.objectContaining({
+        key: "anna@client.com",
+        requests: 1,
+        replies: 1,
+        replyRate: 1,
+      }),
+      expect.objectContaining({
+        key: "bob@client.com",
+        requests: 1,
+        replies: 0,
+        replyRate: 0,
+      }),
+    ]);
+    expect(service.getDomainStats(now)).toEqual([
+      expect.objectContaining({ key: "client.com", requests: 2, replies: 1 }),
+    ]);
+  });
+
+  it("should expect the usual delay in working hours, falling back to the domain", () => {
+    const service = analytics();
+    // Monday to Wednesday mornings, 4, 8 and 12 working hours
+    [
+      ["2025-03-03T09:00:00Z", "2025-03-03T13:00:00Z"],
+      ["2025-03-04T09:00:00Z", "2025-03-05T09:00:00Z"],
+      ["2025-03-05T09:00:00Z", "2025-03-06T13:00:00Z"],
+    ].forEach(([request, response]) =>
+      service.recordThread([
+        sent(["anna@client.com"], request),
+        reply("anna@client.com", response),
+      ]),
+    );
+
+    expect(service.getExpectedResponseHours(["anna@client.com"], now)).toBe(8);
+    expect(service.getExpectedResponseHours(["new@client.com"], now)).toBe(8);
+    expect(
+      service.getExpectedResponseHours(["someone@else.com"], now),
+    ).toBeUndefined();
+  });
+
+  it("should report a trend once there are recent and older responses", () => {
+    const service = analytics();
+    [
+      ["2025-01-06T09:00:00Z", "2025-01-08T09:00:00Z"],
+      ["2025-01-13T09:00:00Z", "2025-01-15T09:00:00Z"],
+      ["2025-03-17T09:00:00Z", "2025-03-17T11:00:00Z"],
+      ["2025-03-18T09:00:00Z", "2025-03-18T11:00:00Z"],
+    ].forEach(([request, response]) =>
+      service.recordThread([
+        sent(["anna@client.com"], request),
+        reply("anna@client.com", response),
+      ]),
+    );
+
+    expect(service.getContactStats(now)[0].trend).toBe("faster");
+  });
+
+  it("should keep responses across sessions once saved", () => {
+    const service = analytics();
+    service.recordThread([
+      sent(["anna@client.com"], "2025-03-03T09:00:00Z"),
+      reply("anna@client.com", "2025-03-03T10:00:00Z"),
+    ]);
+    service.save(now);
+
+    expect(analytics().getContactStats(now)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { StructuredOutputParser } from "../../src/services/StructuredOutputParser";
+import {
+  FOLLOWUP_SUGGESTIONS_TASK,
+  FOLLOWUP_ANALYSIS_TASK,
+} from "../../src/services/LlmSchemas";
+
+describe("StructuredOutputParser", () => {
+  const parser = new StructuredOutputParser();
+
+  describe("parse", () => {
+    it("should accept JSON surrounded by prose", () => {
+      const result = parser.parse(
+        'Here you go:\n{"suggestions": ["Ping"]}\nHope this helps.',
+        FOLLOWUP_SUGGESTIONS_TASK,
+      );
+
+      expect(result).toEqual({ ok: true, value: { suggestions: ["Ping"] } });
+    });
+
+    it("should report invalid JSON", () => {
+      const result = parser.parse("1. Ping", FOLLOWUP_SUGGESTIONS_TASK);
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors[0]).toMatch(
+        /^response is not valid JSON/,
+      );
+    });
+
+    it("should report every schema violation with its path", () => {
+      const result = parser.parse(
+        JSON.stringify({
+          summary: "",
+          sentiment: "angry",
+          urgency: "low",
+          needs_followup: "yes",
+          next_step: "Ping Anna",
+          drafts: ["Ping", 3],
+        }),
+        FOLLOWUP_ANALYSIS_TASK,
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        errors: [
+          "$.followup_reason is required",
+          "$.summary must not be empty",
+          "$.sentiment must be one of positive, neutral, negative, urgent",
+          "$.needs_followup must be a boolean",
+          "$.drafts[1] must be a string",
+        ],
+      });
+    });
+  });
+
+  describe("readPartialString", () => {
+    it("should read the first array element as it streams", () => {
+      expect(parser.readPartialString('{"sugg', "suggestions")).toBe("");
+      expect(
+        parser.readPartialString(
+          '{"suggestions": ["Ping the cl',
+          "suggestions",
+        ),
+      ).toBe("Ping the cl");
+      expect(
+        parser.readPartialString(
+          '{"suggestions": ["Ping", "Wait"]}',
+          "suggestions",
+        ),
+      ).toBe("Ping");
+    });
+
+    it("should decode escapes and wait for incomplete ones", () => {
+      expect(parser.readPartialString('{"summary": "a\\nb\\', "summary")).toBe(
+        "a\nb",
+      );
+      expect(
+        parser.readPartialString('{"summary": "caf\\u00e', "summary"),
+      ).toBe("caf");
+      expect(
+        parser.readPartialString('{"summary": "caf\\u00e9"}', "summary"),
+      ).toBe("café");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { TieredCacheService } from "../../src/services/TieredCacheService";
+
+// IndexedDB is not available in the test environment; keep its records in a map per database
+const databases = vi.hoisted(() => new Map<string, Map<string, any>>());
+vi.mock("../../src/services/IndexedDbStore", () => ({
+  IndexedDbStore: class {
+    private records: Map<string, any>;
+    constructor(name: string) {
+      this.records = databases.get(name) ?? new Map();
+      databases.set(name, this.records);
+    }
+    static isSupported() {
+      return true;
+    }
+    async getAll() {
+      return structuredClone(Array.from(this.records.values()));
+    }
+    async get(_store: string, key: string) {
+      return structuredClone(this.records.get(key));
+    }
+    async putAll(_store: string, values: any[]) {
+      values.forEach((value) =>
+        this.records.set(value.key, structuredClone(value)),
+      );
+    }
+    async deleteAll(_store: string, keys: string[]) {
+      keys.forEach((key) => this.records.delete(key));
+    }
+    async clear() {
+      this.records.clear();
+    }
+  },
+}));
+
+describe("TieredCacheService", () => {
+  const caches: TieredCacheService[] = [];
+  const createCache = (schemaVersion = 1) => {
+    const cache = new TieredCacheService(
+      "test-cache",
+      schemaVersion,
+      (key) => key.startsWith("thread:"),
+      { enableContentHashing: true },
+    );
+    caches.push(cache);
+    return cache;
+  };
+
+  beforeEach(() => {
+    databases.clear();
+  });
+
+  afterEach(() => {
+    caches.splice(0).forEach((cache) => cache.destroy());
+    vi.useRealTimers();
+  });
+
+  it("should keep persisted entries across restarts", async () => {
+    const thread = [{ id: "a", sentDate: new Date("2025-03-03T09:00:00Z") }];
+    const first = createCache();
+    first.set("thread:a", thread);
+    first.set("sentiment:a", "positive");
+    await first.flush();
+
+    const second = createCache();
+    await second.load();
+
+    expect(second.get("thread:a")).toEqual(thread);
+    expect(second.get("sentiment:a")).toBeNull();
+    expect(second.getStats()).toMatchObject({ totalHits: 1, totalMisses: 1 });
+  });
+
+  it("should drop expired entries and those of another schema version", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-03-03T09:00:00Z"));
+    const first = createCache();
+    first.set("thread:short", "expires", 1000);
+    first.set("thread:long", "stays");
+    await first.flush();
+
+    vi.setSystemTime(new Date("2025-03-03T09:00:05Z"));
+    const sameVersion = createCache();
+    await sameVersion.load();
+    expect(sameVersion.get("thread:short")).toBeNull();
+    expect(sameVersion.get("thread:long")).toBe("stays");
+    expect(Array.from(databases.get("test-cache")!.keys())).toEqual([
+      "thread:long",
+    ]);
+
+    const newVersion = createCache(2);
+    await newVersion.load();
+    expect(newVersion.get("thread:long")).toBeNull();
+  });
+
+  it("should reject persisted entries that fail the integrity check", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const first = createCache();
+    first.set("thread:a", "original");
+    await first.flush();
+    databases.get("test-cache")!.get("thread:a").entry.data = "tampered";
+
+    const second = createCache();
+    await second.load();
+
+    expect(second.get("thread:a")).toBeNull();
+    expect(warn).toHaveBeenCalledWith(
+      "Cache integrity check failed for key: thread:a",
+    );
+    await second.flush();
+    expect(databases.get("test-cache")!.size).toBe(0);
+    warn.mockRestore();
+  });
+
+  it("should read entries evicted from memory back from storage", async () => {
+    const cache = createCache();
+    cache.set("thread:a", ["a"]);
+    await cache.flush();
+    // Only L1 holds the value once it is written
+    expect((cache as any).persistent.pending.size).toBe(0);
+
+    (cache as any).memory.invalidate("thread:a");
+    expect(cache.get("thread:a")).toBeNull();
+    await vi.waitFor(() => expect(cache.get("thread:a")).toEqual(["a"]));
+  });
+
+  it("should delete invalidated entries from storage", async () => {
+    const cache = createCache();
+    cache.set("thread:a", "a");
+    cache.set("thread:b", "b");
+    await cache.flush();
+
+    expect(cache.bulkInvalidate(/^thread:a/)).toBe(1);
+    await cache.flush();
+
+    expect(Array.from(databases.get("test-cache")!.keys())).toEqual([
+      "thread:b",
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { WorkingCalendarService } from "../../src/services/WorkingCalendarService";
+
+describe("WorkingCalendarService", () => {
+  const utc = (overrides = {}) =>
+    new WorkingCalendarService({ timeZone: "UTC", ...overrides });
+
+  it("should not count weekends and evenings", () => {
+    // Friday 18:00 to Monday 10:00
+    const waiting = utc().getWaitingTime(
+      new Date("2025-03-07T18:00:00Z"),
+      new Date("2025-03-10T10:00:00Z"),
+    );
+
+    expect(waiting).toEqual({ days: 0, hours: 1 });
+  });
+
+  it("should count full working days as business days", () => {
+    const calendar = utc();
+
+    // Monday 10:00 to Thursday 12:00: 7 + 8 + 8 + 3 hours
+    expect(
+      calendar.getBusinessHoursBetween(
+        new Date("2025-03-03T10:00:00Z"),
+        new Date("2025-03-06T12:00:00Z"),
+      ),
+    ).toBe(26);
+    expect(
+      calendar.getWaitingTime(
+        new Date("2025-03-03T10:00:00Z"),
+        new Date("2025-03-06T12:00:00Z"),
+      ).days,
+    ).toBe(3);
+  });
+
+  it("should skip holidays and follow a custom work week", () => {
+    const calendar = utc({
+      workDays: [0, 1, 2, 3, 4],
+      workStart: "08:00",
+      workEnd: "14:00",
+      holidays: ["2025-03-04"],
+    });
+
+    // Sunday 08:00 to Wednesday 14:00 without Tuesday
+    expect(
+      calendar.getWaitingTime(
+        new Date("2025-03-02T08:00:00Z"),
+        new Date("2025-03-05T14:00:00Z"),
+      ),
+    ).toEqual({ days: 3, hours: 18 });
+  });
+
+  it("should read working hours in the configured time zone", () => {
+    const calendar = new WorkingCalendarService({ timeZone: "Asia/Tokyo" });
+
+    // 00:00-08:00 UTC is 09:00-17:00 in Tokyo
+    expect(
+      calendar.getBusinessHoursBetween(
+        new Date("2025-03-10T00:00:00Z"),
+        new Date("2025-03-10T12:00:00Z"),
+      ),
+    ).toBe(8);
+  });
+
+  it("should validate settings", () => {
+    expect(
+      WorkingCalendarService.validate({
+        workDays: [],
+        workStart: "17:00",
+        workEnd: "9:00",
+        timeZone: "Mars/Olympus",
+        holidays: ["25.12.2025"],
+      }),
+    ).toEqual([
+      "Select at least one work day",
+      "Working hours must end after they start",
+      "Unknown time zone Mars/Olympus",
+      "Holiday 25.12.2025 is not a YYYY-MM-DD date",
+    ]);
+  });
+
+  it("should import holidays from an .ics file", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Christmas",
+      "DTSTART;VALUE=DATE:20251225",
+      "DTEND;VALUE=DATE:20251227",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Company off-site with a summary long enough to be",
+      "  folded",
+      "DTSTART;TZID=Europe/Berlin:20250901T090000",
+      "DTEND;TZID=Europe/Berlin:20250901T170000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    expect(WorkingCalendarService.parseIcs(ics)).toEqual([
+      "2025-09-01",
+      "2025-12-25",
+      "2025-12-26",
+    ]);
+    expect(() => WorkingCalendarService.parseIcs("not a calendar")).toThrow(
+      "Invalid calendar file: missing BEGIN:VCALENDAR",
+    );
+  });
+});
@@ -115,6 +115,61 @@ describe("XmlParsingService", () => {
     });
   });
 
+  describe("SyncFolderItems Response Parsing", () => {
+    it("should parse created, updated and deleted items", () => {
+      const response = `<?xml version="1.0" encoding="utf-8"?>
+<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
+    <s:Body>
+        <m:SyncFolderItemsResponse xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages" xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+            <m:ResponseMessages>
+                <m:SyncFolderItemsResponseMessage ResponseClass="Success">
+                    <m:ResponseCode>NoError</m:ResponseCode>
+                    <m:SyncState>H4sIAAAAAAAEAO29B2AcSZY</m:SyncState>
+                    <m:IncludesLastItemInRange>false</m:IncludesLastItemInRange>
+                    <m:Changes>
+                        <t:Create>
+                            <t:Message>
+                                <t:ItemId Id="new-id" ChangeKey="a"/>
+                                <t:Subject>New</t:Subject>
+                                <t:DateTimeSent>2024-01-15T10:30:00Z</t:DateTimeSent>
+                                <t:ConversationId Id="conv-1"/>
+                            </t:Message>
+                        </t:Create>
+                        <t:Update>
+                            <t:Message>
+                                <t:ItemId Id="updated-id" ChangeKey="b"/>
+                                <t:Subject>Updated</t:Subject>
+                                <t:DateTimeSent>2024-01-14T10:30:00Z</t:DateTimeSent>
+                                <t:ConversationId Id="conv-2"/>
+                            </t:Message>
+                        </t:Update>
+                        <t:ReadFlagChange>
+                            <t:ItemId Id="read-id" ChangeKey="c"/>
+                            <t:IsRead>true</t:IsRead>
+                        </t:ReadFlagChange>
+                        <t:Delete>
+                            <t:ItemId Id="deleted-id" ChangeKey="d"/>
+                        </t:Delete>
+                    </m:Changes>
+                </m:SyncFolderItemsResponseMessage>
+            </m:ResponseMessages>
+        </m:SyncFolderItemsResponse>
+    </s:Body>
+</s:Envelope>`;
+
+      const changes = xmlParsingService.parseSyncFolderItemsResponse(response);
+
+      expect(changes.syncState).toBe("H4sIAAAAAAAEAO29B2AcSZY");
+      expect(changes.includesLastItemInRange).toBe(false);
+      expect(changes.changed.map((email) => email.id)).toEqual([
+        "new-id",
+        "updated-id",
+      ]);
+      expect(changes.changed[0].conversationId).toBe("conv-1");
+      expect(changes.deletedIds).toEqual(["deleted-id"]);
+    });
+  });
+
   describe("GetConversationItems Response Parsing", () => {
     const conversationResponse = `<?xml version="1.0" encoding="utf-8"?>
 <s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
@@ -156,10 +211,11 @@ describe("XmlParsingService", () => {
 
     it("should parse conversation response correctly", () => {
       const currentUserEmail = "user@company.com";
-      const threadMessages = xmlParsingService.parseGetConversationItemsResponse(
-        conversationResponse,
-        currentUserEmail,
-      );
+      const threadMessages =
+        xmlParsingService.parseGetConversationItemsResponse(
+          conversationResponse,
+          currentUserEmail,
+        );
 
       expect(threadMessages).toHaveLength(1);
 
@@ -99,8 +99,17 @@ describe("AppController", () => {
     // Initialize services mocks
     mockEmailService = EmailAnalysisService.prototype;
     mockEmailService.analyzeEmails = vi.fn().mockResolvedValue([]);
+    mockEmailService.streamFollowups = vi.fn(async function* (...args: any[]) {
+      return await mockEmailService.analyzeEmails(...args);
+    });
     mockEmailService.setConfiguration = vi.fn();
     mockEmailService.setLlmService = vi.fn();
+    mockEmailService.resolveExpiredSnoozes = vi.fn().mockResolvedValue([]);
+    mockEmailService.getNextSnoozeExpiry = vi.fn().mockReturnValue(undefined);
+    mockEmailService.getMailSourceStatus = vi.fn().mockReturnValue([
+      { kind: "ews", available: true, active: true },
+      { kind: "graph", available: false, active: false },
+    ]);
 
     mockConfigService = ConfigurationService.prototype;
     mockConfigService.getConfiguration = vi.fn().mockResolvedValue({
@@ -159,6 +168,105 @@ describe("AppController", () => {
     expect(mockUiService.setLoadingState).toHaveBeenCalledWith(false);
   });
 
+  it("should queue AI enrichment for follow-ups found by background analysis", async () => {
+    const followup = (id: string, subject: string): FollowupEmail =>
+      ({
+        id,
+        subject,
+        priority: "medium",
+        sentDate: new Date(),
+        recipients: [],
+        body: "",
+        summary: "",
+        daysWithoutResponse: 2,
+        hasAttachments: false,
+        accountEmail: "",
+        threadMessages: [],
+        isSnoozed: false,
+        isDismissed: false,
+      }) as FollowupEmail;
+    const refreshed = [followup("2", "Changed"), followup("3", "New")];
+    mockEmailService.analyzeEmails.mockResolvedValue(refreshed);
+    (appController as any).allEmails = [
+      followup("1", "Answered"),
+      followup("2", "Original"),
+    ];
+    (appController as any).llmService = {};
+    const queue = (appController as any).enrichmentQueue;
+    const enqueue = vi.spyOn(queue, "enqueue").mockImplementation(() => {});
+    const remove = vi.spyOn(queue, "remove");
+
+    await (appController as any).runBackgroundAnalysis();
+
+    expect(remove).toHaveBeenCalledWith(["1"]);
+    expect(enqueue).toHaveBeenCalledWith(refreshed);
+  });
+
+  it("should put AI results on the refreshed follow-ups when a background analysis ends during enrichment", async () => {
+    const followup = (): FollowupEmail =>
+      ({
+        id: "1",
+        subject: "Proposal",
+        priority: "medium",
+        sentDate: new Date(),
+        recipients: [],
+        body: "",
+        summary: "",
+        daysWithoutResponse: 2,
+        hasAttachments: false,
+        accountEmail: "",
+        threadMessages: [],
+        isSnoozed: false,
+        isDismissed: false,
+      }) as FollowupEmail;
+    const finish: (() => void)[] = [];
+    (appController as any).emailAnalysisService.streamLlmInsights = vi.fn(
+      (email: FollowupEmail) =>
+        new Promise<void>((resolve) =>
+          finish.push(() => {
+            email.llmSummary = "Waiting on the signed proposal";
+            resolve();
+          }),
+        ),
+    );
+    const original = followup();
+    const refreshed = followup();
+    (appController as any).llmService = {};
+    (appController as any).allEmails = [original];
+    (appController as any).enrichmentQueue.enqueue([original]);
+    mockEmailService.analyzeEmails.mockResolvedValue([refreshed]);
+
+    await (appController as any).runBackgroundAnalysis();
+    finish[finish.length - 1]();
+    await (appController as any).enrichmentQueue.whenIdle();
+
+    expect((appController as any).allEmails[0]).toBe(refreshed);
+    expect(refreshed.llmSummary).toBe("Waiting on the signed proposal");
+  });
+
+  it("should let a manual analysis wait for a running background analysis", async () => {
+    let finishBackground: (emails: FollowupEmail[]) => void = () => {};
+    mockEmailService.analyzeEmails.mockImplementationOnce(
+      () => new Promise((resolve) => (finishBackground = resolve)),
+    );
+
+    const background = (appController as any).runBackgroundAnalysis();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(mockUiService.analyzeButton.disabled).toBe(true);
+
+    const manual = (appController as any).analyzeEmails();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(mockEmailService.analyzeEmails).toHaveBeenCalledTimes(1);
+    expect(await (appController as any).runBackgroundAnalysis()).toBeNull();
+
+    finishBackground([]);
+    // The manual run replaces the background result
+    expect(await background).toBeNull();
+    await manual;
+    expect(mockEmailService.analyzeEmails).toHaveBeenCalledTimes(2);
+    expect(mockUiService.analyzeButton.disabled).toBe(false);
+  });
+
   it("should filter emails correctly", async () => {
     const mockEmails: FollowupEmail[] = [
       {